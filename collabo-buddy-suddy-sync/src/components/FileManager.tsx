@@ -1,337 +1,1681 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Upload, Folder, File, Download, Trash2, MoreVertical, Search, Grid, List, Eye, FileText, Image, Video, Archive, Music, Plus, X } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { Upload, Folder, File as FileIcon, Download, Trash2, Link2, MoreVertical, Search, Grid, List, FileText, Image, Plus, X, PanelLeftClose, PanelLeftOpen, Pencil, Shield, Lock, FileSearch, Loader2, HardDrive, Activity, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
 import { useTheme } from '@/hooks/useTheme';
+import { useUploadQueue, UploadQueueItem, UploadRequest } from '@/hooks/useUploadQueue';
+import { useFileSelection } from '@/hooks/useFileSelection';
+import { useFolderAccess } from '@/hooks/useFolderAccess';
+import { useFileSync } from '@/hooks/useFileSync';
+import { useContentSearch } from '@/hooks/useContentSearch';
+import { useUrlViewState } from '@/hooks/useUrlViewState';
+import { useFileComments } from '@/hooks/useFileComments';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { PendingResumableUpload } from '@/lib/files/resumableUpload';
+import { FileEncryption, FileItem, FolderItem } from '@/lib/files/types';
+import { listFolder, findExistingNames, findAvailableName, findFileObject, readUpdatedAt } from '@/lib/files/storage';
+import { StorageAdapter, StorageEntry } from '@/lib/files/storageAdapter';
+import { createSupabaseStorageAdapter } from '@/lib/files/supabaseStorageAdapter';
+import { joinPath, getParentPath, getBaseName, isSameOrDescendant } from '@/lib/files/paths';
+import { validateFolderName, createFolder, renameFolder, deleteFolder } from '@/lib/files/folders';
+import { FileStats, EMPTY_FILE_STATS, fetchFileStats } from '@/lib/files/stats';
+import { FileMetadata, FileMetadataChanges, PartialMoveError, fetchMetadata, recordUpload, recordEncryption, updateMetadata } from '@/lib/files/metadata';
+import { DEFAULT_TRASH_RETENTION_DAYS, moveToTrash, purgeExpiredTrash } from '@/lib/files/trash';
+import { moveFile, renameFile, duplicateFile } from '@/lib/files/fileOperations';
+import { BatchResult, runBatch } from '@/lib/files/batch';
+import { FileChangeEvent, FileSyncChannel } from '@/lib/files/realtime';
+import { FileCategory, getFileCategory } from '@/lib/files/fileTypes';
+import { createThumbnail, getThumbnailKind, getThumbnailUrls } from '@/lib/files/thumbnails';
+import { getContentPreviewKind } from '@/lib/files/preview';
+import { backfillThumbnails } from '@/lib/files/thumbnailBackfill';
+import { indexFileContent, reindexFileContent, backfillContentIndex } from '@/lib/files/contentIndex';
+import { parseSearchQuery, hasSearchFilters, matchesSearchFilters, matchesSearchText } from '@/lib/files/searchQuery';
+import { sortFiles, sortFolders, toggleSort } from '@/lib/files/sorting';
+import { QuotaUsage, fetchQuotaUsage, checkQuotas, describeQuota } from '@/lib/files/quotas';
+import { logActivity, describeActivityError } from '@/lib/files/activityLog';
+import { CommentCount, fetchCommentCounts } from '@/lib/files/comments';
+import { cacheListing, readCachedListing, removeFromCachedListing, planReplay } from '@/lib/files/offline';
+import { HashedFile, hashFile, recordContentHash, findFilesByHash, createFileLink } from '@/lib/files/contentHash';
+import {
+  EncryptedFolder,
+  DECRYPTED_URL_LIFETIME_MS,
+  hasUserKey,
+  isUserKeyUnlocked,
+  findEncryptedFolder,
+  encryptFile,
+  toFileEncryption,
+  fetchDecrypted,
+  encryptFolderFiles
+} from '@/lib/files/encryption';
+import {
+  UploadPolicy,
+  DEFAULT_UPLOAD_POLICY,
+  screenUploads,
+  getAcceptedExtensions,
+  describeAllowedTypes
+} from '@/lib/files/uploadPolicy';
+import { FolderTree } from './file-manager/FolderTree';
+import { FolderBreadcrumbs } from './file-manager/FolderBreadcrumbs';
+import { ConfirmDialog } from './file-manager/ConfirmDialog';
+import { FileCard } from './file-manager/FileCard';
+import { FileListRow } from './file-manager/FileListRow';
+import { VirtualFileView } from './file-manager/VirtualFileView';
+import { UploadQueuePanel } from './file-manager/UploadQueuePanel';
+import { ConflictDialog, ConflictResolution } from './file-manager/ConflictDialog';
+import { VersionHistory } from './file-manager/VersionHistory';
+import { EditTagsDialog } from './file-manager/EditTagsDialog';
+import { FileDetailsEditor } from './file-manager/FileDetailsEditor';
+import { TrashView } from './file-manager/TrashView';
+import { BatchActionBar } from './file-manager/BatchActionBar';
+import { FolderPickerDialog } from './file-manager/FolderPickerDialog';
+import { AddTagsDialog } from './file-manager/AddTagsDialog';
+import { BatchReportDialog, BatchReport } from './file-manager/BatchReportDialog';
+import { RenameFileDialog } from './file-manager/RenameFileDialog';
+import { setDraggedFilePaths } from './file-manager/fileDrag';
+import { ShareFileDialog } from './file-manager/ShareFileDialog';
+import { ShareLinksPanel } from './file-manager/ShareLinksPanel';
+import { FolderPermissionsDialog } from './file-manager/FolderPermissionsDialog';
+import { FolderViewers } from './file-manager/FolderViewers';
+import { BackfillDialog } from './file-manager/BackfillDialog';
+import { FileSortHeader } from './file-manager/FileSortHeader';
+import { TypeFilterChips } from './file-manager/TypeFilterChips';
+import { StorageUsagePanel } from './file-manager/StorageUsagePanel';
+import { QuotaBanner } from './file-manager/QuotaBanner';
+import { formatFileSize } from './file-manager/fileDisplay';
+import { FileContentPreview } from './file-manager/FileContentPreview';
+import { ActivityLogPanel } from './file-manager/ActivityLogPanel';
+import { FileActivityList } from './file-manager/FileActivityList';
+import { FileCommentsPanel } from './file-manager/FileCommentsPanel';
+import { ImageCommentPins } from './file-manager/ImageCommentPins';
+import { OfflineIndicator } from './file-manager/OfflineIndicator';
+import { OfflineSyncReportDialog, OfflineSyncConflict } from './file-manager/OfflineSyncReportDialog';
+import { EncryptionKeyDialog } from './file-manager/EncryptionKeyDialog';
+import { FolderEncryptionDialog } from './file-manager/FolderEncryptionDialog';
+import { DuplicateUploadDialog, DuplicateUpload, DuplicateChoice } from './file-manager/DuplicateUploadDialog';
+import { DuplicatesPanel } from './file-manager/DuplicatesPanel';
 
-interface FileItem {
-  id: string;
-  name: string;
-  size: number;
-  type: string;
-  uploadedAt: Date;
-  uploadedBy: string;
-  folder?: string;
-  tags: string[];
-  url?: string;
-  path?: string;
+interface PendingConflict {
+  fileName: string;
+  folderPath: string;
+  remainingCount: number;
+  resolve: (answer: { resolution: ConflictResolution; applyToAll: boolean }) => void;
 }
 
+interface PendingKeyPrompt {
+  mode: 'create' | 'unlock';
+  resolve: (unlocked: boolean) => void;
+}
+
+interface PendingDuplicates {
+  duplicates: DuplicateUpload[];
+  resolve: (choices: DuplicateChoice[]) => void;
+}
+
+const defaultStorage = createSupabaseStorageAdapter();
+
+// What the main column shows next to the folder sidebar
+type ActivePanel = 'files' | 'trash' | 'share-links' | 'usage' | 'activity' | 'duplicates';
+
 interface FileManagerProps {
   onFileUpload?: (files: File[]) => void;
   onFileDelete?: (fileId: string) => void;
   onFileDownload?: (fileId: string) => void;
+  onFileRename?: (oldPath: string, newPath: string) => void;
+  onFileMove?: (oldPath: string, newPath: string) => void;
+  onFileDuplicate?: (sourcePath: string, newPath: string) => void;
   onFolderCreate?: (folderName: string) => void;
+  onFolderRename?: (oldPath: string, newPath: string) => void;
+  onFolderDelete?: (folderPath: string) => void;
+  maxConcurrentUploads?: number;
+  // Files at or above this many bytes use resumable uploads
+  resumableUploadThreshold?: number;
+  // Trashed files older than this are deleted permanently
+  trashRetentionDays?: number;
+  // What may be uploaded; checked in the browser before anything is sent
+  uploadPolicy?: UploadPolicy;
+  // Opens the realtime channel of a folder, used to sync with other users.
+  // Defaults to Supabase Realtime; must be stable across renders.
+  createSyncChannel?: (folderPath: string) => FileSyncChannel;
+  // Where file contents are kept. Defaults to the Supabase bucket; must be
+  // stable across renders.
+  storage?: StorageAdapter;
 }
 
 export const FileManager: React.FC<FileManagerProps> = ({
   onFileUpload,
   onFileDelete,
   onFileDownload,
-  onFolderCreate
+  onFileRename,
+  onFileMove,
+  onFileDuplicate,
+  onFolderCreate,
+  onFolderRename,
+  onFolderDelete,
+  maxConcurrentUploads = 3,
+  resumableUploadThreshold,
+  trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS,
+  uploadPolicy = DEFAULT_UPLOAD_POLICY,
+  createSyncChannel,
+  storage = defaultStorage
 }) => {
   const [files, setFiles] = useState<FileItem[]>([]);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedFolder, setSelectedFolder] = useState<string>('all');
+  // Folder, search, sort, type filters and layout live in the URL
+  const [viewState, updateViewState] = useUrlViewState();
+  const { folder: currentPath, query: searchQuery, viewMode, sort, types: typeFilters } = viewState;
+  const [folders, setFolders] = useState<FolderItem[]>([]);
+  const [showSidebar, setShowSidebar] = useState(true);
+  const [folderTreeKey, setFolderTreeKey] = useState(0);
   const [showUploadArea, setShowUploadArea] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const [taggingFile, setTaggingFile] = useState<FileItem | null>(null);
+  const [deletingFile, setDeletingFile] = useState<FileItem | null>(null);
+  const [renamingFile, setRenamingFile] = useState<FileItem | null>(null);
+  const [movingFile, setMovingFile] = useState<FileItem | null>(null);
+  const [isDeletingFile, setIsDeletingFile] = useState(false);
+  const [activePanel, setActivePanel] = useState<ActivePanel>('files');
+  const [activityRefreshKey, setActivityRefreshKey] = useState(0);
+  const [sharingFile, setSharingFile] = useState<FileItem | null>(null);
+  const [isBatchBusy, setIsBatchBusy] = useState(false);
+  const [confirmBatchDelete, setConfirmBatchDelete] = useState(false);
+  const [showBatchMove, setShowBatchMove] = useState(false);
+  const [showBatchTags, setShowBatchTags] = useState(false);
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
   const [viewingFile, setViewingFile] = useState<FileItem | null>(null);
   const [showFolderDialog, setShowFolderDialog] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
+  const [renamingFolder, setRenamingFolder] = useState<FolderItem | null>(null);
+  const [deletingFolder, setDeletingFolder] = useState<FolderItem | null>(null);
+  const [permissionsFolder, setPermissionsFolder] = useState<FolderItem | null>(null);
+  const [showThumbnailBackfill, setShowThumbnailBackfill] = useState(false);
+  const [showContentIndexBackfill, setShowContentIndexBackfill] = useState(false);
+  const [isFolderBusy, setIsFolderBusy] = useState(false);
+  const [fileStats, setFileStats] = useState<FileStats>(EMPTY_FILE_STATS);
+  // Quotas an upload into the open folder counts against
+  const [folderQuotas, setFolderQuotas] = useState<QuotaUsage[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Set while the listing on screen is the copy saved for offline use
+  const [cachedListingAt, setCachedListingAt] = useState<Date | null>(null);
+  const [isReplayingOffline, setIsReplayingOffline] = useState(false);
+  const [offlineSyncReport, setOfflineSyncReport] = useState<{ syncedCount: number; conflicts: OfflineSyncConflict[] } | null>(null);
+  const [pendingKeyPrompt, setPendingKeyPrompt] = useState<PendingKeyPrompt | null>(null);
+  const [encryptionFolder, setEncryptionFolder] = useState<FolderItem | null>(null);
+  const [encryptingFolder, setEncryptingFolder] = useState<EncryptedFolder | null>(null);
+  const [pendingDuplicates, setPendingDuplicates] = useState<PendingDuplicates | null>(null);
   
   const { toast } = useToast();
   const { user } = useAuth();
   const { theme } = useTheme();
+  // Decides which actions are offered; storage RLS enforces the same roles
+  const folderAccess = useFolderAccess(currentPath);
+  const isOnline = useOnlineStatus();
+  const offlineQueue = useOfflineQueue();
+
+  // Guards against a slow page for a folder we've already navigated away from
+  const activePathRef = useRef(currentPath);
+  // dragenter/dragleave fire for every child element, so count them
+  const dragDepthRef = useRef(0);
+  // Object URLs of decrypted previews, which are freed when the preview moves on
+  const decryptedUrlsRef = useRef(new Set<string>());
+
+  // Load the contents of the open folder from Supabase storage
+  useEffect(() => {
+    loadFiles(currentPath);
+  }, [currentPath]);
+
+  const toFileItem = (
+    folderPath: string,
+    file: StorageEntry,
+    metadata?: FileMetadata,
+    thumbnailUrl?: string,
+    commentCount?: CommentCount
+  ): FileItem => {
+    const filePath = joinPath(folderPath, file.name);
+    return {
+      id: file.id || filePath,
+      name: file.name,
+      // A link's own object is empty, so it shows the size of what it points at
+      size: metadata?.linkTarget ? (metadata.contentSize ?? file.size) : file.size,
+      type: getFileCategory(file.name, file.mimeType),
+      uploadedAt: new Date(file.updatedAt || Date.now()),
+      uploadedBy: metadata?.uploadedByEmail || 'Unknown',
+      folder: getFolderFromPath(filePath),
+      tags: metadata?.tags || [],
+      description: metadata?.description,
+      customFields: metadata?.customFields,
+      thumbnailUrl,
+      commentCount,
+      encryption: metadata?.encryption || undefined,
+      linkTarget: metadata?.linkTarget || undefined,
+      path: filePath
+    };
+  };
+
+  // Joins a page of storage objects with their rows in file_metadata, their
+  // thumbnails and how many comments they have
+  const toFileItemsWithMetadata = async (folderPath: string, objects: StorageEntry[]): Promise<FileItem[]> => {
+    const paths = objects.map(file => joinPath(folderPath, file.name));
+    const thumbnailPaths = objects
+      .filter(file => getThumbnailKind(file.name, file.mimeType) !== null)
+      .map(file => joinPath(folderPath, file.name));
+
+    const [metadata, thumbnailUrls, commentCounts] = await Promise.all([
+      fetchMetadata(paths).catch(error => {
+        console.error('Error loading file metadata:', error);
+        return new Map<string, FileMetadata>();
+      }),
+      getThumbnailUrls(storage, thumbnailPaths).catch(error => {
+        console.error('Error loading thumbnails:', error);
+        return new Map<string, string>();
+      }),
+      fetchCommentCounts(paths).catch(error => {
+        console.error('Error loading comment counts:', error);
+        return new Map<string, CommentCount>();
+      })
+    ]);
+
+    // Links show the thumbnail of the file they point at
+    const linkTargets = paths
+      .map(path => metadata.get(path)?.linkTarget)
+      .filter((target): target is string => !!target && getThumbnailKind(getBaseName(target)) !== null);
+    if (linkTargets.length > 0) {
+      try {
+        (await getThumbnailUrls(storage, linkTargets)).forEach((url, target) => thumbnailUrls.set(target, url));
+      } catch (error) {
+        console.error('Error loading thumbnails:', error);
+      }
+    }
+
+    return objects.map((file, index) => {
+      const path = paths[index];
+      const thumbnailUrl = thumbnailUrls.get(metadata.get(path)?.linkTarget || path);
+      return toFileItem(folderPath, file, metadata.get(path), thumbnailUrl, commentCounts.get(path));
+    });
+  };
+
+  const loadFiles = async (path: string) => {
+    activePathRef.current = path;
+    try {
+      const page = await listFolder(storage, path);
+      const fileItems = await toFileItemsWithMetadata(path, page.objects);
+      if (activePathRef.current !== path) return;
+
+      setFolders(page.folders);
+      setFiles(fileItems);
+      setNextOffset(page.nextOffset);
+      setCachedListingAt(null);
+      if (user) {
+        cacheListing(user.id, path, { folders: page.folders, files: fileItems }).catch(error => {
+          console.error('Error saving folder for offline use:', error);
+        });
+      }
+    } catch (error) {
+      console.error('Error loading files:', error);
+      await showCachedListing(path);
+    }
+  };
+
+  // Falls back to the copy saved the last time this folder was opened here
+  const showCachedListing = async (path: string) => {
+    const listing = user ? await readCachedListing(user.id, path).catch(() => null) : null;
+    if (activePathRef.current !== path) return;
+
+    setFolders(listing?.folders || []);
+    setFiles(listing?.files || []);
+    setNextOffset(null);
+    setCachedListingAt(listing?.cachedAt || null);
+    if (!listing) {
+      toast({
+        title: "Folder Unavailable",
+        description: navigator.onLine
+          ? "The files in this folder could not be loaded"
+          : "This folder hasn't been opened on this device before, so there is no saved copy to show offline",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadMoreFiles = useCallback(async () => {
+    if (nextOffset === null || isLoadingMore) return;
+
+    const path = currentPath;
+    setIsLoadingMore(true);
+    try {
+      const page = await listFolder(storage, path, { offset: nextOffset });
+      const fileItems = await toFileItemsWithMetadata(path, page.objects);
+      if (activePathRef.current !== path) return;
+
+      setFolders(prev => [...prev, ...page.folders]);
+      // A file found by content search may already have been added ahead of its page
+      const pagePaths = new Set(fileItems.map(file => file.path));
+      setFiles(prev => [...prev.filter(file => !pagePaths.has(file.path)), ...fileItems]);
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      console.error('Error loading files:', error);
+      setNextOffset(null);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [currentPath, nextOffset, isLoadingMore]);
+
+  const loadFolderQuotas = async () => {
+    const path = activePathRef.current;
+    try {
+      const quotas = await fetchQuotaUsage(path, user?.id);
+      if (activePathRef.current === path) setFolderQuotas(quotas);
+    } catch (error) {
+      console.error('Error loading storage quotas:', error);
+    }
+  };
+
+  // Usage changed, so quota levels may have too
+  const loadStats = async () => {
+    loadFolderQuotas();
+    try {
+      setFileStats(await fetchFileStats());
+    } catch (error) {
+      console.error('Error loading file stats:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  useEffect(() => {
+    loadFolderQuotas();
+  }, [currentPath, user?.id]);
+
+  // Clear out anything past the retention period whenever the manager opens
+  useEffect(() => {
+    purgeExpiredTrash(storage, trashRetentionDays).catch(error => {
+      console.error('Error purging expired trash:', error);
+    });
+  }, [storage, trashRetentionDays]);
+
+  // Re-read everything that depends on the folder structure
+  const refreshFolders = () => {
+    loadFiles(currentPath);
+    setFolderTreeKey(prev => prev + 1);
+    loadStats();
+  };
+
+  // Shows a file another client added or renamed, if it landed in the open
+  // folder. `replacesPath` is where it was before, so a rename keeps its place.
+  const showRemoteFile = async (path: string, replacesPath = path) => {
+    const folderPath = getParentPath(path);
+    if (folderPath !== activePathRef.current) return;
+
+    const object = await findFileObject(storage, folderPath, getBaseName(path));
+    if (!object || activePathRef.current !== folderPath) return;
+    const [fileItem] = await toFileItemsWithMetadata(folderPath, [object]);
+
+    setFiles(prev => {
+      const index = prev.findIndex(f => f.path === replacesPath || f.path === path);
+      const rest = prev.filter(f => f.path !== replacesPath && f.path !== path);
+      return index === -1 ? [fileItem, ...rest] : [...rest.slice(0, index), fileItem, ...rest.slice(index)];
+    });
+    if (viewingFile?.path === replacesPath) {
+      setViewingFile(fileItem);
+      loadPreviewUrl(fileItem);
+    }
+  };
+
+  const removeRemoteFile = (path: string) => {
+    setFiles(prev => prev.filter(f => f.path !== path));
+    if (viewingFile?.path === path) {
+      setViewingFile(null);
+      toast({
+        title: "File Removed",
+        description: `${getBaseName(path)} was moved or deleted by someone else`,
+      });
+    }
+  };
+
+  const applyRemoteChange = async (event: FileChangeEvent) => {
+    try {
+      if (event.type === 'insert') {
+        await showRemoteFile(event.path);
+      } else if (event.type === 'delete') {
+        removeRemoteFile(event.path);
+      } else if (event.type === 'rename') {
+        if (getParentPath(event.toPath) === activePathRef.current) {
+          await showRemoteFile(event.toPath, event.fromPath);
+        } else {
+          removeRemoteFile(event.fromPath);
+        }
+      } else {
+        setFolderTreeKey(prev => prev + 1);
+        if (event.path === activePathRef.current) loadFiles(event.path);
+      }
+      loadStats();
+    } catch (error) {
+      console.error('Error applying remote file change:', error);
+    }
+  };
+
+  const fileSync = useFileSync({
+    folderPath: currentPath,
+    createChannel: createSyncChannel,
+    onChange: applyRemoteChange
+  });
+
+  const navigateToFolder = (path: string) => {
+    updateViewState({ folder: path, query: '' });
+  };
+
+  const getFolderFromPath = (path: string): string => {
+    return getParentPath(path) || 'Root';
+  };
+
+  // Logged in the background; the open preview's activity list then reloads
+  const recordActivity = (...args: Parameters<typeof logActivity>) => {
+    logActivity(...args).then(() => setActivityRefreshKey(prev => prev + 1));
+  };
+
+  const handleUploadComplete = async (item: UploadQueueItem) => {
+    // A replayed offline upload leaves IndexedDB only now it has gone through
+    if (item.offlineId) {
+      offlineQueue.remove(item.offlineId).catch(error => {
+        console.error('Error removing synced offline change:', error);
+      });
+    }
+
+    let metadata: FileMetadata | undefined;
+    try {
+      if (user) await recordUpload(item.path, user);
+      // A replace also clears the mark left by an encrypted file it overwrote
+      if (item.encryption || item.replace) await recordEncryption(item.path, item.encryption || null);
+      // Encrypted files aren't hashed, as equal hashes would show two are the same
+      if (!item.encryption) await recordContentHash(item.path, item.contentHash || await hashFile(item.file), item.file.size);
+      // A replaced file keeps its tags and description
+      metadata = (await fetchMetadata([item.path])).get(item.path);
+    } catch (error) {
+      console.error('Error saving file metadata:', error);
+    }
+    // The server's time, so a delete queued offline later sees the file unchanged
+    const uploadedAt = await readUpdatedAt(storage, item.path).catch(() => new Date());
+
+    const fileItem: FileItem = {
+      id: item.path,
+      name: getBaseName(item.path),
+      size: item.file.size,
+      type: getFileCategory(item.file.name, item.file.type),
+      uploadedAt,
+      uploadedBy: user?.email || 'Unknown',
+      folder: getFolderFromPath(item.path),
+      tags: metadata?.tags || [],
+      description: metadata?.description,
+      customFields: metadata?.customFields,
+      encryption: item.encryption,
+      path: item.path
+    };
+
+    // Only show it if we're still looking at the folder it went into. A
+    // replaced file keeps its comments too.
+    if (getParentPath(item.path) === activePathRef.current) {
+      setFiles(prev => {
+        const replaced = prev.find(f => f.path === item.path);
+        return [{ ...fileItem, commentCount: replaced?.commentCount }, ...prev.filter(f => f.path !== item.path)];
+      });
+    }
+    loadStats();
+    onFileUpload?.([item.file]);
+    recordActivity('upload', item.path, 'success', { detail: item.replace ? 'Replaced the existing file' : undefined });
+
+    // Encrypted files get neither, as both would give their contents away
+    if (!item.encryption) {
+      indexFileContent(item.path, item.file).catch(error => {
+        console.error('Error indexing file content:', error);
+      });
+      await addThumbnail(item);
+    }
+    // Announced once the thumbnail exists, so others get it straight away
+    fileSync.publish({ type: 'insert', path: item.path });
+  };
+
+  const refreshThumbnail = async (path: string) => {
+    const thumbnailUrl = (await getThumbnailUrls(storage, [path])).get(path);
+    setFiles(prev => prev.map(f => (f.path === path ? { ...f, thumbnailUrl } : f)));
+  };
+
+  // Renders the thumbnail from the local copy, so nothing is downloaded again
+  const addThumbnail = async (item: UploadQueueItem) => {
+    try {
+      if (await createThumbnail(storage, item.path, item.file)) await refreshThumbnail(item.path);
+    } catch (error) {
+      console.error('Error creating thumbnail:', error);
+    }
+  };
+
+  const handleUploadFailed = (item: UploadQueueItem) => {
+    console.error('Upload error:', item.error);
+    recordActivity('upload', item.path, 'failure', { detail: item.error });
+    toast({
+      title: "Upload Failed",
+      description: `Failed to upload ${item.file.name}: ${item.error}`,
+      variant: "destructive"
+    });
+  };
+
+  const uploadQueue = useUploadQueue({
+    storage,
+    concurrency: maxConcurrentUploads,
+    resumableThreshold: resumableUploadThreshold,
+    onUploaded: handleUploadComplete,
+    onFailed: handleUploadFailed
+  });
+
+  // Shows the conflict dialog and waits for the user's choice
+  const askConflictResolution = (fileName: string, folderPath: string, remainingCount: number) => {
+    return new Promise<{ resolution: ConflictResolution; applyToAll: boolean }>(resolve => {
+      setPendingConflict({ fileName, folderPath, remainingCount, resolve });
+    });
+  };
+
+  const handleConflictResolved = (resolution: ConflictResolution, applyToAll: boolean) => {
+    pendingConflict?.resolve({ resolution, applyToAll });
+    setPendingConflict(null);
+  };
+
+  // Asks for the passphrase unless the user's key is already unlocked, and
+  // waits for it. Resolves false if they back out.
+  const ensureEncryptionKey = async (): Promise<boolean> => {
+    if (!user) return false;
+    if (isUserKeyUnlocked(user.id)) return true;
+
+    const mode = (await hasUserKey(user.id)) ? 'unlock' : 'create';
+    return new Promise<boolean>(resolve => {
+      setPendingKeyPrompt({ mode, resolve });
+    });
+  };
+
+  const handleKeyPromptClosed = (unlocked: boolean) => {
+    pendingKeyPrompt?.resolve(unlocked);
+    setPendingKeyPrompt(null);
+  };
+
+  // Uploads into an encrypted folder are encrypted before they are queued.
+  // Returns null when they can't be, in which case nothing should upload.
+  const encryptUploads = async (requests: UploadRequest[], folderPath: string): Promise<UploadRequest[] | null> => {
+    if (requests.length === 0) return requests;
+    try {
+      const folder = await findEncryptedFolder(folderPath);
+      if (!folder) return requests;
+      if (!(await ensureEncryptionKey())) return null;
+
+      const encrypted: UploadRequest[] = [];
+      for (const request of requests) {
+        encrypted.push({ ...request, file: await encryptFile(request.file, folder), encryption: toFileEncryption(folder) });
+      }
+      return encrypted;
+    } catch (error) {
+      console.error('Error encrypting files:', error);
+      toast({
+        title: "Encryption Failed",
+        description: error instanceof Error ? error.message : "The files could not be encrypted, so they weren't uploaded",
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const askDuplicateResolution = (duplicates: DuplicateUpload[]) => {
+    return new Promise<DuplicateChoice[]>(resolve => {
+      setPendingDuplicates({ duplicates, resolve });
+    });
+  };
+
+  const handleDuplicatesResolved = (choices: DuplicateChoice[]) => {
+    pendingDuplicates?.resolve(choices);
+    setPendingDuplicates(null);
+  };
+
+  // Adds the file as a link to an identical stored one instead of uploading it
+  const linkUpload = async (request: UploadRequest, target: HashedFile) => {
+    try {
+      await createFileLink(storage, request.path, target);
+      if (user) await recordUpload(request.path, user);
+      recordActivity('upload', request.path, 'success', { detail: `Linked to ${target.path}` });
+      onFileUpload?.([request.file]);
+      await showRemoteFile(request.path);
+      fileSync.publish({ type: 'insert', path: request.path });
+      loadStats();
+    } catch (error) {
+      console.error('Error linking file:', error);
+      recordActivity('upload', request.path, 'failure', { detail: describeActivityError(error) });
+      toast({
+        title: "Link Failed",
+        description: `${getBaseName(request.path)} could not be linked to ${target.path}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Hashes the files about to upload and asks what to do with any whose
+  // contents are already stored. Replacing a file always uploads it, and so
+  // does everything when the check itself fails.
+  const resolveDuplicateUploads = async (requests: UploadRequest[]): Promise<UploadRequest[]> => {
+    const hashed: UploadRequest[] = [];
+    let matches: Map<string, HashedFile[]>;
+    try {
+      for (const request of requests) {
+        hashed.push(request.encryption
+          ? request
+          : { ...request, contentHash: (await hashFile(request.file)) || undefined });
+      }
+      const hashes = hashed.filter(request => !request.replace && request.contentHash).map(request => request.contentHash!);
+      matches = hashes.length > 0 ? await findFilesByHash(Array.from(new Set(hashes))) : new Map();
+    } catch (error) {
+      console.error('Error checking for duplicate files:', error);
+      return requests;
+    }
+
+    const duplicates = hashed
+      .filter(request => !request.replace && request.contentHash && matches.has(request.contentHash))
+      .map(request => ({ request, existing: matches.get(request.contentHash!)! }));
+    if (duplicates.length === 0) return hashed;
+
+    const choices = await askDuplicateResolution(duplicates.map(({ request, existing }) => ({
+      fileName: getBaseName(request.path),
+      size: request.file.size,
+      existing
+    })));
+
+    const notUploaded = new Set<UploadRequest>();
+    for (let i = 0; i < duplicates.length; i++) {
+      const { request, existing } = duplicates[i];
+      if (choices[i] === 'upload') continue;
+      notUploaded.add(request);
+      if (choices[i] === 'link') await linkUpload(request, existing[0]);
+    }
+    return hashed.filter(request => !notUploaded.has(request));
+  };
+
+  // Encrypted files, and their versions, are downloaded and decrypted in the browser
+  const loadDecrypted = async (path: string, encryption: FileEncryption): Promise<Blob> => {
+    if (!(await ensureEncryptionKey())) throw new Error('Your encryption key is needed to open this file');
+    return fetchDecrypted(storage, path, encryption.folderId);
+  };
+
+  // Checks files against the upload policy and explains any that are refused.
+  // The rest come back typed with their sniffed MIME type.
+  const screenPickedFiles = async (selectedFiles: File[], folderPath: string): Promise<File[]> => {
+    const { accepted, rejected } = await screenUploads(selectedFiles, uploadPolicy);
+
+    if (rejected.length > 0) {
+      rejected.forEach(({ file, reason }) => {
+        recordActivity('upload', joinPath(folderPath, file.name), 'failure', { detail: reason });
+      });
+      const reasons = rejected.slice(0, 3).map(({ file, reason }) => `${file.name}: ${reason}`);
+      if (rejected.length > 3) reasons.push(`and ${rejected.length - 3} more`);
+      toast({
+        title: rejected.length === 1 ? "File Not Uploaded" : `${rejected.length} Files Not Uploaded`,
+        description: reasons.join('. '),
+        variant: "destructive"
+      });
+    }
+
+    return accepted;
+  };
+
+  // The batch is checked as a whole against the quotas for its folder and
+  // uploader; one that would go over any of them is refused entirely
+  const passesQuotas = async (selectedFiles: File[], folderPath: string): Promise<boolean> => {
+    let quotas: QuotaUsage[];
+    try {
+      quotas = await fetchQuotaUsage(folderPath, user?.id);
+    } catch (error) {
+      console.error('Error checking storage quotas:', error);
+      return true;
+    }
+
+    const addedBytes = selectedFiles.reduce((sum, file) => sum + file.size, 0);
+    const { exceeded, warnings } = checkQuotas(quotas, addedBytes);
+    if (exceeded.length > 0) {
+      const quota = exceeded[0];
+      selectedFiles.forEach(file => {
+        recordActivity('upload', joinPath(folderPath, file.name), 'failure', { detail: `${describeQuota(quota)} quota exceeded` });
+      });
+      toast({
+        title: "Storage Quota Exceeded",
+        description: `${describeQuota(quota)} is limited to ${formatFileSize(quota.maxBytes)} and has ${formatFileSize(Math.max(0, quota.maxBytes - quota.usedBytes))} left; these files need ${formatFileSize(addedBytes)}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+    if (warnings.length > 0) {
+      const quota = warnings[0];
+      toast({
+        title: "Storage Almost Full",
+        description: `${describeQuota(quota)} will be over ${quota.warnPercent}% of its ${formatFileSize(quota.maxBytes)} limit after this upload`,
+      });
+    }
+    return true;
+  };
+
+  const enqueueUploads = async (pickedFiles: File[], folderPath = currentPath) => {
+    const selectedFiles = await screenPickedFiles(pickedFiles, folderPath);
+    if (selectedFiles.length === 0) return;
+    if (!isOnline) {
+      await queueOfflineUploads(selectedFiles, folderPath);
+      return;
+    }
+    if (!(await passesQuotas(selectedFiles, folderPath))) return;
+
+    let existingNames = new Set<string>();
+    try {
+      existingNames = await findExistingNames(storage, folderPath, Array.from(new Set(selectedFiles.map(f => f.name))));
+    } catch (error) {
+      console.error('Error checking for existing files:', error);
+    }
+
+    const requests: UploadRequest[] = [];
+    // Every name that will exist in the folder once this batch is queued
+    const takenNames = new Set(existingNames);
+    const conflictCount = selectedFiles.filter(f => existingNames.has(f.name)).length;
+    let conflictsSeen = 0;
+    let resolutionForAll: ConflictResolution | null = null;
+
+    for (const file of selectedFiles) {
+      if (!existingNames.has(file.name)) {
+        // Two files with the same name in one batch: keep both
+        const name = takenNames.has(file.name)
+          ? await findAvailableName(storage, folderPath, file.name, takenNames)
+          : file.name;
+        takenNames.add(name);
+        requests.push({ file, path: joinPath(folderPath, name) });
+        continue;
+      }
+
+      conflictsSeen += 1;
+      let resolution = resolutionForAll;
+      if (!resolution) {
+        const answer = await askConflictResolution(file.name, folderPath, conflictCount - conflictsSeen);
+        resolution = answer.resolution;
+        if (answer.applyToAll) resolutionForAll = resolution;
+      }
+
+      if (resolution === 'skip') continue;
+      if (resolution === 'replace') {
+        requests.push({ file, path: joinPath(folderPath, file.name), replace: true });
+        continue;
+      }
+
+      const newName = await findAvailableName(storage, folderPath, file.name, takenNames);
+      takenNames.add(newName);
+      requests.push({ file, path: joinPath(folderPath, newName) });
+    }
+
+    const encryptedRequests = await encryptUploads(requests, folderPath);
+    if (encryptedRequests) uploadQueue.enqueue(await resolveDuplicateUploads(encryptedRequests));
+  };
+
+  // Offline uploads wait in IndexedDB. Name clashes and quotas are checked
+  // when they are replayed, since neither can be known until then.
+  const queueOfflineUploads = async (selectedFiles: File[], folderPath: string) => {
+    try {
+      await offlineQueue.add(selectedFiles.map(file => ({
+        kind: 'upload' as const,
+        path: joinPath(folderPath, file.name),
+        file
+      })));
+      toast({
+        title: "Saved for Upload",
+        description: `${selectedFiles.length} file(s) will upload when you're back online`,
+      });
+    } catch (error) {
+      console.error('Error saving upload for later:', error);
+      toast({
+        title: "Upload Not Saved",
+        description: "This browser couldn't keep the files to upload later",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Sends what was queued offline, oldest first. A change that clashes with
+  // what others did in the meantime is adapted or dropped and reported.
+  const replayOfflineChanges = async () => {
+    setIsReplayingOffline(true);
+    const conflicts: OfflineSyncConflict[] = [];
+    let syncedCount = 0;
+
+    try {
+      // Uploads from an earlier replay stay queued until they finish, or in
+      // the upload list to retry if they failed
+      const inUploadQueue = new Set(uploadQueue.items.map(item => item.offlineId));
+
+      for (const operation of offlineQueue.operations) {
+        if (inUploadQueue.has(operation.id)) continue;
+        const plan = await planReplay(storage, operation);
+
+        if (plan.action === 'skip') {
+          conflicts.push({ path: operation.path, kind: operation.kind, message: plan.conflict });
+        } else if (plan.action === 'upload' && operation.kind === 'upload') {
+          const requests = await passesQuotas([operation.file], getParentPath(plan.path))
+            ? await encryptUploads([{ file: operation.file, path: plan.path, offlineId: operation.id }], getParentPath(plan.path))
+            : null;
+          if (requests) {
+            uploadQueue.enqueue(requests);
+            if (plan.conflict) {
+              conflicts.push({ path: operation.path, kind: 'upload', message: plan.conflict });
+            } else {
+              syncedCount += 1;
+            }
+            continue;
+          }
+          conflicts.push({ path: operation.path, kind: 'upload', message: 'Not uploaded, as it would go over a storage quota or could not be encrypted' });
+        } else if (operation.kind === 'delete') {
+          try {
+            await moveToTrash(storage, { path: operation.path, size: operation.size }, user);
+            recordActivity('delete', operation.path, 'success', { detail: 'Moved to the trash after reconnecting' });
+            fileSync.publish({ type: 'delete', path: operation.path });
+            syncedCount += 1;
+          } catch (error) {
+            recordActivity('delete', operation.path, 'failure', { detail: describeActivityError(error) });
+            conflicts.push({
+              path: operation.path,
+              kind: 'delete',
+              message: error instanceof Error ? error.message : 'Could not move to the trash'
+            });
+          }
+        }
+
+        await offlineQueue.remove(operation.id);
+      }
+    } catch (error) {
+      // Most likely the connection dropped again; the rest is tried next time
+      console.error('Error replaying offline changes:', error);
+    } finally {
+      setIsReplayingOffline(false);
+    }
+
+    loadFiles(activePathRef.current);
+    loadStats();
+    if (conflicts.length > 0) {
+      setOfflineSyncReport({ syncedCount, conflicts });
+    } else if (syncedCount > 0) {
+      toast({
+        title: "Offline Changes Synced",
+        description: `${syncedCount} change(s) made while offline went through`,
+      });
+    }
+  };
+
+  // Back online: send anything queued, or at least swap the saved listing for a live one
+  useEffect(() => {
+    if (!isOnline || isReplayingOffline) return;
+    if (offlineQueue.operations.length > 0) {
+      replayOfflineChanges();
+    } else if (cachedListingAt) {
+      loadFiles(activePathRef.current);
+    }
+  }, [isOnline, offlineQueue.operations.length]);
+
+  const handleResumeInterrupted = async (upload: PendingResumableUpload, pickedFile: File) => {
+    const [file] = await screenPickedFiles([pickedFile], getParentPath(upload.path));
+    if (file && await passesQuotas([file], getParentPath(upload.path))) {
+      uploadQueue.enqueue([{ file, path: upload.path }]);
+    }
+  };
+
+  // For event handlers, which can't wait on the upload being prepared
+  const startUploads = (pickedFiles: File[]) => {
+    enqueueUploads(pickedFiles).catch(error => {
+      console.error('Error preparing upload:', error);
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "The files couldn't be prepared for upload",
+        variant: "destructive"
+      });
+    });
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = event.target.files;
+    if (!selectedFiles || selectedFiles.length === 0) return;
+
+    startUploads(Array.from(selectedFiles));
+    // Reset so picking the same file again still fires onChange
+    event.target.value = '';
+  };
+
+  // Dropping to upload is only offered where the user can upload
+  const isFileDrag = (event: React.DragEvent) => {
+    return folderAccess.canEdit && event.dataTransfer.types.includes('Files');
+  };
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    startUploads(Array.from(event.dataTransfer.files));
+  };
+
+  // Deleting asks for confirmation first; the file then goes to the trash
+  const handleFileDelete = (fileId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (file) setDeletingFile(file);
+  };
+
+  const confirmFileDelete = async () => {
+    if (!deletingFile) return;
+    const file = deletingFile;
+
+    setIsDeletingFile(true);
+    try {
+      if (!isOnline) {
+        await queueOfflineDeletes([file]);
+        return;
+      }
+      await moveToTrash(storage, { path: file.path || file.name, size: file.size }, user);
+      recordActivity('delete', file.path || file.name, 'success', { detail: 'Moved to the trash' });
+
+      // Remove from local state
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      loadStats();
+      fileSync.publish({ type: 'delete', path: file.path || file.name });
+      onFileDelete?.(file.id);
+
+      toast({
+        title: "Moved to Trash",
+        description: `${file.name} can be restored from the trash for ${trashRetentionDays} days`,
+      });
+    } catch (error) {
+      console.error('Delete error:', error);
+      recordActivity('delete', file.path || file.name, 'failure', { detail: describeActivityError(error) });
+      if (error instanceof PartialMoveError) loadFiles(activePathRef.current);
+      toast({
+        title: error instanceof PartialMoveError ? "Delete Incomplete" : "Delete Failed",
+        description: error instanceof PartialMoveError ? error.message : `Failed to delete ${file.name}`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsDeletingFile(false);
+      setDeletingFile(null);
+    }
+  };
+
+  const handleTrashRestored = (restoredPath: string) => {
+    if (getParentPath(restoredPath) === currentPath) loadFiles(currentPath);
+    setFolderTreeKey(prev => prev + 1);
+    loadStats();
+    fileSync.publish({ type: 'insert', path: restoredPath });
+    // Restoring can also bring back the folder the file was in
+    fileSync.publish({ type: 'folders', path: getParentPath(getParentPath(restoredPath)) });
+  };
+
+  // Create a temporary link and trigger download
+  const startDownload = async (file: FileItem) => {
+    const objectUrl = file.encryption
+      ? URL.createObjectURL(await loadDecrypted(file.path || file.name, file.encryption))
+      : null;
+    const link = document.createElement('a');
+    link.href = objectUrl || await storage.getUrl(file.linkTarget || file.path || file.name, { download: file.name });
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    if (objectUrl) setTimeout(() => URL.revokeObjectURL(objectUrl), DECRYPTED_URL_LIFETIME_MS);
+
+    recordActivity('download', file.path || file.name, 'success');
+    onFileDownload?.(file.id);
+  };
+
+  const handleFileDownload = async (fileId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (!file) return;
+
+    try {
+      await startDownload(file);
+      toast({
+        title: "Download Started",
+        description: `Downloading ${file.name}`,
+      });
+    } catch (error) {
+      console.error('Download error:', error);
+      recordActivity('download', file.path || file.name, 'failure', { detail: describeActivityError(error) });
+      toast({
+        title: "Download Failed",
+        description: "An error occurred while downloading the file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Previews get a fresh signed URL each time they're opened, or for encrypted
+  // files an object URL of the decrypted copy. Returns the error if there was one.
+  const loadPreviewUrl = async (file: FileItem): Promise<unknown> => {
+    try {
+      let url: string;
+      if (file.encryption) {
+        url = URL.createObjectURL(await loadDecrypted(file.path || file.name, file.encryption));
+        decryptedUrlsRef.current.add(url);
+      } else {
+        url = await storage.getUrl(file.linkTarget || file.path || file.name);
+      }
+      setViewingFile(prev => (prev?.id === file.id ? { ...prev, url } : prev));
+      return null;
+    } catch (error) {
+      console.error('Error loading preview:', error);
+      return error;
+    }
+  };
+
+  useEffect(() => {
+    const url = viewingFile?.url;
+    if (!url || !decryptedUrlsRef.current.has(url)) return;
+    return () => {
+      URL.revokeObjectURL(url);
+      decryptedUrlsRef.current.delete(url);
+    };
+  }, [viewingFile?.url]);
+
+  const handleFileView = async (file: FileItem) => {
+    setViewingFile(file);
+    const error = await loadPreviewUrl(file);
+    recordActivity('view', file.path || file.name, error ? 'failure' : 'success', {
+      detail: error ? describeActivityError(error) : undefined
+    });
+  };
+
+  const fileComments = useFileComments(viewingFile?.path || null);
+
+  // Keeps the count on the file's card in step with its comments
+  const refreshCommentCount = async (path: string) => {
+    try {
+      const commentCount = (await fetchCommentCounts([path])).get(path);
+      const applyCount = (f: FileItem): FileItem => (f.path === path ? { ...f, commentCount } : f);
+      setFiles(prev => prev.map(applyCount));
+      setViewingFile(prev => (prev ? applyCount(prev) : prev));
+    } catch (error) {
+      console.error('Error loading comment counts:', error);
+    }
+  };
+
+  const handleMetadataSave = async (file: FileItem, changes: FileMetadataChanges): Promise<boolean> => {
+    const path = file.path || file.name;
+    try {
+      await updateMetadata(path, changes);
+
+      const applyChanges = (f: FileItem): FileItem => (f.id === file.id ? { ...f, ...changes } : f);
+      setFiles(prev => prev.map(applyChanges));
+      setViewingFile(prev => (prev ? applyChanges(prev) : prev));
+      return true;
+    } catch (error) {
+      console.error('Metadata update error:', error);
+      toast({
+        title: "Update Failed",
+        description: `Could not save details for ${file.name}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const openFolderDialog = (folder: FolderItem | null = null) => {
+    setRenamingFolder(folder);
+    setNewFolderName(folder?.name || '');
+    setShowFolderDialog(true);
+  };
+
+  const closeFolderDialog = () => {
+    setShowFolderDialog(false);
+    setRenamingFolder(null);
+    setNewFolderName('');
+  };
+
+  const handleFolderCreate = async () => {
+    const validationError = validateFolderName(newFolderName, folders);
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsFolderBusy(true);
+    try {
+      const folder = await createFolder(storage, currentPath, newFolderName);
+      recordActivity('folder_create', folder.path, 'success');
+      fileSync.publish({ type: 'folders', path: currentPath });
+      onFolderCreate?.(folder.path);
+      toast({
+        title: "Folder Created",
+        description: `Folder "${folder.name}" has been created`,
+      });
+
+      closeFolderDialog();
+      refreshFolders();
+    } catch (error) {
+      console.error('Create folder error:', error);
+      recordActivity('folder_create', joinPath(currentPath, newFolderName), 'failure', { detail: describeActivityError(error) });
+      toast({
+        title: "Error",
+        description: "An error occurred while creating the folder",
+        variant: "destructive"
+      });
+    } finally {
+      setIsFolderBusy(false);
+    }
+  };
+
+  const handleFolderRename = async () => {
+    if (!renamingFolder) return;
+
+    const validationError = validateFolderName(newFolderName, folders, renamingFolder.name);
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+    if (newFolderName.trim() === renamingFolder.name) {
+      closeFolderDialog();
+      return;
+    }
+
+    setIsFolderBusy(true);
+    try {
+      const newPath = joinPath(getParentPath(renamingFolder.path), newFolderName.trim());
+      const result = await renameFolder(storage, renamingFolder, newFolderName);
+      fileSync.publish({ type: 'folders', path: getParentPath(renamingFolder.path) });
+
+      recordActivity('folder_rename', renamingFolder.path, result.failed.length > 0 ? 'failure' : 'success', {
+        targetPath: newPath,
+        detail: result.failed.length > 0 ? result.failed.map(failure => failure.message).join('; ') : undefined
+      });
+      if (result.failed.length > 0) {
+        toast({
+          title: "Rename Incomplete",
+          description: `Not everything could be moved to "${newFolderName.trim()}": ${result.failed[0].message}${result.failed.length > 1 ? ` (and ${result.failed.length - 1} more)` : ''}`,
+          variant: "destructive"
+        });
+      } else {
+        onFolderRename?.(renamingFolder.path, newPath);
+        toast({
+          title: "Folder Renamed",
+          description: `"${renamingFolder.name}" is now "${newFolderName.trim()}"`,
+        });
+      }
+
+      if (isSameOrDescendant(currentPath, renamingFolder.path)) {
+        updateViewState({ folder: newPath + currentPath.slice(renamingFolder.path.length) }, { replace: true });
+      }
+      closeFolderDialog();
+      refreshFolders();
+    } catch (error) {
+      console.error('Rename folder error:', error);
+      recordActivity('folder_rename', renamingFolder.path, 'failure', { detail: describeActivityError(error) });
+      toast({
+        title: "Error",
+        description: "An error occurred while renaming the folder",
+        variant: "destructive"
+      });
+    } finally {
+      setIsFolderBusy(false);
+    }
+  };
+
+  const handleFolderDelete = async () => {
+    if (!deletingFolder) return;
+
+    setIsFolderBusy(true);
+    try {
+      const result = await deleteFolder(storage, deletingFolder, user);
+      fileSync.publish({ type: 'folders', path: getParentPath(deletingFolder.path) });
+
+      recordActivity('folder_delete', deletingFolder.path, result.failed.length > 0 ? 'failure' : 'success', {
+        detail: result.failed.length > 0 ? `${result.failed.length} item(s) could not be moved to the trash` : 'Moved to the trash'
+      });
+      if (result.failed.length > 0) {
+        toast({
+          title: "Delete Failed",
+          description: `Failed to delete folder "${deletingFolder.name}"`,
+          variant: "destructive"
+        });
+      } else {
+        onFolderDelete?.(deletingFolder.path);
+        toast({
+          title: "Folder Deleted",
+          description: `"${deletingFolder.name}" and its contents have been moved to the trash`,
+        });
+      }
+
+      if (isSameOrDescendant(currentPath, deletingFolder.path)) {
+        updateViewState({ folder: getParentPath(deletingFolder.path) }, { replace: true });
+      }
+      setDeletingFolder(null);
+      refreshFolders();
+    } catch (error) {
+      console.error('Delete folder error:', error);
+      recordActivity('folder_delete', deletingFolder.path, 'failure', { detail: describeActivityError(error) });
+      toast({
+        title: "Delete Failed",
+        description: "An error occurred while deleting the folder",
+        variant: "destructive"
+      });
+    } finally {
+      setIsFolderBusy(false);
+    }
+  };
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const contentSearch = useContentSearch(parsedQuery.text, currentPath);
+
+  // Content matches can be in pages that aren't loaded yet, so those files are
+  // looked up directly and added to the listing
+  useEffect(() => {
+    const folderPath = currentPath;
+    const loadedPaths = new Set(files.map(file => file.path));
+    const missing = Array.from(contentSearch.matches.keys())
+      .filter(path => getParentPath(path) === folderPath && !loadedPaths.has(path));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const objects = await Promise.all(missing.map(path => findFileObject(storage, folderPath, getBaseName(path))));
+        const matchedFiles = await toFileItemsWithMetadata(
+          folderPath,
+          objects.filter((object): object is StorageEntry => object !== null)
+        );
+        if (cancelled || activePathRef.current !== folderPath) return;
+        setFiles(prev => {
+          const paths = new Set(prev.map(file => file.path));
+          return [...prev, ...matchedFiles.filter(file => !paths.has(file.path))];
+        });
+      } catch (error) {
+        console.error('Error loading files that match the search:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contentSearch.matches]);
+
+  // Free text matches the name, tags or contents; filters must all match
+  const filteredFiles = sortFiles(files.filter(file => {
+    if (typeFilters.length > 0 && !typeFilters.includes(file.type as FileCategory)) return false;
+    if (!matchesSearchFilters(file, parsedQuery)) return false;
+    return matchesSearchText(file, parsedQuery) || (!!file.path && contentSearch.matches.has(file.path));
+  }), sort);
 
-  const folders = ['Documents', 'Design', 'Images', 'Videos', 'Code', 'Audio'];
+  // Filters describe files, so folders drop out as soon as there is one
+  const filteredFolders = hasSearchFilters(parsedQuery) || typeFilters.length > 0 ? [] : sortFolders(
+    folders.filter(folder => {
+      const name = folder.name.toLowerCase();
+      return parsedQuery.terms.every(term => name.includes(term));
+    }),
+    sort
+  );
+
+  const isFolderEmpty = filteredFiles.length === 0 && filteredFolders.length === 0 && nextOffset === null;
+
+  const selection = useFileSelection(filteredFiles.map(file => file.id));
+  // Only what the current filter shows is acted on
+  const selectedFiles = filteredFiles.filter(file => selection.selectedIds.has(file.id));
 
-  // Load existing files from Supabase storage
   useEffect(() => {
-    loadFiles();
-  }, []);
+    selection.clear();
+  }, [currentPath, selection.clear]);
 
-  const loadFiles = async () => {
+  const handleToggleSelect = (file: FileItem, extendRange: boolean) => {
+    selection.toggle(file.id, extendRange);
+  };
+
+  // Files that went through drop out of the selection; failures stay selected
+  // and are listed one by one so they can be retried
+  const reportBatchResult = (
+    result: BatchResult<unknown>,
+    success: { title: string; description: string },
+    failureTitle: string
+  ) => {
+    selection.deselect(result.succeeded.map(({ file }) => file.id));
+    if (result.failed.length > 0) {
+      setBatchReport({ title: failureTitle, result });
+    } else {
+      toast(success);
+    }
+  };
+
+  // Offline deletes wait in IndexedDB; the files are hidden here, and from the
+  // saved listing, until they are replayed
+  const queueOfflineDeletes = async (targets: FileItem[]) => {
     try {
-      // List files from Supabase storage
-      const { data, error } = await supabase.storage
-        .from('project-files')
-        .list('', {
-          limit: 100,
-          offset: 0,
+      await offlineQueue.add(targets.map(file => ({
+        kind: 'delete' as const,
+        path: file.path || file.name,
+        size: file.size,
+        uploadedAt: file.uploadedAt
+      })));
+    } catch (error) {
+      console.error('Error saving delete for later:', error);
+      toast({
+        title: "Delete Not Saved",
+        description: "This browser couldn't keep the delete to send later",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (user) {
+      for (const file of targets) {
+        await removeFromCachedListing(user.id, file.path || file.name).catch(error => {
+          console.error('Error updating the saved folder:', error);
         });
+      }
+    }
+    const queuedIds = targets.map(file => file.id);
+    setFiles(prev => prev.filter(f => !queuedIds.includes(f.id)));
+    selection.deselect(queuedIds);
+    toast({
+      title: "Delete Queued",
+      description: `${targets.length} file(s) will move to the trash when you're back online`,
+    });
+  };
 
-      if (error) {
-        console.error('Error loading files:', error);
+  const handleBatchDelete = async () => {
+    setIsBatchBusy(true);
+    try {
+      if (!isOnline) {
+        await queueOfflineDeletes(selectedFiles);
         return;
       }
+      const result = await runBatch(selectedFiles, file =>
+        moveToTrash(storage, { path: file.path || file.name, size: file.size }, user)
+      );
+      const deletedIds = new Set(result.succeeded.map(({ file }) => file.id));
+      result.succeeded.forEach(({ file }) => {
+        recordActivity('delete', file.path || file.name, 'success', { detail: 'Moved to the trash' });
+      });
+      result.failed.forEach(({ file, message }) => {
+        recordActivity('delete', file.path || file.name, 'failure', { detail: message });
+      });
+      // Some may be in the trash without their details, so show what is left
+      if (result.failed.length > 0) loadFiles(activePathRef.current);
 
-      // Convert storage files to FileItem format
-      const fileItems: FileItem[] = data.map((file) => ({
-        id: file.id || file.name,
-        name: file.name,
-        size: file.metadata?.size || 0,
-        type: getFileType(file.name),
-        uploadedAt: new Date(file.updated_at || Date.now()),
-        uploadedBy: user?.email || 'Unknown',
-        folder: getFolderFromPath(file.name),
-        tags: [],
-        path: file.name,
-        url: getFileUrl(file.name)
-      }));
+      setFiles(prev => prev.filter(f => !deletedIds.has(f.id)));
+      result.succeeded.forEach(({ file }) => fileSync.publish({ type: 'delete', path: file.path || file.name }));
+      deletedIds.forEach(id => onFileDelete?.(id));
+      if (deletedIds.size > 0) loadStats();
 
-      setFiles(fileItems);
-    } catch (error) {
-      console.error('Error loading files:', error);
+      reportBatchResult(
+        result,
+        {
+          title: "Moved to Trash",
+          description: `${deletedIds.size} file(s) can be restored from the trash for ${trashRetentionDays} days`
+        },
+        "Some Files Were Not Deleted"
+      );
+    } finally {
+      setIsBatchBusy(false);
+      setConfirmBatchDelete(false);
     }
   };
 
-  const getFileType = (filename: string): string => {
-    const ext = filename.split('.').pop()?.toLowerCase();
-    if (['pdf', 'doc', 'docx'].includes(ext || '')) return 'document';
-    if (['jpg', 'jpeg', 'png', 'gif', 'svg'].includes(ext || '')) return 'image';
-    if (['mp4', 'avi', 'mov', 'wmv'].includes(ext || '')) return 'video';
-    if (['mp3', 'wav', 'flac'].includes(ext || '')) return 'audio';
-    if (['zip', 'rar', '7z'].includes(ext || '')) return 'archive';
-    if (['js', 'ts', 'jsx', 'tsx', 'html', 'css'].includes(ext || '')) return 'code';
-    return 'other';
+  // Shared by the batch bar, "Move to..." and dropping cards on the sidebar
+  const moveFilesTo = async (targets: FileItem[], destination: string) => {
+    setIsBatchBusy(true);
+    try {
+      const result = await runBatch(targets, file => moveFile(storage, file.path || file.name, destination));
+      const movedIds = new Set(result.succeeded.map(({ file }) => file.id));
+
+      setFiles(prev => prev.filter(f => !movedIds.has(f.id)));
+      result.succeeded.forEach(({ file, value }) => {
+        recordActivity('move', file.path || file.name, 'success', { targetPath: value });
+        fileSync.publish({ type: 'rename', fromPath: file.path || file.name, toPath: value });
+        onFileMove?.(file.path || file.name, value);
+      });
+      result.failed.forEach(({ file, message }) => {
+        recordActivity('move', file.path || file.name, 'failure', { detail: `To ${destination || 'Root'}: ${message}` });
+      });
+      // Some may have moved without their details, so show where things are now
+      if (result.failed.length > 0) loadFiles(activePathRef.current);
+
+      reportBatchResult(
+        result,
+        {
+          title: "Files Moved",
+          description: `${result.succeeded.length === 1 ? result.succeeded[0].file.name : `${movedIds.size} files`} moved to ${destination || 'Root'}`
+        },
+        "Some Files Were Not Moved"
+      );
+    } finally {
+      setIsBatchBusy(false);
+    }
   };
 
-  const getFolderFromPath = (path: string): string => {
-    const parts = path.split('/');
-    return parts.length > 1 ? parts[0] : 'Root';
+  const handleBatchMove = async (destination: string): Promise<boolean> => {
+    await moveFilesTo(selectedFiles, destination);
+    return true;
   };
 
-  const getFileUrl = (path: string): string => {
-    const { data } = supabase.storage
-      .from('project-files')
-      .getPublicUrl(path);
-    return data.publicUrl;
+  const handleFileMove = async (destination: string): Promise<boolean> => {
+    if (movingFile) await moveFilesTo([movingFile], destination);
+    return true;
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = event.target.files;
-    if (!selectedFiles || selectedFiles.length === 0) return;
+  // Dragging a selected card drags the whole selection along with it
+  const handleDragFile = (file: FileItem, event: React.DragEvent) => {
+    const dragged = selection.isSelected(file.id) ? selectedFiles : [file];
+    setDraggedFilePaths(event, dragged.map(f => f.path || f.name));
+  };
 
-    setIsUploading(true);
-    setUploadProgress(0);
+  const handleDropFiles = (folderPath: string, filePaths: string[]) => {
+    const targets = files.filter(file => {
+      const path = file.path || file.name;
+      return filePaths.includes(path) && getParentPath(path) !== folderPath;
+    });
+    if (targets.length > 0 && !isBatchBusy) moveFilesTo(targets, folderPath);
+  };
 
-    try {
-      const uploadedFiles: FileItem[] = [];
+  const handleFileRename = async (newName: string): Promise<boolean> => {
+    if (!renamingFile) return false;
+    const file = renamingFile;
+    const oldPath = file.path || file.name;
 
-      for (let i = 0; i < selectedFiles.length; i++) {
-        const file = selectedFiles[i];
-        const fileName = `${selectedFolder === 'all' ? '' : selectedFolder + '/'}${file.name}`;
-        
-        // Upload to Supabase storage
-        const { data, error } = await supabase.storage
-          .from('project-files')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
-
-        if (error) {
-          console.error('Upload error:', error);
-          toast({
-            title: "Upload Failed",
-            description: `Failed to upload ${file.name}: ${error.message}`,
-            variant: "destructive"
-          });
-          continue;
-        }
+    try {
+      const newPath = await renameFile(storage, oldPath, newName);
+      if (newPath === oldPath) return true;
+      recordActivity('rename', oldPath, 'success', { targetPath: newPath });
 
-        // Create file item
-        const fileItem: FileItem = {
-          id: data.path,
-          name: file.name,
-          size: file.size,
-          type: getFileType(file.name),
-          uploadedAt: new Date(),
-          uploadedBy: user?.email || 'Unknown',
-          folder: selectedFolder === 'all' ? 'Root' : selectedFolder,
-          tags: [],
-          path: data.path,
-          url: getFileUrl(data.path)
-        };
-
-        uploadedFiles.push(fileItem);
-        setUploadProgress(((i + 1) / selectedFiles.length) * 100);
+      const applyRename = (f: FileItem): FileItem => (f.id === file.id
+        ? { ...f, name: getBaseName(newPath), path: newPath, url: undefined }
+        : f);
+      setFiles(prev => prev.map(applyRename));
+      // The old thumbnail link pointed at the old path
+      refreshThumbnail(newPath).catch(error => console.error('Error loading thumbnail:', error));
+      if (viewingFile?.id === file.id) {
+        setViewingFile(prev => (prev ? applyRename(prev) : prev));
+        loadPreviewUrl({ ...file, path: newPath });
       }
+      fileSync.publish({ type: 'rename', fromPath: oldPath, toPath: newPath });
+      onFileRename?.(oldPath, newPath);
 
-      // Update local state
-      setFiles(prev => [...uploadedFiles, ...prev]);
-      
-      // Call callback
-      onFileUpload?.(Array.from(selectedFiles));
-      
       toast({
-        title: "Upload Successful",
-        description: `Successfully uploaded ${uploadedFiles.length} file(s)`,
+        title: "File Renamed",
+        description: `"${file.name}" is now "${getBaseName(newPath)}"`,
       });
-
-      setShowUploadArea(false);
+      return true;
     } catch (error) {
-      console.error('Upload error:', error);
-      toast({
-        title: "Upload Failed",
-        description: "An error occurred during upload",
-        variant: "destructive"
-      });
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
-    }
-  };
-
-  const handleFileDelete = async (fileId: string) => {
-    try {
-      const file = files.find(f => f.id === fileId);
-      if (!file) return;
-
-      // Delete from Supabase storage
-      const { error } = await supabase.storage
-        .from('project-files')
-        .remove([file.path || file.name]);
-
-      if (error) {
-        console.error('Delete error:', error);
+      console.error('Rename file error:', error);
+      recordActivity('rename', oldPath, 'failure', { detail: describeActivityError(error) });
+      // The file itself was renamed, so the dialog has done its job
+      if (error instanceof PartialMoveError) {
+        loadFiles(activePathRef.current);
+        fileSync.publish({ type: 'rename', fromPath: oldPath, toPath: error.path });
         toast({
-          title: "Delete Failed",
-          description: `Failed to delete ${file.name}`,
+          title: "Rename Incomplete",
+          description: error.message,
           variant: "destructive"
         });
-        return;
+        return true;
       }
-
-      // Remove from local state
-      setFiles(prev => prev.filter(f => f.id !== fileId));
-      onFileDelete?.(fileId);
-
-      toast({
-        title: "File Deleted",
-        description: `${file.name} has been deleted`,
-      });
-    } catch (error) {
-      console.error('Delete error:', error);
       toast({
-        title: "Delete Failed",
-        description: "An error occurred while deleting the file",
+        title: "Rename Failed",
+        description: error instanceof Error ? error.message : `Failed to rename ${file.name}`,
         variant: "destructive"
       });
+      return false;
     }
   };
 
-  const handleFileDownload = async (fileId: string) => {
+  const handleFileDuplicate = async (file: FileItem) => {
+    const sourcePath = file.path || file.name;
     try {
-      const file = files.find(f => f.id === fileId);
-      if (!file || !file.url) return;
-
-      // Create a temporary link and trigger download
-      const link = document.createElement('a');
-      link.href = file.url;
-      link.download = file.name;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      onFileDownload?.(fileId);
+      const newPath = await duplicateFile(storage, sourcePath, user);
+      recordActivity('duplicate', sourcePath, 'success', { targetPath: newPath });
+      const copy: FileItem = {
+        ...file,
+        id: newPath,
+        name: getBaseName(newPath),
+        path: newPath,
+        url: undefined,
+        uploadedAt: await readUpdatedAt(storage, newPath).catch(() => new Date()),
+        uploadedBy: user?.email || 'Unknown'
+      };
+
+      // Show the copy right after the original
+      setFiles(prev => {
+        const index = prev.findIndex(f => f.id === file.id);
+        return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+      });
+      loadStats();
+      fileSync.publish({ type: 'insert', path: newPath });
+      onFileDuplicate?.(sourcePath, newPath);
+
       toast({
-        title: "Download Started",
-        description: `Downloading ${file.name}`,
+        title: "File Duplicated",
+        description: `Created ${copy.name}`,
       });
     } catch (error) {
-      console.error('Download error:', error);
+      console.error('Duplicate file error:', error);
+      recordActivity('duplicate', sourcePath, 'failure', { detail: describeActivityError(error) });
       toast({
-        title: "Download Failed",
-        description: "An error occurred while downloading the file",
+        title: "Duplicate Failed",
+        description: `Failed to duplicate ${file.name}`,
         variant: "destructive"
       });
     }
   };
 
-  const handleFileView = (file: FileItem) => {
-    setViewingFile(file);
-  };
-
-  const handleFolderCreate = () => {
-    if (!newFolderName.trim()) {
-      toast({
-        title: "Error",
-        description: "Please enter a folder name",
-        variant: "destructive"
+  const handleBatchAddTags = async (tags: string[]): Promise<boolean> => {
+    setIsBatchBusy(true);
+    try {
+      const result = await runBatch(selectedFiles, async file => {
+        const mergedTags = Array.from(new Set([...file.tags, ...tags]));
+        await updateMetadata(file.path || file.name, { tags: mergedTags });
+        return mergedTags;
       });
-      return;
-    }
+      const tagsById = new Map(result.succeeded.map(({ file, value }) => [file.id, value]));
 
-    if (folders.includes(newFolderName)) {
-      toast({
-        title: "Error",
-        description: "Folder already exists",
-        variant: "destructive"
-      });
-      return;
+      setFiles(prev => prev.map(f => (tagsById.has(f.id) ? { ...f, tags: tagsById.get(f.id)! } : f)));
+      reportBatchResult(
+        result,
+        {
+          title: "Tags Added",
+          description: `Tagged ${tagsById.size} file(s) with ${tags.join(', ')}`
+        },
+        "Some Files Were Not Tagged"
+      );
+      return true;
+    } finally {
+      setIsBatchBusy(false);
     }
-
-    folders.push(newFolderName);
-    onFolderCreate?.(newFolderName);
-    toast({
-      title: "Folder Created",
-      description: `Folder "${newFolderName}" has been created`,
-    });
-    
-    setNewFolderName('');
-    setShowFolderDialog(false);
   };
 
-  const filteredFiles = files.filter(file => {
-    const matchesSearch = file.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         file.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
-    const matchesFolder = selectedFolder === 'all' || file.folder === selectedFolder;
-    return matchesSearch && matchesFolder;
-  });
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
+  const handleBatchDownload = async () => {
+    setIsBatchBusy(true);
+    try {
+      const result = await runBatch(selectedFiles, async file => {
+        await startDownload(file);
+        // Browsers drop downloads that are started back to back
+        await new Promise(resolve => setTimeout(resolve, 300));
+      });
+      result.failed.forEach(({ file, message }) => {
+        recordActivity('download', file.path || file.name, 'failure', { detail: message });
+      });
 
-  const getFileIcon = (type: string) => {
-    const iconClass = "h-8 w-8";
-    const isDark = theme === 'dark';
-    
-    switch (type) {
-      case 'document':
-        return <FileText className={`${iconClass} ${isDark ? 'text-blue-400' : 'text-blue-600'}`} />;
-      case 'image':
-        return <Image className={`${iconClass} ${isDark ? 'text-green-400' : 'text-green-600'}`} />;
-      case 'video':
-        return <Video className={`${iconClass} ${isDark ? 'text-purple-400' : 'text-purple-600'}`} />;
-      case 'audio':
-        return <Music className={`${iconClass} ${isDark ? 'text-pink-400' : 'text-pink-600'}`} />;
-      case 'archive':
-        return <Archive className={`${iconClass} ${isDark ? 'text-orange-400' : 'text-orange-600'}`} />;
-      case 'code':
-        return <File className={`${iconClass} ${isDark ? 'text-yellow-400' : 'text-yellow-600'}`} />;
-      default:
-        return <File className={`${iconClass} ${isDark ? 'text-gray-400' : 'text-gray-600'}`} />;
+      reportBatchResult(
+        result,
+        {
+          title: "Download Started",
+          description: `Downloading ${result.succeeded.length} file(s)`
+        },
+        "Some Files Were Not Downloaded"
+      );
+    } finally {
+      setIsBatchBusy(false);
     }
   };
 
-  const canPreview = (type: string): boolean => {
-    return ['image', 'document', 'video', 'audio'].includes(type);
-  };
+  // Menu clicks are stopped here so they don't also open the folder
+  const renderFolderMenu = (folder: FolderItem, className = '') => (
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button className={`bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700 p-2 ${className}`}>
+            <MoreVertical className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <DropdownMenuItem onClick={() => setPermissionsFolder(folder)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+            <Shield className="h-4 w-4 mr-2 text-blue-600" />
+            <span className="text-gray-700 dark:text-gray-300">Access</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setEncryptionFolder(folder)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+            <Lock className="h-4 w-4 mr-2 text-emerald-600" />
+            <span className="text-gray-700 dark:text-gray-300">Encryption</span>
+          </DropdownMenuItem>
+          {folderAccess.canEdit && (
+            <>
+              <DropdownMenuItem onClick={() => openFolderDialog(folder)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+                <Pencil className="h-4 w-4 mr-2 text-blue-600" />
+                <span className="text-gray-700 dark:text-gray-300">Rename</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setDeletingFolder(folder)} className="hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
 
   const getStatusColor = (status: string) => {
     const isDark = theme === 'dark';
@@ -344,7 +1688,25 @@ export const FileManager: React.FC<FileManagerProps> = ({
   };
 
   return (
-    <div className="space-y-6">
+    <div
+      className="relative space-y-6"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop Overlay */}
+      {isDraggingFiles && (
+        <div className="pointer-events-none absolute inset-0 z-40 flex items-center justify-center rounded-xl border-4 border-dashed border-blue-400 bg-blue-50/80 dark:bg-blue-950/70">
+          <div className="text-center">
+            <Upload className="h-12 w-12 mx-auto text-blue-600 dark:text-blue-400 mb-2" />
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">
+              Drop files to upload to {currentPath || 'Root'}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Header with Stats */}
       <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/50 dark:to-indigo-950/50 rounded-xl p-6 border border-blue-200 dark:border-blue-800">
         <div className="flex items-center justify-between mb-4">
@@ -355,15 +1717,94 @@ export const FileManager: React.FC<FileManagerProps> = ({
             <p className="text-gray-600 dark:text-gray-300 mt-1">
               Organize and manage your project files with ease
             </p>
+            <OfflineIndicator
+              isOnline={isOnline}
+              cachedAt={cachedListingAt}
+              pendingCount={offlineQueue.operations.length}
+              isSyncing={isReplayingOffline}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            {folderAccess.canEdit && (
+              <Button
+                onClick={() => setShowThumbnailBackfill(true)}
+                variant="outline"
+                size="lg"
+                className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+                title="Create missing thumbnails for existing files"
+              >
+                <Image className="h-5 w-5 mr-2" />
+                Thumbnails
+              </Button>
+            )}
+            {folderAccess.canEdit && (
+              <Button
+                onClick={() => setShowContentIndexBackfill(true)}
+                variant="outline"
+                size="lg"
+                className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+                title="Index the text of existing files for content search"
+              >
+                <FileSearch className="h-5 w-5 mr-2" />
+                Search Index
+              </Button>
+            )}
+            <Button
+              onClick={() => setActivePanel(prev => (prev === 'usage' ? 'files' : 'usage'))}
+              variant="outline"
+              size="lg"
+              className={`border-gray-300 dark:border-gray-600 ${activePanel === 'usage' ? 'bg-gray-100 dark:bg-gray-700' : 'bg-white dark:bg-gray-800'}`}
+            >
+              <HardDrive className="h-5 w-5 mr-2" />
+              Storage
+            </Button>
+            <Button
+              onClick={() => setActivePanel(prev => (prev === 'duplicates' ? 'files' : 'duplicates'))}
+              variant="outline"
+              size="lg"
+              className={`border-gray-300 dark:border-gray-600 ${activePanel === 'duplicates' ? 'bg-gray-100 dark:bg-gray-700' : 'bg-white dark:bg-gray-800'}`}
+            >
+              <Copy className="h-5 w-5 mr-2" />
+              Duplicates
+            </Button>
+            <Button
+              onClick={() => setActivePanel(prev => (prev === 'activity' ? 'files' : 'activity'))}
+              variant="outline"
+              size="lg"
+              className={`border-gray-300 dark:border-gray-600 ${activePanel === 'activity' ? 'bg-gray-100 dark:bg-gray-700' : 'bg-white dark:bg-gray-800'}`}
+            >
+              <Activity className="h-5 w-5 mr-2" />
+              Activity
+            </Button>
+            <Button
+              onClick={() => setActivePanel(prev => (prev === 'share-links' ? 'files' : 'share-links'))}
+              variant="outline"
+              size="lg"
+              className={`border-gray-300 dark:border-gray-600 ${activePanel === 'share-links' ? 'bg-gray-100 dark:bg-gray-700' : 'bg-white dark:bg-gray-800'}`}
+            >
+              <Link2 className="h-5 w-5 mr-2" />
+              Shared Links
+            </Button>
+            <Button
+              onClick={() => setActivePanel(prev => (prev === 'trash' ? 'files' : 'trash'))}
+              variant="outline"
+              size="lg"
+              className={`border-gray-300 dark:border-gray-600 ${activePanel === 'trash' ? 'bg-gray-100 dark:bg-gray-700' : 'bg-white dark:bg-gray-800'}`}
+            >
+              <Trash2 className="h-5 w-5 mr-2" />
+              Trash
+            </Button>
+            {folderAccess.canEdit && (
+              <Button 
+                onClick={() => setShowUploadArea(true)} 
+                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                size="lg"
+              >
+                <Upload className="h-5 w-5 mr-2" />
+                Upload Files
+              </Button>
+            )}
           </div>
-          <Button 
-            onClick={() => setShowUploadArea(true)} 
-            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-lg hover:shadow-xl transition-all duration-200"
-            size="lg"
-          >
-            <Upload className="h-5 w-5 mr-2" />
-            Upload Files
-          </Button>
         </div>
         
         {/* File Statistics */}
@@ -371,11 +1812,11 @@ export const FileManager: React.FC<FileManagerProps> = ({
           <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-blue-200 dark:border-blue-800">
             <div className="flex items-center">
               <div className="p-2 bg-blue-100 dark:bg-blue-900/50 rounded-lg">
-                <File className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                <FileIcon className="h-6 w-6 text-blue-600 dark:text-blue-400" />
               </div>
               <div className="ml-3">
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Files</p>
-                <p className="text-2xl font-bold text-gray-900 dark:text-white">{files.length}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{fileStats.totalFiles}</p>
               </div>
             </div>
           </div>
@@ -387,7 +1828,7 @@ export const FileManager: React.FC<FileManagerProps> = ({
               </div>
               <div className="ml-3">
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Folders</p>
-                <p className="text-2xl font-bold text-gray-900 dark:text-white">{folders.length}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{fileStats.totalFolders}</p>
               </div>
             </div>
           </div>
@@ -400,7 +1841,7 @@ export const FileManager: React.FC<FileManagerProps> = ({
               <div className="ml-3">
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Images</p>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {files.filter(f => f.type === 'image').length}
+                  {fileStats.imageFiles}
                 </p>
               </div>
             </div>
@@ -414,7 +1855,7 @@ export const FileManager: React.FC<FileManagerProps> = ({
               <div className="ml-3">
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Documents</p>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {files.filter(f => f.type === 'document').length}
+                  {fileStats.documentFiles}
                 </p>
               </div>
             </div>
@@ -423,7 +1864,7 @@ export const FileManager: React.FC<FileManagerProps> = ({
       </div>
 
       {/* Upload Area */}
-      {showUploadArea && (
+      {showUploadArea && folderAccess.canEdit && (
         <Card className="border-2 border-dashed border-blue-300 dark:border-blue-600 bg-blue-50/50 dark:bg-blue-950/20">
           <CardContent className="p-8">
             <div className="text-center">
@@ -432,31 +1873,17 @@ export const FileManager: React.FC<FileManagerProps> = ({
               </div>
               <div>
                 <p className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                  {isUploading ? 'Uploading files...' : 'Drop files here or click to browse'}
+                  Drop files here or click to browse
                 </p>
-                {isUploading && (
-                  <div className="mb-4">
-                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
-                      <div 
-                        className="bg-gradient-to-r from-blue-500 to-indigo-500 h-3 rounded-full transition-all duration-300"
-                        style={{ width: `${uploadProgress}%` }}
-                      ></div>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
-                      {Math.round(uploadProgress)}% complete
-                    </p>
-                  </div>
-                )}
                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                  Supports: PDF, DOC, DOCX, XLS, XLSX, Images, Videos, Audio, ZIP, RAR, Code files
+                  Allowed: {describeAllowedTypes(uploadPolicy)}
                 </p>
                 <Input
                   type="file"
                   multiple
                   onChange={handleFileUpload}
-                  accept=".pdf,.doc,.docx,.xls,.xlsx,.txt,.zip,.rar,.png,.jpg,.jpeg,.gif,.svg,.mp4,.avi,.mov,.mp3,.wav,.js,.ts,.jsx,.tsx,.html,.css"
+                  accept={getAcceptedExtensions(uploadPolicy)}
                   className="max-w-xs mx-auto"
-                  disabled={isUploading}
                 />
               </div>
             </div>
@@ -465,15 +1892,27 @@ export const FileManager: React.FC<FileManagerProps> = ({
                 onClick={() => setShowUploadArea(false)} 
                 variant="outline"
                 className="border-gray-300 dark:border-gray-600"
-                disabled={isUploading}
               >
-                Cancel
+                Close
               </Button>
             </div>
           </CardContent>
         </Card>
       )}
 
+      {/* Upload Queue */}
+      {(uploadQueue.items.length > 0 || uploadQueue.interruptedUploads.length > 0) && (
+        <UploadQueuePanel
+          items={uploadQueue.items}
+          interruptedUploads={uploadQueue.interruptedUploads}
+          onCancel={uploadQueue.cancel}
+          onRetry={uploadQueue.retry}
+          onClearFinished={uploadQueue.clearFinished}
+          onResumeInterrupted={handleResumeInterrupted}
+          onDiscardInterrupted={uploadQueue.discardInterrupted}
+        />
+      )}
+
       {/* Controls */}
       <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
         <CardContent className="p-4">
@@ -481,209 +1920,287 @@ export const FileManager: React.FC<FileManagerProps> = ({
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
               <Input
-                placeholder="Search files by name or tags..."
+                placeholder="Search names, tags and contents, or filter with type: size: uploaded: by: tag:"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+                onChange={(e) => updateViewState({ query: e.target.value }, { replace: true })}
+                className="pl-10 pr-10 bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+                title="e.g. report type:pdf size:>5mb uploaded:<2026-01-01 by:alice tag:final"
               />
+              {contentSearch.isSearching && (
+                <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 animate-spin" />
+              )}
+              {parsedQuery.errors.length > 0 && (
+                <p className="absolute left-0 top-full mt-1 text-xs text-red-600 dark:text-red-400">
+                  Ignored: {parsedQuery.errors.join(', ')}
+                </p>
+              )}
             </div>
 
-            <Select value={selectedFolder} onValueChange={setSelectedFolder}>
-              <SelectTrigger className="w-48 bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600">
-                <SelectValue placeholder="Select folder" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">📁 All Folders</SelectItem>
-                {folders.map(folder => (
-                  <SelectItem key={folder} value={folder}>
-                    📁 {folder}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
             <div className="flex items-center gap-2">
+              <Button
+                className="p-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600"
+                onClick={() => setShowSidebar(prev => !prev)}
+                title={showSidebar ? 'Hide Folders' : 'Show Folders'}
+              >
+                {showSidebar ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeftOpen className="h-4 w-4" />}
+              </Button>
               <Button
                 className={`p-2 ${viewMode === 'grid' ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600'}`}
-                onClick={() => setViewMode('grid')}
+                onClick={() => updateViewState({ viewMode: 'grid' })}
                 title="Grid View"
               >
                 <Grid className="h-4 w-4" />
               </Button>
               <Button
                 className={`p-2 ${viewMode === 'list' ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600'}`}
-                onClick={() => setViewMode('list')}
+                onClick={() => updateViewState({ viewMode: 'list' })}
                 title="List View"
               >
                 <List className="h-4 w-4" />
               </Button>
             </div>
 
-            <Button 
-              onClick={() => setShowFolderDialog(true)} 
+            <Button
+              onClick={() => setPermissionsFolder({ name: getBaseName(currentPath) || 'Root', path: currentPath })}
+              variant="outline"
+              className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+              title="Who can access this folder"
+            >
+              <Shield className="h-4 w-4 mr-2" />
+              Access
+            </Button>
+
+            <Button
+              onClick={() => setEncryptionFolder({ name: getBaseName(currentPath) || 'Root', path: currentPath })}
               variant="outline"
               className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+              title="Encryption and key holders for this folder"
             >
-              <Plus className="h-4 w-4 mr-2" />
-              New Folder
+              <Lock className="h-4 w-4 mr-2" />
+              Encryption
             </Button>
+
+            {folderAccess.canEdit && (
+              <Button 
+                onClick={() => openFolderDialog()} 
+                variant="outline"
+                className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Folder
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Files Display */}
-      {viewMode === 'grid' ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {filteredFiles.map(file => (
-            <Card key={file.id} className="group hover:shadow-lg transition-all duration-200 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-hidden">
-              <CardContent className="p-4">
-                <div className="flex items-start justify-between mb-3">
-                  {getFileIcon(file.type)}
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button className="bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700 p-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <MoreVertical className="h-4 w-4 text-gray-600 dark:text-gray-300" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end" className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
-                      {canPreview(file.type) && (
-                        <DropdownMenuItem onClick={() => handleFileView(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
-                          <Eye className="h-4 w-4 mr-2 text-blue-600" />
-                          <span className="text-gray-700 dark:text-gray-300">View</span>
-                        </DropdownMenuItem>
-                      )}
-                      <DropdownMenuItem onClick={() => handleFileDownload(file.id)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
-                        <Download className="h-4 w-4 mr-2 text-green-600" />
-                        <span className="text-gray-700 dark:text-gray-300">Download</span>
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleFileDelete(file.id)} className="hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600">
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
+      <div className="flex flex-col md:flex-row gap-6 items-start">
+        {/* Folder Sidebar */}
+        {showSidebar && (
+          <Card className="w-full md:w-64 shrink-0 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-semibold text-gray-900 dark:text-white">Folders</CardTitle>
+            </CardHeader>
+            <CardContent className="p-2 max-h-[70vh] overflow-auto">
+              <FolderTree
+                storage={storage}
+                currentPath={currentPath}
+                onNavigate={navigateToFolder}
+                refreshKey={folderTreeKey}
+                onDropFiles={handleDropFiles}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex-1 min-w-0 space-y-4 w-full">
+          {activePanel === 'trash' ? (
+            <TrashView
+              storage={storage}
+              retentionDays={trashRetentionDays}
+              onRestored={handleTrashRestored}
+              onClose={() => setActivePanel('files')}
+            />
+          ) : activePanel === 'share-links' ? (
+            <ShareLinksPanel onClose={() => setActivePanel('files')} />
+          ) : activePanel === 'activity' ? (
+            <ActivityLogPanel onClose={() => setActivePanel('files')} />
+          ) : activePanel === 'duplicates' ? (
+            <DuplicatesPanel
+              storage={storage}
+              onOpenFolder={path => {
+                setActivePanel('files');
+                navigateToFolder(path);
+              }}
+              onCleanedUp={paths => {
+                loadFiles(currentPath);
+                paths.forEach(path => fileSync.publish({ type: 'insert', path }));
+              }}
+              onClose={() => setActivePanel('files')}
+            />
+          ) : activePanel === 'usage' ? (
+            <StorageUsagePanel
+              initialPath={currentPath}
+              onClose={() => {
+                setActivePanel('files');
+                loadFolderQuotas();
+              }}
+            />
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <FolderBreadcrumbs path={currentPath} onNavigate={navigateToFolder} />
+                  <TypeFilterChips
+                    files={files}
+                    selected={typeFilters}
+                    onChange={types => updateViewState({ types })}
+                  />
                 </div>
+                <FolderViewers viewers={fileSync.viewers} />
+              </div>
+
+              <QuotaBanner quotas={folderQuotas} />
+
+              {selectedFiles.length > 0 && (
+                <BatchActionBar
+                  selectedCount={selectedFiles.length}
+                  visibleCount={filteredFiles.length}
+                  isBusy={isBatchBusy}
+                  canEdit={folderAccess.canEdit}
+                  onSelectAll={selection.selectAll}
+                  onClear={selection.clear}
+                  onDownload={handleBatchDownload}
+                  onMove={() => setShowBatchMove(true)}
+                  onAddTags={() => setShowBatchTags(true)}
+                  onDelete={() => setConfirmBatchDelete(true)}
+                />
+              )}
 
-                <div className="space-y-2">
-                  <h3 className="font-medium text-sm truncate text-gray-900 dark:text-white" title={file.name}>
-                    {file.name}
-                  </h3>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</p>
-                  {file.folder && (
-                    <Badge className="text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
-                      <Folder className="h-3 w-3 mr-1" />
-                      {file.folder}
-                    </Badge>
+              {/* Files Display */}
+              {isFolderEmpty ? null : viewMode === 'grid' ? (
+                <VirtualFileView
+                  viewMode="grid"
+                  folders={filteredFolders}
+                  files={filteredFiles}
+                  hasMore={nextOffset !== null}
+                  isLoadingMore={isLoadingMore}
+                  onLoadMore={loadMoreFiles}
+                  renderFolder={folder => (
+                    <Card
+                      onClick={() => navigateToFolder(folder.path)}
+                      className="group h-full cursor-pointer hover:shadow-lg transition-all duration-200 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                    >
+                      <CardContent className="p-4 flex items-center gap-3">
+                        <Folder className={`h-8 w-8 shrink-0 ${theme === 'dark' ? 'text-blue-400' : 'text-blue-600'}`} />
+                        <h3 className="flex-1 font-medium text-sm truncate text-gray-900 dark:text-white" title={folder.name}>
+                          {folder.name}
+                        </h3>
+                        {renderFolderMenu(folder, 'opacity-0 group-hover:opacity-100 transition-opacity')}
+                      </CardContent>
+                    </Card>
                   )}
-                  <div className="flex flex-wrap gap-1">
-                    {file.tags.map(tag => (
-                      <Badge key={tag} className="text-xs border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
-                        {tag}
-                      </Badge>
-                    ))}
-                  </div>
-                  <div className="pt-2 border-t border-gray-100 dark:border-gray-700">
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      📤 {file.uploadedBy}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      📅 {file.uploadedAt.toLocaleDateString()}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      ) : (
-        <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
-          <CardHeader>
-            <CardTitle className="text-gray-900 dark:text-white">Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {filteredFiles.map(file => (
-                <div key={file.id} className="flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg border border-gray-100 dark:border-gray-700 transition-colors">
-                  <div className="flex items-center gap-3">
-                    {getFileIcon(file.type)}
-                    <div>
-                      <h3 className="font-medium text-gray-900 dark:text-white">{file.name}</h3>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        {formatFileSize(file.size)} • 📤 {file.uploadedBy} • 📅 {file.uploadedAt.toLocaleDateString()}
-                      </p>
-                      {file.folder && (
-                        <Badge className="text-xs mt-1 bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
-                          <Folder className="h-3 w-3 mr-1" />
-                          {file.folder}
-                        </Badge>
+                  renderFile={file => (
+                    <FileCard
+                      file={file}
+                      onView={handleFileView}
+                      onDownload={handleFileDownload}
+                      onDelete={handleFileDelete}
+                      onEditTags={setTaggingFile}
+                      isSelected={selection.isSelected(file.id)}
+                      isSelectionActive={selectedFiles.length > 0}
+                      onToggleSelect={handleToggleSelect}
+                      onRename={setRenamingFile}
+                      onMove={setMovingFile}
+                      onDuplicate={handleFileDuplicate}
+                      onShare={setSharingFile}
+                      onDragFile={folderAccess.canEdit ? handleDragFile : undefined}
+                      canEdit={folderAccess.canEdit}
+                    />
+                  )}
+                />
+              ) : (
+                <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                  <CardHeader className="flex flex-row items-center justify-between gap-2 flex-wrap space-y-0">
+                    <CardTitle className="text-gray-900 dark:text-white">Files</CardTitle>
+                    <FileSortHeader sort={sort} onSort={field => updateViewState({ sort: toggleSort(sort, field) })} />
+                  </CardHeader>
+                  <CardContent>
+                    <VirtualFileView
+                      viewMode="list"
+                      folders={filteredFolders}
+                      files={filteredFiles}
+                      hasMore={nextOffset !== null}
+                      isLoadingMore={isLoadingMore}
+                      onLoadMore={loadMoreFiles}
+                      renderFolder={folder => (
+                        <div
+                          onClick={() => navigateToFolder(folder.path)}
+                          className="h-full flex items-center gap-3 p-3 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg border border-gray-100 dark:border-gray-700 transition-colors"
+                        >
+                          <Folder className={`h-8 w-8 shrink-0 ${theme === 'dark' ? 'text-blue-400' : 'text-blue-600'}`} />
+                          <h3 className="flex-1 font-medium text-gray-900 dark:text-white">{folder.name}</h3>
+                          {renderFolderMenu(folder)}
+                        </div>
                       )}
-                    </div>
-                  </div>
-
-                  <div className="flex items-center gap-2">
-                    <div className="flex flex-wrap gap-1">
-                      {file.tags.map(tag => (
-                        <Badge key={tag} className="text-xs border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
-                          {tag}
-                        </Badge>
-                      ))}
-                    </div>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button className="bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700 p-2">
-                          <MoreVertical className="h-4 w-4 text-gray-600 dark:text-gray-300" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end" className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
-                        {canPreview(file.type) && (
-                          <DropdownMenuItem onClick={() => handleFileView(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
-                            <Eye className="h-4 w-4 mr-2 text-blue-600" />
-                            <span className="text-gray-700 dark:text-gray-300">View</span>
-                          </DropdownMenuItem>
-                        )}
-                        <DropdownMenuItem onClick={() => handleFileDownload(file.id)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
-                          <Download className="h-4 w-4 mr-2 text-green-600" />
-                          <span className="text-gray-700 dark:text-gray-300">Download</span>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => handleFileDelete(file.id)} className="hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600">
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+                      renderFile={file => (
+                        <FileListRow
+                          file={file}
+                          onView={handleFileView}
+                          onDownload={handleFileDownload}
+                          onDelete={handleFileDelete}
+                          onEditTags={setTaggingFile}
+                          isSelected={selection.isSelected(file.id)}
+                          isSelectionActive={selectedFiles.length > 0}
+                          onToggleSelect={handleToggleSelect}
+                          onRename={setRenamingFile}
+                          onMove={setMovingFile}
+                          onDuplicate={handleFileDuplicate}
+                          onShare={setSharingFile}
+                          onDragFile={folderAccess.canEdit ? handleDragFile : undefined}
+                          canEdit={folderAccess.canEdit}
+                          highlightTerms={parsedQuery.terms}
+                          contentMatch={file.path ? contentSearch.matches.get(file.path) : undefined}
+                        />
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+              )}
 
-      {filteredFiles.length === 0 && (
-        <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
-          <CardContent className="p-12 text-center">
-            <div className="mx-auto w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4">
-              <File className="h-8 w-8 text-gray-400" />
-            </div>
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No files found</h3>
-            <p className="text-gray-500 dark:text-gray-400 mb-4">
-              Try adjusting your search or folder selection, or upload some files to get started!
-            </p>
-            <Button onClick={() => setShowUploadArea(true)} className="bg-blue-600 hover:bg-blue-700">
-              <Upload className="h-4 w-4 mr-2" />
-              Upload Your First File
-            </Button>
-          </CardContent>
-        </Card>
-      )}
+              {isFolderEmpty && (
+                <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                  <CardContent className="p-12 text-center">
+                    <div className="mx-auto w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4">
+                      <FileIcon className="h-8 w-8 text-gray-400" />
+                    </div>
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No files found</h3>
+                    <p className="text-gray-500 dark:text-gray-400 mb-4">
+                      Try adjusting your search or opening another folder, or upload some files to get started!
+                    </p>
+                    {folderAccess.canEdit && (
+                      <Button onClick={() => setShowUploadArea(true)} className="bg-blue-600 hover:bg-blue-700">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Upload Your First File
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </div>
 
       {/* New Folder Dialog */}
       {showFolderDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Create New Folder</h3>
-              <Button onClick={() => setShowFolderDialog(false)} variant="ghost" size="sm">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {renamingFolder ? 'Rename Folder' : 'Create New Folder'}
+              </h3>
+              <Button onClick={closeFolderDialog} variant="ghost" size="sm" disabled={isFolderBusy}>
                 <X className="h-4 w-4" />
               </Button>
             </div>
@@ -696,17 +2213,33 @@ export const FileManager: React.FC<FileManagerProps> = ({
                 <Input
                   value={newFolderName}
                   onChange={(e) => setNewFolderName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'Enter') return;
+                    if (renamingFolder) handleFolderRename();
+                    else handleFolderCreate();
+                  }}
                   placeholder="Enter folder name..."
                   className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+                  disabled={isFolderBusy}
+                  autoFocus
                 />
+                {!renamingFolder && currentPath && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Will be created inside {currentPath}
+                  </p>
+                )}
               </div>
               
               <div className="flex gap-2">
-                <Button onClick={handleFolderCreate} className="flex-1">
+                <Button
+                  onClick={renamingFolder ? handleFolderRename : handleFolderCreate}
+                  className="flex-1"
+                  disabled={isFolderBusy}
+                >
                   <Folder className="h-4 w-4 mr-2" />
-                  Create Folder
+                  {renamingFolder ? 'Rename Folder' : 'Create Folder'}
                 </Button>
-                <Button variant="outline" onClick={() => setShowFolderDialog(false)} className="flex-1">
+                <Button variant="outline" onClick={closeFolderDialog} className="flex-1" disabled={isFolderBusy}>
                   Cancel
                 </Button>
               </div>
@@ -715,6 +2248,218 @@ export const FileManager: React.FC<FileManagerProps> = ({
         </div>
       )}
 
+      {/* Edit Tags Dialog */}
+      {taggingFile && (
+        <EditTagsDialog
+          file={taggingFile}
+          onSave={tags => handleMetadataSave(taggingFile, { tags })}
+          onClose={() => setTaggingFile(null)}
+        />
+      )}
+
+      {/* Delete File Confirmation */}
+      {deletingFile && (
+        <ConfirmDialog
+          title="Delete File"
+          description={
+            <>
+              Move <span className="font-semibold">{deletingFile.name}</span> to the trash?
+              You can restore it for {trashRetentionDays} days.
+            </>
+          }
+          confirmLabel="Move to Trash"
+          isDestructive
+          isBusy={isDeletingFile}
+          onConfirm={confirmFileDelete}
+          onCancel={() => setDeletingFile(null)}
+        />
+      )}
+
+      {/* Rename File Dialog */}
+      {renamingFile && (
+        <RenameFileDialog
+          file={renamingFile}
+          onRename={handleFileRename}
+          onClose={() => setRenamingFile(null)}
+        />
+      )}
+
+      {/* Move File Dialog */}
+      {movingFile && (
+        <FolderPickerDialog
+          storage={storage}
+          title={`Move ${movingFile.name} to...`}
+          initialPath={currentPath}
+          disabledPath={getParentPath(movingFile.path || movingFile.name)}
+          onConfirm={handleFileMove}
+          onClose={() => setMovingFile(null)}
+        />
+      )}
+
+      {/* Folder Access */}
+      {permissionsFolder && (
+        <FolderPermissionsDialog
+          folder={permissionsFolder}
+          onChanged={() => {
+            folderAccess.refresh();
+            refreshFolders();
+          }}
+          onClose={() => setPermissionsFolder(null)}
+        />
+      )}
+
+      {/* Folder Encryption */}
+      {encryptionFolder && (
+        <FolderEncryptionDialog
+          folder={encryptionFolder}
+          ensureKey={ensureEncryptionKey}
+          onEncryptFiles={folder => {
+            setEncryptionFolder(null);
+            setEncryptingFolder(folder);
+          }}
+          onClose={() => setEncryptionFolder(null)}
+        />
+      )}
+
+      {/* Encrypting a Folder's Files */}
+      {encryptingFolder && (
+        <BackfillDialog
+          title="Encrypt Files"
+          icon={<Lock className="h-5 w-5" />}
+          description={`Encrypts the files in ${encryptingFolder.path || 'Root'}, and their earlier versions, with key version ${encryptingFolder.keyVersion}. Files already on that key are skipped.`}
+          upToDateMessage="Every file is already encrypted with the current key."
+          run={async (onProgress, signal) => {
+            if (!(await ensureEncryptionKey())) throw new Error('Your encryption key is locked');
+            return encryptFolderFiles(storage, encryptingFolder, onProgress, signal);
+          }}
+          onFinished={progress => {
+            if (progress.created > 0) loadFiles(activePathRef.current);
+          }}
+          onClose={() => setEncryptingFolder(null)}
+        />
+      )}
+
+      {/* Thumbnail Backfill */}
+      {showThumbnailBackfill && (
+        <BackfillDialog
+          title="Generate Thumbnails"
+          icon={<Image className="h-5 w-5" />}
+          description="Creates thumbnails for images, videos and PDFs uploaded before thumbnails existed."
+          upToDateMessage="Every file already has a thumbnail."
+          run={(onProgress, signal) => backfillThumbnails(storage, onProgress, signal)}
+          onFinished={progress => {
+            if (progress.created > 0) loadFiles(activePathRef.current);
+          }}
+          onClose={() => setShowThumbnailBackfill(false)}
+        />
+      )}
+
+      {/* Content Index Backfill */}
+      {showContentIndexBackfill && (
+        <BackfillDialog
+          title="Build Search Index"
+          icon={<FileSearch className="h-5 w-5" />}
+          description="Reads the text of documents, code and text files uploaded before content search existed, so searches find them."
+          upToDateMessage="Every file is already indexed."
+          run={(onProgress, signal) => backfillContentIndex(storage, onProgress, signal)}
+          onClose={() => setShowContentIndexBackfill(false)}
+        />
+      )}
+
+      {/* Share File Dialog */}
+      {sharingFile && (
+        <ShareFileDialog file={sharingFile} onClose={() => setSharingFile(null)} />
+      )}
+
+      {/* Batch Delete Confirmation */}
+      {confirmBatchDelete && (
+        <ConfirmDialog
+          title="Delete Files"
+          description={
+            <>
+              Move <span className="font-semibold">{selectedFiles.length} file(s)</span> to the trash?
+              You can restore them for {trashRetentionDays} days.
+            </>
+          }
+          confirmLabel="Move to Trash"
+          isDestructive
+          isBusy={isBatchBusy}
+          onConfirm={handleBatchDelete}
+          onCancel={() => setConfirmBatchDelete(false)}
+        />
+      )}
+
+      {/* Batch Move */}
+      {showBatchMove && (
+        <FolderPickerDialog
+          storage={storage}
+          title={`Move ${selectedFiles.length} file(s) to...`}
+          initialPath={currentPath}
+          disabledPath={currentPath}
+          onConfirm={handleBatchMove}
+          onClose={() => setShowBatchMove(false)}
+        />
+      )}
+
+      {/* Batch Tagging */}
+      {showBatchTags && (
+        <AddTagsDialog
+          fileCount={selectedFiles.length}
+          onSave={handleBatchAddTags}
+          onClose={() => setShowBatchTags(false)}
+        />
+      )}
+
+      {/* Batch Failures */}
+      {batchReport && (
+        <BatchReportDialog report={batchReport} onClose={() => setBatchReport(null)} />
+      )}
+
+      {/* Offline Sync Conflicts */}
+      {offlineSyncReport && (
+        <OfflineSyncReportDialog
+          syncedCount={offlineSyncReport.syncedCount}
+          conflicts={offlineSyncReport.conflicts}
+          onClose={() => setOfflineSyncReport(null)}
+        />
+      )}
+
+      {/* Upload Name Conflict */}
+      {pendingConflict && (
+        <ConflictDialog
+          key={`${pendingConflict.folderPath}/${pendingConflict.fileName}`}
+          fileName={pendingConflict.fileName}
+          folderPath={pendingConflict.folderPath}
+          remainingCount={pendingConflict.remainingCount}
+          onResolve={handleConflictResolved}
+        />
+      )}
+
+      {pendingDuplicates && (
+        <DuplicateUploadDialog
+          duplicates={pendingDuplicates.duplicates}
+          onResolve={handleDuplicatesResolved}
+        />
+      )}
+
+      {/* Delete Folder Confirmation */}
+      {deletingFolder && (
+        <ConfirmDialog
+          title="Delete Folder"
+          description={
+            <>
+              Delete <span className="font-semibold">{deletingFolder.name}</span>? Every file inside it
+              will be moved to the trash and can be restored for {trashRetentionDays} days.
+            </>
+          }
+          confirmLabel="Delete Folder"
+          isDestructive
+          isBusy={isFolderBusy}
+          onConfirm={handleFolderDelete}
+          onCancel={() => setDeletingFolder(null)}
+        />
+      )}
+
       {/* File Preview Modal */}
       {viewingFile && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -729,11 +2474,7 @@ export const FileManager: React.FC<FileManagerProps> = ({
             <div className="space-y-4">
               {viewingFile.type === 'image' && viewingFile.url && (
                 <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
-                  <img 
-                    src={viewingFile.url} 
-                    alt={viewingFile.name} 
-                    className="max-w-full h-auto rounded mx-auto"
-                  />
+                  <ImageCommentPins src={viewingFile.url} alt={viewingFile.name} comments={fileComments} />
                 </div>
               )}
               
@@ -770,6 +2511,10 @@ export const FileManager: React.FC<FileManagerProps> = ({
                   </audio>
                 </div>
               )}
+
+              {viewingFile.url && getContentPreviewKind(viewingFile.name) && (
+                <FileContentPreview file={viewingFile} url={viewingFile.url} />
+              )}
               
               <div className="grid grid-cols-2 gap-4 text-sm bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
                 <div>
@@ -789,6 +2534,52 @@ export const FileManager: React.FC<FileManagerProps> = ({
                   <span className="ml-2 text-gray-600 dark:text-gray-400">{viewingFile.uploadedBy}</span>
                 </div>
               </div>
+
+              <FileDetailsEditor
+                file={viewingFile}
+                onSave={changes => handleMetadataSave(viewingFile, changes)}
+                readOnly={!folderAccess.canEdit}
+              />
+
+              {viewingFile.path && (
+                <FileCommentsPanel
+                  filePath={viewingFile.path}
+                  comments={fileComments}
+                  canPin={viewingFile.type === 'image' && !!viewingFile.url}
+                  onChanged={() => {
+                    if (viewingFile.path) refreshCommentCount(viewingFile.path);
+                  }}
+                />
+              )}
+
+              {viewingFile.path && (
+                <VersionHistory
+                  storage={storage}
+                  filePath={viewingFile.path}
+                  onRestored={() => {
+                    loadFiles(currentPath);
+                    if (viewingFile.path && !viewingFile.encryption) {
+                      reindexFileContent(storage, viewingFile.path).catch(error => {
+                        console.error('Error indexing file content:', error);
+                      });
+                      // The restored contents are hashed again by the next backfill
+                      recordContentHash(viewingFile.path, null, 0).catch(error => {
+                        console.error('Error clearing file hash:', error);
+                      });
+                    }
+                    fileSync.publish({ type: 'insert', path: viewingFile.path || viewingFile.name });
+                    setActivityRefreshKey(prev => prev + 1);
+                  }}
+                  canRestore={folderAccess.canEdit}
+                  loadDecrypted={viewingFile.encryption
+                    ? (versionPath) => loadDecrypted(versionPath, viewingFile.encryption!)
+                    : undefined}
+                />
+              )}
+
+              {viewingFile.path && (
+                <FileActivityList filePath={viewingFile.path} refreshKey={activityRefreshKey} />
+              )}
               
               <div className="flex gap-2">
                 <Button onClick={() => handleFileDownload(viewingFile.id)} className="bg-green-600 hover:bg-green-700">
@@ -803,6 +2594,16 @@ export const FileManager: React.FC<FileManagerProps> = ({
           </div>
         </div>
       )}
+
+      {/* Encryption Passphrase, above anything that asked for it */}
+      {pendingKeyPrompt && user && (
+        <EncryptionKeyDialog
+          userId={user.id}
+          mode={pendingKeyPrompt.mode}
+          onUnlocked={() => handleKeyPromptClosed(true)}
+          onClose={() => handleKeyPromptClosed(false)}
+        />
+      )}
     </div>
   );
 };
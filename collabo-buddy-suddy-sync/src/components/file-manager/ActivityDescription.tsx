@@ -0,0 +1,31 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ActivityEntry, ACTIVITY_ACTION_LABELS } from '@/lib/files/activityLog';
+
+interface ActivityDescriptionProps {
+  entry: ActivityEntry;
+  // Off where the paths are shown in a column of their own
+  showPaths?: boolean;
+}
+
+// The action with its outcome, plus where the file went and any detail
+export const ActivityDescription: React.FC<ActivityDescriptionProps> = ({ entry, showPaths = true }) => (
+  <div className="space-y-0.5">
+    <div className="flex items-center gap-2">
+      <span className="font-medium text-gray-900 dark:text-white">{ACTIVITY_ACTION_LABELS[entry.action]}</span>
+      {entry.outcome === 'failure' && (
+        <Badge className="text-xs bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+          Failed
+        </Badge>
+      )}
+    </div>
+    {showPaths && entry.targetPath && (
+      <p className="text-xs text-gray-600 dark:text-gray-300 break-all">
+        {entry.path} → {entry.targetPath}
+      </p>
+    )}
+    {entry.detail && (
+      <p className="text-xs text-gray-500 dark:text-gray-400 break-words">{entry.detail}</p>
+    )}
+  </div>
+);
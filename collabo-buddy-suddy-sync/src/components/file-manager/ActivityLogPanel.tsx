@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, ArrowLeft, FileDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ActivityAction,
+  ActivityEntry,
+  ActivityFilters,
+  ActivityOutcome,
+  ACTIVITY_ACTION_LABELS,
+  ACTIVITY_PAGE_SIZE,
+  fetchActivity,
+  fetchAllActivity,
+  toActivityCsv
+} from '@/lib/files/activityLog';
+import { ActivityDescription } from './ActivityDescription';
+
+// Typed filters wait for a pause before querying
+const FILTER_DEBOUNCE_MS = 300;
+
+const selectClassName = 'h-10 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 text-sm text-gray-900 dark:text-white';
+const inputClassName = 'bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600';
+
+interface ActivityLogPanelProps {
+  onClose: () => void;
+}
+
+// Date inputs give local calendar days; the end day is included in full
+const parseDay = (value: string, endOfDay = false): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, endOfDay ? day + 1 : day);
+};
+
+const saveCsv = (csv: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const ActivityLogPanel: React.FC<ActivityLogPanelProps> = ({ onClose }) => {
+  const [action, setAction] = useState<ActivityAction | ''>('');
+  const [outcome, setOutcome] = useState<ActivityOutcome | ''>('');
+  const [actor, setActor] = useState('');
+  const [path, setPath] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const filters: ActivityFilters = {
+    action: action || undefined,
+    outcome: outcome || undefined,
+    actor,
+    path,
+    from: parseDay(fromDay),
+    to: parseDay(toDay, true)
+  };
+
+  // Keyed on the inputs, since filters is rebuilt on every render
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const loaded = await fetchActivity(filters);
+        if (cancelled) return;
+        setEntries(loaded);
+        setHasMore(loaded.length === ACTIVITY_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error loading activity:', error);
+        if (!cancelled) setEntries([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, FILTER_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [action, outcome, actor, path, fromDay, toDay]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const loaded = await fetchActivity(filters, entries.length);
+      setEntries(prev => [...prev, ...loaded]);
+      setHasMore(loaded.length === ACTIVITY_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading activity:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all = await fetchAllActivity(filters);
+      saveCsv(toActivityCsv(all), `file-activity-${new Date().toISOString().slice(0, 10)}.csv`);
+      toast({
+        title: "Activity Exported",
+        description: `${all.length} entries saved as CSV`,
+      });
+    } catch (error) {
+      console.error('Activity export error:', error);
+      toast({
+        title: "Export Failed",
+        description: "An error occurred while exporting the activity log",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setAction('');
+    setOutcome('');
+    setActor('');
+    setPath('');
+    setFromDay('');
+    setToDay('');
+  };
+
+  const hasFilters = !!(action || outcome || actor || path || fromDay || toDay);
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 dark:text-white flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Activity Log
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Files
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Every upload, download, view, change and failed attempt on files you can access. Entries can't be edited or removed.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 pt-2">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as ActivityAction | '')}
+            className={selectClassName}
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTIVITY_ACTION_LABELS) as ActivityAction[]).map(key => (
+              <option key={key} value={key}>{ACTIVITY_ACTION_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as ActivityOutcome | '')}
+            className={selectClassName}
+          >
+            <option value="">Any outcome</option>
+            <option value="success">Succeeded</option>
+            <option value="failure">Failed</option>
+          </select>
+          <Input
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Person (email)"
+            className={inputClassName}
+          />
+          <Input
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            placeholder="File path contains"
+            className={inputClassName}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            From
+            <Input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className={inputClassName} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            To
+            <Input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className={inputClassName} />
+          </label>
+        </div>
+        {hasFilters && (
+          <div>
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading && entries.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading activity...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-gray-500 dark:text-gray-400">
+            {hasFilters ? 'No activity matches these filters' : 'No activity recorded yet'}
+          </p>
+        ) : (
+          <div className={`overflow-x-auto ${isLoading ? 'opacity-60' : ''}`}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Time</th>
+                  <th className="py-2 pr-4 font-medium">Person</th>
+                  <th className="py-2 pr-4 font-medium">Action</th>
+                  <th className="py-2 font-medium">File</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr
+                    key={entry.id}
+                    className={`border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300 align-top ${
+                      entry.outcome === 'failure' ? 'bg-red-50/50 dark:bg-red-950/20' : ''
+                    }`}
+                  >
+                    <td className="py-2 pr-4 whitespace-nowrap">{entry.createdAt.toLocaleString()}</td>
+                    <td className="py-2 pr-4">{entry.actorEmail || 'Unknown'}</td>
+                    <td className="py-2 pr-4">
+                      <ActivityDescription entry={entry} showPaths={false} />
+                    </td>
+                    <td className="py-2 break-all">
+                      {entry.path || 'Root'}
+                      {entry.targetPath && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">→ {entry.targetPath}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {hasMore && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { File, Folder } from 'lucide-react';
+import { ZipEntry } from '@/lib/files/preview';
+import { formatFileSize } from './fileDisplay';
+
+interface ArchivePreviewProps {
+  entries: ZipEntry[];
+}
+
+export const ArchivePreview: React.FC<ArchivePreviewProps> = ({ entries }) => {
+  const files = entries.filter(entry => !entry.isDirectory);
+  const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">This archive is empty.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {files.length} {files.length === 1 ? 'file' : 'files'}, {formatFileSize(totalSize)} uncompressed
+      </p>
+      <div className="max-h-96 overflow-auto rounded border border-gray-200 dark:border-gray-600">
+        <table className="min-w-full text-sm">
+          <thead className="sticky top-0 bg-gray-200 dark:bg-gray-600">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-900 dark:text-white">Name</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-900 dark:text-white">Size</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-900 dark:text-white">Modified</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800">
+            {entries.map(entry => (
+              <tr key={entry.name} className="border-t border-gray-100 dark:border-gray-700">
+                <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">
+                  <span className="flex items-center gap-2 break-all">
+                    {entry.isDirectory
+                      ? <Folder className="h-4 w-4 flex-shrink-0 text-blue-500" />
+                      : <File className="h-4 w-4 flex-shrink-0 text-gray-400" />}
+                    {entry.name}
+                  </span>
+                </td>
+                <td className="px-3 py-1.5 text-right text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  {entry.isDirectory ? '' : formatFileSize(entry.size)}
+                </td>
+                <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  {entry.modifiedAt?.toLocaleString() ?? ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
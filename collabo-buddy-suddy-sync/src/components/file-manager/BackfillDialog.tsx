@@ -0,0 +1,107 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BackfillProgress } from '@/lib/files/backfill';
+
+interface BackfillDialogProps {
+  title: string;
+  icon: React.ReactNode;
+  description: string;
+  // Shown when there was nothing left to do
+  upToDateMessage: string;
+  run: (onProgress: (progress: BackfillProgress) => void, signal: AbortSignal) => Promise<BackfillProgress>;
+  // Called once the run ends, so the open folder can pick up the results
+  onFinished?: (progress: BackfillProgress) => void;
+  onClose: () => void;
+}
+
+export const BackfillDialog: React.FC<BackfillDialogProps> = ({
+  title,
+  icon,
+  description,
+  upToDateMessage,
+  run,
+  onFinished,
+  onClose
+}) => {
+  const [progress, setProgress] = useState<BackfillProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops the run after the file in progress
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const progress = await run(setProgress, controller.signal);
+      onFinished?.(progress);
+    } catch (backfillError) {
+      console.error('Backfill error:', backfillError);
+      setError('Could not list the files that need processing');
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            {icon}
+            {title}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          {description} This runs in this browser, so keep this dialog open until it finishes.
+        </p>
+
+        {progress && (
+          <div className="space-y-2 mb-4">
+            <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {progress.total === 0
+                ? upToDateMessage
+                : `${progress.processed} of ${progress.total} checked, ${progress.created} done`}
+            </p>
+            {progress.failed.length > 0 && (
+              <ul className="max-h-32 overflow-auto text-xs text-red-600 dark:text-red-400 space-y-1">
+                {progress.failed.map(failure => (
+                  <li key={failure.path} className="truncate" title={failure.message}>
+                    {failure.path}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button onClick={handleStart} disabled={isRunning} className="flex-1">
+            {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isRunning ? 'Working...' : progress ? 'Run Again' : 'Start'}
+          </Button>
+          <Button onClick={onClose} variant="outline" className="flex-1">
+            {isRunning ? 'Stop' : 'Close'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CheckSquare, Download, FolderInput, Loader2, Tag, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+interface BatchActionBarProps {
+  selectedCount: number;
+  // How many files the current filter shows, i.e. what "Select all" picks
+  visibleCount: number;
+  isBusy: boolean;
+  // Without edit rights only downloading is offered
+  canEdit: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDownload: () => void;
+  onMove: () => void;
+  onAddTags: () => void;
+  onDelete: () => void;
+}
+
+export const BatchActionBar: React.FC<BatchActionBarProps> = ({
+  selectedCount,
+  visibleCount,
+  isBusy,
+  canEdit,
+  onSelectAll,
+  onClear,
+  onDownload,
+  onMove,
+  onAddTags,
+  onDelete
+}) => {
+  return (
+    <Card className="sticky top-2 z-30 bg-blue-50 dark:bg-blue-950/60 border border-blue-200 dark:border-blue-800 shadow-md">
+      <CardContent className="p-3 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-blue-900 dark:text-blue-100 flex items-center gap-2 mr-2">
+          {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+          {selectedCount} selected
+        </span>
+        {selectedCount < visibleCount && (
+          <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={isBusy}>
+            <CheckSquare className="h-4 w-4 mr-1" />
+            Select all {visibleCount}
+          </Button>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={onDownload} disabled={isBusy}>
+            <Download className="h-4 w-4 mr-1 text-green-600" />
+            Download
+          </Button>
+          {canEdit && (
+            <>
+              <Button variant="outline" size="sm" onClick={onMove} disabled={isBusy}>
+                <FolderInput className="h-4 w-4 mr-1 text-blue-600" />
+                Move
+              </Button>
+              <Button variant="outline" size="sm" onClick={onAddTags} disabled={isBusy}>
+                <Tag className="h-4 w-4 mr-1 text-purple-600" />
+                Add Tags
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onDelete}
+                disabled={isBusy}
+                className="text-red-600 border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={isBusy} title="Clear Selection">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
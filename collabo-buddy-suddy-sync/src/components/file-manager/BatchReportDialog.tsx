@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BatchResult } from '@/lib/files/batch';
+
+export interface BatchReport {
+  title: string;
+  result: BatchResult<unknown>;
+}
+
+interface BatchReportDialogProps {
+  report: BatchReport;
+  onClose: () => void;
+}
+
+// Lists each file a batch action couldn't handle, with the reason
+export const BatchReportDialog: React.FC<BatchReportDialogProps> = ({ report, onClose }) => {
+  const { succeeded, failed } = report.result;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-red-600" />
+            {report.title}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+          {succeeded.length} succeeded, {failed.length} failed. The failed files are still selected.
+        </p>
+
+        <ul className="max-h-72 overflow-auto divide-y divide-gray-100 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700 mb-4">
+          {failed.map(({ file, message }) => (
+            <li key={file.id} className="px-3 py-2 text-sm">
+              <p className="font-medium text-gray-900 dark:text-white truncate" title={file.path || file.name}>
+                {file.name}
+              </p>
+              <p className="text-xs text-red-600 dark:text-red-400">{message}</p>
+            </li>
+          ))}
+        </ul>
+
+        <Button onClick={onClose} className="w-full">
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { splitMentions } from '@/lib/files/comments';
+
+interface CommentBodyProps {
+  body: string;
+  // Mentions of this email stand out more than others
+  currentUserEmail?: string | null;
+}
+
+export const CommentBody: React.FC<CommentBodyProps> = ({ body, currentUserEmail }) => (
+  <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+    {splitMentions(body).map((part, index) => {
+      if (!part.mention) return <React.Fragment key={index}>{part.text}</React.Fragment>;
+      const isMe = !!currentUserEmail && part.mention.toLowerCase() === currentUserEmail.toLowerCase();
+      return (
+        <span
+          key={index}
+          className={`rounded px-0.5 font-medium ${
+            isMe
+              ? 'bg-amber-100 dark:bg-amber-900/50 text-amber-900 dark:text-amber-100'
+              : 'text-blue-700 dark:text-blue-300'
+          }`}
+        >
+          {part.text}
+        </span>
+      );
+    })}
+  </p>
+);
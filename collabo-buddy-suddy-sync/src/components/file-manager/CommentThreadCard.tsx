@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle2, Loader2, Pencil, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CommentThread, FileComment } from '@/lib/files/comments';
+import { CommentBody } from './CommentBody';
+import { MentionTextarea } from './MentionTextarea';
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  // Number of the thread's pin on the image, if it has one
+  pinNumber?: number;
+  isActive: boolean;
+  currentUser: { id: string; email?: string | null } | null;
+  onSelect: () => void;
+  // Each resolves to whether it worked, so the form can be cleared
+  onReply: (body: string) => Promise<boolean>;
+  onEdit: (comment: FileComment, body: string) => Promise<boolean>;
+  onDelete: (comment: FileComment) => void;
+  onToggleResolved: () => void;
+}
+
+interface CommentItemProps {
+  comment: FileComment;
+  currentUser: CommentThreadCardProps['currentUser'];
+  onEdit: (body: string) => Promise<boolean>;
+  onDelete: () => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, currentUser, onEdit, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+  const [isSaving, setIsSaving] = useState(false);
+  const isAuthor = !!currentUser && comment.authorId === currentUser.id;
+  const isEdited = comment.updatedAt.getTime() - comment.createdAt.getTime() > 1000;
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+    setIsSaving(true);
+    if (await onEdit(draft)) setIsEditing(false);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="group space-y-1">
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span className="font-medium text-gray-900 dark:text-white truncate">{comment.authorEmail || 'Unknown'}</span>
+        <span>{comment.createdAt.toLocaleString()}</span>
+        {isEdited && <span>(edited)</span>}
+        {isAuthor && !isEditing && (
+          <span className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                setDraft(comment.body);
+                setIsEditing(true);
+              }}
+              title="Edit comment"
+              className="p-1 hover:text-gray-900 dark:hover:text-white"
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+              title="Delete comment"
+              className="p-1 hover:text-red-600"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+      </div>
+      {isEditing ? (
+        <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+          <MentionTextarea value={draft} onChange={setDraft} onSubmit={handleSave} disabled={isSaving} autoFocus />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !draft.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <CommentBody body={comment.body} currentUserEmail={currentUser?.email} />
+      )}
+    </div>
+  );
+};
+
+export const CommentThreadCard: React.FC<CommentThreadCardProps> = ({
+  thread,
+  pinNumber,
+  isActive,
+  currentUser,
+  onSelect,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleResolved
+}) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const isResolved = !!thread.root.resolvedAt;
+
+  // Picking a pin on the image brings its thread into view
+  useEffect(() => {
+    if (isActive) cardRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [isActive]);
+
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    setIsSending(true);
+    if (await onReply(reply)) {
+      setReply('');
+      setIsReplying(false);
+    }
+    setIsSending(false);
+  };
+
+  return (
+    <div
+      ref={cardRef}
+      onClick={thread.root.pin ? onSelect : undefined}
+      className={`rounded-lg border p-3 space-y-3 bg-white dark:bg-gray-800 ${
+        isActive ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-gray-200 dark:border-gray-600'
+      } ${isResolved ? 'opacity-70' : ''} ${thread.root.pin ? 'cursor-pointer' : ''}`}
+    >
+      <div className="flex items-start gap-2">
+        {pinNumber !== undefined && (
+          <span
+            className={`shrink-0 h-6 w-6 rounded-full text-xs font-semibold text-white flex items-center justify-center ${
+              isResolved ? 'bg-gray-400' : 'bg-blue-600'
+            }`}
+            title="Pinned on the image"
+          >
+            {pinNumber}
+          </span>
+        )}
+        <div className="flex-1 min-w-0">
+          <CommentItem
+            comment={thread.root}
+            currentUser={currentUser}
+            onEdit={body => onEdit(thread.root, body)}
+            onDelete={() => onDelete(thread.root)}
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleResolved();
+          }}
+          title={isResolved ? 'Reopen thread' : 'Resolve thread'}
+        >
+          {isResolved ? <RotateCcw className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4 text-green-600" />}
+        </Button>
+      </div>
+
+      {isResolved && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+          <CheckCircle2 className="h-3 w-3" />
+          Resolved by {thread.root.resolvedByEmail || 'someone'} on {thread.root.resolvedAt!.toLocaleString()}
+        </p>
+      )}
+
+      {thread.replies.length > 0 && (
+        <div className="space-y-3 border-l-2 border-gray-100 dark:border-gray-700 pl-3 ml-1">
+          {thread.replies.map(comment => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              currentUser={currentUser}
+              onEdit={body => onEdit(comment, body)}
+              onDelete={() => onDelete(comment)}
+            />
+          ))}
+        </div>
+      )}
+
+      {isReplying ? (
+        <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+          <MentionTextarea
+            value={reply}
+            onChange={setReply}
+            onSubmit={handleReply}
+            placeholder="Reply... (@ to mention someone)"
+            disabled={isSending}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsReplying(false)} disabled={isSending}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleReply} disabled={isSending || !reply.trim()}>
+              {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reply
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsReplying(true);
+          }}
+          className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Reply
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ConfirmDialogProps {
+  title: string;
+  description: React.ReactNode;
+  confirmLabel?: string;
+  isDestructive?: boolean;
+  isBusy?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  title,
+  description,
+  confirmLabel = 'Confirm',
+  isDestructive = false,
+  isBusy = false,
+  onConfirm,
+  onCancel
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            {isDestructive && <AlertTriangle className="h-5 w-5 text-red-600" />}
+            {title}
+          </h3>
+          <Button onClick={onCancel} variant="ghost" size="sm" disabled={isBusy}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+          {description}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={onConfirm}
+            disabled={isBusy}
+            className={`flex-1 ${isDestructive ? 'bg-red-600 hover:bg-red-700 text-white' : ''}`}
+          >
+            {confirmLabel}
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={isBusy} className="flex-1">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export type ConflictResolution = 'replace' | 'keep-both' | 'skip';
+
+interface ConflictDialogProps {
+  fileName: string;
+  folderPath: string;
+  // Conflicts still waiting after this one
+  remainingCount: number;
+  onResolve: (resolution: ConflictResolution, applyToAll: boolean) => void;
+}
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  fileName,
+  folderPath,
+  remainingCount,
+  onResolve
+}) => {
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            File Already Exists
+          </h3>
+          <Button onClick={() => onResolve('skip', applyToAll)} variant="ghost" size="sm">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          <span className="font-semibold">{fileName}</span> already exists in{' '}
+          <span className="font-semibold">{folderPath || 'Root'}</span>.
+          Replacing it keeps the current copy in the file's version history.
+        </p>
+
+        {remainingCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mb-4">
+            <input
+              type="checkbox"
+              checked={applyToAll}
+              onChange={(e) => setApplyToAll(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Apply to the {remainingCount} other conflict{remainingCount === 1 ? '' : 's'} in this upload
+          </label>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={() => onResolve('replace', applyToAll)} className="flex-1">
+            Replace
+          </Button>
+          <Button variant="outline" onClick={() => onResolve('keep-both', applyToAll)} className="flex-1">
+            Keep both
+          </Button>
+          <Button variant="outline" onClick={() => onResolve('skip', applyToAll)} className="flex-1">
+            Skip
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
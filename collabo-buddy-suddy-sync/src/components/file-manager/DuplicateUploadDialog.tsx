@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { HashedFile } from '@/lib/files/contentHash';
+import { formatFileSize } from './fileDisplay';
+
+export type DuplicateChoice = 'link' | 'upload' | 'skip';
+
+export interface DuplicateUpload {
+  fileName: string;
+  size: number;
+  // Identical files already stored, oldest first
+  existing: HashedFile[];
+}
+
+interface DuplicateUploadDialogProps {
+  duplicates: DuplicateUpload[];
+  // One choice per entry in `duplicates`, in the same order
+  onResolve: (choices: DuplicateChoice[]) => void;
+}
+
+const CHOICE_LABELS: Record<DuplicateChoice, string> = {
+  link: 'Link to it',
+  upload: 'Upload a copy',
+  skip: "Don't upload"
+};
+
+const selectClassName = 'h-9 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 text-sm text-gray-900 dark:text-white';
+
+// Shown before uploading files whose exact contents are already stored
+// somewhere. Linking keeps one copy and adds a pointer to it under the new name.
+export const DuplicateUploadDialog: React.FC<DuplicateUploadDialogProps> = ({ duplicates, onResolve }) => {
+  const [choices, setChoices] = useState<DuplicateChoice[]>(() => duplicates.map(() => 'link'));
+
+  const setAll = (choice: DuplicateChoice) => setChoices(duplicates.map(() => choice));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-2">
+          <Copy className="h-5 w-5 text-amber-600" />
+          {duplicates.length === 1 ? 'File Already Stored' : `${duplicates.length} Files Already Stored`}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Identical copies already exist. Linking adds the file here without storing its contents again;
+          the link opens the existing copy.
+        </p>
+
+        <ul className="max-h-72 overflow-auto divide-y divide-gray-100 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700 mb-4">
+          {duplicates.map((duplicate, index) => (
+            <li key={`${duplicate.fileName}-${index}`} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate" title={duplicate.fileName}>
+                  {duplicate.fileName} <span className="font-normal text-gray-500 dark:text-gray-400">({formatFileSize(duplicate.size)})</span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={duplicate.existing.map(file => file.path).join('\n')}>
+                  Same as {duplicate.existing[0].path}
+                  {duplicate.existing.length > 1 && ` and ${duplicate.existing.length - 1} more`}
+                </p>
+              </div>
+              <select
+                value={choices[index]}
+                onChange={(e) => {
+                  const choice = e.target.value as DuplicateChoice;
+                  setChoices(prev => prev.map((current, i) => (i === index ? choice : current)));
+                }}
+                className={selectClassName}
+              >
+                {(Object.keys(CHOICE_LABELS) as DuplicateChoice[]).map(choice => (
+                  <option key={choice} value={choice}>{CHOICE_LABELS[choice]}</option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+
+        {duplicates.length > 1 && (
+          <div className="flex gap-2 mb-4 text-xs">
+            <span className="text-gray-500 dark:text-gray-400">Set all to:</span>
+            {(Object.keys(CHOICE_LABELS) as DuplicateChoice[]).map(choice => (
+              <button
+                key={choice}
+                type="button"
+                onClick={() => setAll(choice)}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {CHOICE_LABELS[choice]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={() => onResolve(choices)} className="w-full">
+          Continue
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Copy, Fingerprint, Link, Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { StorageAdapter } from '@/lib/files/storageAdapter';
+import { DuplicateGroup, listDuplicateGroups, replaceWithLink, backfillContentHashes } from '@/lib/files/contentHash';
+import { logActivity, describeActivityError } from '@/lib/files/activityLog';
+import { getParentPath } from '@/lib/files/paths';
+import { ConfirmDialog } from './ConfirmDialog';
+import { BackfillDialog } from './BackfillDialog';
+import { formatFileSize } from './fileDisplay';
+
+interface DuplicatesPanelProps {
+  storage: StorageAdapter;
+  onOpenFolder: (path: string) => void;
+  // Paths that became links in a cleanup
+  onCleanedUp?: (paths: string[]) => void;
+  onClose: () => void;
+}
+
+// Groups identical files across the bucket. Cleaning up keeps the oldest copy
+// and turns the rest into links to it, sending the extra copies to the trash.
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ storage, onOpenFolder, onCleanedUp, onClose }) => {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Hash of the group being cleaned up, or 'all'
+  const [cleaningUp, setCleaningUp] = useState<string | null>(null);
+  const [confirmCleanUpAll, setConfirmCleanUpAll] = useState(false);
+  const [showHashBackfill, setShowHashBackfill] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadGroups = async () => {
+    setIsLoading(true);
+    try {
+      setGroups(await listDuplicateGroups());
+    } catch (error) {
+      console.error('Error loading duplicate files:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGroups();
+  }, []);
+
+  const totalWasted = groups.reduce((sum, group) => sum + group.wastedBytes, 0);
+
+  // Returns the copies that became links and the first failure, if any
+  const cleanUpGroup = async (group: DuplicateGroup) => {
+    const [keep, ...duplicates] = group.files;
+    const linked: string[] = [];
+    let failure: string | null = null;
+
+    for (const duplicate of duplicates) {
+      try {
+        await replaceWithLink(storage, duplicate, keep, user);
+        logActivity('delete', duplicate.path, 'success', { detail: `Replaced by a link to ${keep.path}` });
+        linked.push(duplicate.path);
+      } catch (error) {
+        console.error('Error cleaning up duplicate:', error);
+        logActivity('delete', duplicate.path, 'failure', { detail: describeActivityError(error) });
+        failure = failure || `${duplicate.path}: ${error instanceof Error ? error.message : 'Could not replace with a link'}`;
+      }
+    }
+
+    return { linked, failure };
+  };
+
+  const runCleanUp = async (target: string, toClean: DuplicateGroup[]) => {
+    setCleaningUp(target);
+    const linked: string[] = [];
+    let freed = 0;
+    let failure: string | null = null;
+
+    for (const group of toClean) {
+      const result = await cleanUpGroup(group);
+      linked.push(...result.linked);
+      freed += result.linked.length * group.size;
+      failure = failure || result.failure;
+    }
+
+    setCleaningUp(null);
+    setConfirmCleanUpAll(false);
+    await loadGroups();
+    if (linked.length > 0) onCleanedUp?.(linked);
+
+    if (failure) {
+      toast({
+        title: "Some Duplicates Were Not Cleaned Up",
+        description: `${linked.length} duplicate(s) became links. ${failure}`,
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Duplicates Cleaned Up",
+        description: `${linked.length} duplicate(s) became links. ${formatFileSize(freed)} is freed once the trash is emptied.`,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 dark:text-white flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicate Files
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Files
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Files with identical contents, found by their SHA-256 hash. Only files you can access are shown;
+          encrypted files and files uploaded before hashing existed aren't compared until they are hashed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {groups.length === 0
+              ? 'No duplicates found.'
+              : `${groups.length} group(s) of identical files, wasting ${formatFileSize(totalWasted)}.`}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowHashBackfill(true)}
+              disabled={cleaningUp !== null}
+              title="Hash files uploaded before hashing existed"
+            >
+              <Fingerprint className="h-4 w-4 mr-2" />
+              Hash Existing Files
+            </Button>
+            {groups.length > 0 && (
+              <Button size="sm" onClick={() => setConfirmCleanUpAll(true)} disabled={cleaningUp !== null}>
+                <Sparkles className="h-4 w-4 mr-2" />
+                Clean Up All
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading && groups.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Looking for duplicates...
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {groups.map(group => (
+              <li key={group.hash} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {group.files.length} copies of {formatFileSize(group.size)}
+                    <span className="ml-2 font-normal text-amber-700 dark:text-amber-400">
+                      {formatFileSize(group.wastedBytes)} wasted
+                    </span>
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runCleanUp(group.hash, [group])}
+                    disabled={cleaningUp !== null}
+                    title={`Keep ${group.files[0].path} and link the others to it`}
+                  >
+                    {cleaningUp === group.hash ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Link className="h-4 w-4 mr-2" />
+                    )}
+                    Clean Up
+                  </Button>
+                </div>
+                <ul className="space-y-1">
+                  {group.files.map((file, index) => (
+                    <li key={file.path} className="flex items-center gap-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => onOpenFolder(getParentPath(file.path))}
+                        className="flex-1 min-w-0 truncate text-left text-blue-600 dark:text-blue-400 hover:underline"
+                        title="Open the folder this copy is in"
+                      >
+                        {file.path}
+                      </button>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                        {file.uploadedByEmail || 'Unknown'} • {file.createdAt.toLocaleDateString()}
+                      </span>
+                      {index === 0 && (
+                        <Badge className="text-xs bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800">
+                          Kept
+                        </Badge>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {confirmCleanUpAll && (
+        <ConfirmDialog
+          title="Clean Up All Duplicates"
+          description={
+            <>
+              Keep the oldest copy in each of the {groups.length} group(s) and replace the other copies with links
+              to it. The replaced copies go to the trash, and{' '}
+              <span className="font-semibold">{formatFileSize(totalWasted)}</span> is freed once it is emptied.
+            </>
+          }
+          confirmLabel="Clean Up"
+          isBusy={cleaningUp !== null}
+          onConfirm={() => runCleanUp('all', groups)}
+          onCancel={() => setConfirmCleanUpAll(false)}
+        />
+      )}
+
+      {showHashBackfill && (
+        <BackfillDialog
+          title="Hash Existing Files"
+          icon={<Fingerprint className="h-5 w-5" />}
+          description="Downloads and hashes files uploaded before hashing existed, so duplicates among them are found."
+          upToDateMessage="Every file is already hashed."
+          run={(onProgress, signal) => backfillContentHashes(storage, onProgress, signal)}
+          onFinished={progress => {
+            if (progress.created > 0) loadGroups();
+          }}
+          onClose={() => setShowHashBackfill(false)}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FileItem } from '@/lib/files/types';
+import { TagEditor } from './TagEditor';
+
+interface EditTagsDialogProps {
+  file: FileItem;
+  onSave: (tags: string[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export const EditTagsDialog: React.FC<EditTagsDialogProps> = ({ file, onSave, onClose }) => {
+  const [tags, setTags] = useState(file.tags);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (await onSave(tags)) onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+            Tags for {file.name}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isSaving}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <TagEditor tags={tags} onChange={setTags} disabled={isSaving} />
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} className="flex-1" disabled={isSaving}>
+              <Tag className="h-4 w-4 mr-2" />
+              Save Tags
+            </Button>
+            <Button variant="outline" onClick={onClose} className="flex-1" disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createUserKey, unlockUserKey } from '@/lib/files/encryption';
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+interface EncryptionKeyDialogProps {
+  userId: string;
+  // 'create' the first time, 'unlock' once a key exists
+  mode: 'create' | 'unlock';
+  onUnlocked: () => void;
+  onClose: () => void;
+}
+
+// Asks for the passphrase that protects the user's encryption key. Nothing
+// typed here is sent anywhere; it only unwraps the key in the browser.
+export const EncryptionKeyDialog: React.FC<EncryptionKeyDialogProps> = ({ userId, mode, onUnlocked, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async () => {
+    if (mode === 'create') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("The passphrases don't match");
+        return;
+      }
+    } else if (!passphrase) {
+      setError('Please enter your passphrase');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      if (mode === 'create') {
+        await createUserKey(userId, passphrase);
+      } else {
+        await unlockUserKey(userId, passphrase);
+      }
+      onUnlocked();
+    } catch (error) {
+      console.error('Encryption key error:', error);
+      setError(error instanceof Error ? error.message : 'Your key could not be unlocked');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            {mode === 'create' ? 'Set Up Encryption' : 'Unlock Encrypted Files'}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isWorking}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          {mode === 'create'
+            ? 'Choose a passphrase to protect your encryption key. It is never sent to the server, so it cannot be reset: if you forget it, you lose access to encrypted folders until an owner shares them with you again.'
+            : 'Enter your encryption passphrase. Your key stays unlocked until you close or reload this page.'}
+        </p>
+
+        <div className="space-y-3">
+          <Input
+            type="password"
+            value={passphrase}
+            onChange={(e) => {
+              setPassphrase(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && mode === 'unlock') handleSubmit();
+            }}
+            placeholder="Passphrase"
+            autoComplete={mode === 'create' ? 'new-password' : 'current-password'}
+            disabled={isWorking}
+            autoFocus
+          />
+          {mode === 'create' && (
+            <Input
+              type="password"
+              value={confirmation}
+              onChange={(e) => {
+                setConfirmation(e.target.value);
+                setError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSubmit();
+              }}
+              placeholder="Passphrase again"
+              autoComplete="new-password"
+              disabled={isWorking}
+            />
+          )}
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button onClick={handleSubmit} className="flex-1" disabled={isWorking}>
+              {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+              {mode === 'create' ? 'Create Key' : 'Unlock'}
+            </Button>
+            <Button variant="outline" onClick={onClose} className="flex-1" disabled={isWorking}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Download, Trash2, MoreVertical, Eye, Tag, Pencil, FolderInput, Copy, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { FileItem } from '@/lib/files/types';
+import { canPreview } from './fileDisplay';
+
+export interface FileActionHandlers {
+  onView: (file: FileItem) => void;
+  onDownload: (fileId: string) => void;
+  onDelete: (fileId: string) => void;
+  onEditTags: (file: FileItem) => void;
+  onRename: (file: FileItem) => void;
+  onMove: (file: FileItem) => void;
+  onDuplicate: (file: FileItem) => void;
+  onShare: (file: FileItem) => void;
+  // Viewers only get View and Download
+  canEdit?: boolean;
+}
+
+interface FileActionsMenuProps extends FileActionHandlers {
+  file: FileItem;
+  triggerClassName?: string;
+}
+
+export const FileActionsMenu: React.FC<FileActionsMenuProps> = ({
+  file,
+  triggerClassName = '',
+  onView,
+  onDownload,
+  onDelete,
+  onEditTags,
+  onRename,
+  onMove,
+  onDuplicate,
+  onShare,
+  canEdit = true
+}) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button className={`bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700 p-2 ${triggerClassName}`}>
+          <MoreVertical className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+        {canPreview(file) && (
+          <DropdownMenuItem onClick={() => onView(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+            <Eye className="h-4 w-4 mr-2 text-blue-600" />
+            <span className="text-gray-700 dark:text-gray-300">View</span>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => onDownload(file.id)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+          <Download className="h-4 w-4 mr-2 text-green-600" />
+          <span className="text-gray-700 dark:text-gray-300">Download</span>
+        </DropdownMenuItem>
+        {canEdit && (
+          <>
+            {/* A share link would hand out ciphertext, so encrypted files are shared through the folder key */}
+            {!file.encryption && (
+              <DropdownMenuItem onClick={() => onShare(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+                <Link2 className="h-4 w-4 mr-2 text-green-600" />
+                <span className="text-gray-700 dark:text-gray-300">Share</span>
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => onEditTags(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+              <Tag className="h-4 w-4 mr-2 text-purple-600" />
+              <span className="text-gray-700 dark:text-gray-300">Edit Tags</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onRename(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+              <Pencil className="h-4 w-4 mr-2 text-blue-600" />
+              <span className="text-gray-700 dark:text-gray-300">Rename</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onMove(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+              <FolderInput className="h-4 w-4 mr-2 text-blue-600" />
+              <span className="text-gray-700 dark:text-gray-300">Move to...</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onDuplicate(file)} className="hover:bg-gray-100 dark:hover:bg-gray-700">
+              <Copy className="h-4 w-4 mr-2 text-blue-600" />
+              <span className="text-gray-700 dark:text-gray-300">Duplicate</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onDelete(file.id)} className="hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState, useEffect } from 'react';
+import { Activity, Loader2 } from 'lucide-react';
+import { ActivityEntry, fetchFileActivity } from '@/lib/files/activityLog';
+import { ActivityDescription } from './ActivityDescription';
+
+interface FileActivityListProps {
+  filePath: string;
+  // Changed after something is logged, to show it straight away
+  refreshKey?: number;
+}
+
+export const FileActivityList: React.FC<FileActivityListProps> = ({ filePath, refreshKey = 0 }) => {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadActivity = async () => {
+      try {
+        const loaded = await fetchFileActivity(filePath);
+        if (!cancelled) setEntries(loaded);
+      } catch (error) {
+        console.error('Error loading file activity:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadActivity();
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, refreshKey]);
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+      <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-3">
+        <Activity className="h-4 w-4" />
+        Activity
+      </h4>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading activity...
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No activity recorded</p>
+      ) : (
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start gap-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <ActivityDescription entry={entry} />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {entry.actorEmail || 'Unknown'} · {entry.createdAt.toLocaleString()}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
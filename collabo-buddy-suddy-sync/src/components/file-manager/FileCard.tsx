@@ -0,0 +1,112 @@
+import React from 'react';
+import { Folder, Link, Lock, MessageSquare } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { FileItem } from '@/lib/files/types';
+import { FileActionsMenu, FileActionHandlers } from './FileActionsMenu';
+import { SelectionCheckbox, FileSelectionProps } from './SelectionCheckbox';
+import { FileThumbnail } from './FileThumbnail';
+import { formatFileSize } from './fileDisplay';
+
+interface FileCardProps extends FileActionHandlers, FileSelectionProps {
+  file: FileItem;
+  // Makes the item draggable, e.g. onto a folder in the sidebar
+  onDragFile?: (file: FileItem, event: React.DragEvent) => void;
+}
+
+export const FileCard: React.FC<FileCardProps> = ({
+  file,
+  isSelected,
+  isSelectionActive,
+  onToggleSelect,
+  onDragFile,
+  ...actions
+}) => {
+  return (
+    <Card
+      draggable={!!onDragFile}
+      onDragStart={onDragFile ? (e) => onDragFile(file, e) : undefined}
+      className={`group h-full hover:shadow-lg transition-all duration-200 border bg-white dark:bg-gray-800 overflow-hidden ${
+        isSelected ? 'border-blue-500 ring-2 ring-blue-500/40' : 'border-gray-200 dark:border-gray-700'
+      }`}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start gap-2 mb-3">
+          <SelectionCheckbox
+            file={file}
+            isSelected={isSelected}
+            isSelectionActive={isSelectionActive}
+            onToggleSelect={onToggleSelect}
+          />
+          <FileThumbnail
+            file={file}
+            className="flex-1 h-24 rounded-md bg-gray-50 dark:bg-gray-900/40"
+            iconClass="h-10 w-10"
+          />
+          <FileActionsMenu
+            file={file}
+            triggerClassName="opacity-0 group-hover:opacity-100 transition-opacity"
+            {...actions}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-medium text-sm truncate text-gray-900 dark:text-white" title={file.name}>
+            {file.encryption && (
+              <span title="Encrypted">
+                <Lock className="inline h-3 w-3 mr-1 text-emerald-600 dark:text-emerald-400" />
+              </span>
+            )}
+            {file.linkTarget && (
+              <span title={`Links to ${file.linkTarget}`}>
+                <Link className="inline h-3 w-3 mr-1 text-blue-600 dark:text-blue-400" />
+              </span>
+            )}
+            {file.name}
+          </h3>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</p>
+            {file.commentCount && (
+              <span
+                className={`flex items-center gap-1 text-xs ${
+                  file.commentCount.mentions > 0
+                    ? 'font-semibold text-amber-700 dark:text-amber-300'
+                    : file.commentCount.open > 0
+                      ? 'text-blue-600 dark:text-blue-400'
+                      : 'text-gray-500 dark:text-gray-400'
+                }`}
+                title={`${file.commentCount.total} comment(s), ${file.commentCount.open} open thread(s)${
+                  file.commentCount.mentions > 0 ? `, ${file.commentCount.mentions} mentioning you` : ''
+                }`}
+              >
+                <MessageSquare className="h-3 w-3" />
+                {file.commentCount.total}
+              </span>
+            )}
+          </div>
+          {file.folder && (
+            <Badge className="text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800 max-w-full">
+              <Folder className="h-3 w-3 mr-1 shrink-0" />
+              <span className="truncate">{file.folder}</span>
+            </Badge>
+          )}
+          <div className="flex flex-wrap gap-1 max-h-6 overflow-hidden">
+            {file.tags.map(tag => (
+              <Badge key={tag} className="text-xs border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+          <div className="pt-2 border-t border-gray-100 dark:border-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              📤 {file.uploadedBy}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              📅 {file.uploadedAt.toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
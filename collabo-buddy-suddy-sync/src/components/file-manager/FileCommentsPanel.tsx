@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Loader2, MapPin, MessageSquare, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { FileComments } from '@/hooks/useFileComments';
+import {
+  FileComment,
+  addComment,
+  editComment,
+  setThreadResolved,
+  deleteComment,
+  resolveMentions,
+  numberPins
+} from '@/lib/files/comments';
+import { ConfirmDialog } from './ConfirmDialog';
+import { CommentThreadCard } from './CommentThreadCard';
+import { MentionTextarea } from './MentionTextarea';
+
+interface FileCommentsPanelProps {
+  filePath: string;
+  comments: FileComments;
+  // Images can have threads pinned to a spot on them
+  canPin: boolean;
+  // Called after anything is added, changed or removed
+  onChanged?: () => void;
+}
+
+export const FileCommentsPanel: React.FC<FileCommentsPanelProps> = ({ filePath, comments, canPin, onChanged }) => {
+  const [draft, setDraft] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+  const [deletingComment, setDeletingComment] = useState<FileComment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const pinNumbers = numberPins(comments.threads);
+  const openThreads = comments.threads.filter(thread => !thread.root.resolvedAt);
+  const resolvedThreads = comments.threads.filter(thread => thread.root.resolvedAt);
+  const visibleThreads = showResolved ? comments.threads : openThreads;
+
+  const afterChange = () => {
+    comments.refresh();
+    onChanged?.();
+  };
+
+  const reportError = (title: string, description: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const handlePost = async () => {
+    if (!draft.trim()) return;
+
+    setIsPosting(true);
+    try {
+      await addComment(filePath, draft, {
+        pin: comments.pendingPin,
+        mentionedUserIds: await resolveMentions(draft)
+      });
+      setDraft('');
+      comments.setPendingPin(null);
+      comments.setIsPlacingPin(false);
+      afterChange();
+    } catch (error) {
+      reportError("Comment Not Posted", "An error occurred while posting your comment", error);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleReply = async (parentId: string, body: string): Promise<boolean> => {
+    try {
+      await addComment(filePath, body, { parentId, mentionedUserIds: await resolveMentions(body) });
+      afterChange();
+      return true;
+    } catch (error) {
+      reportError("Reply Not Posted", "An error occurred while posting your reply", error);
+      return false;
+    }
+  };
+
+  const handleEdit = async (comment: FileComment, body: string): Promise<boolean> => {
+    try {
+      await editComment(comment.id, body, await resolveMentions(body));
+      afterChange();
+      return true;
+    } catch (error) {
+      reportError("Edit Failed", "An error occurred while saving your comment", error);
+      return false;
+    }
+  };
+
+  const handleToggleResolved = async (thread: FileComment) => {
+    try {
+      await setThreadResolved(thread.id, !thread.resolvedAt);
+      afterChange();
+    } catch (error) {
+      reportError(
+        thread.resolvedAt ? "Reopen Failed" : "Resolve Failed",
+        "An error occurred while updating the thread",
+        error
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingComment) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteComment(deletingComment.id);
+      if (comments.activeThreadId === deletingComment.id) comments.setActiveThreadId(null);
+      afterChange();
+    } catch (error) {
+      reportError("Delete Failed", "An error occurred while deleting the comment", error);
+    } finally {
+      setIsDeleting(false);
+      setDeletingComment(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Comments
+          {openThreads.length > 0 && (
+            <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{openThreads.length} open</span>
+          )}
+        </h4>
+        {resolvedThreads.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowResolved(prev => !prev)}
+            className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {showResolved ? 'Hide resolved' : `Show resolved (${resolvedThreads.length})`}
+          </button>
+        )}
+      </div>
+
+      {comments.isLoading && comments.threads.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading comments...
+        </div>
+      ) : visibleThreads.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {comments.threads.length === 0 ? 'No comments yet' : 'All threads are resolved'}
+        </p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {visibleThreads.map(thread => (
+            <CommentThreadCard
+              key={thread.root.id}
+              thread={thread}
+              pinNumber={pinNumbers.get(thread.root.id)}
+              isActive={comments.activeThreadId === thread.root.id}
+              currentUser={user}
+              onSelect={() => comments.setActiveThreadId(
+                comments.activeThreadId === thread.root.id ? null : thread.root.id
+              )}
+              onReply={body => handleReply(thread.root.id, body)}
+              onEdit={handleEdit}
+              onDelete={setDeletingComment}
+              onToggleResolved={() => handleToggleResolved(thread.root)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <MentionTextarea
+          value={draft}
+          onChange={setDraft}
+          onSubmit={handlePost}
+          placeholder="Add a comment... (@ to mention someone)"
+          disabled={isPosting}
+        />
+        <div className="flex items-center gap-2">
+          {canPin && (
+            comments.pendingPin ? (
+              <span className="text-xs text-amber-700 dark:text-amber-300 flex items-center gap-1">
+                <MapPin className="h-3 w-3" />
+                Pinned to the spot marked on the image
+                <button
+                  type="button"
+                  onClick={() => comments.setPendingPin(null)}
+                  title="Remove pin"
+                  className="p-0.5 hover:text-amber-900 dark:hover:text-amber-100"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => comments.setIsPlacingPin(!comments.isPlacingPin)}
+                className={comments.isPlacingPin ? 'bg-gray-100 dark:bg-gray-600' : ''}
+              >
+                <MapPin className="h-4 w-4 mr-1" />
+                {comments.isPlacingPin ? 'Click the image...' : 'Pin to image'}
+              </Button>
+            )
+          )}
+          <Button size="sm" onClick={handlePost} disabled={isPosting || !draft.trim()} className="ml-auto">
+            {isPosting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Comment
+          </Button>
+        </div>
+      </div>
+
+      {deletingComment && (
+        <ConfirmDialog
+          title="Delete Comment"
+          description={
+            deletingComment.parentId === null
+              ? 'Delete this comment and every reply in its thread?'
+              : 'Delete this reply?'
+          }
+          confirmLabel="Delete"
+          isDestructive
+          isBusy={isDeleting}
+          onConfirm={handleDelete}
+          onCancel={() => setDeletingComment(null)}
+        />
+      )}
+    </div>
+  );
+};
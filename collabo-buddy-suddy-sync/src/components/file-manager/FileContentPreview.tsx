@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { FileItem } from '@/lib/files/types';
+import {
+  TEXT_PREVIEW_BYTES,
+  SPREADSHEET_PREVIEW_MAX_BYTES,
+  SheetPreview,
+  ZipEntry,
+  getContentPreviewKind,
+  getCodeLanguage,
+  fetchTextPreview,
+  fetchSpreadsheetPreview,
+  fetchZipListing,
+  parseDelimited
+} from '@/lib/files/preview';
+import { getFileExtension } from '@/lib/files/fileTypes';
+import { formatFileSize } from './fileDisplay';
+import { TablePreview } from './TablePreview';
+import { ArchivePreview } from './ArchivePreview';
+import { TextPreview } from './TextPreview';
+
+interface FileContentPreviewProps {
+  file: FileItem;
+  url: string;
+}
+
+type LoadedPreview =
+  | { kind: 'text'; text: string; isTruncated: boolean }
+  | { kind: 'table'; sheets: SheetPreview[]; isTruncated: boolean }
+  | { kind: 'zip'; entries: ZipEntry[] };
+
+const loadPreview = async (name: string, size: number, url: string): Promise<LoadedPreview> => {
+  switch (getContentPreviewKind(name)) {
+    case 'table': {
+      const { text, isTruncated } = await fetchTextPreview(url);
+      const delimiter = getFileExtension(name) === 'tsv' ? '\t' : ',';
+      return { kind: 'table', sheets: [{ name, rows: parseDelimited(text, delimiter) }], isTruncated };
+    }
+    case 'spreadsheet':
+      return { kind: 'table', sheets: await fetchSpreadsheetPreview(url), isTruncated: false };
+    case 'zip':
+      return { kind: 'zip', entries: await fetchZipListing(url, size) };
+    default:
+      return { kind: 'text', ...await fetchTextPreview(url) };
+  }
+};
+
+export const FileContentPreview: React.FC<FileContentPreviewProps> = ({ file, url }) => {
+  const [preview, setPreview] = useState<LoadedPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+
+  const kind = getContentPreviewKind(file.name);
+  const isTooLarge = kind === 'spreadsheet' && file.size > SPREADSHEET_PREVIEW_MAX_BYTES;
+
+  // Keyed on the content, so metadata edits in the modal don't reload it
+  useEffect(() => {
+    if (isTooLarge) return;
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    setSheetIndex(0);
+
+    loadPreview(file.name, file.size, url)
+      .then(loaded => {
+        if (!cancelled) setPreview(loaded);
+      })
+      .catch(loadError => {
+        console.error('Preview error:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Could not load the preview');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file.name, file.size, url, isTooLarge]);
+
+  const renderBody = () => {
+    if (isTooLarge) {
+      return (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Spreadsheets over {formatFileSize(SPREADSHEET_PREVIEW_MAX_BYTES)} can't be previewed. Download the file to open it.
+        </p>
+      );
+    }
+    if (error) {
+      return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+    }
+    if (!preview) {
+      return (
+        <div className="flex items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Loading preview...
+        </div>
+      );
+    }
+
+    if (preview.kind === 'zip') {
+      return <ArchivePreview entries={preview.entries} />;
+    }
+
+    if (preview.kind === 'table') {
+      const sheet = preview.sheets[sheetIndex];
+      return (
+        <div className="space-y-2">
+          {preview.sheets.length > 1 && (
+            <div className="flex gap-1 overflow-x-auto">
+              {preview.sheets.map((candidate, index) => (
+                <button
+                  key={candidate.name}
+                  onClick={() => setSheetIndex(index)}
+                  className={`px-3 py-1 text-xs rounded whitespace-nowrap ${
+                    index === sheetIndex
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200'
+                  }`}
+                >
+                  {candidate.name}
+                </button>
+              ))}
+            </div>
+          )}
+          {sheet
+            ? <TablePreview key={sheet.name} rows={sheet.rows} isTruncated={preview.isTruncated} />
+            : <p className="text-sm text-gray-500 dark:text-gray-400">This workbook has no sheets.</p>}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        <TextPreview
+          text={preview.text}
+          language={kind === 'code' ? getCodeLanguage(file.name) : null}
+          isMarkdown={kind === 'markdown'}
+        />
+        {preview.isTruncated && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Showing the first {formatFileSize(TEXT_PREVIEW_BYTES)} of {formatFileSize(file.size)}. Download the file to see the rest.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
+      {renderBody()}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FileItem } from '@/lib/files/types';
+import { FileMetadataChanges } from '@/lib/files/metadata';
+import { TagEditor } from './TagEditor';
+
+interface FileDetailsEditorProps {
+  file: FileItem;
+  onSave: (changes: FileMetadataChanges) => Promise<boolean>;
+  readOnly?: boolean;
+}
+
+type FieldRow = { key: string; value: string };
+
+const toRows = (fields: Record<string, string> = {}): FieldRow[] =>
+  Object.entries(fields).map(([key, value]) => ({ key, value }));
+
+// Tags save as soon as they change; description and custom fields on "Save details"
+export const FileDetailsEditor: React.FC<FileDetailsEditorProps> = ({ file, onSave, readOnly = false }) => {
+  const [description, setDescription] = useState(file.description || '');
+  const [fieldRows, setFieldRows] = useState<FieldRow[]>(toRows(file.customFields));
+  const [isSaving, setIsSaving] = useState(false);
+  const isDisabled = isSaving || readOnly;
+
+  useEffect(() => {
+    setDescription(file.description || '');
+    setFieldRows(toRows(file.customFields));
+  }, [file.path]);
+
+  const save = async (changes: FileMetadataChanges) => {
+    setIsSaving(true);
+    try {
+      await onSave(changes);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDetails = () => {
+    const customFields: Record<string, string> = {};
+    fieldRows.forEach(({ key, value }) => {
+      if (key.trim()) customFields[key.trim()] = value;
+    });
+    save({ description: description.trim(), customFields });
+  };
+
+  const updateRow = (index: number, changes: Partial<FieldRow>) => {
+    setFieldRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-4">
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Tags</span>
+        <TagEditor tags={file.tags} onChange={tags => save({ tags })} disabled={isDisabled} />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Description
+        </label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          placeholder="What is this file for?"
+          className="w-full rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-white"
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Custom Fields</span>
+        <div className="space-y-2">
+          {fieldRows.map((row, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                value={row.key}
+                onChange={(e) => updateRow(index, { key: e.target.value })}
+                placeholder="Field"
+                className="w-1/3 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600"
+                disabled={isDisabled}
+              />
+              <Input
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+                placeholder="Value"
+                className="flex-1 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600"
+                disabled={isDisabled}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setFieldRows(prev => prev.filter((_, i) => i !== index))}
+                disabled={isDisabled}
+                title="Remove field"
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+          {!readOnly && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setFieldRows(prev => [...prev, { key: '', value: '' }])}
+              disabled={isDisabled}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Field
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!readOnly && (
+        <Button onClick={handleSaveDetails} disabled={isDisabled} size="sm">
+          <Save className="h-4 w-4 mr-2" />
+          Save Details
+        </Button>
+      )}
+    </div>
+  );
+};
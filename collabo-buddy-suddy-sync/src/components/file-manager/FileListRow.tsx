@@ -0,0 +1,89 @@
+import React from 'react';
+import { Folder, Link, Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { FileItem } from '@/lib/files/types';
+import { ContentMatch } from '@/lib/files/contentIndex';
+import { FileActionsMenu, FileActionHandlers } from './FileActionsMenu';
+import { SelectionCheckbox, FileSelectionProps } from './SelectionCheckbox';
+import { FileThumbnail } from './FileThumbnail';
+import { formatFileSize } from './fileDisplay';
+import { HighlightedText, ContentSnippet } from './SearchHighlight';
+
+interface FileListRowProps extends FileActionHandlers, FileSelectionProps {
+  file: FileItem;
+  // Makes the item draggable, e.g. onto a folder in the sidebar
+  onDragFile?: (file: FileItem, event: React.DragEvent) => void;
+  // Search words to mark in the name and tags
+  highlightTerms?: string[];
+  // Where the search matched inside the file
+  contentMatch?: ContentMatch;
+}
+
+export const FileListRow: React.FC<FileListRowProps> = ({
+  file,
+  isSelected,
+  isSelectionActive,
+  onToggleSelect,
+  onDragFile,
+  highlightTerms = [],
+  contentMatch,
+  ...actions
+}) => {
+  return (
+    <div
+      draggable={!!onDragFile}
+      onDragStart={onDragFile ? (e) => onDragFile(file, e) : undefined}
+      className={`group h-full flex items-center justify-between p-3 rounded-lg border transition-colors ${
+        isSelected
+          ? 'bg-blue-50 dark:bg-blue-950/40 border-blue-300 dark:border-blue-700'
+          : 'hover:bg-gray-50 dark:hover:bg-gray-700 border-gray-100 dark:border-gray-700'
+      }`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <SelectionCheckbox
+          file={file}
+          isSelected={isSelected}
+          isSelectionActive={isSelectionActive}
+          onToggleSelect={onToggleSelect}
+        />
+        <FileThumbnail file={file} className="h-10 w-10 rounded" />
+        <div className="min-w-0">
+          <h3 className="font-medium text-gray-900 dark:text-white truncate">
+            {file.encryption && (
+              <span title="Encrypted">
+                <Lock className="inline h-4 w-4 mr-1 text-emerald-600 dark:text-emerald-400" />
+              </span>
+            )}
+            {file.linkTarget && (
+              <span title={`Links to ${file.linkTarget}`}>
+                <Link className="inline h-4 w-4 mr-1 text-blue-600 dark:text-blue-400" />
+              </span>
+            )}
+            <HighlightedText text={file.name} terms={highlightTerms} />
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+            {formatFileSize(file.size)} • 📤 {file.uploadedBy} • 📅 {file.uploadedAt.toLocaleDateString()}
+          </p>
+          {file.folder && (
+            <Badge className="text-xs mt-1 bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
+              <Folder className="h-3 w-3 mr-1" />
+              {file.folder}
+            </Badge>
+          )}
+          {contentMatch && <ContentSnippet parts={contentMatch.snippet} />}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex flex-wrap gap-1">
+          {file.tags.map(tag => (
+            <Badge key={tag} className="text-xs border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              <HighlightedText text={tag} terms={highlightTerms} />
+            </Badge>
+          ))}
+        </div>
+        <FileActionsMenu file={file} {...actions} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { FileSort, FileSortField, FILE_SORT_FIELDS } from '@/lib/files/sorting';
+
+interface FileSortHeaderProps {
+  sort: FileSort | null;
+  onSort: (field: FileSortField) => void;
+}
+
+// Column headings for the list view; clicking one sorts by it
+export const FileSortHeader: React.FC<FileSortHeaderProps> = ({ sort, onSort }) => {
+  return (
+    <div className="flex items-center gap-1 flex-wrap text-xs" role="toolbar" aria-label="Sort files">
+      {FILE_SORT_FIELDS.map(({ field, label }) => {
+        const isActive = sort?.field === field;
+        const Icon = !isActive ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+        return (
+          <button
+            key={field}
+            onClick={() => onSort(field)}
+            aria-pressed={isActive}
+            title={`Sort by ${label.toLowerCase()}`}
+            className={`flex items-center gap-1 px-2 py-1 rounded font-medium transition-colors ${
+              isActive
+                ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {label}
+            <Icon className={`h-3 w-3 ${isActive ? '' : 'opacity-50'}`} />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
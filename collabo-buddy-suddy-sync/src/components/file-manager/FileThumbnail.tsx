@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { useTheme } from '@/hooks/useTheme';
+import { FileItem } from '@/lib/files/types';
+import { getFileIcon } from './fileDisplay';
+
+interface FileThumbnailProps {
+  file: FileItem;
+  // Size and shape of the box the thumbnail or icon sits in
+  className?: string;
+  iconClass?: string;
+}
+
+// The file's generated thumbnail, or its type icon when it has none (or the
+// thumbnail link has expired)
+export const FileThumbnail: React.FC<FileThumbnailProps> = ({ file, className = '', iconClass }) => {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const { theme } = useTheme();
+  const showImage = !!file.thumbnailUrl && failedUrl !== file.thumbnailUrl;
+
+  return (
+    <div className={`flex items-center justify-center shrink-0 overflow-hidden ${className}`}>
+      {showImage ? (
+        <img
+          src={file.thumbnailUrl}
+          alt=""
+          loading="lazy"
+          draggable={false}
+          onError={() => setFailedUrl(file.thumbnailUrl || null)}
+          className="max-h-full max-w-full object-contain"
+        />
+      ) : (
+        getFileIcon(file.type, theme === 'dark', iconClass)
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ChevronRight, Home } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getPathSegments } from '@/lib/files/paths';
+
+interface FolderBreadcrumbsProps {
+  path: string;
+  onNavigate: (path: string) => void;
+}
+
+export const FolderBreadcrumbs: React.FC<FolderBreadcrumbsProps> = ({ path, onNavigate }) => {
+  const segments = getPathSegments(path);
+
+  return (
+    <nav aria-label="Folder breadcrumbs" className="flex items-center flex-wrap gap-1 text-sm">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onNavigate('')}
+        className={`px-2 ${segments.length === 0 ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}
+      >
+        <Home className="h-4 w-4 mr-1" />
+        Root
+      </Button>
+      {segments.map((segment, index) => {
+        const segmentPath = segments.slice(0, index + 1).join('/');
+        const isCurrent = index === segments.length - 1;
+        return (
+          <React.Fragment key={segmentPath}>
+            <ChevronRight className="h-4 w-4 text-gray-400" />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onNavigate(segmentPath)}
+              disabled={isCurrent}
+              aria-current={isCurrent ? 'page' : undefined}
+              className={`px-2 ${isCurrent ? 'font-semibold text-gray-900 dark:text-white disabled:opacity-100' : 'text-gray-600 dark:text-gray-300'}`}
+            >
+              {segment}
+            </Button>
+          </React.Fragment>
+        );
+      })}
+    </nav>
+  );
+};
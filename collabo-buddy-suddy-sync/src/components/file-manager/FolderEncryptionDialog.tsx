@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Lock, RefreshCw, Trash2, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { FolderItem } from '@/lib/files/types';
+import { FolderRole, fetchFolderRole, hasRole } from '@/lib/files/permissions';
+import {
+  EncryptedFolder,
+  FolderKeyMember,
+  findEncryptedFolder,
+  encryptFolder,
+  listFolderKeyMembers,
+  shareFolderKey,
+  removeFolderKeyMember,
+  rotateFolderKey
+} from '@/lib/files/encryption';
+
+interface FolderEncryptionDialogProps {
+  folder: FolderItem;
+  // Resolves false when the user backs out of entering their passphrase
+  ensureKey: () => Promise<boolean>;
+  // Opens the run that brings the folder's files to its current key
+  onEncryptFiles: (encryptedFolder: EncryptedFolder) => void;
+  onClose: () => void;
+}
+
+export const FolderEncryptionDialog: React.FC<FolderEncryptionDialogProps> = ({ folder, ensureKey, onEncryptFiles, onClose }) => {
+  const [encryptedFolder, setEncryptedFolder] = useState<EncryptedFolder | null>(null);
+  const [members, setMembers] = useState<FolderKeyMember[]>([]);
+  const [myRole, setMyRole] = useState<FolderRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [email, setEmail] = useState('');
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadEncryption = async () => {
+    setIsLoading(true);
+    try {
+      const [encrypted, folderRole] = await Promise.all([
+        findEncryptedFolder(folder.path),
+        fetchFolderRole(folder.path)
+      ]);
+      setEncryptedFolder(encrypted);
+      setMyRole(folderRole);
+      setMembers(encrypted ? await listFolderKeyMembers(encrypted) : []);
+    } catch (error) {
+      console.error('Error loading folder encryption:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEncryption();
+  }, [folder.path]);
+
+  const isOwner = hasRole(myRole, 'owner');
+  const holdsKey = members.some(member => member.userId === user?.id);
+  const canShare = holdsKey && hasRole(myRole, 'editor');
+
+  // Every change unlocks the user's key first, then reloads once it's done
+  const applyChange = async (change: () => Promise<void>, failureMessage: string) => {
+    if (!(await ensureKey())) return false;
+
+    setIsSaving(true);
+    try {
+      await change();
+      await loadEncryption();
+      return true;
+    } catch (error) {
+      console.error('Folder encryption error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEncrypt = () => applyChange(async () => {
+    if (!user) return;
+    const encrypted = await encryptFolder(folder.path, user);
+    onEncryptFiles(encrypted);
+  }, 'An error occurred while encrypting the folder');
+
+  const handleShare = async () => {
+    if (!encryptedFolder) return;
+    if (!email.trim()) {
+      toast({
+        title: "Error",
+        description: 'Please enter an email address',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const shared = await applyChange(
+      () => shareFolderKey(encryptedFolder, email),
+      'An error occurred while sharing the key'
+    );
+    if (shared) setEmail('');
+  };
+
+  const handleRotate = () => applyChange(async () => {
+    if (!encryptedFolder) return;
+    onEncryptFiles(await rotateFolderKey(encryptedFolder));
+  }, 'An error occurred while rotating the key');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-200 dark:border-gray-700 max-h-[90vh] overflow-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2 truncate">
+            <Lock className="h-5 w-5 shrink-0" />
+            Encryption for {folder.name}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isSaving}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading encryption...
+          </div>
+        ) : !encryptedFolder ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Files in an encrypted folder are encrypted in the browser before they are uploaded, so
+              only people given the folder key can open them. Encrypted files have no thumbnails,
+              aren't found by content search and can't be shared by link.
+            </p>
+            {isOwner ? (
+              <Button onClick={handleEncrypt} className="w-full" disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+                Encrypt Folder
+              </Button>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Only owners of this folder can encrypt it.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {encryptedFolder.path === folder.path
+                ? 'This folder is encrypted.'
+                : `This folder is encrypted as part of ${encryptedFolder.path || 'Root'}.`}
+              {' '}Key version {encryptedFolder.keyVersion}
+              {encryptedFolder.rotatedAt && `, rotated ${encryptedFolder.rotatedAt.toLocaleString()}`}.
+            </p>
+
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {members.map(member => (
+                <li key={member.userId} className="flex items-center gap-2 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{member.email}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Holds the key since {member.grantedAt.toLocaleDateString()}
+                    </p>
+                  </div>
+                  {isOwner && member.userId !== user?.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => applyChange(
+                        () => removeFolderKeyMember(encryptedFolder, member.userId),
+                        'An error occurred while removing the key'
+                      )}
+                      disabled={isSaving}
+                      title="Take the key away"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {canShare ? (
+              <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="name@agency.com"
+                    disabled={isSaving}
+                    className="flex-1 h-9"
+                  />
+                  <Button onClick={handleShare} size="sm" disabled={isSaving}>
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    Share Key
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  They need to have set up encryption, and still need access to the folder to see its files.
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {holdsKey
+                  ? 'Only editors and owners can share the key.'
+                  : "You haven't been given the key to this folder. Ask one of the people above to share it."}
+              </p>
+            )}
+
+            {holdsKey && hasRole(myRole, 'editor') && (
+              <div className="flex gap-2">
+                {isOwner && (
+                  <Button
+                    variant="outline"
+                    onClick={handleRotate}
+                    className="flex-1"
+                    disabled={isSaving}
+                    title="Re-encrypt every file with a new key, e.g. after taking someone's key away"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Rotate Key
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => onEncryptFiles(encryptedFolder)}
+                  className="flex-1"
+                  disabled={isSaving}
+                  title="Encrypt files added before the folder was encrypted, or finish an interrupted rotation"
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Encrypt Files
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Shield, Trash2, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { FolderItem } from '@/lib/files/types';
+import {
+  FolderPermission,
+  FolderRole,
+  FOLDER_ROLES,
+  Team,
+  fetchFolderRole,
+  hasRole,
+  listFolderPermissions,
+  listTeams,
+  grantFolderPermission,
+  updateFolderPermission,
+  revokeFolderPermission
+} from '@/lib/files/permissions';
+
+interface FolderPermissionsDialogProps {
+  folder: FolderItem;
+  onChanged?: () => void;
+  onClose: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<FolderRole, string> = {
+  viewer: 'Can view and download',
+  editor: 'Can also upload, rename and delete',
+  owner: 'Can also manage access'
+};
+
+const selectClassName = 'h-9 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 text-sm text-gray-900 dark:text-white';
+
+export const FolderPermissionsDialog: React.FC<FolderPermissionsDialogProps> = ({ folder, onChanged, onClose }) => {
+  const [permissions, setPermissions] = useState<FolderPermission[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [myRole, setMyRole] = useState<FolderRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [principalType, setPrincipalType] = useState<'user' | 'team'>('user');
+  const [email, setEmail] = useState('');
+  const [teamId, setTeamId] = useState('');
+  const [newRole, setNewRole] = useState<FolderRole>('viewer');
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadPermissions = async () => {
+    setIsLoading(true);
+    try {
+      const [folderPermissions, folderRole] = await Promise.all([
+        listFolderPermissions(folder.path),
+        fetchFolderRole(folder.path)
+      ]);
+      setPermissions(folderPermissions);
+      setMyRole(folderRole);
+    } catch (error) {
+      console.error('Error loading folder permissions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPermissions();
+    listTeams()
+      .then(setTeams)
+      .catch(error => console.error('Error loading teams:', error));
+  }, [folder.path]);
+
+  const canManage = hasRole(myRole, 'owner');
+  const directPermissions = permissions.filter(permission => permission.folderPath === folder.path);
+  const inheritedPermissions = permissions.filter(permission => permission.folderPath !== folder.path);
+
+  // Every change goes through here so errors and reloads are handled once
+  const applyChange = async (change: () => Promise<void>, failureMessage: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      await loadPermissions();
+      onChanged?.();
+      return true;
+    } catch (error) {
+      console.error('Permission update error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!user) return;
+
+    const team = teams.find(t => t.id === teamId);
+    if (principalType === 'user' ? !email.trim() : !team) {
+      toast({
+        title: "Error",
+        description: principalType === 'user' ? 'Please enter an email address' : 'Please choose a team',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const granted = await applyChange(
+      () => grantFolderPermission(
+        folder.path,
+        principalType === 'user' ? { type: 'user', email } : { type: 'team', team: team! },
+        newRole,
+        user
+      ),
+      'An error occurred while adding access'
+    );
+    if (granted) {
+      setEmail('');
+      setTeamId('');
+    }
+  };
+
+  const renderPermission = (permission: FolderPermission, isInherited: boolean) => (
+    <li key={permission.id} className="flex items-center gap-2 py-2 text-sm">
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-gray-900 dark:text-white truncate">
+          {permission.principalLabel}
+          {permission.teamId && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(team)</span>}
+        </p>
+        {isInherited && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            From {permission.folderPath || 'Root'}
+          </p>
+        )}
+      </div>
+      {canManage && !isInherited ? (
+        <>
+          <select
+            value={permission.role}
+            onChange={(e) => applyChange(
+              () => updateFolderPermission(permission.id, e.target.value as FolderRole),
+              'An error occurred while changing the role'
+            )}
+            disabled={isSaving}
+            className={selectClassName}
+          >
+            {FOLDER_ROLES.map(role => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => applyChange(
+              () => revokeFolderPermission(permission.id),
+              'An error occurred while removing access'
+            )}
+            disabled={isSaving}
+            title="Remove access"
+          >
+            <Trash2 className="h-4 w-4 text-red-600" />
+          </Button>
+        </>
+      ) : (
+        <span className="text-gray-600 dark:text-gray-300 capitalize">{permission.role}</span>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-200 dark:border-gray-700 max-h-[90vh] overflow-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2 truncate">
+            <Shield className="h-5 w-5 shrink-0" />
+            Access to {folder.name}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isSaving}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading access...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {permissions.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                This folder is open: everyone in the workspace can view and edit it. Adding someone
+                restricts it to the people listed here, and makes you an owner.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {directPermissions.map(permission => renderPermission(permission, false))}
+                {inheritedPermissions.map(permission => renderPermission(permission, true))}
+              </ul>
+            )}
+
+            {canManage ? (
+              <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={principalType}
+                    onChange={(e) => setPrincipalType(e.target.value as 'user' | 'team')}
+                    disabled={isSaving}
+                    className={selectClassName}
+                  >
+                    <option value="user">User</option>
+                    <option value="team" disabled={teams.length === 0}>Team</option>
+                  </select>
+                  {principalType === 'user' ? (
+                    <Input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="name@agency.com"
+                      disabled={isSaving}
+                      className="flex-1 h-9"
+                    />
+                  ) : (
+                    <select
+                      value={teamId}
+                      onChange={(e) => setTeamId(e.target.value)}
+                      disabled={isSaving}
+                      className={`flex-1 ${selectClassName}`}
+                    >
+                      <option value="">Choose a team</option>
+                      {teams.map(team => (
+                        <option key={team.id} value={team.id}>{team.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="flex gap-2 items-center">
+                  <select
+                    value={newRole}
+                    onChange={(e) => setNewRole(e.target.value as FolderRole)}
+                    disabled={isSaving}
+                    className={selectClassName}
+                  >
+                    {FOLDER_ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                  <span className="flex-1 text-xs text-gray-500 dark:text-gray-400">{ROLE_DESCRIPTIONS[newRole]}</span>
+                  <Button onClick={handleGrant} size="sm" disabled={isSaving}>
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Only owners of this folder and file admins can change who has access.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
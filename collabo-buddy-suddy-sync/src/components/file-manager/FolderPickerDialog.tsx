@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { FolderInput, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { StorageAdapter } from '@/lib/files/storageAdapter';
+import { FolderTree } from './FolderTree';
+
+interface FolderPickerDialogProps {
+  storage: StorageAdapter;
+  title: string;
+  confirmLabel?: string;
+  initialPath: string;
+  // The folder the items already live in; picking it would be a no-op
+  disabledPath?: string;
+  onConfirm: (folderPath: string) => Promise<boolean> | void;
+  onClose: () => void;
+}
+
+export const FolderPickerDialog: React.FC<FolderPickerDialogProps> = ({
+  storage,
+  title,
+  confirmLabel = 'Move Here',
+  initialPath,
+  disabledPath,
+  onConfirm,
+  onClose
+}) => {
+  const [selectedPath, setSelectedPath] = useState(initialPath);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsBusy(true);
+    try {
+      if ((await onConfirm(selectedPath)) !== false) onClose();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{title}</h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isBusy}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="max-h-80 overflow-auto rounded-md border border-gray-200 dark:border-gray-700 p-2 mb-2">
+          <FolderTree storage={storage} currentPath={selectedPath} onNavigate={setSelectedPath} />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4 truncate">
+          Destination: {selectedPath || 'Root'}
+        </p>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleConfirm}
+            className="flex-1"
+            disabled={isBusy || selectedPath === disabledPath}
+          >
+            <FolderInput className="h-4 w-4 mr-2" />
+            {confirmLabel}
+          </Button>
+          <Button variant="outline" onClick={onClose} className="flex-1" disabled={isBusy}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
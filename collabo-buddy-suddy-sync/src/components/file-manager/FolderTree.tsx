@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronRight, ChevronDown, Folder, FolderOpen, Home, Loader2 } from 'lucide-react';
+import { listFolderAll } from '@/lib/files/storage';
+import { StorageAdapter } from '@/lib/files/storageAdapter';
+import { isSameOrDescendant } from '@/lib/files/paths';
+import { FolderItem } from '@/lib/files/types';
+import { isFileCardDrag, getDraggedFilePaths } from './fileDrag';
+
+interface FolderTreeProps {
+  storage: StorageAdapter;
+  currentPath: string;
+  onNavigate: (path: string) => void;
+  // Bump to make every expanded node re-fetch its children
+  refreshKey?: number;
+  // When set, file cards can be dragged onto a folder to move them there
+  onDropFiles?: (folderPath: string, filePaths: string[]) => void;
+}
+
+interface FolderNodeProps extends FolderTreeProps {
+  folder: FolderItem;
+  depth: number;
+  isRoot?: boolean;
+}
+
+const FolderNode: React.FC<FolderNodeProps> = ({
+  folder,
+  depth,
+  isRoot,
+  storage,
+  currentPath,
+  onNavigate,
+  refreshKey,
+  onDropFiles
+}) => {
+  const isOnCurrentPath = isSameOrDescendant(currentPath, folder.path);
+  const [isExpanded, setIsExpanded] = useState(isOnCurrentPath);
+  const [children, setChildren] = useState<FolderItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  // Keep the branch leading to the open folder expanded
+  useEffect(() => {
+    if (isOnCurrentPath) setIsExpanded(true);
+  }, [isOnCurrentPath]);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    let cancelled = false;
+
+    const loadChildren = async () => {
+      setIsLoading(true);
+      try {
+        const { folders } = await listFolderAll(storage, folder.path);
+        if (!cancelled) setChildren(folders);
+      } catch (error) {
+        console.error('Error loading folders:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadChildren();
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, storage, folder.path, refreshKey]);
+
+  const isSelected = currentPath === folder.path;
+  const hasNoChildren = children !== null && children.length === 0;
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!onDropFiles || !isFileCardDrag(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'move';
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!onDropFiles || !isFileCardDrag(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDropTarget(false);
+    onDropFiles(folder.path, getDraggedFilePaths(event));
+  };
+
+  return (
+    <li>
+      <div
+        className={`flex items-center gap-1 rounded-md pr-2 py-1 cursor-pointer transition-colors ${
+          isDropTarget
+            ? 'bg-blue-200 dark:bg-blue-800 ring-2 ring-blue-500 text-blue-900 dark:text-blue-100'
+            : isSelected
+              ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200'
+              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        onClick={() => onNavigate(folder.path)}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={handleDrop}
+      >
+        <button
+          type="button"
+          className={`p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600 ${hasNoChildren ? 'invisible' : ''}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsExpanded(prev => !prev);
+          }}
+          aria-label={isExpanded ? `Collapse ${folder.name}` : `Expand ${folder.name}`}
+        >
+          {isLoading ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : isExpanded ? (
+            <ChevronDown className="h-3 w-3" />
+          ) : (
+            <ChevronRight className="h-3 w-3" />
+          )}
+        </button>
+        {isRoot ? (
+          <Home className="h-4 w-4 shrink-0" />
+        ) : isSelected ? (
+          <FolderOpen className="h-4 w-4 shrink-0" />
+        ) : (
+          <Folder className="h-4 w-4 shrink-0" />
+        )}
+        <span className="text-sm truncate" title={folder.path || folder.name}>{folder.name}</span>
+      </div>
+
+      {isExpanded && children && children.length > 0 && (
+        <ul>
+          {children.map(child => (
+            <FolderNode
+              key={child.path}
+              folder={child}
+              depth={depth + 1}
+              storage={storage}
+              currentPath={currentPath}
+              onNavigate={onNavigate}
+              refreshKey={refreshKey}
+              onDropFiles={onDropFiles}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const FolderTree: React.FC<FolderTreeProps> = (props) => {
+  return (
+    <ul className="space-y-0.5">
+      <FolderNode {...props} folder={{ name: 'Root', path: '' }} depth={0} isRoot />
+    </ul>
+  );
+};
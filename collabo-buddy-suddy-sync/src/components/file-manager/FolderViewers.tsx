@@ -0,0 +1,39 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { FolderViewer } from '@/lib/files/realtime';
+
+interface FolderViewersProps {
+  viewers: FolderViewer[];
+}
+
+const MAX_AVATARS = 4;
+
+const getInitials = (email: string) => email.split('@')[0].slice(0, 2).toUpperCase();
+
+export const FolderViewers: React.FC<FolderViewersProps> = ({ viewers }) => {
+  if (viewers.length === 0) return null;
+
+  const names = viewers.map(viewer => viewer.email).join(', ');
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300" title={`Also viewing: ${names}`}>
+      <Eye className="h-4 w-4 text-green-600" />
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map(viewer => (
+          <span
+            key={viewer.userId}
+            className="h-7 w-7 rounded-full bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 border-2 border-white dark:border-gray-800 flex items-center justify-center font-medium"
+          >
+            {getInitials(viewer.email)}
+          </span>
+        ))}
+        {viewers.length > MAX_AVATARS && (
+          <span className="h-7 w-7 rounded-full bg-gray-100 dark:bg-gray-700 border-2 border-white dark:border-gray-800 flex items-center justify-center">
+            +{viewers.length - MAX_AVATARS}
+          </span>
+        )}
+      </div>
+      <span>{viewers.length === 1 ? `${viewers[0].email} is here` : `${viewers.length} others here`}</span>
+    </div>
+  );
+};
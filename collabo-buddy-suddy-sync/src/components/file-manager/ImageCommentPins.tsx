@@ -0,0 +1,65 @@
+import React from 'react';
+import { FileComments } from '@/hooks/useFileComments';
+import { numberPins } from '@/lib/files/comments';
+
+interface ImageCommentPinsProps {
+  src: string;
+  alt: string;
+  comments: FileComments;
+}
+
+// The image preview with numbered markers where threads are pinned. While a
+// new pin is being placed, clicking the image sets it.
+export const ImageCommentPins: React.FC<ImageCommentPinsProps> = ({ src, alt, comments }) => {
+  const pinNumbers = numberPins(comments.threads);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!comments.isPlacingPin) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    comments.setPendingPin({
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height)
+    });
+    comments.setIsPlacingPin(false);
+  };
+
+  return (
+    <div
+      className={`relative w-fit mx-auto ${comments.isPlacingPin ? 'cursor-crosshair' : ''}`}
+      onClick={handleClick}
+    >
+      <img src={src} alt={alt} className="max-w-full h-auto rounded block" />
+      {comments.threads.map(thread => {
+        const pin = thread.root.pin;
+        if (!pin) return null;
+        const isActive = comments.activeThreadId === thread.root.id;
+        return (
+          <button
+            key={thread.root.id}
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              comments.setActiveThreadId(isActive ? null : thread.root.id);
+            }}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 h-7 w-7 rounded-full border-2 border-white text-xs font-semibold shadow-md transition-transform ${
+              thread.root.resolvedAt ? 'bg-gray-400 text-white opacity-70' : 'bg-blue-600 text-white'
+            } ${isActive ? 'scale-125 ring-2 ring-blue-300' : ''}`}
+            style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+            title={thread.root.body}
+          >
+            {pinNumbers.get(thread.root.id)}
+          </button>
+        );
+      })}
+      {comments.pendingPin && (
+        <span
+          className="absolute -translate-x-1/2 -translate-y-1/2 h-7 w-7 rounded-full border-2 border-white bg-amber-500 text-white text-xs font-semibold shadow-md flex items-center justify-center pointer-events-none"
+          style={{ left: `${comments.pendingPin.x * 100}%`, top: `${comments.pendingPin.y * 100}%` }}
+        >
+          +
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { WorkspaceUser, getMentionQuery, insertMention, searchWorkspaceUsers } from '@/lib/files/comments';
+
+// Waits for a pause in typing before looking people up
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Ctrl/Cmd+Enter
+  onSubmit?: () => void;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+// A textarea that suggests workspace members after an @
+export const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  placeholder,
+  rows = 2,
+  disabled,
+  autoFocus
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<WorkspaceUser[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const users = await searchWorkspaceUsers(query);
+        if (!cancelled) {
+          setSuggestions(users);
+          setHighlighted(0);
+        }
+      } catch (error) {
+        console.error('Error looking up people to mention:', error);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const updateQuery = (text: string, caret: number) => {
+    setQuery(getMentionQuery(text, caret)?.query ?? null);
+  };
+
+  const pickSuggestion = (user: WorkspaceUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const result = insertMention(value, caret, user.email);
+    onChange(result.text);
+    setQuery(null);
+    // Put the caret after the mention once React has rendered the new text
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && query !== null) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        pickSuggestion(suggestions[highlighted]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey) && onSubmit) {
+      event.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateQuery(value, e.currentTarget.selectionStart)}
+        onBlur={() => setQuery(null)}
+        rows={rows}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        className="w-full rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-white"
+      />
+      {query !== null && suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-10 max-h-48 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                // Keeps focus in the textarea, which would otherwise close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pickSuggestion(user)}
+                className={`w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 ${
+                  index === highlighted ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                }`}
+              >
+                {user.email}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
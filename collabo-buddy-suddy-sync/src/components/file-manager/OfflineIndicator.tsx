@@ -0,0 +1,39 @@
+import React from 'react';
+import { RefreshCw, WifiOff } from 'lucide-react';
+
+interface OfflineIndicatorProps {
+  isOnline: boolean;
+  // When the listing on screen was saved, if it didn't come from storage
+  cachedAt: Date | null;
+  pendingCount: number;
+  isSyncing: boolean;
+}
+
+// Tells the user when what they see may be out of date and what is still
+// waiting to be sent. Renders nothing while everything is live.
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ isOnline, cachedAt, pendingCount, isSyncing }) => {
+  if (isOnline && !cachedAt && pendingCount === 0) return null;
+
+  const parts: string[] = [];
+  if (!isOnline) {
+    parts.push('Offline');
+  } else if (isSyncing) {
+    parts.push(`Syncing ${pendingCount} offline change(s)...`);
+  } else if (cachedAt) {
+    parts.push("Couldn't reach storage");
+  }
+  if (cachedAt) parts.push(`showing files saved ${cachedAt.toLocaleString()}`);
+  if (pendingCount > 0 && !isSyncing) parts.push(`${pendingCount} change(s) waiting to sync`);
+
+  return (
+    <div
+      role="status"
+      className="mt-2 inline-flex items-center gap-2 rounded-full px-3 py-1 text-sm font-medium bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-200 border border-amber-200 dark:border-amber-800"
+    >
+      {isOnline
+        ? <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+        : <WifiOff className="h-4 w-4" />}
+      {parts.join(' · ')}
+    </div>
+  );
+};
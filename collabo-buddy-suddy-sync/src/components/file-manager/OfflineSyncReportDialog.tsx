@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export interface OfflineSyncConflict {
+  path: string;
+  kind: 'upload' | 'delete';
+  message: string;
+}
+
+interface OfflineSyncReportDialogProps {
+  syncedCount: number;
+  conflicts: OfflineSyncConflict[];
+  onClose: () => void;
+}
+
+// Shown after changes made offline are replayed, for any that didn't go
+// through as made
+export const OfflineSyncReportDialog: React.FC<OfflineSyncReportDialogProps> = ({ syncedCount, conflicts, onClose }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          Offline Changes Synced With Conflicts
+        </h3>
+        <Button onClick={onClose} variant="ghost" size="sm">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        {syncedCount} change(s) went through as made. These didn't:
+      </p>
+
+      <ul className="max-h-72 overflow-auto divide-y divide-gray-100 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700 mb-4">
+        {conflicts.map((conflict, index) => (
+          <li key={`${conflict.path}-${index}`} className="px-3 py-2 text-sm">
+            <p className="font-medium text-gray-900 dark:text-white truncate" title={conflict.path}>
+              {conflict.kind === 'upload' ? 'Upload' : 'Delete'}: {conflict.path}
+            </p>
+            <p className="text-xs text-amber-700 dark:text-amber-400">{conflict.message}</p>
+          </li>
+        ))}
+      </ul>
+
+      <Button onClick={onClose} className="w-full">
+        Close
+      </Button>
+    </div>
+  </div>
+);
@@ -0,0 +1,37 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { QuotaUsage, getQuotaLevel, describeQuota } from '@/lib/files/quotas';
+import { formatFileSize } from './fileDisplay';
+
+interface QuotaBannerProps {
+  // Quotas that apply to uploads into the open folder
+  quotas: QuotaUsage[];
+}
+
+// Shown above the files once a quota that applies here is close to or over its limit
+export const QuotaBanner: React.FC<QuotaBannerProps> = ({ quotas }) => {
+  const full = quotas.filter(quota => getQuotaLevel(quota) !== 'ok');
+  if (full.length === 0) return null;
+
+  const isExceeded = full.some(quota => getQuotaLevel(quota) === 'exceeded');
+  return (
+    <div
+      className={`flex items-start gap-3 rounded-lg border p-3 text-sm ${
+        isExceeded
+          ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/40 text-red-800 dark:text-red-200'
+          : 'border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/40 text-amber-800 dark:text-amber-200'
+      }`}
+    >
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div className="space-y-1">
+        {full.map(quota => (
+          <p key={quota.id}>
+            {describeQuota(quota)} {getQuotaLevel(quota) === 'exceeded' ? 'is over its' : 'is close to its'} limit:{' '}
+            {formatFileSize(quota.usedBytes)} of {formatFileSize(quota.maxBytes)} used.
+            {getQuotaLevel(quota) === 'exceeded' && ' New uploads here are blocked.'}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { QuotaUsage, getQuotaLevel } from '@/lib/files/quotas';
+import { formatFileSize } from './fileDisplay';
+
+const LEVEL_COLORS = {
+  ok: 'bg-green-600 dark:bg-green-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-red-600 dark:bg-red-500'
+};
+
+interface QuotaMeterProps {
+  quota: QuotaUsage;
+}
+
+export const QuotaMeter: React.FC<QuotaMeterProps> = ({ quota }) => {
+  const percent = Math.min(100, (quota.usedBytes / quota.maxBytes) * 100);
+  return (
+    <div className="space-y-1">
+      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+        <div className={`h-full ${LEVEL_COLORS[getQuotaLevel(quota)]}`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {formatFileSize(quota.usedBytes)} of {formatFileSize(quota.maxBytes)} ({Math.round((quota.usedBytes / quota.maxBytes) * 100)}%)
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Pencil, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FileItem } from '@/lib/files/types';
+import { validateFileName } from '@/lib/files/fileOperations';
+
+interface RenameFileDialogProps {
+  file: FileItem;
+  onRename: (newName: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export const RenameFileDialog: React.FC<RenameFileDialogProps> = ({ file, onRename, onClose }) => {
+  const [name, setName] = useState(file.name);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleRename = async () => {
+    const validationError = validateFileName(name);
+    setError(validationError);
+    if (validationError) return;
+
+    setIsSaving(true);
+    try {
+      if (await onRename(name.trim())) onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Select the name without its extension, which is usually what gets changed
+  const handleFocus = (event: React.FocusEvent<HTMLInputElement>) => {
+    const dotIndex = file.name.lastIndexOf('.');
+    event.target.setSelectionRange(0, dotIndex > 0 ? dotIndex : file.name.length);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Rename File</h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isSaving}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+              }}
+              onFocus={handleFocus}
+              disabled={isSaving}
+              autoFocus
+            />
+            {error && <p className="text-xs text-red-600 dark:text-red-400 mt-2">{error}</p>}
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleRename} className="flex-1" disabled={isSaving}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename
+            </Button>
+            <Button variant="outline" onClick={onClose} className="flex-1" disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+
+const MARK_CLASS = 'bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface HighlightedTextProps {
+  text: string;
+  // Lower-cased search words to mark wherever they appear
+  terms: string[];
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+
+  // A capturing split keeps the matches at the odd indexes
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) => (
+        index % 2 === 1 ? <mark key={index} className={MARK_CLASS}>{part}</mark> : part
+      ))}
+    </>
+  );
+};
+
+interface ContentSnippetProps {
+  // Alternating plain and matched text, as returned by the content search
+  parts: string[];
+}
+
+export const ContentSnippet: React.FC<ContentSnippetProps> = ({ parts }) => {
+  return (
+    <p className="text-xs text-gray-500 dark:text-gray-400 truncate mt-1" title={parts.join('')}>
+      {parts.map((part, index) => (
+        index % 2 === 1 ? <mark key={index} className={MARK_CLASS}>{part}</mark> : part
+      ))}
+    </p>
+  );
+};
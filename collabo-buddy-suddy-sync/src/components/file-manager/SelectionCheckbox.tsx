@@ -0,0 +1,39 @@
+import React from 'react';
+import { FileItem } from '@/lib/files/types';
+
+export interface FileSelectionProps {
+  isSelected?: boolean;
+  // Once anything is selected, checkboxes stay visible instead of appearing on hover
+  isSelectionActive?: boolean;
+  onToggleSelect?: (file: FileItem, extendRange: boolean) => void;
+}
+
+interface SelectionCheckboxProps extends FileSelectionProps {
+  file: FileItem;
+}
+
+export const SelectionCheckbox: React.FC<SelectionCheckboxProps> = ({
+  file,
+  isSelected = false,
+  isSelectionActive = false,
+  onToggleSelect
+}) => {
+  if (!onToggleSelect) return null;
+
+  return (
+    <input
+      type="checkbox"
+      checked={isSelected}
+      // onChange doesn't expose shiftKey, so the click handler does the work
+      onChange={() => {}}
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggleSelect(file, e.shiftKey);
+      }}
+      aria-label={`Select ${file.name}`}
+      className={`h-4 w-4 shrink-0 cursor-pointer rounded border-gray-300 dark:border-gray-600 accent-blue-600 transition-opacity ${
+        isSelected || isSelectionActive ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+      }`}
+    />
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Copy, Link2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { FileItem } from '@/lib/files/types';
+import { ShareLink, SHARE_LINK_EXPIRY_OPTIONS, createShareLink, getShareLinkUrl } from '@/lib/files/shareLinks';
+import { logActivity, describeActivityError } from '@/lib/files/activityLog';
+
+interface ShareFileDialogProps {
+  file: FileItem;
+  onCreated?: (link: ShareLink) => void;
+  onClose: () => void;
+}
+
+export const ShareFileDialog: React.FC<ShareFileDialogProps> = ({ file, onCreated, onClose }) => {
+  const [expiresInHours, setExpiresInHours] = useState(SHARE_LINK_EXPIRY_OPTIONS[1].hours);
+  const [password, setPassword] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [createdLink, setCreatedLink] = useState<ShareLink | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const handleCreate = async () => {
+    const downloadLimit = maxDownloads.trim() ? Number(maxDownloads) : null;
+    if (downloadLimit !== null && (!Number.isInteger(downloadLimit) || downloadLimit < 1)) {
+      toast({
+        title: "Error",
+        description: "The download limit must be a whole number of at least 1",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(
+        file.path || file.name,
+        { expiresInHours, password, maxDownloads: downloadLimit },
+        user
+      );
+      setCreatedLink(link);
+      logActivity('share', link.path, 'success', { detail: `Link created, expires ${link.expiresAt.toISOString()}` });
+      onCreated?.(link);
+    } catch (error) {
+      console.error('Share link error:', error);
+      logActivity('share', file.path || file.name, 'failure', { detail: describeActivityError(error) });
+      toast({
+        title: "Share Failed",
+        description: `Could not create a share link for ${file.name}`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdLink) return;
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(createdLink));
+      toast({
+        title: "Link Copied",
+        description: "The share link is on your clipboard",
+      });
+    } catch (error) {
+      console.error('Clipboard error:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+            Share {file.name}
+          </h3>
+          <Button onClick={onClose} variant="ghost" size="sm" disabled={isCreating}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {createdLink ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Anyone with this link can download the file until {createdLink.expiresAt.toLocaleString()}
+              {createdLink.maxDownloads !== null && ` or until it has been downloaded ${createdLink.maxDownloads} time(s)`}.
+              {createdLink.hasPassword && ' They will be asked for the password.'}
+            </p>
+            <div className="flex gap-2">
+              <Input value={getShareLinkUrl(createdLink)} readOnly onFocus={(e) => e.target.select()} />
+              <Button onClick={handleCopy} variant="outline" title="Copy Link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button onClick={onClose} className="w-full">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Expires after</label>
+              <select
+                value={expiresInHours}
+                onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                disabled={isCreating}
+                className="w-full h-10 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 text-sm text-gray-900 dark:text-white"
+              >
+                {SHARE_LINK_EXPIRY_OPTIONS.map(option => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Password <span className="font-normal text-gray-500 dark:text-gray-400">(optional)</span>
+              </label>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isCreating}
+                autoComplete="new-password"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Download limit <span className="font-normal text-gray-500 dark:text-gray-400">(optional)</span>
+              </label>
+              <Input
+                type="number"
+                min={1}
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(e.target.value)}
+                placeholder="Unlimited"
+                disabled={isCreating}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleCreate} className="flex-1" disabled={isCreating}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Create Link
+              </Button>
+              <Button variant="outline" onClick={onClose} className="flex-1" disabled={isCreating}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Copy, Link2, Loader2, Lock, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { getBaseName, getParentPath } from '@/lib/files/paths';
+import { ShareLink, listActiveShareLinks, revokeShareLink, getShareLinkUrl } from '@/lib/files/shareLinks';
+import { logActivity, describeActivityError } from '@/lib/files/activityLog';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface ShareLinksPanelProps {
+  onClose: () => void;
+}
+
+export const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ onClose }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingLink, setRevokingLink] = useState<ShareLink | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const { toast } = useToast();
+
+  const loadLinks = async () => {
+    setIsLoading(true);
+    try {
+      setLinks(await listActiveShareLinks());
+    } catch (error) {
+      console.error('Error loading share links:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, []);
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link));
+      toast({
+        title: "Link Copied",
+        description: `Share link for ${getBaseName(link.path)} is on your clipboard`,
+      });
+    } catch (error) {
+      console.error('Clipboard error:', error);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokingLink) return;
+
+    setIsRevoking(true);
+    try {
+      await revokeShareLink(revokingLink.id);
+      logActivity('share', revokingLink.path, 'success', { detail: 'Link revoked' });
+      setLinks(prev => prev.filter(link => link.id !== revokingLink.id));
+      toast({
+        title: "Link Revoked",
+        description: `The link to ${getBaseName(revokingLink.path)} no longer works`,
+      });
+    } catch (error) {
+      console.error('Revoke error:', error);
+      logActivity('share', revokingLink.path, 'failure', { detail: `Revoking link: ${describeActivityError(error)}` });
+      toast({
+        title: "Revoke Failed",
+        description: "An error occurred while revoking the link",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRevoking(false);
+      setRevokingLink(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 dark:text-white flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Shared Links
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Files
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Links that can still be used to download a file. Expired and used-up links are not shown.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading share links...
+          </div>
+        ) : links.length === 0 ? (
+          <p className="py-8 text-center text-gray-500 dark:text-gray-400">No active share links</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">File</th>
+                  <th className="py-2 pr-4 font-medium">Created By</th>
+                  <th className="py-2 pr-4 font-medium">Expires</th>
+                  <th className="py-2 pr-4 font-medium">Downloads</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {links.map(link => (
+                  <tr key={link.id} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-900 dark:text-white flex items-center gap-1">
+                        {getBaseName(link.path)}
+                        {link.hasPassword && <Lock className="h-3 w-3 text-gray-400" aria-label="Password protected" />}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{getParentPath(link.path) || 'Root'}</div>
+                    </td>
+                    <td className="py-2 pr-4">{link.createdByEmail || 'Unknown'}</td>
+                    <td className="py-2 pr-4">{link.expiresAt.toLocaleString()}</td>
+                    <td className="py-2 pr-4">
+                      {link.downloadCount}{link.maxDownloads !== null && ` / ${link.maxDownloads}`}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleCopy(link)}>
+                          <Copy className="h-4 w-4 mr-1" />
+                          Copy
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRevokingLink(link)}
+                          className="text-red-600 border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {revokingLink && (
+        <ConfirmDialog
+          title="Revoke Link"
+          description={
+            <>
+              Revoke the share link for <span className="font-semibold">{getBaseName(revokingLink.path)}</span>?
+              Anyone who has it will no longer be able to download the file.
+            </>
+          }
+          confirmLabel="Revoke Link"
+          isDestructive
+          isBusy={isRevoking}
+          onConfirm={handleRevoke}
+          onCancel={() => setRevokingLink(null)}
+        />
+      )}
+    </Card>
+  );
+};
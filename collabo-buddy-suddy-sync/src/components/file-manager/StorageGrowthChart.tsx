@@ -0,0 +1,51 @@
+import React from 'react';
+import { UsageBucket, getCumulativeGrowth } from '@/lib/files/storageUsage';
+import { formatFileSize } from './fileDisplay';
+
+// Two years of columns is about what fits across the panel
+const MAX_MONTHS = 24;
+
+interface StorageGrowthChartProps {
+  byMonth: UsageBucket[];
+}
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+};
+
+// Total size at the end of each month. Deleted files aren't counted, so this
+// is how the files kept today built up, not a history of the bucket's size.
+export const StorageGrowthChart: React.FC<StorageGrowthChartProps> = ({ byMonth }) => {
+  const months = getCumulativeGrowth(byMonth).slice(-MAX_MONTHS);
+  const peak = Math.max(1, ...months.map(month => month.bytes));
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Growth</h4>
+      {months.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nothing stored yet</p>
+      ) : (
+        <>
+          <div className="flex items-end gap-1 h-40">
+            {months.map((month, index) => (
+              <div
+                key={month.key}
+                className="flex-1 min-w-0 bg-blue-600/80 dark:bg-blue-500/80 hover:bg-blue-600 dark:hover:bg-blue-400 rounded-t"
+                style={{ height: `${Math.max(2, (month.bytes / peak) * 100)}%` }}
+                title={`${formatMonth(month.key)}: ${formatFileSize(month.bytes)} in ${month.files} files (+${formatFileSize(byMonth[byMonth.length - months.length + index].bytes)})`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{formatMonth(months[0].key)}</span>
+            <span>{formatMonth(months[months.length - 1].key)}</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Size of today's files by the month they were added; deleted files aren't included.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { QuotaUsage, fetchQuotaUsage, setQuota, updateQuota, removeQuota, describeQuota } from '@/lib/files/quotas';
+import { QuotaMeter } from './QuotaMeter';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const DEFAULT_WARN_PERCENT = 80;
+
+interface StorageQuotasProps {
+  // Prefilled as the folder for a new quota
+  folderPath: string;
+}
+
+// Row-level security only lets folder owners change quotas
+const describeError = (error: unknown, fallback: string) => {
+  if (error && typeof error === 'object' && 'code' in error && error.code === '42501') {
+    return 'Only owners of the folder can set its quota, and only owners of Root can set quotas for people';
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+export const StorageQuotas: React.FC<StorageQuotasProps> = ({ folderPath }) => {
+  const [quotas, setQuotas] = useState<QuotaUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [scopeType, setScopeType] = useState<'folder' | 'user'>('folder');
+  const [scopeValue, setScopeValue] = useState(folderPath);
+  const [limitGb, setLimitGb] = useState('');
+  const [warnPercent, setWarnPercent] = useState(String(DEFAULT_WARN_PERCENT));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadQuotas = async () => {
+    setIsLoading(true);
+    try {
+      setQuotas(await fetchQuotaUsage());
+    } catch (error) {
+      console.error('Error loading storage quotas:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQuotas();
+  }, []);
+
+  useEffect(() => {
+    if (!editingId && scopeType === 'folder') setScopeValue(folderPath);
+  }, [folderPath, editingId, scopeType]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setScopeType('folder');
+    setScopeValue(folderPath);
+    setLimitGb('');
+    setWarnPercent(String(DEFAULT_WARN_PERCENT));
+  };
+
+  const startEditing = (quota: QuotaUsage) => {
+    setEditingId(quota.id);
+    setScopeType(quota.userId ? 'user' : 'folder');
+    setScopeValue(quota.label);
+    setLimitGb(String(Number((quota.maxBytes / BYTES_PER_GB).toFixed(3))));
+    setWarnPercent(String(quota.warnPercent));
+  };
+
+  const limitBytes = Math.round(Number(limitGb) * BYTES_PER_GB);
+  const warn = Number(warnPercent);
+  const isValid = limitBytes > 0
+    && Number.isInteger(warn) && warn >= 1 && warn <= 100
+    && (scopeType === 'folder' || scopeValue.trim() !== '');
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await updateQuota(editingId, limitBytes, warn);
+      } else {
+        const folder = scopeValue.trim().replace(/^\/+|\/+$/g, '');
+        await setQuota(
+          scopeType === 'folder' ? { type: 'folder', folderPath: folder } : { type: 'user', email: scopeValue },
+          limitBytes,
+          warn
+        );
+      }
+      toast({
+        title: editingId ? "Quota Updated" : "Quota Added",
+        description: `Uploads that would go over ${limitGb} GB will be blocked`,
+      });
+      resetForm();
+      loadQuotas();
+    } catch (error) {
+      console.error('Save quota error:', error);
+      toast({
+        title: "Quota Not Saved",
+        description: describeError(error, "An error occurred while saving the quota"),
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (quota: QuotaUsage) => {
+    try {
+      await removeQuota(quota.id);
+      setQuotas(prev => prev.filter(q => q.id !== quota.id));
+      if (editingId === quota.id) resetForm();
+    } catch (error) {
+      console.error('Remove quota error:', error);
+      toast({
+        title: "Remove Failed",
+        description: describeError(error, "An error occurred while removing the quota"),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+        <Gauge className="h-4 w-4" />
+        Quotas
+      </h4>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading quotas...
+        </div>
+      ) : quotas.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No quotas set. Uploads are only limited by the bucket.</p>
+      ) : (
+        <div className="space-y-3">
+          {quotas.map(quota => (
+            <div key={quota.id} className="flex items-start gap-3">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                  {describeQuota(quota)}
+                  <span className="text-xs text-gray-500 dark:text-gray-400"> · warns at {quota.warnPercent}%</span>
+                </p>
+                <QuotaMeter quota={quota} />
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => startEditing(quota)} title="Change limit">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(quota)}
+                className="text-red-600"
+                title="Remove quota"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">
+          {editingId ? 'Change Quota' : 'Add Quota'}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={scopeType}
+            disabled={!!editingId}
+            onChange={(e) => {
+              const type = e.target.value as 'folder' | 'user';
+              setScopeType(type);
+              setScopeValue(type === 'folder' ? folderPath : '');
+            }}
+            className="h-10 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 text-sm text-gray-900 dark:text-white"
+          >
+            <option value="folder">Folder</option>
+            <option value="user">Person</option>
+          </select>
+          <Input
+            value={scopeValue}
+            disabled={!!editingId}
+            onChange={(e) => setScopeValue(e.target.value)}
+            placeholder={scopeType === 'folder' ? 'Folder path (empty for all files)' : 'Email address'}
+            className="flex-1 bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+          />
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            Limit
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={limitGb}
+              onChange={(e) => setLimitGb(e.target.value)}
+              className="w-28 bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+            />
+            GB
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            Warn at
+            <Input
+              type="number"
+              min="1"
+              max="100"
+              value={warnPercent}
+              onChange={(e) => setWarnPercent(e.target.value)}
+              className="w-20 bg-white dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+            />
+            %
+          </label>
+          <div className="flex gap-2 sm:ml-auto">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={!isValid || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingId ? 'Save' : 'Add Quota'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
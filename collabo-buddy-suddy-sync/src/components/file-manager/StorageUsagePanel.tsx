@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, HardDrive, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { StorageUsage, fetchStorageUsage } from '@/lib/files/storageUsage';
+import { FILE_CATEGORY_LABELS, FileCategory } from '@/lib/files/fileTypes';
+import { VERSIONS_ROOT, TRASH_ROOT, THUMBNAILS_ROOT } from '@/lib/files/storage';
+import { joinPath } from '@/lib/files/paths';
+import { FolderBreadcrumbs } from './FolderBreadcrumbs';
+import { UsageBreakdown } from './UsageBreakdown';
+import { StorageGrowthChart } from './StorageGrowthChart';
+import { StorageQuotas } from './StorageQuotas';
+import { formatFileSize } from './fileDisplay';
+
+const SYSTEM_FOLDER_LABELS: Record<string, string> = {
+  [VERSIONS_ROOT]: 'Version history',
+  [TRASH_ROOT]: 'Trash',
+  [THUMBNAILS_ROOT]: 'Thumbnails'
+};
+
+interface StorageUsagePanelProps {
+  // Folder the breakdown starts in
+  initialPath: string;
+  onClose: () => void;
+}
+
+export const StorageUsagePanel: React.FC<StorageUsagePanelProps> = ({ initialPath, onClose }) => {
+  const [path, setPath] = useState(initialPath);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadUsage = async () => {
+      setIsLoading(true);
+      try {
+        const loaded = await fetchStorageUsage(path);
+        if (!cancelled) setUsage(loaded);
+      } catch (error) {
+        console.error('Error loading storage usage:', error);
+        if (!cancelled) setUsage(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  const systemBytes = usage?.bySystemFolder.reduce((sum, bucket) => sum + bucket.bytes, 0) || 0;
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 dark:text-white flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            Storage Usage
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Files
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Totals cover every file in the folder and its subfolders that you can access, not just what is loaded.
+        </p>
+        <FolderBreadcrumbs path={path} onNavigate={setPath} />
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading && !usage ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Working out storage usage...
+          </div>
+        ) : !usage ? (
+          <p className="py-8 text-center text-gray-500 dark:text-gray-400">Storage usage could not be loaded</p>
+        ) : (
+          <>
+            <div className={`grid grid-cols-2 md:grid-cols-3 gap-4 ${isLoading ? 'opacity-60' : ''}`}>
+              <div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Files</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatFileSize(usage.totalBytes)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{usage.totalFiles} files</p>
+              </div>
+              {path === '' && (
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">History, trash and thumbnails</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatFileSize(systemBytes)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {usage.bySystemFolder.map(bucket => `${SYSTEM_FOLDER_LABELS[bucket.key] || bucket.key} ${formatFileSize(bucket.bytes)}`).join(' · ')}
+                  </p>
+                </div>
+              )}
+              {path === '' && (
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Bucket total</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatFileSize(usage.totalBytes + systemBytes)}</p>
+                </div>
+              )}
+            </div>
+
+            <div className={`grid md:grid-cols-2 gap-8 ${isLoading ? 'opacity-60' : ''}`}>
+              <UsageBreakdown
+                title="By Folder"
+                buckets={usage.byFolder}
+                getLabel={bucket => bucket.key || 'Files in this folder'}
+                onSelect={bucket => {
+                  if (bucket.key) setPath(joinPath(path, bucket.key));
+                }}
+              />
+              <UsageBreakdown
+                title="By Type"
+                buckets={usage.byType}
+                getLabel={bucket => {
+                  const category = bucket.key as FileCategory;
+                  return category === 'other' ? 'Other' : FILE_CATEGORY_LABELS[category];
+                }}
+              />
+              <UsageBreakdown
+                title="By Uploader"
+                buckets={usage.byUploader}
+                getLabel={bucket => bucket.key || 'Unknown'}
+              />
+              <StorageGrowthChart byMonth={usage.byMonth} />
+            </div>
+          </>
+        )}
+
+        <StorageQuotas folderPath={path} />
+      </CardContent>
+    </Card>
+  );
+};
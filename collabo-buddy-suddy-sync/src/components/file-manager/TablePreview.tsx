@@ -0,0 +1,94 @@
+import React, { useState, useMemo } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { MAX_TABLE_ROWS } from '@/lib/files/preview';
+
+interface TablePreviewProps {
+  // The first row is the header
+  rows: string[][];
+  // More rows exist than were read
+  isTruncated: boolean;
+}
+
+const NUMBER_PATTERN = /^-?[\d,]*\.?\d+%?$/;
+
+const toNumber = (value: string): number | null => {
+  const trimmed = value.trim();
+  return NUMBER_PATTERN.test(trimmed) ? Number(trimmed.replace(/[,%]/g, '')) : null;
+};
+
+// Numbers sort by value, everything else alphabetically; blanks go last
+const compareCells = (a: string, b: string): number => {
+  if (a === '' || b === '') return a === b ? 0 : a === '' ? 1 : -1;
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+export const TablePreview: React.FC<TablePreviewProps> = ({ rows, isTruncated }) => {
+  const [sort, setSort] = useState<{ column: number; ascending: boolean } | null>(null);
+
+  const header = rows[0] || [];
+  const body = useMemo(() => rows.slice(1, MAX_TABLE_ROWS + 1), [rows]);
+  const columnCount = Math.max(header.length, ...body.map(row => row.length));
+  const hasMoreRows = isTruncated || rows.length > MAX_TABLE_ROWS + 1;
+
+  const sortedBody = useMemo(() => {
+    if (!sort) return body;
+    const sorted = [...body].sort((a, b) => compareCells(a[sort.column] ?? '', b[sort.column] ?? ''));
+    return sort.ascending ? sorted : sorted.reverse();
+  }, [body, sort]);
+
+  const handleSort = (column: number) => {
+    setSort(current => current?.column === column
+      ? { column, ascending: !current.ascending }
+      : { column, ascending: true });
+  };
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">This sheet is empty.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-96 overflow-auto rounded border border-gray-200 dark:border-gray-600">
+        <table className="min-w-full text-sm">
+          <thead className="sticky top-0 bg-gray-200 dark:bg-gray-600">
+            <tr>
+              {Array.from({ length: columnCount }, (_, column) => (
+                <th
+                  key={column}
+                  onClick={() => handleSort(column)}
+                  className="px-3 py-2 text-left font-medium text-gray-900 dark:text-white whitespace-nowrap cursor-pointer select-none"
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {header[column] || `Column ${column + 1}`}
+                    {sort?.column === column && (sort.ascending
+                      ? <ArrowUp className="h-3 w-3" />
+                      : <ArrowDown className="h-3 w-3" />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800">
+            {sortedBody.map((row, index) => (
+              <tr key={index} className="border-t border-gray-100 dark:border-gray-700">
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <td key={column} className="px-3 py-1.5 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    {row[column] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {hasMoreRows && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Showing the first {body.length} rows. Download the file to see the rest.
+        </p>
+      )}
+    </div>
+  );
+};
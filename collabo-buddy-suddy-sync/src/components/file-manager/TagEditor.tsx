@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { normalizeTag } from '@/lib/files/metadata';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, disabled = false }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTags = (value: string) => {
+    const newTags = value
+      .split(',')
+      .map(normalizeTag)
+      .filter(tag => tag && !tags.includes(tag));
+
+    if (newTags.length > 0) onChange([...tags, ...new Set(newTags)]);
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {tags.length === 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">No tags yet</span>
+        )}
+        {tags.map(tag => (
+          <Badge key={tag} className="text-xs border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+            {tag}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="ml-1 hover:text-red-600"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        ))}
+      </div>
+      {!disabled && (
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTags(draft);
+            } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+              removeTag(tags[tags.length - 1]);
+            }
+          }}
+          onBlur={() => draft && addTags(draft)}
+          placeholder="Add a tag and press Enter..."
+          className="bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import hljs from 'highlight.js/lib/common';
+import ReactMarkdown from 'react-markdown';
+import 'highlight.js/styles/github-dark.css';
+
+interface TextPreviewProps {
+  text: string;
+  // highlight.js language for code; plain text when absent
+  language?: string | null;
+  isMarkdown?: boolean;
+}
+
+// Element styles for rendered markdown, since the preview sits outside any
+// typography wrapper
+const MARKDOWN_CLASSES = [
+  'text-sm text-gray-800 dark:text-gray-200 space-y-3 break-words',
+  '[&_h1]:text-2xl [&_h1]:font-bold [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:text-lg [&_h3]:font-semibold',
+  '[&_a]:text-blue-600 dark:[&_a]:text-blue-400 [&_a]:underline',
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6',
+  '[&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 [&_blockquote]:pl-3 [&_blockquote]:italic',
+  '[&_code]:font-mono [&_code]:text-xs [&_code]:bg-gray-200 dark:[&_code]:bg-gray-600 [&_code]:rounded [&_code]:px-1',
+  '[&_pre]:bg-gray-900 [&_pre]:text-gray-100 [&_pre]:rounded [&_pre]:p-3 [&_pre]:overflow-auto',
+  '[&_pre_code]:bg-transparent [&_pre_code]:p-0',
+  '[&_table]:border-collapse [&_th]:border [&_td]:border [&_th]:px-2 [&_td]:px-2',
+  '[&_img]:max-w-full'
+].join(' ');
+
+export const TextPreview: React.FC<TextPreviewProps> = ({ text, language, isMarkdown = false }) => {
+  // highlight.js escapes the source, so its output is safe to inject
+  const highlighted = useMemo(() => {
+    if (!language || !hljs.getLanguage(language)) return null;
+    try {
+      return hljs.highlight(text, { language, ignoreIllegals: true }).value;
+    } catch (error) {
+      console.error('Syntax highlight error:', error);
+      return null;
+    }
+  }, [text, language]);
+
+  if (isMarkdown) {
+    return (
+      <div className={`max-h-[32rem] overflow-auto ${MARKDOWN_CLASSES}`}>
+        <ReactMarkdown>{text}</ReactMarkdown>
+      </div>
+    );
+  }
+
+  if (highlighted !== null) {
+    return (
+      <pre className="max-h-[32rem] overflow-auto rounded bg-gray-900 p-3 text-xs leading-relaxed">
+        <code className={`hljs language-${language}`} dangerouslySetInnerHTML={{ __html: highlighted }} />
+      </pre>
+    );
+  }
+
+  return (
+    <pre className="max-h-[32rem] overflow-auto whitespace-pre-wrap break-words rounded bg-white dark:bg-gray-800 p-3 text-xs leading-relaxed text-gray-800 dark:text-gray-200 font-mono">
+      {text}
+    </pre>
+  );
+};
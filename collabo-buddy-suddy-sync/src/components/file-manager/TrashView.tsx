@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { getParentPath } from '@/lib/files/paths';
+import { StorageAdapter } from '@/lib/files/storageAdapter';
+import { TrashItem, listTrash, restoreFromTrash, deleteForever, getTrashExpiry } from '@/lib/files/trash';
+import { PartialMoveError } from '@/lib/files/metadata';
+import { logActivity, describeActivityError } from '@/lib/files/activityLog';
+import { ConfirmDialog } from './ConfirmDialog';
+import { formatFileSize } from './fileDisplay';
+
+interface TrashViewProps {
+  storage: StorageAdapter;
+  retentionDays: number;
+  onRestored: (restoredPath: string) => void;
+  onClose: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ storage, retentionDays, onRestored, onClose }) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [purgingItem, setPurgingItem] = useState<TrashItem | null>(null);
+  const { toast } = useToast();
+
+  const loadTrash = async () => {
+    setIsLoading(true);
+    try {
+      setItems(await listTrash());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyItemId(item.id);
+    try {
+      const restoredPath = await restoreFromTrash(storage, item);
+      logActivity('restore', item.originalPath, 'success', { targetPath: restoredPath });
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      onRestored(restoredPath);
+      toast({
+        title: "File Restored",
+        description: `${item.name} is back in ${getParentPath(restoredPath) || 'Root'}`,
+      });
+    } catch (error) {
+      console.error('Restore error:', error);
+      logActivity('restore', item.originalPath, 'failure', { detail: describeActivityError(error) });
+      // The file is back, just without its details
+      if (error instanceof PartialMoveError) {
+        setItems(prev => prev.filter(i => i.id !== item.id));
+        onRestored(error.path);
+      }
+      toast({
+        title: error instanceof PartialMoveError ? "Restore Incomplete" : "Restore Failed",
+        description: error instanceof PartialMoveError ? error.message : `Failed to restore ${item.name}`,
+        variant: "destructive"
+      });
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    if (!purgingItem) return;
+
+    setBusyItemId(purgingItem.id);
+    try {
+      await deleteForever(storage, [purgingItem]);
+      logActivity('delete', purgingItem.originalPath, 'success', { detail: 'Deleted permanently from the trash' });
+      setItems(prev => prev.filter(i => i.id !== purgingItem.id));
+      toast({
+        title: "File Deleted",
+        description: `${purgingItem.name} has been permanently deleted`,
+      });
+    } catch (error) {
+      console.error('Delete error:', error);
+      logActivity('delete', purgingItem.originalPath, 'failure', {
+        detail: `Deleting permanently from the trash: ${describeActivityError(error)}`
+      });
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : `Failed to delete ${purgingItem.name}`,
+        variant: "destructive"
+      });
+    } finally {
+      setBusyItemId(null);
+      setPurgingItem(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 dark:text-white flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Trash
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Files
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Items are permanently deleted {retentionDays} days after they were moved to the trash.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading trash...
+          </div>
+        ) : items.length === 0 ? (
+          <p className="py-8 text-center text-gray-500 dark:text-gray-400">The trash is empty</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Original Folder</th>
+                  <th className="py-2 pr-4 font-medium">Deleted By</th>
+                  <th className="py-2 pr-4 font-medium">Deleted</th>
+                  <th className="py-2 pr-4 font-medium">Purged</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.id} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-900 dark:text-white">{item.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(item.size)}</div>
+                    </td>
+                    <td className="py-2 pr-4">{getParentPath(item.originalPath) || 'Root'}</td>
+                    <td className="py-2 pr-4">{item.deletedByEmail || 'Unknown'}</td>
+                    <td className="py-2 pr-4">{item.deletedAt.toLocaleString()}</td>
+                    <td className="py-2 pr-4">{getTrashExpiry(item, retentionDays).toLocaleDateString()}</td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(item)}
+                          disabled={busyItemId !== null}
+                        >
+                          {busyItemId === item.id ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                          )}
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPurgingItem(item)}
+                          disabled={busyItemId !== null}
+                          className="text-red-600 border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete forever
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {purgingItem && (
+        <ConfirmDialog
+          title="Delete Forever"
+          description={
+            <>
+              Permanently delete <span className="font-semibold">{purgingItem.name}</span> and its version history?
+              This cannot be undone.
+            </>
+          }
+          confirmLabel="Delete Forever"
+          isDestructive
+          isBusy={busyItemId === purgingItem.id}
+          onConfirm={handleDeleteForever}
+          onCancel={() => setPurgingItem(null)}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { useTheme } from '@/hooks/useTheme';
+import { FileItem } from '@/lib/files/types';
+import { FILE_CATEGORY_LABELS, FileCategory } from '@/lib/files/fileTypes';
+import { getFileIcon } from './fileDisplay';
+
+interface TypeFilterChipsProps {
+  // The folder's loaded files, before any filtering, for the counts
+  files: FileItem[];
+  selected: FileCategory[];
+  onChange: (types: FileCategory[]) => void;
+}
+
+// One chip per kind of file in the folder. Selected chips combine: a file
+// shows if it is any of the selected types.
+export const TypeFilterChips: React.FC<TypeFilterChipsProps> = ({ files, selected, onChange }) => {
+  const { theme } = useTheme();
+  const counts = new Map<FileCategory, number>();
+  files.forEach(file => {
+    const category = file.type as FileCategory;
+    counts.set(category, (counts.get(category) || 0) + 1);
+  });
+
+  // Selected types stay visible even when the folder has none of them
+  const categories = (Object.keys(FILE_CATEGORY_LABELS) as FileCategory[])
+    .filter(category => counts.has(category) || selected.includes(category));
+
+  if (categories.length < 2 && selected.length === 0) return null;
+
+  const toggle = (category: FileCategory) => {
+    onChange(selected.includes(category)
+      ? selected.filter(type => type !== category)
+      : [...selected, category]);
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap" role="group" aria-label="Filter by type">
+      {categories.map(category => {
+        const isSelected = selected.includes(category);
+        return (
+          <button
+            key={category}
+            onClick={() => toggle(category)}
+            aria-pressed={isSelected}
+            className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs border transition-colors ${
+              isSelected
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {getFileIcon(category, theme === 'dark' || isSelected, 'h-3 w-3')}
+            <span className="capitalize">{category === 'other' ? 'other' : FILE_CATEGORY_LABELS[category]}</span>
+            <span className={isSelected ? 'text-blue-100' : 'text-gray-400'}>{counts.get(category) || 0}</span>
+          </button>
+        );
+      })}
+      {selected.length > 0 && (
+        <button
+          onClick={() => onChange([])}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          <X className="h-3 w-3" />
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle2, AlertCircle, Loader2, RotateCcw, X, Clock, Ban, PauseCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { UploadQueueItem, UploadStatus } from '@/hooks/useUploadQueue';
+import { PendingResumableUpload } from '@/lib/files/resumableUpload';
+import { formatFileSize } from './fileDisplay';
+
+interface UploadQueuePanelProps {
+  items: UploadQueueItem[];
+  interruptedUploads: PendingResumableUpload[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+  onResumeInterrupted: (upload: PendingResumableUpload, file: File) => void;
+  onDiscardInterrupted: (fingerprint: string) => void;
+}
+
+const statusIcon = (status: UploadStatus) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-gray-400" />;
+    case 'uploading':
+      return <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'error':
+      return <AlertCircle className="h-4 w-4 text-red-600" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-gray-400" />;
+  }
+};
+
+export const UploadQueuePanel: React.FC<UploadQueuePanelProps> = ({
+  items,
+  interruptedUploads,
+  onCancel,
+  onRetry,
+  onClearFinished,
+  onResumeInterrupted,
+  onDiscardInterrupted
+}) => {
+  const { toast } = useToast();
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+  const [resumingUpload, setResumingUpload] = useState<PendingResumableUpload | null>(null);
+
+  // The browser can't reopen a file on its own after a refresh, so the user
+  // picks it again and we check it's the same one before resuming.
+  const handleResumeFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !resumingUpload) return;
+
+    if (file.name !== resumingUpload.fileName || file.size !== resumingUpload.size) {
+      toast({
+        title: "Different File",
+        description: `Please choose ${resumingUpload.fileName} (${formatFileSize(resumingUpload.size)}) to resume`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onResumeInterrupted(resumingUpload, file);
+    setResumingUpload(null);
+  };
+
+  const totalBytes = items.reduce((sum, item) => sum + item.total, 0);
+  const loadedBytes = items.reduce((sum, item) => sum + Math.min(item.loaded, item.total), 0);
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const hasFinished = items.some(item => item.status !== 'queued' && item.status !== 'uploading');
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-semibold text-gray-900 dark:text-white">
+            Uploads ({doneCount}/{items.length}) • {formatFileSize(loadedBytes)} of {formatFileSize(totalBytes)}
+          </CardTitle>
+          {hasFinished && (
+            <Button variant="ghost" size="sm" onClick={onClearFinished}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="max-h-72 overflow-auto space-y-2">
+        <input
+          ref={resumeInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleResumeFileSelected}
+        />
+        {interruptedUploads.map(upload => (
+          <div
+            key={upload.fingerprint}
+            className="flex items-center gap-2 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 p-2"
+          >
+            <PauseCircle className="h-4 w-4 text-amber-600" />
+            <span className="flex-1 text-sm truncate text-gray-900 dark:text-white" title={upload.path}>
+              {upload.fileName}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              Interrupted at {formatFileSize(upload.offset)} / {formatFileSize(upload.size)}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setResumingUpload(upload);
+                resumeInputRef.current?.click();
+              }}
+            >
+              Resume
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onDiscardInterrupted(upload.fingerprint)} title="Discard">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {items.map(item => {
+          const percent = item.total > 0 ? Math.min(100, (item.loaded / item.total) * 100) : 0;
+          const canCancel = item.status === 'queued' || item.status === 'uploading';
+          const canRetry = item.status === 'error' || item.status === 'cancelled';
+
+          return (
+            <div key={item.id} className="rounded-lg border border-gray-100 dark:border-gray-700 p-2">
+              <div className="flex items-center gap-2">
+                {statusIcon(item.status)}
+                <span className="flex-1 text-sm truncate text-gray-900 dark:text-white" title={item.path}>
+                  {item.file.name}
+                </span>
+                {item.isResumable && (
+                  <Badge className="text-xs bg-indigo-100 dark:bg-indigo-900/50 text-indigo-800 dark:text-indigo-200 border border-indigo-200 dark:border-indigo-800">
+                    Resumable
+                  </Badge>
+                )}
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {formatFileSize(item.loaded)} / {formatFileSize(item.total)}
+                </span>
+                {canRetry && (
+                  <Button variant="ghost" size="sm" onClick={() => onRetry(item.id)} title="Retry">
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {canCancel && (
+                  <Button variant="ghost" size="sm" onClick={() => onCancel(item.id)} title="Cancel">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {item.status !== 'done' && (
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-2">
+                  <div
+                    className={`h-1.5 rounded-full transition-all duration-300 ${
+                      item.status === 'error' ? 'bg-red-500' : 'bg-gradient-to-r from-blue-500 to-indigo-500'
+                    }`}
+                    style={{ width: `${percent}%` }}
+                  ></div>
+                </div>
+              )}
+              {item.error && (
+                <p className="text-xs text-red-600 mt-1">{item.error}</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { UsageBucket } from '@/lib/files/storageUsage';
+import { formatFileSize } from './fileDisplay';
+
+interface UsageBreakdownProps {
+  title: string;
+  buckets: UsageBucket[];
+  // How to show a bucket's key, e.g. '' as "Files in this folder"
+  getLabel?: (bucket: UsageBucket) => string;
+  // Makes rows clickable, e.g. to open a folder
+  onSelect?: (bucket: UsageBucket) => void;
+  // Rows past this are summed into "Other"
+  limit?: number;
+}
+
+// Horizontal bars of bytes per bucket, widest first
+export const UsageBreakdown: React.FC<UsageBreakdownProps> = ({
+  title,
+  buckets,
+  getLabel = bucket => bucket.key,
+  onSelect,
+  limit = 8
+}) => {
+  const total = buckets.reduce((sum, bucket) => sum + bucket.bytes, 0);
+  const shown = buckets.slice(0, limit);
+  const rest = buckets.slice(limit);
+  const otherBytes = rest.reduce((sum, bucket) => sum + bucket.bytes, 0);
+  const otherFiles = rest.reduce((sum, bucket) => sum + bucket.files, 0);
+
+  const renderRow = (label: string, bucket: UsageBucket, onClick?: () => void) => {
+    const percent = total > 0 ? (bucket.bytes / total) * 100 : 0;
+    return (
+      <div
+        key={label}
+        onClick={onClick}
+        className={`space-y-1 ${onClick ? 'cursor-pointer rounded hover:bg-gray-50 dark:hover:bg-gray-700 -mx-2 px-2 py-1' : ''}`}
+      >
+        <div className="flex justify-between gap-2 text-sm">
+          <span className="truncate text-gray-700 dark:text-gray-300" title={label}>{label}</span>
+          <span className="shrink-0 text-gray-500 dark:text-gray-400">
+            {formatFileSize(bucket.bytes)} · {bucket.files} {bucket.files === 1 ? 'file' : 'files'}
+          </span>
+        </div>
+        <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+          <div className="h-full bg-blue-600 dark:bg-blue-500" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{title}</h4>
+      {buckets.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nothing stored yet</p>
+      ) : (
+        <div className="space-y-3">
+          {shown.map(bucket => renderRow(getLabel(bucket), bucket, onSelect ? () => onSelect(bucket) : undefined))}
+          {rest.length > 0 && renderRow(`Other (${rest.length})`, { key: '', files: otherFiles, bytes: otherBytes })}
+        </div>
+      )}
+    </div>
+  );
+};
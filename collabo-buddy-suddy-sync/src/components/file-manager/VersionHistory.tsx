@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Download, History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { StorageAdapter } from '@/lib/files/storageAdapter';
+import { FileVersion, listVersions, restoreVersion } from '@/lib/files/versions';
+import { logActivity, describeActivityError } from '@/lib/files/activityLog';
+import { DECRYPTED_URL_LIFETIME_MS } from '@/lib/files/encryption';
+import { formatFileSize } from './fileDisplay';
+
+interface VersionHistoryProps {
+  storage: StorageAdapter;
+  filePath: string;
+  onRestored?: () => void;
+  canRestore?: boolean;
+  // Set for encrypted files: downloads and decrypts a version in the browser
+  loadDecrypted?: (versionPath: string) => Promise<Blob>;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  storage,
+  filePath,
+  onRestored,
+  canRestore = true,
+  loadDecrypted
+}) => {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringPath, setRestoringPath] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadVersions = async () => {
+    setIsLoading(true);
+    try {
+      setVersions(await listVersions(storage, filePath));
+    } catch (error) {
+      console.error('Error loading versions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [storage, filePath]);
+
+  const handleDownload = async (version: FileVersion) => {
+    try {
+      const objectUrl = loadDecrypted ? URL.createObjectURL(await loadDecrypted(version.path)) : null;
+      const link = document.createElement('a');
+      link.href = objectUrl || await storage.getUrl(version.path, { download: version.name });
+      link.download = version.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      if (objectUrl) setTimeout(() => URL.revokeObjectURL(objectUrl), DECRYPTED_URL_LIFETIME_MS);
+      logActivity('download', filePath, 'success', { detail: `Version from ${version.createdAt.toISOString()}` });
+    } catch (error) {
+      console.error('Download error:', error);
+      logActivity('download', filePath, 'failure', {
+        detail: `Version from ${version.createdAt.toISOString()}: ${describeActivityError(error)}`
+      });
+      toast({
+        title: "Download Failed",
+        description: "An error occurred while downloading this version",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    setRestoringPath(version.path);
+    try {
+      await restoreVersion(storage, filePath, version.path);
+      await logActivity('version_restore', filePath, 'success', { detail: `Version from ${version.createdAt.toISOString()}` });
+      toast({
+        title: "Version Restored",
+        description: `Restored the version from ${version.createdAt.toLocaleString()}`,
+      });
+      await loadVersions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Restore error:', error);
+      logActivity('version_restore', filePath, 'failure', {
+        detail: `Version from ${version.createdAt.toISOString()}: ${describeActivityError(error)}`
+      });
+      toast({
+        title: "Restore Failed",
+        description: "An error occurred while restoring this version",
+        variant: "destructive"
+      });
+    } finally {
+      setRestoringPath(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+      <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-3">
+        <History className="h-4 w-4" />
+        Version History
+      </h4>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading versions...
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No earlier versions</p>
+      ) : (
+        <ul className="space-y-2">
+          {versions.map(version => (
+            <li key={version.path} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-gray-700 dark:text-gray-300">
+                {version.createdAt.toLocaleString()}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">{formatFileSize(version.size)}</span>
+              <Button variant="ghost" size="sm" onClick={() => handleDownload(version)} title="Download this version">
+                <Download className="h-4 w-4 text-green-600" />
+              </Button>
+              {canRestore && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRestore(version)}
+                  disabled={restoringPath !== null}
+                  title="Restore this version"
+                >
+                  {restoringPath === version.path ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 text-blue-600" />
+                  )}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useRef, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useScrollViewport } from '@/hooks/useScrollViewport';
+import { FileItem, FolderItem } from '@/lib/files/types';
+
+const GRID_ROW_HEIGHT = 296;
+// Leaves room for a content search snippet under the file's details
+const LIST_ROW_HEIGHT = 124;
+const ROW_GAP = 16;
+const MIN_CARD_WIDTH = 220;
+const OVERSCAN_ROWS = 3;
+
+type ViewEntry =
+  | { kind: 'folder'; key: string; folder: FolderItem }
+  | { kind: 'file'; key: string; file: FileItem };
+
+interface VirtualFileViewProps {
+  viewMode: 'grid' | 'list';
+  folders: FolderItem[];
+  files: FileItem[];
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  renderFolder: (folder: FolderItem) => React.ReactNode;
+  renderFile: (file: FileItem) => React.ReactNode;
+}
+
+// Scrollable folder/file listing that only mounts the rows in view and asks
+// for the next page once the last loaded row scrolls into view.
+export const VirtualFileView: React.FC<VirtualFileViewProps> = ({
+  viewMode,
+  folders,
+  files,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  renderFolder,
+  renderFile
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { scrollTop, viewportHeight, containerWidth } = useScrollViewport(containerRef);
+
+  const entries: ViewEntry[] = [
+    ...folders.map(folder => ({ kind: 'folder' as const, key: `folder:${folder.path}`, folder })),
+    ...files.map(file => ({ kind: 'file' as const, key: `file:${file.id}`, file }))
+  ];
+
+  const rowHeight = viewMode === 'grid' ? GRID_ROW_HEIGHT : LIST_ROW_HEIGHT;
+  const columns = viewMode === 'grid'
+    ? Math.max(1, Math.floor((containerWidth + ROW_GAP) / (MIN_CARD_WIDTH + ROW_GAP)))
+    : 1;
+  const rowCount = Math.ceil(entries.length / columns);
+
+  const startRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+  const endRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN_ROWS);
+
+  // Keep fetching while the end of what's loaded is within the overscan window
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && endRow >= rowCount) {
+      onLoadMore();
+    }
+  }, [hasMore, isLoadingMore, endRow, rowCount, onLoadMore]);
+
+  const visibleRows: ViewEntry[][] = [];
+  for (let row = startRow; row < endRow; row++) {
+    visibleRows.push(entries.slice(row * columns, (row + 1) * columns));
+  }
+
+  return (
+    <div ref={containerRef} className="h-[70vh] overflow-auto pr-1">
+      <div className="relative" style={{ height: rowCount * rowHeight }}>
+        <div
+          className="absolute inset-x-0"
+          style={{ top: startRow * rowHeight }}
+        >
+          {visibleRows.map((row, index) => (
+            <div
+              key={startRow + index}
+              className="grid gap-4"
+              style={{
+                height: rowHeight - ROW_GAP,
+                marginBottom: ROW_GAP,
+                gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`
+              }}
+            >
+              {row.map(entry => (
+                <React.Fragment key={entry.key}>
+                  {entry.kind === 'folder' ? renderFolder(entry.folder) : renderFile(entry.file)}
+                </React.Fragment>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isLoadingMore && (
+        <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading more files...
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { getContentPreviewKind } from '@/lib/files/preview';
+import { File, FileText, FileSpreadsheet, FileCode, FileWarning, Image, Video, Archive, Music, Presentation, Type } from 'lucide-react';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export const canPreview = (file: { name: string; type: string }): boolean => {
+  return ['image', 'document', 'video', 'audio'].includes(file.type) || getContentPreviewKind(file.name) !== null;
+};
+
+export const getFileIcon = (type: string, isDark: boolean, iconClass = "h-8 w-8") => {
+  switch (type) {
+    case 'document':
+      return <FileText className={`${iconClass} ${isDark ? 'text-blue-400' : 'text-blue-600'}`} />;
+    case 'image':
+      return <Image className={`${iconClass} ${isDark ? 'text-green-400' : 'text-green-600'}`} />;
+    case 'video':
+      return <Video className={`${iconClass} ${isDark ? 'text-purple-400' : 'text-purple-600'}`} />;
+    case 'audio':
+      return <Music className={`${iconClass} ${isDark ? 'text-pink-400' : 'text-pink-600'}`} />;
+    case 'archive':
+      return <Archive className={`${iconClass} ${isDark ? 'text-orange-400' : 'text-orange-600'}`} />;
+    case 'spreadsheet':
+      return <FileSpreadsheet className={`${iconClass} ${isDark ? 'text-emerald-400' : 'text-emerald-600'}`} />;
+    case 'presentation':
+      return <Presentation className={`${iconClass} ${isDark ? 'text-amber-400' : 'text-amber-600'}`} />;
+    case 'text':
+      return <FileText className={`${iconClass} ${isDark ? 'text-slate-300' : 'text-slate-600'}`} />;
+    case 'code':
+      return <FileCode className={`${iconClass} ${isDark ? 'text-yellow-400' : 'text-yellow-600'}`} />;
+    case 'font':
+      return <Type className={`${iconClass} ${isDark ? 'text-indigo-400' : 'text-indigo-600'}`} />;
+    case 'executable':
+      return <FileWarning className={`${iconClass} ${isDark ? 'text-red-400' : 'text-red-600'}`} />;
+    default:
+      return <File className={`${iconClass} ${isDark ? 'text-gray-400' : 'text-gray-600'}`} />;
+  }
+};
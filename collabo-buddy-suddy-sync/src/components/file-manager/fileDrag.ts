@@ -0,0 +1,24 @@
+import React from 'react';
+
+// Dragging file cards inside the manager carries their storage paths under a
+// custom type, so it can't be confused with dropping files from the desktop.
+const FILE_DRAG_TYPE = 'application/x-project-file-paths';
+
+export const setDraggedFilePaths = (event: React.DragEvent, paths: string[]) => {
+  event.dataTransfer.setData(FILE_DRAG_TYPE, JSON.stringify(paths));
+  event.dataTransfer.effectAllowed = 'move';
+};
+
+// Only the type is readable during dragover; the data itself is only available on drop
+export const isFileCardDrag = (event: React.DragEvent): boolean => {
+  return event.dataTransfer.types.includes(FILE_DRAG_TYPE);
+};
+
+export const getDraggedFilePaths = (event: React.DragEvent): string[] => {
+  try {
+    const paths = JSON.parse(event.dataTransfer.getData(FILE_DRAG_TYPE) || '[]');
+    return Array.isArray(paths) ? paths.filter(path => typeof path === 'string') : [];
+  } catch {
+    return [];
+  }
+};
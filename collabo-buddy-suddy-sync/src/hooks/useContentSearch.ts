@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { ContentMatch, searchFileContents } from '@/lib/files/contentIndex';
+
+// Waits for a pause in typing before asking the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+export interface ContentSearch {
+  // Files in the folder whose contents match, keyed by path
+  matches: Map<string, ContentMatch>;
+  isSearching: boolean;
+}
+
+const NO_MATCHES = new Map<string, ContentMatch>();
+
+// Full-text search of the files directly inside `folderPath`. The previous
+// matches stay up while the next search runs. An empty `text` searches nothing.
+export const useContentSearch = (text: string, folderPath: string): ContentSearch => {
+  const [matches, setMatches] = useState<Map<string, ContentMatch>>(NO_MATCHES);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (!text) {
+      setMatches(NO_MATCHES);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchFileContents(text, folderPath);
+        if (!cancelled) setMatches(found);
+      } catch (error) {
+        console.error('Error searching file contents:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, folderPath]);
+
+  return { matches, isSearching };
+};
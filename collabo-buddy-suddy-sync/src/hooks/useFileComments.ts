@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CommentPin, CommentThread, groupThreads, listComments } from '@/lib/files/comments';
+
+export interface FileComments {
+  threads: CommentThread[];
+  isLoading: boolean;
+  refresh: () => void;
+  // Set while the next new thread is being pinned to a spot on the image
+  isPlacingPin: boolean;
+  setIsPlacingPin: (placing: boolean) => void;
+  // Where that thread will be pinned, once the image has been clicked
+  pendingPin: CommentPin | null;
+  setPendingPin: (pin: CommentPin | null) => void;
+  // The thread picked from its pin, shown highlighted in the list
+  activeThreadId: string | null;
+  setActiveThreadId: (id: string | null) => void;
+}
+
+// Comments on the file at `path`, shared between the comment list and the
+// pins drawn over an image preview. Nothing is loaded while `path` is null.
+export const useFileComments = (path: string | null): FileComments => {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [isPlacingPin, setIsPlacingPin] = useState(false);
+  const [pendingPin, setPendingPin] = useState<CommentPin | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setThreads([]);
+    setIsPlacingPin(false);
+    setPendingPin(null);
+    setActiveThreadId(null);
+  }, [path]);
+
+  useEffect(() => {
+    if (!path) {
+      setThreads([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadComments = async () => {
+      setIsLoading(true);
+      try {
+        const comments = await listComments(path);
+        if (!cancelled) setThreads(groupThreads(comments));
+      } catch (error) {
+        console.error('Error loading comments:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [path, refreshKey]);
+
+  const refresh = useCallback(() => setRefreshKey(prev => prev + 1), []);
+
+  return {
+    threads,
+    isLoading,
+    refresh,
+    isPlacingPin,
+    setIsPlacingPin,
+    pendingPin,
+    setPendingPin,
+    activeThreadId,
+    setActiveThreadId
+  };
+};
@@ -0,0 +1,57 @@
+import { useState, useRef, useCallback } from 'react';
+
+export interface FileSelection {
+  selectedIds: Set<string>;
+  isSelected: (id: string) => boolean;
+  // With extendRange, everything between the last clicked item and this one
+  // takes on this item's new state, like shift-click in a file explorer
+  toggle: (id: string, extendRange?: boolean) => void;
+  selectAll: () => void;
+  clear: () => void;
+  deselect: (ids: string[]) => void;
+}
+
+// Tracks checked items in a list. orderedIds is the list as currently shown,
+// which is what shift-click ranges and select-all work against.
+export const useFileSelection = (orderedIds: string[]): FileSelection => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchorIdRef = useRef<string | null>(null);
+
+  const isSelected = useCallback((id: string) => selectedIds.has(id), [selectedIds]);
+
+  const toggle = (id: string, extendRange = false) => {
+    const anchorIndex = anchorIdRef.current ? orderedIds.indexOf(anchorIdRef.current) : -1;
+    const index = orderedIds.indexOf(id);
+    const shouldSelect = !selectedIds.has(id);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const rangeIds = extendRange && anchorIndex !== -1 && index !== -1
+        ? orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        : [id];
+
+      rangeIds.forEach(rangeId => (shouldSelect ? next.add(rangeId) : next.delete(rangeId)));
+      return next;
+    });
+    anchorIdRef.current = id;
+  };
+
+  const selectAll = () => {
+    setSelectedIds(new Set(orderedIds));
+  };
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorIdRef.current = null;
+  }, []);
+
+  const deselect = (ids: string[]) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  };
+
+  return { selectedIds, isSelected, toggle, selectAll, clear, deselect };
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  FileChangeEvent,
+  FileSyncChannel,
+  FolderViewer,
+  createSupabaseSyncChannel
+} from '@/lib/files/realtime';
+
+interface UseFileSyncOptions {
+  // The folder this client is looking at. Its channel is the one listened to,
+  // and presence is announced there.
+  folderPath: string;
+  createChannel?: (folderPath: string) => FileSyncChannel;
+  onChange: (event: FileChangeEvent) => void;
+}
+
+// Keeps the sync channel of `folderPath` open, switching channels as the folder
+// changes. Returns who else is viewing it and a way to tell others about
+// local changes.
+export const useFileSync = ({
+  folderPath,
+  createChannel = createSupabaseSyncChannel,
+  onChange
+}: UseFileSyncOptions) => {
+  const [viewers, setViewers] = useState<FolderViewer[]>([]);
+  const channelRef = useRef<FileSyncChannel | null>(null);
+  // Read through a ref so the channel isn't reopened on every render
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const channel = createChannel(folderPath);
+    channelRef.current = channel;
+    setViewers([]);
+
+    const unsubscribe = channel.subscribe(event => onChangeRef.current(event));
+    const unsubscribePresence = channel.subscribePresence(setViewers);
+
+    return () => {
+      unsubscribe();
+      unsubscribePresence();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [createChannel, folderPath]);
+
+  useEffect(() => {
+    channelRef.current?.setPresence(user
+      ? { userId: user.id, email: user.email || 'Unknown', folderPath }
+      : null);
+  }, [createChannel, user?.id, user?.email, folderPath]);
+
+  const publish = useCallback((event: FileChangeEvent) => {
+    channelRef.current?.publish(event);
+  }, []);
+
+  // Other people in this folder, once each however many tabs they have open
+  const folderViewers = Array.from(
+    new Map(
+      viewers
+        .filter(viewer => viewer.folderPath === folderPath && viewer.userId !== user?.id)
+        .map(viewer => [viewer.userId, viewer])
+    ).values()
+  );
+
+  return { viewers: folderViewers, publish };
+};
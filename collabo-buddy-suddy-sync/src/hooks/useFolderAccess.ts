@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { FolderRole, fetchFolderRole, hasRole } from '@/lib/files/permissions';
+import { cacheFolderRole, readCachedFolderRole } from '@/lib/files/offline';
+
+export interface FolderAccess {
+  role: FolderRole | null;
+  canEdit: boolean;
+  canManage: boolean;
+  isLoading: boolean;
+  refresh: () => void;
+}
+
+// The current user's role on a folder. Until it has loaded, nothing beyond
+// viewing is offered; the server enforces the same rules regardless. Offline,
+// the role last seen for the folder is used.
+export const useFolderAccess = (folderPath: string): FolderAccess => {
+  const { user } = useAuth();
+  const [role, setRole] = useState<FolderRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRole = async () => {
+      setIsLoading(true);
+      try {
+        const folderRole = await fetchFolderRole(folderPath);
+        if (!cancelled) setRole(folderRole);
+        if (user) {
+          cacheFolderRole(user.id, folderPath, folderRole).catch(error => {
+            console.error('Error saving folder permissions for offline use:', error);
+          });
+        }
+      } catch (error) {
+        console.error('Error loading folder permissions:', error);
+        const cachedRole = user && !navigator.onLine
+          ? await readCachedFolderRole(user.id, folderPath).catch(() => null)
+          : null;
+        if (!cancelled) setRole(cachedRole);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRole();
+    return () => {
+      cancelled = true;
+    };
+  }, [folderPath, refreshKey, user?.id]);
+
+  const refresh = useCallback(() => setRefreshKey(prev => prev + 1), []);
+
+  return {
+    role,
+    canEdit: !isLoading && hasRole(role, 'editor'),
+    canManage: !isLoading && hasRole(role, 'owner'),
+    isLoading,
+    refresh
+  };
+};
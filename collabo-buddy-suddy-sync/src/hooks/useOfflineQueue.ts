@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  OfflineChange,
+  OfflineOperation,
+  queueOfflineOperation,
+  listOfflineOperations,
+  removeOfflineOperation
+} from '@/lib/files/offline';
+
+export interface OfflineQueue {
+  operations: OfflineOperation[];
+  add: (changes: OfflineChange[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// The signed-in user's uploads and deletes waiting for a connection. They are
+// kept in IndexedDB, so they survive the tab being closed.
+export const useOfflineQueue = (): OfflineQueue => {
+  const { user } = useAuth();
+  const [operations, setOperations] = useState<OfflineOperation[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!user) {
+      setOperations([]);
+      return;
+    }
+    try {
+      setOperations(await listOfflineOperations(user.id));
+    } catch (error) {
+      console.error('Error loading offline changes:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const add = useCallback(async (changes: OfflineChange[]) => {
+    if (!user) throw new Error('You need to be signed in to save changes offline');
+    const queuedAt = Date.now();
+    for (const [index, change] of changes.entries()) {
+      await queueOfflineOperation({
+        ...change,
+        id: crypto.randomUUID(),
+        userId: user.id,
+        // Keeps a batch in the order it was picked
+        queuedAt: new Date(queuedAt + index)
+      });
+    }
+    await reload();
+  }, [user?.id, reload]);
+
+  const remove = useCallback(async (id: string) => {
+    await removeOfflineOperation(id);
+    setOperations(prev => prev.filter(operation => operation.id !== id));
+  }, []);
+
+  return { operations, add, remove };
+};
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+
+// Whether the browser thinks it has a connection. It can say online on a
+// network that drops every request, so callers still handle failures.
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
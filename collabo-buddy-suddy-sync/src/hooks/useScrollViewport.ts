@@ -0,0 +1,41 @@
+import { useState, useEffect, RefObject } from 'react';
+
+export interface ScrollViewport {
+  scrollTop: number;
+  viewportHeight: number;
+  containerWidth: number;
+}
+
+// Tracks the scroll position and size of a scroll container, for virtualized lists
+export const useScrollViewport = (containerRef: RefObject<HTMLElement>): ScrollViewport => {
+  const [viewport, setViewport] = useState<ScrollViewport>({
+    scrollTop: 0,
+    viewportHeight: 0,
+    containerWidth: 0
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      setViewport({
+        scrollTop: container.scrollTop,
+        viewportHeight: container.clientHeight,
+        containerWidth: container.clientWidth
+      });
+    };
+
+    const resizeObserver = new ResizeObserver(measure);
+    measure();
+    container.addEventListener('scroll', measure, { passive: true });
+    resizeObserver.observe(container);
+
+    return () => {
+      container.removeEventListener('scroll', measure);
+      resizeObserver.disconnect();
+    };
+  }, [containerRef]);
+
+  return viewport;
+};
@@ -0,0 +1,219 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { UploadCancelledError } from '@/lib/files/uploadWithProgress';
+import { archiveCurrentVersion } from '@/lib/files/versions';
+import { detachLinks } from '@/lib/files/fileLinks';
+import { StorageAdapter } from '@/lib/files/storageAdapter';
+import { FileEncryption } from '@/lib/files/types';
+import {
+  ResumableUploadConfig,
+  PendingResumableUpload,
+  uploadResumable,
+  listPendingResumableUploads,
+  discardResumableUpload
+} from '@/lib/files/resumableUpload';
+
+// Files at least this big go through the resumable (TUS) upload path
+export const DEFAULT_RESUMABLE_THRESHOLD = 50 * 1024 * 1024;
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'error' | 'cancelled';
+
+export interface UploadRequest {
+  file: File;
+  path: string;
+  // Overwrite an existing object, keeping the old copy as a version
+  replace?: boolean;
+  // Set when `file` has already been encrypted for an encrypted folder
+  encryption?: FileEncryption;
+  // SHA-256 of `file`, when it was hashed before queueing
+  contentHash?: string;
+  // The offline queue entry this upload replays, removed once it finishes
+  offlineId?: string;
+}
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  path: string;
+  replace: boolean;
+  // Set once the replaced copy is archived, so a retry doesn't archive it twice
+  archived?: boolean;
+  encryption?: FileEncryption;
+  contentHash?: string;
+  offlineId?: string;
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  isResumable: boolean;
+  error?: string;
+}
+
+interface UseUploadQueueOptions {
+  storage: StorageAdapter;
+  concurrency?: number;
+  resumableThreshold?: number;
+  // Defaults to the storage adapter's own; without one every file uploads in one go
+  resumableConfig?: ResumableUploadConfig;
+  onUploaded?: (item: UploadQueueItem) => void;
+  onFailed?: (item: UploadQueueItem) => void;
+}
+
+let nextUploadId = 0;
+
+// Runs uploads in parallel up to `concurrency`, tracking byte progress per file.
+// Failed and cancelled items stay in the queue so they can be retried.
+export const useUploadQueue = ({
+  storage,
+  concurrency = 3,
+  resumableThreshold = DEFAULT_RESUMABLE_THRESHOLD,
+  resumableConfig,
+  onUploaded,
+  onFailed
+}: UseUploadQueueOptions) => {
+  const resumable = useMemo(
+    () => resumableConfig || storage.resumable || null,
+    [resumableConfig, storage]
+  );
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [interruptedUploads, setInterruptedUploads] = useState<PendingResumableUpload[]>(
+    () => (resumable ? listPendingResumableUploads(resumable) : [])
+  );
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const startedRef = useRef(new Set<string>());
+
+  // Callbacks are read through a ref so in-flight uploads always see the latest ones
+  const callbacksRef = useRef({ onUploaded, onFailed });
+  callbacksRef.current = { onUploaded, onFailed };
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const startUpload = useCallback(async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', loaded: 0, error: undefined });
+
+    const uploadOptions = {
+      upsert: item.replace,
+      signal: controller.signal,
+      onProgress: (loaded: number, total: number) => updateItem(item.id, { loaded, total })
+    };
+
+    try {
+      if (item.replace && !item.archived) {
+        // Links to the file keep the contents they had
+        await detachLinks(storage, item.path);
+        await archiveCurrentVersion(storage, item.path);
+        updateItem(item.id, { archived: true });
+      }
+      if (item.isResumable && resumable) {
+        await uploadResumable(resumable, item.path, item.file, uploadOptions);
+      } else {
+        await storage.upload(item.path, item.file, uploadOptions);
+      }
+      const finished = { ...item, status: 'done' as const, loaded: item.total };
+      updateItem(item.id, { status: 'done', loaded: item.total });
+      callbacksRef.current.onUploaded?.(finished);
+    } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        updateItem(item.id, { status: 'cancelled' });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Upload failed';
+      updateItem(item.id, { status: 'error', error: message });
+      callbacksRef.current.onFailed?.({ ...item, status: 'error', error: message });
+    } finally {
+      controllersRef.current.delete(item.id);
+      startedRef.current.delete(item.id);
+      if (item.isResumable && resumable) setInterruptedUploads(listPendingResumableUploads(resumable));
+    }
+  }, [updateItem, storage, resumable]);
+
+  // Fill any free upload slots from the front of the queue
+  useEffect(() => {
+    const activeCount = items.filter(item => item.status === 'uploading').length;
+    const freeSlots = concurrency - activeCount;
+    if (freeSlots <= 0) return;
+
+    items
+      .filter(item => item.status === 'queued' && !startedRef.current.has(item.id))
+      .slice(0, freeSlots)
+      .forEach(item => {
+        startedRef.current.add(item.id);
+        startUpload(item);
+      });
+  }, [items, concurrency, startUpload]);
+
+  // Abort anything still running when the component using the queue goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const enqueue = useCallback((requests: UploadRequest[]) => {
+    const newItems: UploadQueueItem[] = requests.map(({ file, path, replace = false, encryption, contentHash, offlineId }) => ({
+      id: `upload-${++nextUploadId}`,
+      file,
+      path,
+      replace,
+      encryption,
+      contentHash,
+      offlineId,
+      status: 'queued',
+      loaded: 0,
+      total: file.size,
+      // Encrypted copies differ on every attempt, so one interrupted by a
+      // reload could never be matched up with the file picked again
+      isResumable: !!resumable && !encryption && file.size >= resumableThreshold
+    }));
+    setItems(prev => [...prev, ...newItems]);
+  }, [resumable, resumableThreshold]);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setItems(prev => prev.map(item =>
+      item.id === id && item.status === 'queued' ? { ...item, status: 'cancelled' } : item
+    ));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && (item.status === 'error' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', loaded: 0, error: undefined }
+        : item
+    ));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status === 'queued' || item.status === 'uploading'));
+  }, []);
+
+  const discardInterrupted = useCallback(async (fingerprint: string) => {
+    if (!resumable) return;
+    await discardResumableUpload(resumable, fingerprint);
+    setInterruptedUploads(listPendingResumableUploads(resumable));
+  }, [resumable]);
+
+  const isActive = items.some(item => item.status === 'queued' || item.status === 'uploading');
+
+  // Interrupted uploads that aren't already back in the queue
+  const activePaths = new Set(
+    items.filter(item => item.status === 'queued' || item.status === 'uploading').map(item => item.path)
+  );
+  const resumableLeftovers = interruptedUploads.filter(upload => !activePaths.has(upload.path));
+
+  return {
+    items,
+    enqueue,
+    cancel,
+    retry,
+    clearFinished,
+    isActive,
+    interruptedUploads: resumableLeftovers,
+    discardInterrupted
+  };
+};
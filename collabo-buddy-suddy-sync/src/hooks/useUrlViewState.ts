@@ -0,0 +1,45 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { FileViewState, readViewState, writeViewState } from '@/lib/files/viewState';
+
+export interface UpdateViewStateOptions {
+  // Overwrite the current history entry instead of adding one, e.g. while
+  // typing a search or when the open folder was renamed away
+  replace?: boolean;
+}
+
+// The file manager's view, read from and written to the URL query string.
+// Each change adds a history entry, so the back button steps through views.
+export const useUrlViewState = (): [
+  FileViewState,
+  (changes: Partial<FileViewState>, options?: UpdateViewStateOptions) => void
+] => {
+  const [state, setState] = useState<FileViewState>(() => readViewState(window.location.search));
+  // Lets several updates in one event build on each other
+  const stateRef = useRef(state);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      stateRef.current = readViewState(window.location.search);
+      setState(stateRef.current);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const update = useCallback((changes: Partial<FileViewState>, options: UpdateViewStateOptions = {}) => {
+    const next = { ...stateRef.current, ...changes };
+    stateRef.current = next;
+    setState(next);
+
+    const search = writeViewState(window.location.search, next);
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (options.replace) {
+      window.history.replaceState(window.history.state, '', url);
+    } else {
+      window.history.pushState(window.history.state, '', url);
+    }
+  }, []);
+
+  return [state, update];
+};
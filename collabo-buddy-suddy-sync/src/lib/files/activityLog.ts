@@ -0,0 +1,188 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// The file_activity table is append-only (see the file_activity_log
+// migration): entries are added after each action and never changed. The
+// actor and time are filled in by the database from the session.
+
+export type ActivityAction =
+  | 'upload'
+  | 'download'
+  | 'view'
+  | 'delete'
+  | 'restore'
+  | 'rename'
+  | 'move'
+  | 'duplicate'
+  | 'share'
+  | 'version_restore'
+  | 'folder_create'
+  | 'folder_rename'
+  | 'folder_delete';
+
+export type ActivityOutcome = 'success' | 'failure';
+
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  upload: 'Upload',
+  download: 'Download',
+  view: 'View',
+  delete: 'Delete',
+  restore: 'Restore from trash',
+  rename: 'Rename',
+  move: 'Move',
+  duplicate: 'Duplicate',
+  share: 'Share link',
+  version_restore: 'Restore version',
+  folder_create: 'Create folder',
+  folder_rename: 'Rename folder',
+  folder_delete: 'Delete folder'
+};
+
+export interface ActivityEntry {
+  id: number;
+  actorEmail: string | null;
+  action: ActivityAction;
+  path: string;
+  targetPath: string | null;
+  outcome: ActivityOutcome;
+  detail: string | null;
+  createdAt: Date;
+}
+
+export interface ActivityFilters {
+  action?: ActivityAction;
+  outcome?: ActivityOutcome;
+  // Partial, case-insensitive matches
+  actor?: string;
+  path?: string;
+  from?: Date;
+  to?: Date;
+}
+
+interface FileActivityRow {
+  id: number;
+  actor_email: string | null;
+  action: ActivityAction;
+  path: string;
+  target_path: string | null;
+  outcome: ActivityOutcome;
+  detail: string | null;
+  created_at: string;
+}
+
+export const ACTIVITY_PAGE_SIZE = 100;
+// Upper bound on a CSV export, so a huge log can't lock up the browser
+const MAX_EXPORT_ROWS = 50000;
+
+const fromRow = (row: FileActivityRow): ActivityEntry => ({
+  id: row.id,
+  actorEmail: row.actor_email,
+  action: row.action,
+  path: row.path,
+  targetPath: row.target_path,
+  outcome: row.outcome,
+  detail: row.detail,
+  createdAt: new Date(row.created_at)
+});
+
+// Records one action. Never throws: a missing log entry shouldn't undo or
+// block what the user just did, so failures only go to the console.
+export const logActivity = async (
+  action: ActivityAction,
+  path: string,
+  outcome: ActivityOutcome,
+  options: { targetPath?: string; detail?: string | null } = {}
+) => {
+  try {
+    const { error } = await supabase.from('file_activity').insert({
+      action,
+      path,
+      outcome,
+      target_path: options.targetPath ?? null,
+      detail: options.detail ?? null
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error logging file activity:', error);
+  }
+};
+
+// Storage and database errors are plain objects with a message
+export const describeActivityError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return 'Unknown error';
+};
+
+// Wildcards typed into a filter are matched literally
+const toLikePattern = (value: string) => `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
+const buildQuery = (filters: ActivityFilters) => {
+  let query = supabase
+    .from('file_activity')
+    .select('id, actor_email, action, path, target_path, outcome, detail, created_at')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.outcome) query = query.eq('outcome', filters.outcome);
+  if (filters.actor?.trim()) query = query.ilike('actor_email', toLikePattern(filters.actor.trim()));
+  if (filters.path?.trim()) query = query.ilike('path', toLikePattern(filters.path.trim()));
+  if (filters.from) query = query.gte('created_at', filters.from.toISOString());
+  if (filters.to) query = query.lt('created_at', filters.to.toISOString());
+  return query;
+};
+
+// Newest first, one page at a time
+export const fetchActivity = async (filters: ActivityFilters, offset = 0, limit = ACTIVITY_PAGE_SIZE): Promise<ActivityEntry[]> => {
+  const { data, error } = await buildQuery(filters).range(offset, offset + limit - 1);
+  if (error) throw error;
+  return (data as FileActivityRow[] || []).map(fromRow);
+};
+
+// Everything that happened to a file at its current path, including the
+// rename, move or copy that brought it there
+export const fetchFileActivity = async (path: string, limit = ACTIVITY_PAGE_SIZE): Promise<ActivityEntry[]> => {
+  const quoted = `"${path.replace(/["\\]/g, match => `\\${match}`)}"`;
+  const { data, error } = await supabase
+    .from('file_activity')
+    .select('id, actor_email, action, path, target_path, outcome, detail, created_at')
+    .or(`path.eq.${quoted},target_path.eq.${quoted}`)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as FileActivityRow[] || []).map(fromRow);
+};
+
+export const fetchAllActivity = async (filters: ActivityFilters): Promise<ActivityEntry[]> => {
+  const entries: ActivityEntry[] = [];
+  // PostgREST caps a response at 1000 rows by default
+  const pageSize = 1000;
+  while (entries.length < MAX_EXPORT_ROWS) {
+    const page = await fetchActivity(filters, entries.length, pageSize);
+    entries.push(...page);
+    if (page.length < pageSize) break;
+  }
+  return entries.slice(0, MAX_EXPORT_ROWS);
+};
+
+// Quotes every field; formulas are defused so spreadsheets show them as text
+const toCsvField = (value: string) => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export const toActivityCsv = (entries: ActivityEntry[]): string => {
+  const header = ['Time', 'Actor', 'Action', 'Path', 'New path', 'Outcome', 'Detail'];
+  const rows = entries.map(entry => [
+    entry.createdAt.toISOString(),
+    entry.actorEmail || '',
+    entry.action,
+    entry.path,
+    entry.targetPath || '',
+    entry.outcome,
+    entry.detail || ''
+  ]);
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n');
+};
@@ -0,0 +1,37 @@
+export interface BackfillProgress {
+  // Files that still need processing when the run started
+  total: number;
+  processed: number;
+  created: number;
+  failed: { path: string; message: string }[];
+}
+
+// Works through `paths` one at a time, reporting after each. A failure is
+// recorded and the run moves on; aborting stops it before the next file.
+export const runBackfill = async (
+  paths: string[],
+  processPath: (path: string) => Promise<boolean>,
+  onProgress: (progress: BackfillProgress) => void,
+  signal?: AbortSignal
+): Promise<BackfillProgress> => {
+  const progress: BackfillProgress = { total: paths.length, processed: 0, created: 0, failed: [] };
+  onProgress({ ...progress });
+
+  for (const path of paths) {
+    if (signal?.aborted) break;
+
+    try {
+      if (await processPath(path)) progress.created += 1;
+    } catch (error) {
+      progress.failed.push({
+        path,
+        message: error instanceof Error ? error.message : 'Could not process file'
+      });
+    }
+
+    progress.processed += 1;
+    onProgress({ ...progress, failed: [...progress.failed] });
+  }
+
+  return progress;
+};
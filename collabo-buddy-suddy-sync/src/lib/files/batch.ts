@@ -0,0 +1,36 @@
+import { FileItem } from './types';
+
+export interface BatchFailure {
+  file: FileItem;
+  message: string;
+}
+
+export interface BatchResult<T = void> {
+  succeeded: { file: FileItem; value: T }[];
+  failed: BatchFailure[];
+}
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return 'Unknown error';
+};
+
+// Runs an action over each file in turn and collects what went wrong per file,
+// so one bad file doesn't stop (or hide) the rest of the batch.
+export const runBatch = async <T>(
+  files: FileItem[],
+  action: (file: FileItem) => Promise<T>
+): Promise<BatchResult<T>> => {
+  const result: BatchResult<T> = { succeeded: [], failed: [] };
+
+  for (const file of files) {
+    try {
+      result.succeeded.push({ file, value: await action(file) });
+    } catch (error) {
+      result.failed.push({ file, message: getErrorMessage(error) });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,227 @@
+import { supabase } from '@/integrations/supabase/client';
+import { findUserIdByEmail } from './permissions';
+
+// Comments live in file_comments (see the file_comments migration) and move
+// with the file's other details. The author, times and who resolved a thread
+// are filled in by the database.
+
+export interface CommentPin {
+  // Fractions of the image's width and height, from its top left corner
+  x: number;
+  y: number;
+}
+
+export interface FileComment {
+  id: string;
+  path: string;
+  parentId: string | null;
+  authorId: string | null;
+  authorEmail: string | null;
+  body: string;
+  mentionedUserIds: string[];
+  pin: CommentPin | null;
+  resolvedAt: Date | null;
+  resolvedByEmail: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CommentThread {
+  root: FileComment;
+  replies: FileComment[];
+}
+
+export interface CommentCount {
+  total: number;
+  // Threads not yet resolved
+  open: number;
+  // Comments in open threads that mention the current user
+  mentions: number;
+}
+
+export interface WorkspaceUser {
+  id: string;
+  email: string;
+}
+
+interface FileCommentRow {
+  id: string;
+  path: string;
+  parent_id: string | null;
+  author_id: string | null;
+  author_email: string | null;
+  body: string;
+  mentioned_user_ids: string[] | null;
+  pin_x: number | null;
+  pin_y: number | null;
+  resolved_at: string | null;
+  resolved_by_email: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CommentCountRow {
+  path: string;
+  total: number;
+  open: number;
+  mentions: number;
+}
+
+const COMMENT_COLUMNS = 'id, path, parent_id, author_id, author_email, body, mentioned_user_ids, pin_x, pin_y, resolved_at, resolved_by_email, created_at, updated_at';
+
+const fromRow = (row: FileCommentRow): FileComment => ({
+  id: row.id,
+  path: row.path,
+  parentId: row.parent_id,
+  authorId: row.author_id,
+  authorEmail: row.author_email,
+  body: row.body,
+  mentionedUserIds: row.mentioned_user_ids || [],
+  pin: row.pin_x !== null && row.pin_y !== null ? { x: row.pin_x, y: row.pin_y } : null,
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+  resolvedByEmail: row.resolved_by_email,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+// Oldest first, as they were written
+export const listComments = async (path: string): Promise<FileComment[]> => {
+  const { data, error } = await supabase
+    .from('file_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('path', path)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as FileCommentRow[] || []).map(fromRow);
+};
+
+// Threads in the order they were started, each with its replies in order
+export const groupThreads = (comments: FileComment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    if (comment.parentId === null) threads.set(comment.id, { root: comment, replies: [] });
+  }
+  for (const comment of comments) {
+    if (comment.parentId !== null) threads.get(comment.parentId)?.replies.push(comment);
+  }
+  return Array.from(threads.values());
+};
+
+// Pinned threads are numbered in the order they were started, so a pin on the
+// image and its thread in the list show the same number
+export const numberPins = (threads: CommentThread[]): Map<string, number> => {
+  const numbers = new Map<string, number>();
+  for (const thread of threads) {
+    if (thread.root.pin) numbers.set(thread.root.id, numbers.size + 1);
+  }
+  return numbers;
+};
+
+export const addComment = async (
+  path: string,
+  body: string,
+  options: { parentId?: string; pin?: CommentPin | null; mentionedUserIds?: string[] } = {}
+): Promise<FileComment> => {
+  const { data, error } = await supabase
+    .from('file_comments')
+    .insert({
+      path,
+      body: body.trim(),
+      parent_id: options.parentId ?? null,
+      mentioned_user_ids: options.mentionedUserIds || [],
+      pin_x: options.pin?.x ?? null,
+      pin_y: options.pin?.y ?? null
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return fromRow(data as FileCommentRow);
+};
+
+export const editComment = async (id: string, body: string, mentionedUserIds: string[]) => {
+  const { error } = await supabase
+    .from('file_comments')
+    .update({ body: body.trim(), mentioned_user_ids: mentionedUserIds })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// The database records who resolved it and when
+export const setThreadResolved = async (id: string, resolved: boolean) => {
+  const { error } = await supabase
+    .from('file_comments')
+    .update({ resolved_at: resolved ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Deleting the first comment of a thread deletes its replies too
+export const deleteComment = async (id: string) => {
+  const { error } = await supabase.from('file_comments').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Files without comments are left out
+export const fetchCommentCounts = async (paths: string[]): Promise<Map<string, CommentCount>> => {
+  if (paths.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc('get_file_comment_counts', { file_paths: paths });
+  if (error) throw error;
+  return new Map((data as CommentCountRow[] || []).map(row => [row.path, {
+    total: Number(row.total),
+    open: Number(row.open),
+    mentions: Number(row.mentions)
+  }]));
+};
+
+export const searchWorkspaceUsers = async (search: string): Promise<WorkspaceUser[]> => {
+  const { data, error } = await supabase.rpc('search_workspace_users', { search });
+  if (error) throw error;
+  return (data as WorkspaceUser[] || []);
+};
+
+// Mentions are written as @ followed by the person's email
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[^\s@,;:!?()]*[^\s@,;:!?().])/g;
+
+// The partial mention being typed just before the caret, if any
+export const getMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = /(^|\s)@([^\s@]*(?:@[^\s@]*)?)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
+
+// Replaces the partial mention before the caret with the chosen person
+export const insertMention = (text: string, caret: number, email: string): { text: string; caret: number } => {
+  const mention = getMentionQuery(text, caret);
+  if (!mention) return { text, caret };
+  const inserted = `@${email} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length
+  };
+};
+
+// The people mentioned in a comment. Mentions of emails that aren't
+// workspace members are left as plain text.
+export const resolveMentions = async (body: string): Promise<string[]> => {
+  const emails = Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase())));
+  const ids = await Promise.all(emails.map(email => findUserIdByEmail(email).catch(() => null)));
+  return Array.from(new Set(ids.filter((id): id is string => !!id)));
+};
+
+// Splits a comment into text and mentions for display
+export const splitMentions = (body: string): { text: string; mention?: string }[] => {
+  const parts: { text: string; mention?: string }[] = [];
+  let last = 0;
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    if (match.index! > last) parts.push({ text: body.slice(last, match.index) });
+    parts.push({ text: match[0], mention: match[1] });
+    last = match.index! + match[0].length;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last) });
+  return parts;
+};
@@ -0,0 +1,213 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StorageAdapter } from './storageAdapter';
+import { FOLDER_PLACEHOLDER } from './storage';
+import { fetchMetadata, updateMetadata, PartialMoveError } from './metadata';
+import { listObjectsRecursive } from './folders';
+import { moveToTrash } from './trash';
+import { BackfillProgress, runBackfill } from './backfill';
+import { getBaseName } from './paths';
+
+// Files are hashed in the browser (SHA-256) when they are uploaded, and the
+// hash is kept in file_metadata so identical files can be found wherever they
+// are. A duplicate can be replaced by a link: an empty object at its own path
+// whose metadata points at the file that holds the contents.
+
+// WebCrypto can only hash a whole buffer, so bigger files are left unhashed
+// rather than read into memory
+export const MAX_HASHED_FILE_BYTES = 512 * 1024 * 1024;
+const HASHED_PATHS_PAGE_SIZE = 1000;
+// Keeps `.in()` filters well under URL length limits
+const HASH_BATCH_SIZE = 100;
+
+export interface HashedFile {
+  path: string;
+  hash: string;
+  size: number;
+  uploadedByEmail: string | null;
+  createdAt: Date;
+}
+
+export interface DuplicateGroup {
+  hash: string;
+  size: number;
+  // Oldest first; the first is the one a cleanup keeps
+  files: HashedFile[];
+  // Space taken by every copy but one
+  wastedBytes: number;
+}
+
+interface HashedFileRow {
+  path: string;
+  content_hash: string;
+  content_size: number | null;
+  uploaded_by_email: string | null;
+  created_at: string;
+}
+
+const fromRow = (row: HashedFileRow): HashedFile => ({
+  path: row.path,
+  hash: row.content_hash,
+  size: row.content_size || 0,
+  uploadedByEmail: row.uploaded_by_email,
+  createdAt: new Date(row.created_at)
+});
+
+// Hex SHA-256 of the file, or null when it is too big to hash
+export const hashFile = async (file: Blob): Promise<string | null> => {
+  if (file.size > MAX_HASHED_FILE_BYTES) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Records a file's hash after it is written. Writing real contents also
+// means the file is no longer a link.
+export const recordContentHash = async (path: string, hash: string | null, size: number) => {
+  const { error } = await supabase
+    .from('file_metadata')
+    .upsert({
+      path,
+      content_hash: hash,
+      content_size: hash ? size : null,
+      link_target: null
+    }, { onConflict: 'path' });
+
+  if (error) throw error;
+};
+
+// Visible files (not links, trash or versions) with any of the given hashes,
+// keyed by hash
+export const findFilesByHash = async (hashes: string[]): Promise<Map<string, HashedFile[]>> => {
+  const matches = new Map<string, HashedFile[]>();
+
+  for (let i = 0; i < hashes.length; i += HASH_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('file_metadata')
+      .select('path, content_hash, content_size, uploaded_by_email, created_at')
+      .in('content_hash', hashes.slice(i, i + HASH_BATCH_SIZE))
+      .is('link_target', null)
+      .not('path', 'like', '.%')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    (data as HashedFileRow[] || []).forEach(row => {
+      matches.set(row.content_hash, [...(matches.get(row.content_hash) || []), fromRow(row)]);
+    });
+  }
+
+  return matches;
+};
+
+export const listDuplicateGroups = async (): Promise<DuplicateGroup[]> => {
+  const { data, error } = await supabase.rpc('find_duplicate_files');
+  if (error) throw error;
+
+  const groups = new Map<string, DuplicateGroup>();
+  (data as HashedFileRow[] || []).forEach(row => {
+    const file = fromRow(row);
+    const group = groups.get(file.hash) || { hash: file.hash, size: file.size, files: [], wastedBytes: 0 };
+    group.files.push(file);
+    group.wastedBytes = group.size * (group.files.length - 1);
+    groups.set(file.hash, group);
+  });
+
+  return [...groups.values()].sort((a, b) => b.wastedBytes - a.wastedBytes);
+};
+
+// Puts a link at `path` to `target`. The link shows the target's size; the
+// object behind it is empty.
+export const createFileLink = async (storage: StorageAdapter, path: string, target: HashedFile) => {
+  await storage.upload(path, new Blob([]), { upsert: false });
+
+  const { error } = await supabase
+    .from('file_metadata')
+    .upsert({
+      path,
+      content_hash: target.hash,
+      content_size: target.size,
+      link_target: target.path
+    }, { onConflict: 'path' });
+
+  if (error) {
+    await storage.remove([path]).catch(() => undefined);
+    throw error;
+  }
+};
+
+// Sends a duplicate to the trash and leaves a link to the kept copy in its
+// place, with the duplicate's tags and description. The space comes back once
+// the trash is emptied.
+export const replaceWithLink = async (
+  storage: StorageAdapter,
+  duplicate: HashedFile,
+  keep: HashedFile,
+  deletedBy: { id: string; email?: string | null } | null
+) => {
+  const details = (await fetchMetadata([duplicate.path])).get(duplicate.path);
+
+  // Links to the duplicate belong on the kept copy, rather than being given
+  // a copy of their own when it is trashed
+  const { error } = await supabase.rpc('move_file_links', { from_path: duplicate.path, to_path: keep.path });
+  if (error) throw error;
+
+  // Once the duplicate is in the trash the link goes in its place, even if
+  // its details stayed behind; that is reported afterwards
+  let detailsLeftBehind: PartialMoveError | null = null;
+  try {
+    await moveToTrash(storage, { path: duplicate.path, size: duplicate.size }, deletedBy);
+  } catch (error) {
+    if (!(error instanceof PartialMoveError)) throw error;
+    detailsLeftBehind = error;
+  }
+  await createFileLink(storage, duplicate.path, keep);
+
+  if (details) {
+    await updateMetadata(duplicate.path, {
+      tags: details.tags,
+      description: details.description,
+      customFields: details.customFields
+    });
+  }
+  if (detailsLeftBehind) throw detailsLeftBehind;
+};
+
+const listSkippedPaths = async (): Promise<Set<string>> => {
+  const paths = new Set<string>();
+  for (let from = 0; ; from += HASHED_PATHS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('file_metadata')
+      .select('path')
+      .or('content_hash.not.is.null,link_target.not.is.null,encryption_folder_id.not.is.null')
+      .order('path')
+      .range(from, from + HASHED_PATHS_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    (data || []).forEach((row: { path: string }) => paths.add(row.path));
+    if (!data || data.length < HASHED_PATHS_PAGE_SIZE) return paths;
+  }
+};
+
+// Hashes files uploaded before hashing existed, so the duplicates report sees
+// them. Each file is downloaded and hashed in the browser, one at a time.
+export const backfillContentHashes = async (
+  storage: StorageAdapter,
+  onProgress: (progress: BackfillProgress) => void,
+  signal?: AbortSignal
+): Promise<BackfillProgress> => {
+  const [objects, skipped] = await Promise.all([listObjectsRecursive(storage, ''), listSkippedPaths()]);
+
+  const missing = objects.filter(object => {
+    return object.size > 0
+      && object.size <= MAX_HASHED_FILE_BYTES
+      && getBaseName(object.path) !== FOLDER_PLACEHOLDER
+      && !skipped.has(object.path);
+  });
+
+  return runBackfill(missing.map(object => object.path), async path => {
+    const response = await fetch(await storage.getUrl(path));
+    if (!response.ok) throw new Error(`Could not read the file (${response.status})`);
+
+    const blob = await response.blob();
+    await recordContentHash(path, await hashFile(blob), blob.size);
+    return true;
+  }, onProgress, signal);
+};
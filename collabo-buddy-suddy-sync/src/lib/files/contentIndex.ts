@@ -0,0 +1,190 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StorageAdapter } from './storageAdapter';
+import { listObjectsRecursive } from './folders';
+import { getFileCategory, getFileExtension } from './fileTypes';
+import { getContentPreviewKind } from './preview';
+import { loadPdfJs } from './thumbnails';
+import { BackfillProgress, runBackfill } from './backfill';
+import { listEncryptedPaths } from './metadata';
+import { getBaseName } from './paths';
+
+// The text of documents, code and text files is extracted in the browser and
+// stored in file_contents, where Postgres full-text search finds it. Renames,
+// moves and trashing carry it along with the rest of the file's metadata.
+
+// Enough for the searchable part of nearly any document, well inside the
+// limits of a tsvector
+const MAX_INDEXED_CHARS = 200_000;
+// Bigger files are skipped rather than downloaded just to be indexed
+const MAX_INDEXED_FILE_BYTES = 25 * 1024 * 1024;
+const INDEXED_PATHS_PAGE_SIZE = 1000;
+// Markers search_file_contents puts around matched words in a snippet
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+type ContentIndexKind = 'text' | 'pdf' | 'spreadsheet';
+
+export const getContentIndexKind = (fileName: string, mimeType?: string | null): ContentIndexKind | null => {
+  if (mimeType === 'application/pdf' || getFileExtension(fileName) === 'pdf') return 'pdf';
+
+  const previewKind = getContentPreviewKind(fileName);
+  if (previewKind === 'spreadsheet') return 'spreadsheet';
+  if (previewKind && previewKind !== 'zip') return 'text';
+
+  const category = getFileCategory(fileName, mimeType);
+  return category === 'text' || category === 'code' ? 'text' : null;
+};
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    let text = '';
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && text.length < MAX_INDEXED_CHARS; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      text += content.items.map(item => ('str' in item ? item.str : '')).join(' ') + '\n';
+    }
+    return text;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+const extractSpreadsheetText = async (data: ArrayBuffer): Promise<string> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(data, { type: 'array' });
+  return workbook.SheetNames
+    .map(name => `${name}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[name])}`)
+    .join('\n');
+};
+
+// Postgres text can't hold NUL, and the snippet markers must only come from search
+const cleanText = (text: string): string => {
+  return text.slice(0, MAX_INDEXED_CHARS).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ' ');
+};
+
+// The searchable text of a file, or null for files that aren't indexed
+export const extractText = async (fileName: string, file: Blob): Promise<string | null> => {
+  const kind = getContentIndexKind(fileName, file.type);
+  if (!kind || file.size > MAX_INDEXED_FILE_BYTES) return null;
+
+  if (kind === 'pdf') return cleanText(await extractPdfText(await file.arrayBuffer()));
+  if (kind === 'spreadsheet') return cleanText(await extractSpreadsheetText(await file.arrayBuffer()));
+  // Four bytes per character at most, so this always covers the character limit
+  return cleanText(await file.slice(0, MAX_INDEXED_CHARS * 4).text());
+};
+
+// Stores the text of a file that was just written. Returns false for files
+// that aren't indexed.
+export const indexFileContent = async (path: string, file: Blob): Promise<boolean> => {
+  const content = await extractText(getBaseName(path), file);
+  if (content === null) return false;
+
+  const { error } = await supabase
+    .from('file_contents')
+    .upsert({ path, content, indexed_at: new Date().toISOString() }, { onConflict: 'path' });
+  if (error) throw error;
+  return true;
+};
+
+// Re-reads a stored file, e.g. after an older version was restored over it
+export const reindexFileContent = async (storage: StorageAdapter, path: string): Promise<boolean> => {
+  if (!getContentIndexKind(getBaseName(path))) return false;
+
+  const response = await fetch(await storage.getUrl(path));
+  if (!response.ok) throw new Error(`Could not read the file (${response.status})`);
+  return indexFileContent(path, await response.blob());
+};
+
+// For a file whose text shouldn't be searchable any more, e.g. once it is encrypted
+export const removeContentIndex = async (path: string) => {
+  const { error } = await supabase.from('file_contents').delete().eq('path', path);
+  if (error) throw error;
+};
+
+// Best effort, like the thumbnail: a missing entry is recreated by the backfill
+export const copyContentIndex = async (fromPath: string, toPath: string) => {
+  const { data } = await supabase
+    .from('file_contents')
+    .select('content')
+    .eq('path', fromPath)
+    .maybeSingle();
+  if (!data) return;
+
+  await supabase
+    .from('file_contents')
+    .upsert({ path: toPath, content: data.content, indexed_at: new Date().toISOString() }, { onConflict: 'path' });
+};
+
+export interface ContentMatch {
+  path: string;
+  // Alternating plain and matched text, starting with plain
+  snippet: string[];
+}
+
+// Files directly inside `folderPath` whose text matches `text`, keyed by path
+export const searchFileContents = async (text: string, folderPath: string): Promise<Map<string, ContentMatch>> => {
+  const { data, error } = await supabase.rpc('search_file_contents', {
+    search_text: text,
+    folder_path: folderPath
+  });
+  if (error) throw error;
+
+  const matches = new Map<string, ContentMatch>();
+  (data as { path: string; snippet: string }[] || []).forEach(row => {
+    matches.set(row.path, { path: row.path, snippet: splitSnippet(row.snippet) });
+  });
+  return matches;
+};
+
+// "a \x01b\x02 c" -> ['a ', 'b', ' c']
+const splitSnippet = (snippet: string): string[] => {
+  return snippet.split(MATCH_START).flatMap((part, index) => {
+    if (index === 0) return [part];
+    const [matched, ...rest] = part.split(MATCH_END);
+    return [matched, rest.join('')];
+  });
+};
+
+const listIndexedPaths = async (): Promise<Set<string>> => {
+  const paths = new Set<string>();
+  for (let from = 0; ; from += INDEXED_PATHS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('file_contents')
+      .select('path')
+      .order('path')
+      .range(from, from + INDEXED_PATHS_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    (data || []).forEach((row: { path: string }) => paths.add(row.path));
+    if (!data || data.length < INDEXED_PATHS_PAGE_SIZE) return paths;
+  }
+};
+
+// Indexes files uploaded before content search existed. Text extraction runs
+// in the browser, one file at a time.
+export const backfillContentIndex = async (
+  storage: StorageAdapter,
+  onProgress: (progress: BackfillProgress) => void,
+  signal?: AbortSignal
+): Promise<BackfillProgress> => {
+  const [objects, indexed, encrypted] = await Promise.all([
+    listObjectsRecursive(storage, ''),
+    listIndexedPaths(),
+    listEncryptedPaths()
+  ]);
+
+  const missing = objects.filter(object => {
+    return object.size <= MAX_INDEXED_FILE_BYTES
+      && !encrypted.has(object.path)
+      && getContentIndexKind(getBaseName(object.path)) !== null
+      && !indexed.has(object.path);
+  });
+
+  return runBackfill(
+    missing.map(object => object.path),
+    path => reindexFileContent(storage, path),
+    onProgress,
+    signal
+  );
+};
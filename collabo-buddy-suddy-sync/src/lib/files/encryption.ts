@@ -0,0 +1,482 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StorageAdapter } from './storageAdapter';
+import { FOLDER_PLACEHOLDER, VERSIONS_ROOT } from './storage';
+import { FileEncryption } from './types';
+import { findUserIdByEmail } from './permissions';
+import { fetchMetadata, recordEncryption } from './metadata';
+import { listObjectPathsRecursive } from './folders';
+import { getThumbnailPath } from './thumbnails';
+import { removeContentIndex } from './contentIndex';
+import { BackfillProgress, runBackfill } from './backfill';
+import { detachLinks, countLinksTo, turnLinkIntoCopy } from './fileLinks';
+import { getPathSegments, getBaseName, joinPath } from './paths';
+
+// Files in an encrypted folder are encrypted here, in the browser, with the
+// folder's AES-GCM key before they are uploaded, and decrypted here after they
+// are downloaded. See the file_encryption migration for how keys are stored.
+//
+// Each encrypted object is self-describing: a magic marker, the version of the
+// folder key it was encrypted with, the IV, then the ciphertext. A plain file
+// passed to decryptBlob comes back unchanged, so folders can hold a mix while
+// their existing files are being encrypted.
+
+const MAGIC = [0x46, 0x4d, 0x45, 0x31]; // "FME1"
+const IV_LENGTH = 12;
+const HEADER_LENGTH = MAGIC.length + 4 + IV_LENGTH;
+const PBKDF2_ITERATIONS = 310_000;
+
+// How long an object URL for a decrypted download is kept before it is freed;
+// the browser only needs it while the save starts
+export const DECRYPTED_URL_LIFETIME_MS = 60_000;
+
+const RSA_ALGORITHM: RsaHashedImportParams = { name: 'RSA-OAEP', hash: 'SHA-256' };
+const FOLDER_KEY_ALGORITHM: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+
+export interface EncryptedFolder {
+  id: string;
+  path: string;
+  keyVersion: number;
+  rotatedAt: Date | null;
+}
+
+export interface FolderKeyMember {
+  userId: string;
+  email: string;
+  grantedAt: Date;
+}
+
+interface EncryptedFolderRow {
+  id: string;
+  path: string;
+  key_version: number;
+  rotated_at: string | null;
+}
+
+interface UserKeyRow {
+  wrapped_private_key: string;
+  salt: string;
+  iv: string;
+  iterations: number;
+}
+
+const fromFolderRow = (row: EncryptedFolderRow): EncryptedFolder => ({
+  id: row.id,
+  path: row.path,
+  keyVersion: row.key_version,
+  rotatedAt: row.rotated_at ? new Date(row.rotated_at) : null
+});
+
+// Only ever held in memory, for the rest of the page's life
+let unlockedKey: { userId: string; privateKey: CryptoKey } | null = null;
+const folderKeys = new Map<string, CryptoKey>();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  let binary = '';
+  new Uint8Array(bytes).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const derivePassphraseKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const requireUnlockedKey = () => {
+  if (!unlockedKey) throw new Error('Unlock your encryption key first');
+  return unlockedKey;
+};
+
+export const hasUserKey = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('user_encryption_keys')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const isUserKeyUnlocked = (userId: string): boolean => unlockedKey?.userId === userId;
+
+// Creates the user's key pair. The private key is stored wrapped with the
+// passphrase, which never leaves the browser.
+export const createUserKey = async (userId: string, passphrase: string) => {
+  const keyPair = await crypto.subtle.generateKey(
+    { ...RSA_ALGORITHM, modulusLength: 3072, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ['wrapKey', 'unwrapKey']
+  );
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const passphraseKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const { error } = await supabase.from('user_encryption_keys').insert({
+    public_key: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    wrapped_private_key: toBase64(await crypto.subtle.wrapKey('pkcs8', keyPair.privateKey, passphraseKey, { name: 'AES-GCM', iv })),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    iterations: PBKDF2_ITERATIONS
+  });
+
+  if (error) throw error;
+  unlockedKey = { userId, privateKey: keyPair.privateKey };
+};
+
+export const unlockUserKey = async (userId: string, passphrase: string) => {
+  const { data, error } = await supabase
+    .from('user_encryption_keys')
+    .select('wrapped_private_key, salt, iv, iterations')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  const row = data as UserKeyRow;
+  const passphraseKey = await derivePassphraseKey(passphrase, fromBase64(row.salt), row.iterations);
+
+  try {
+    const privateKey = await crypto.subtle.unwrapKey(
+      'pkcs8',
+      fromBase64(row.wrapped_private_key),
+      passphraseKey,
+      { name: 'AES-GCM', iv: fromBase64(row.iv) },
+      RSA_ALGORITHM,
+      false,
+      ['unwrapKey']
+    );
+    unlockedKey = { userId, privateKey };
+  } catch {
+    throw new Error('That passphrase is not right');
+  }
+};
+
+const fetchPublicKeys = async (userIds: string[]): Promise<Map<string, JsonWebKey>> => {
+  const { data, error } = await supabase.rpc('get_encryption_public_keys', { user_ids: userIds });
+  if (error) throw error;
+  return new Map((data as { user_id: string; public_key: JsonWebKey }[] || []).map(row => [row.user_id, row.public_key]));
+};
+
+const wrapFolderKey = async (folderKey: CryptoKey, publicKey: JsonWebKey): Promise<string> => {
+  const wrappingKey = await crypto.subtle.importKey('jwk', publicKey, RSA_ALGORITHM, false, ['wrapKey']);
+  return toBase64(await crypto.subtle.wrapKey('raw', folderKey, wrappingKey, { name: 'RSA-OAEP' }));
+};
+
+const unwrapFolderKey = async (wrappedKey: string): Promise<CryptoKey> => {
+  // Extractable so it can be wrapped again for someone it's shared with
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrappedKey),
+    requireUnlockedKey().privateKey,
+    { name: 'RSA-OAEP' },
+    FOLDER_KEY_ALGORITHM,
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const getFolderKey = async (folderId: string, keyVersion: number): Promise<CryptoKey> => {
+  const cacheKey = `${folderId}:${keyVersion}`;
+  const cached = folderKeys.get(cacheKey);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('folder_key_grants')
+    .select('wrapped_key')
+    .eq('folder_id', folderId)
+    .eq('key_version', keyVersion)
+    .eq('user_id', requireUnlockedKey().userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("You haven't been given the key to this encrypted folder");
+
+  const folderKey = await unwrapFolderKey(data.wrapped_key);
+  folderKeys.set(cacheKey, folderKey);
+  return folderKey;
+};
+
+// The encrypted folder a path is in, if any. When encrypted folders are
+// nested the nearest one applies.
+export const findEncryptedFolder = async (path: string): Promise<EncryptedFolder | null> => {
+  const segments = getPathSegments(path);
+  const ancestorPaths = ['', ...segments.map((_, index) => segments.slice(0, index + 1).join('/'))];
+
+  const { data, error } = await supabase
+    .from('encrypted_folders')
+    .select('id, path, key_version, rotated_at')
+    .in('path', ancestorPaths);
+
+  if (error) throw error;
+  const nearest = (data as EncryptedFolderRow[] || []).sort((a, b) => b.path.length - a.path.length)[0];
+  return nearest ? fromFolderRow(nearest) : null;
+};
+
+// Marks a folder as encrypted, with the person doing it as the first key holder.
+// Files already in it stay plain until encryptFolderFiles runs.
+export const encryptFolder = async (
+  path: string,
+  owner: { id: string; email?: string | null }
+): Promise<EncryptedFolder> => {
+  requireUnlockedKey();
+  const publicKey = (await fetchPublicKeys([owner.id])).get(owner.id);
+  if (!publicKey) throw new Error('Set up your encryption key first');
+
+  const { data, error } = await supabase
+    .from('encrypted_folders')
+    .insert({ path })
+    .select('id, path, key_version, rotated_at')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error('This folder is already encrypted');
+    throw error;
+  }
+  const folder = fromFolderRow(data as EncryptedFolderRow);
+
+  const folderKey = await crypto.subtle.generateKey(FOLDER_KEY_ALGORITHM, true, ['encrypt', 'decrypt']);
+  const { error: grantError } = await supabase.from('folder_key_grants').insert({
+    folder_id: folder.id,
+    key_version: folder.keyVersion,
+    user_id: owner.id,
+    user_email: owner.email || owner.id,
+    wrapped_key: await wrapFolderKey(folderKey, publicKey)
+  });
+
+  if (grantError) {
+    // A folder nobody holds the key to would be unusable
+    await supabase.from('encrypted_folders').delete().eq('id', folder.id);
+    throw grantError;
+  }
+
+  folderKeys.set(`${folder.id}:${folder.keyVersion}`, folderKey);
+  return folder;
+};
+
+// Keeps encryption attached to a folder that is being renamed
+export const moveEncryptedFolders = async (fromPath: string, toPath: string) => {
+  const { error } = await supabase.rpc('move_encrypted_folders', { from_path: fromPath, to_path: toPath });
+  if (error) throw error;
+};
+
+// Everyone holding the current key
+export const listFolderKeyMembers = async (folder: EncryptedFolder): Promise<FolderKeyMember[]> => {
+  const { data, error } = await supabase
+    .from('folder_key_grants')
+    .select('user_id, user_email, created_at')
+    .eq('folder_id', folder.id)
+    .eq('key_version', folder.keyVersion)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as { user_id: string; user_email: string; created_at: string }[] || []).map(row => ({
+    userId: row.user_id,
+    email: row.user_email,
+    grantedAt: new Date(row.created_at)
+  }));
+};
+
+// Gives a teammate every version of the key the sharer holds, so they can also
+// read files that haven't been re-encrypted since a rotation
+export const shareFolderKey = async (folder: EncryptedFolder, email: string) => {
+  const { userId } = requireUnlockedKey();
+  const memberId = await findUserIdByEmail(email.trim());
+  const publicKey = (await fetchPublicKeys([memberId])).get(memberId);
+  if (!publicKey) throw new Error(`${email.trim()} hasn't set up an encryption key yet`);
+
+  const { data, error } = await supabase
+    .from('folder_key_grants')
+    .select('key_version, wrapped_key')
+    .eq('folder_id', folder.id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  const held = data as { key_version: number; wrapped_key: string }[] || [];
+  if (!held.some(grant => grant.key_version === folder.keyVersion)) {
+    throw new Error("You don't hold the current key to this folder");
+  }
+
+  const rows = await Promise.all(held.map(async grant => ({
+    folder_id: folder.id,
+    key_version: grant.key_version,
+    user_id: memberId,
+    user_email: email.trim(),
+    wrapped_key: await wrapFolderKey(await unwrapFolderKey(grant.wrapped_key), publicKey)
+  })));
+
+  const { error: insertError } = await supabase.from('folder_key_grants').insert(rows);
+  if (insertError) {
+    if (insertError.code === '23505') throw new Error('They already hold the key to this folder');
+    throw insertError;
+  }
+};
+
+// Takes away every version of the key. Anything they already downloaded or
+// unwrapped stays readable to them until the key is rotated.
+export const removeFolderKeyMember = async (folder: EncryptedFolder, userId: string) => {
+  const { error } = await supabase
+    .from('folder_key_grants')
+    .delete()
+    .eq('folder_id', folder.id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Makes a new key for the current members. New uploads use it straight away;
+// existing files move to it when encryptFolderFiles runs.
+export const rotateFolderKey = async (folder: EncryptedFolder): Promise<EncryptedFolder> => {
+  requireUnlockedKey();
+  const members = await listFolderKeyMembers(folder);
+  const publicKeys = await fetchPublicKeys(members.map(member => member.userId));
+  const keyVersion = folder.keyVersion + 1;
+  const folderKey = await crypto.subtle.generateKey(FOLDER_KEY_ALGORITHM, true, ['encrypt', 'decrypt']);
+
+  const rows = await Promise.all(members.map(async member => {
+    const publicKey = publicKeys.get(member.userId);
+    if (!publicKey) throw new Error(`${member.email} no longer has an encryption key`);
+    return {
+      folder_id: folder.id,
+      key_version: keyVersion,
+      user_id: member.userId,
+      user_email: member.email,
+      wrapped_key: await wrapFolderKey(folderKey, publicKey)
+    };
+  }));
+
+  const { error: grantError } = await supabase.from('folder_key_grants').insert(rows);
+  if (grantError) throw grantError;
+
+  // Only moves on from the version this started from, in case someone else rotated meanwhile
+  const { data, error } = await supabase
+    .from('encrypted_folders')
+    .update({ key_version: keyVersion, rotated_at: new Date().toISOString() })
+    .eq('id', folder.id)
+    .eq('key_version', folder.keyVersion)
+    .select('id, path, key_version, rotated_at');
+
+  if (error || !data || data.length === 0) {
+    await supabase.from('folder_key_grants').delete().eq('folder_id', folder.id).eq('key_version', keyVersion);
+    throw error || new Error('The key was rotated by someone else. Reopen the folder and try again.');
+  }
+
+  folderKeys.set(`${folder.id}:${keyVersion}`, folderKey);
+  return fromFolderRow((data as EncryptedFolderRow[])[0]);
+};
+
+// Reads the whole file into memory, which is fine for the documents these
+// folders are meant for but not for very large media
+export const encryptFile = async (file: File, folder: EncryptedFolder): Promise<File> => {
+  const folderKey = await getFolderKey(folder.id, folder.keyVersion);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, folderKey, await file.arrayBuffer());
+
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(MAGIC);
+  new DataView(header.buffer).setUint32(MAGIC.length, folder.keyVersion);
+  header.set(iv, MAGIC.length + 4);
+
+  // The real type is kept so listings can still show the right icon and preview
+  return new File([header, ciphertext], file.name, { type: file.type, lastModified: file.lastModified });
+};
+
+export const toFileEncryption = (folder: EncryptedFolder): FileEncryption => ({
+  folderId: folder.id,
+  keyVersion: folder.keyVersion
+});
+
+// The key version an object was encrypted with, or null for a plain object
+const readKeyVersion = (bytes: Uint8Array): number | null => {
+  if (bytes.length < HEADER_LENGTH || MAGIC.some((byte, index) => bytes[index] !== byte)) return null;
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(MAGIC.length);
+};
+
+export const decryptBlob = async (blob: Blob, folderId: string): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const keyVersion = readKeyVersion(bytes);
+  if (keyVersion === null) return blob;
+
+  const folderKey = await getFolderKey(folderId, keyVersion);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(MAGIC.length + 4, HEADER_LENGTH) },
+      folderKey,
+      bytes.subarray(HEADER_LENGTH)
+    );
+    return new Blob([plaintext], { type: blob.type });
+  } catch {
+    throw new Error('The file could not be decrypted. It may be damaged.');
+  }
+};
+
+// Downloads an object, decrypting it when `folderId` says it was encrypted
+export const fetchDecrypted = async (storage: StorageAdapter, path: string, folderId: string | null): Promise<Blob> => {
+  const response = await fetch(await storage.getUrl(path));
+  if (!response.ok) throw new Error(`Could not download ${getBaseName(path)} (${response.status})`);
+
+  const blob = await response.blob();
+  return folderId ? decryptBlob(blob, folderId) : blob;
+};
+
+// Brings every file in the folder, and their older versions, to the current
+// key: plain files are encrypted (and lose their thumbnail and search text,
+// which would give their contents away) and files under an older key are
+// re-encrypted. Files already on the current key are skipped, so an
+// interrupted run can simply be started again.
+//
+// Links are sorted out first, while every target is still readable: links in
+// the folder become copies, to be encrypted like any other file, and links
+// from outside to files in the folder are given a plain copy of their own.
+export const encryptFolderFiles = async (
+  storage: StorageAdapter,
+  folder: EncryptedFolder,
+  onProgress: (progress: BackfillProgress) => void,
+  signal?: AbortSignal
+): Promise<BackfillProgress> => {
+  const versionsPath = joinPath(VERSIONS_ROOT, folder.path);
+  const [filePaths, versionPaths] = await Promise.all([
+    listObjectPathsRecursive(storage, folder.path),
+    listObjectPathsRecursive(storage, versionsPath)
+  ]);
+  const currentFiles = new Set(filePaths);
+
+  for (const [path, metadata] of await fetchMetadata(filePaths)) {
+    if (metadata.linkTarget) await turnLinkIntoCopy(storage, path, metadata.linkTarget);
+  }
+  for (const target of (await countLinksTo(filePaths)).keys()) {
+    await detachLinks(storage, target);
+  }
+
+  const paths = [...filePaths, ...versionPaths].filter(path => getBaseName(path) !== FOLDER_PLACEHOLDER);
+
+  return runBackfill(paths, async path => {
+    const response = await fetch(await storage.getUrl(path));
+    if (!response.ok) throw new Error(`Could not download the file (${response.status})`);
+    const stored = await response.blob();
+
+    const keyVersion = readKeyVersion(new Uint8Array(await stored.slice(0, HEADER_LENGTH).arrayBuffer()));
+    if (keyVersion === folder.keyVersion) return false;
+
+    const plain = await decryptBlob(stored, folder.id);
+    const encrypted = await encryptFile(new File([plain], getBaseName(path), { type: stored.type }), folder);
+    await storage.upload(path, encrypted, { upsert: true, contentType: encrypted.type || undefined });
+
+    if (currentFiles.has(path)) {
+      await recordEncryption(path, toFileEncryption(folder));
+      if (keyVersion === null) {
+        await storage.remove([getThumbnailPath(path)]).catch(() => undefined);
+        await removeContentIndex(path);
+      }
+    }
+    return true;
+  }, onProgress, signal);
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { turnLinkIntoCopy } from './fileLinks';
+import { createMemoryStorageAdapter } from './memoryStorageAdapter';
+import { StorageAdapter } from './storageAdapter';
+
+// Records the file_metadata updates made; every query on the way finds nothing
+const { updates } = vi.hoisted(() => ({ updates: [] as { values: unknown; path: unknown }[] }));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query = () => {
+    let values: unknown = null;
+    const chain = {
+      select: () => chain,
+      upsert: () => Promise.resolve({ error: null }),
+      maybeSingle: () => Promise.resolve({ data: null, error: null }),
+      update: (next: unknown) => {
+        values = next;
+        return chain;
+      },
+      eq: (column: string, value: unknown) => {
+        if (values === null) return chain;
+        updates.push({ values, path: value });
+        return Promise.resolve({ error: null });
+      }
+    };
+    return chain;
+  };
+  return { supabase: { from: query } };
+});
+
+const text = (value: string) => new Blob([value], { type: 'text/plain' });
+
+const readUrl = async (url: string) => (await fetch(url)).text();
+
+describe('turnLinkIntoCopy', () => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    updates.length = 0;
+    storage = createMemoryStorageAdapter({
+      'docs/report.txt': text('contents'),
+      'shared/report.txt': text('')
+    });
+  });
+
+  it('replaces the placeholder with the contents and clears the link', async () => {
+    await turnLinkIntoCopy(storage, 'shared/report.txt', 'docs/report.txt');
+
+    expect(await readUrl(await storage.getUrl('shared/report.txt'))).toBe('contents');
+    expect(updates).toEqual([{ values: { link_target: null }, path: 'shared/report.txt' }]);
+  });
+
+  it('leaves the link as it was when the target cannot be read', async () => {
+    await expect(turnLinkIntoCopy(storage, 'shared/report.txt', 'docs/missing.txt'))
+      .rejects.toThrow("shared/report.txt links to docs/missing.txt and couldn't be given a copy of it");
+
+    expect(await readUrl(await storage.getUrl('shared/report.txt'))).toBe('');
+    expect(updates).toEqual([]);
+  });
+
+  it('leaves the link as it was when the copy cannot be written', async () => {
+    vi.spyOn(storage, 'upload').mockRejectedValueOnce(new Error('Storage is full'));
+
+    await expect(turnLinkIntoCopy(storage, 'shared/report.txt', 'docs/report.txt')).rejects.toThrow('Storage is full');
+
+    expect(await readUrl(await storage.getUrl('shared/report.txt'))).toBe('');
+    expect(updates).toEqual([]);
+  });
+});
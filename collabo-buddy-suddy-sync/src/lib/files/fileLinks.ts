@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StorageAdapter } from './storageAdapter';
+import { copyThumbnail } from './thumbnails';
+import { copyContentIndex } from './contentIndex';
+import { fetchFolderRole, hasRole } from './permissions';
+import { getBaseName, getParentPath } from './paths';
+
+// A link (see contentHash.ts) serves whatever is at its target, so before the
+// target is trashed or overwritten its links are given contents of their own.
+
+// How many links point at each of `paths`, including links in folders the
+// caller can't see. Paths nothing links to are left out.
+export const countLinksTo = async (paths: string[]): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>();
+  if (paths.length === 0) return counts;
+
+  const { data, error } = await supabase.rpc('count_file_links', { target_paths: paths });
+  if (error) throw error;
+  (data as { link_target: string; links: number }[] || []).forEach(row => {
+    counts.set(row.link_target, Number(row.links));
+  });
+  return counts;
+};
+
+// The links to `path` the caller can see, by path
+const listVisibleLinks = async (path: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .select('path')
+    .eq('link_target', path)
+    .order('path');
+
+  if (error) throw error;
+  return (data as { path: string }[] || []).map(row => row.path);
+};
+
+// Overwrites the empty object behind a link with a copy of what it points at,
+// so it stops being a link. The copy is read in full before the placeholder
+// is replaced, so if anything fails the link is left as it was.
+export const turnLinkIntoCopy = async (storage: StorageAdapter, path: string, target: string) => {
+  try {
+    const response = await fetch(await storage.getUrl(target));
+    if (!response.ok) throw new Error(`Could not read ${target} (${response.status})`);
+    const contents = await response.blob();
+    await storage.upload(path, contents, { upsert: true, contentType: contents.type || undefined });
+  } catch (error) {
+    throw new Error(`${path} links to ${target} and couldn't be given a copy of it: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+  await copyThumbnail(storage, target, path);
+  await copyContentIndex(target, path);
+
+  const { error } = await supabase
+    .from('file_metadata')
+    .update({ link_target: null })
+    .eq('path', path);
+  if (error) throw error;
+};
+
+// Turns a link to `path` into a real copy of it and points the other links at
+// that copy, so they keep today's contents once `path` is trashed or
+// replaced. The copy goes to the first link in a folder the caller can edit;
+// with none, this throws rather than leave the links pointing at nothing.
+// Returns the copy's path, or null when nothing links to the file.
+export const detachLinks = async (storage: StorageAdapter, path: string): Promise<string | null> => {
+  const linkCount = (await countLinksTo([path])).get(path) || 0;
+  if (linkCount === 0) return null;
+
+  let copyPath: string | null = null;
+  for (const link of await listVisibleLinks(path)) {
+    if (hasRole(await fetchFolderRole(getParentPath(link)), 'editor')) {
+      copyPath = link;
+      break;
+    }
+  }
+  if (!copyPath) {
+    throw new Error(`"${getBaseName(path)}" has ${linkCount} link(s) to it in folders you can't edit, so it can't be trashed or replaced. Ask an editor of those folders to remove the links first.`);
+  }
+
+  await turnLinkIntoCopy(storage, copyPath, path);
+
+  // Runs as definer, so links in folders the caller can't edit follow too
+  const { error } = await supabase.rpc('move_file_links', { from_path: path, to_path: copyPath });
+  if (error) throw error;
+
+  return copyPath;
+};
@@ -0,0 +1,94 @@
+import { findAvailableName, findExistingNames } from './storage';
+import { StorageAdapter } from './storageAdapter';
+import { joinPath, getBaseName, getParentPath, VALID_NAME_PATTERN } from './paths';
+import { moveMetadata, copyMetadata, PartialMoveError } from './metadata';
+import { moveShareLinks } from './shareLinks';
+import { getVersionFolder, moveVersionFolder } from './versions';
+import { moveThumbnail, copyThumbnail } from './thumbnails';
+import { copyContentIndex } from './contentIndex';
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+// Returns a user-facing error for an invalid file name, or null when it is fine
+export const validateFileName = (name: string): string | null => {
+  const trimmed = name.trim();
+
+  if (!trimmed) return 'Please enter a file name';
+  if (trimmed.length > MAX_FILE_NAME_LENGTH) {
+    return `File names can be at most ${MAX_FILE_NAME_LENGTH} characters`;
+  }
+  if (trimmed.startsWith('.')) return 'File names cannot start with a dot';
+  if (!VALID_NAME_PATTERN.test(trimmed)) {
+    return "File names can only contain letters, numbers, spaces and - _ . ! ' ( ) & $ @ = ; + ,";
+  }
+
+  return null;
+};
+
+// Moves one object and everything that hangs off its path: the version
+// history under .versions/, its thumbnail, its file_metadata row and any
+// share links. Throws PartialMoveError if the object moved but its metadata
+// or share links didn't.
+const relocateFile = async (storage: StorageAdapter, fromPath: string, toPath: string): Promise<void> => {
+  await storage.move(fromPath, toPath);
+
+  await moveVersionFolder(storage, getVersionFolder(fromPath), getVersionFolder(toPath));
+
+  await moveThumbnail(storage, fromPath, toPath);
+
+  const [metadataMove, shareLinkMove] = await Promise.allSettled([
+    moveMetadata(fromPath, toPath),
+    moveShareLinks(fromPath, toPath)
+  ]);
+  if (metadataMove.status === 'rejected') throw new PartialMoveError(toPath, metadataMove.reason);
+  if (shareLinkMove.status === 'rejected') throw new PartialMoveError(toPath, shareLinkMove.reason);
+};
+
+// Moves a file into another folder and returns its new path. If the name is
+// already taken there, the moved file gets a "(1)" style suffix.
+export const moveFile = async (storage: StorageAdapter, path: string, destinationFolder: string): Promise<string> => {
+  const name = await findAvailableName(storage, destinationFolder, getBaseName(path), new Set());
+  const newPath = joinPath(destinationFolder, name);
+
+  await relocateFile(storage, path, newPath);
+  return newPath;
+};
+
+// Renames a file in place and returns its new path. Unlike a move, a clash
+// with an existing name is an error rather than a reason to pick another name.
+export const renameFile = async (storage: StorageAdapter, path: string, newName: string): Promise<string> => {
+  const trimmed = newName.trim();
+  const folderPath = getParentPath(path);
+  if (trimmed === getBaseName(path)) return path;
+
+  const existing = await findExistingNames(storage, folderPath, [trimmed]);
+  if (existing.has(trimmed)) throw new Error(`A file named "${trimmed}" already exists here`);
+
+  const newPath = joinPath(folderPath, trimmed);
+  await relocateFile(storage, path, newPath);
+  return newPath;
+};
+
+// Copies a file next to itself as "name (1).ext". Version history stays with
+// the original; the thumbnail, indexed text, tags and other details are copied.
+export const duplicateFile = async (
+  storage: StorageAdapter,
+  path: string,
+  copiedBy: { id: string; email?: string | null } | null
+): Promise<string> => {
+  const folderPath = getParentPath(path);
+  const name = await findAvailableName(storage, folderPath, getBaseName(path), new Set([getBaseName(path)]));
+  const newPath = joinPath(folderPath, name);
+
+  await storage.copy(path, newPath);
+
+  await copyThumbnail(storage, path, newPath);
+  await copyContentIndex(path, newPath);
+  try {
+    await copyMetadata(path, newPath, copiedBy);
+  } catch (metadataError) {
+    console.error('Error copying file metadata:', metadataError);
+  }
+
+  return newPath;
+};
@@ -0,0 +1,305 @@
+export type FileCategory =
+  | 'document'
+  | 'spreadsheet'
+  | 'presentation'
+  | 'text'
+  | 'code'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'archive'
+  | 'font'
+  | 'executable'
+  | 'other';
+
+export const FILE_CATEGORY_LABELS: Record<FileCategory, string> = {
+  document: 'document',
+  spreadsheet: 'spreadsheet',
+  presentation: 'presentation',
+  text: 'text file',
+  code: 'code file',
+  image: 'image',
+  video: 'video',
+  audio: 'audio file',
+  archive: 'archive',
+  font: 'font',
+  executable: 'executable',
+  other: 'file'
+};
+
+export interface KnownFileType {
+  mimeType: string;
+  category: FileCategory;
+}
+
+const type = (mimeType: string, category: FileCategory): KnownFileType => ({ mimeType, category });
+
+// Extension -> MIME type and category. Also the source of truth for turning a
+// sniffed MIME type back into a category.
+const KNOWN_FILE_TYPES: Record<string, KnownFileType> = {
+  pdf: type('application/pdf', 'document'),
+  doc: type('application/msword', 'document'),
+  docx: type('application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'document'),
+  odt: type('application/vnd.oasis.opendocument.text', 'document'),
+  rtf: type('application/rtf', 'document'),
+  epub: type('application/epub+zip', 'document'),
+
+  xls: type('application/vnd.ms-excel', 'spreadsheet'),
+  xlsx: type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'spreadsheet'),
+  ods: type('application/vnd.oasis.opendocument.spreadsheet', 'spreadsheet'),
+  csv: type('text/csv', 'spreadsheet'),
+  tsv: type('text/tab-separated-values', 'spreadsheet'),
+
+  ppt: type('application/vnd.ms-powerpoint', 'presentation'),
+  pptx: type('application/vnd.openxmlformats-officedocument.presentationml.presentation', 'presentation'),
+  odp: type('application/vnd.oasis.opendocument.presentation', 'presentation'),
+
+  txt: type('text/plain', 'text'),
+  md: type('text/markdown', 'text'),
+  log: type('text/plain', 'text'),
+
+  js: type('text/javascript', 'code'),
+  jsx: type('text/javascript', 'code'),
+  ts: type('text/typescript', 'code'),
+  tsx: type('text/typescript', 'code'),
+  html: type('text/html', 'code'),
+  css: type('text/css', 'code'),
+  json: type('application/json', 'code'),
+  xml: type('application/xml', 'code'),
+  yaml: type('application/yaml', 'code'),
+  yml: type('application/yaml', 'code'),
+  py: type('text/x-python', 'code'),
+  sql: type('application/sql', 'code'),
+
+  jpg: type('image/jpeg', 'image'),
+  jpeg: type('image/jpeg', 'image'),
+  png: type('image/png', 'image'),
+  gif: type('image/gif', 'image'),
+  webp: type('image/webp', 'image'),
+  bmp: type('image/bmp', 'image'),
+  tif: type('image/tiff', 'image'),
+  tiff: type('image/tiff', 'image'),
+  ico: type('image/x-icon', 'image'),
+  heic: type('image/heic', 'image'),
+  avif: type('image/avif', 'image'),
+  svg: type('image/svg+xml', 'image'),
+
+  mp4: type('video/mp4', 'video'),
+  m4v: type('video/mp4', 'video'),
+  mov: type('video/quicktime', 'video'),
+  avi: type('video/x-msvideo', 'video'),
+  wmv: type('video/x-ms-wmv', 'video'),
+  webm: type('video/webm', 'video'),
+  mkv: type('video/x-matroska', 'video'),
+  ogv: type('video/ogg', 'video'),
+
+  mp3: type('audio/mpeg', 'audio'),
+  m4a: type('audio/mp4', 'audio'),
+  wav: type('audio/wav', 'audio'),
+  flac: type('audio/flac', 'audio'),
+  ogg: type('audio/ogg', 'audio'),
+  opus: type('audio/ogg', 'audio'),
+
+  zip: type('application/zip', 'archive'),
+  rar: type('application/vnd.rar', 'archive'),
+  '7z': type('application/x-7z-compressed', 'archive'),
+  gz: type('application/gzip', 'archive'),
+  tgz: type('application/gzip', 'archive'),
+  tar: type('application/x-tar', 'archive'),
+
+  ttf: type('font/ttf', 'font'),
+  otf: type('font/otf', 'font'),
+  woff: type('font/woff', 'font'),
+  woff2: type('font/woff2', 'font'),
+
+  exe: type('application/vnd.microsoft.portable-executable', 'executable'),
+  dll: type('application/vnd.microsoft.portable-executable', 'executable'),
+  msi: type('application/x-msi', 'executable'),
+  jar: type('application/java-archive', 'executable'),
+  apk: type('application/vnd.android.package-archive', 'executable'),
+  elf: type('application/x-elf', 'executable'),
+  dylib: type('application/x-mach-binary', 'executable'),
+  sh: type('application/x-sh', 'executable'),
+  bat: type('application/x-bat', 'executable'),
+  cmd: type('application/x-bat', 'executable'),
+  ps1: type('application/x-powershell', 'executable'),
+  vbs: type('application/x-vbscript', 'executable'),
+  scr: type('application/vnd.microsoft.portable-executable', 'executable'),
+  com: type('application/x-msdos-program', 'executable')
+};
+
+export const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+export const getKnownExtensions = (): string[] => Object.keys(KNOWN_FILE_TYPES);
+
+export const getKnownFileType = (extension: string): KnownFileType | null => {
+  return KNOWN_FILE_TYPES[extension] || null;
+};
+
+export const getMimeTypeFromName = (fileName: string): string | null => {
+  return KNOWN_FILE_TYPES[getFileExtension(fileName)]?.mimeType || null;
+};
+
+export const getCategoryFromMimeType = (mimeType: string): FileCategory => {
+  const known = Object.values(KNOWN_FILE_TYPES).find(t => t.mimeType === mimeType);
+  if (known) return known.category;
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('font/')) return 'font';
+  if (mimeType.startsWith('text/')) return 'text';
+  return 'other';
+};
+
+// Prefers the MIME type stored with the object (sniffed at upload) and falls
+// back to the extension for older files and generic types
+export const getFileCategory = (fileName: string, mimeType?: string | null): FileCategory => {
+  if (mimeType && mimeType !== 'application/octet-stream') {
+    const category = getCategoryFromMimeType(mimeType);
+    if (category !== 'other') return category;
+  }
+  return KNOWN_FILE_TYPES[getFileExtension(fileName)]?.category || 'other';
+};
+
+interface MagicSignature {
+  mimeType: string;
+  // null matches any byte
+  bytes: (number | null)[];
+  offset?: number;
+  // Containers several formats are built on (e.g. .docx is a zip). If the
+  // file's extension is one of these, the extension's type is used instead.
+  sharedBy?: string[];
+  // Short enough to also start ordinary text, so only trusted for binary content
+  isWeak?: boolean;
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { mimeType: 'application/pdf', bytes: ascii('%PDF-') },
+  { mimeType: 'image/png', bytes: [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: ascii('GIF8') },
+  { mimeType: 'image/webp', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WEBP')] },
+  { mimeType: 'image/bmp', bytes: ascii('BM'), isWeak: true },
+  { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mimeType: 'audio/wav', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WAVE')] },
+  { mimeType: 'video/x-msvideo', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('AVI ')] },
+  { mimeType: 'video/mp4', offset: 4, bytes: ascii('ftyp'), sharedBy: ['mp4', 'm4v', 'm4a', 'mov', 'heic', 'avif'] },
+  { mimeType: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3], sharedBy: ['webm', 'mkv'] },
+  { mimeType: 'audio/ogg', bytes: ascii('OggS'), sharedBy: ['ogg', 'ogv', 'opus'] },
+  { mimeType: 'audio/flac', bytes: ascii('fLaC') },
+  { mimeType: 'audio/mpeg', bytes: ascii('ID3'), isWeak: true },
+  { mimeType: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { mimeType: 'audio/mpeg', bytes: [0xff, 0xf3] },
+  { mimeType: 'audio/mpeg', bytes: [0xff, 0xf2] },
+  {
+    mimeType: 'application/zip',
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+    sharedBy: ['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'jar', 'apk']
+  },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  // Old Office formats and .msi share the OLE compound file container
+  { mimeType: 'application/x-ole-storage', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], sharedBy: ['doc', 'xls', 'ppt', 'msi'] },
+  { mimeType: 'application/vnd.rar', bytes: ascii('Rar!') },
+  { mimeType: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/x-tar', offset: 257, bytes: ascii('ustar') },
+  { mimeType: 'font/woff', bytes: ascii('wOFF') },
+  { mimeType: 'font/woff2', bytes: ascii('wOF2') },
+  { mimeType: 'font/otf', bytes: ascii('OTTO') },
+  { mimeType: 'font/ttf', bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+  { mimeType: 'application/vnd.microsoft.portable-executable', bytes: ascii('MZ'), isWeak: true },
+  { mimeType: 'application/x-elf', bytes: [0x7f, ...ascii('ELF')] },
+  { mimeType: 'application/x-mach-binary', bytes: [0xfe, 0xed, 0xfa, 0xce] },
+  { mimeType: 'application/x-mach-binary', bytes: [0xfe, 0xed, 0xfa, 0xcf] },
+  { mimeType: 'application/x-mach-binary', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+  { mimeType: 'application/x-mach-binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] }
+];
+
+// Enough for every signature above plus a decent sample for the text check
+const SNIFF_BYTES = 512;
+
+const matchesSignature = (header: Uint8Array, signature: MagicSignature) => {
+  const offset = signature.offset || 0;
+  if (header.length < offset + signature.bytes.length) return false;
+  return signature.bytes.every((byte, index) => byte === null || header[offset + index] === byte);
+};
+
+// Text has no signature; treat it as text when there are no NUL bytes and it
+// decodes as UTF-8 (a multi-byte character cut off at the end is fine)
+const looksLikeText = (header: Uint8Array) => {
+  if (header.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(header, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Types whose content is plain text, including scripts
+const TEXT_BASED_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/sql',
+  'image/svg+xml',
+  'application/x-sh',
+  'application/x-bat',
+  'application/x-powershell',
+  'application/x-vbscript'
+];
+
+const isTextMimeType = (mimeType: string) => {
+  return mimeType.startsWith('text/') || TEXT_BASED_MIME_TYPES.includes(mimeType);
+};
+
+const readHeader = async (file: Blob): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+};
+
+export interface DetectedFileType {
+  // What the content says it is, or what the extension says when the content
+  // has no recognisable signature
+  mimeType: string;
+  category: FileCategory;
+  extension: string;
+  // The content matched a signature that contradicts the extension
+  isMismatch: boolean;
+}
+
+// Works out a file's real type from its first bytes rather than trusting the
+// extension, so e.g. a renamed executable isn't taken for a PDF
+export const detectFileType = async (file: File): Promise<DetectedFileType> => {
+  const extension = getFileExtension(file.name);
+  const claimed = KNOWN_FILE_TYPES[extension];
+  const fallbackMimeType = claimed?.mimeType || file.type || 'application/octet-stream';
+  const header = await readHeader(file);
+
+  const isText = header.length > 0 && looksLikeText(header);
+  const signature = MAGIC_SIGNATURES.find(candidate => {
+    return !(candidate.isWeak && isText) && matchesSignature(header, candidate);
+  });
+
+  let mimeType = fallbackMimeType;
+  let category: FileCategory;
+  if (signature) {
+    mimeType = claimed && signature.sharedBy?.includes(extension) ? claimed.mimeType : signature.mimeType;
+    category = getCategoryFromMimeType(mimeType);
+  } else {
+    if (isText) mimeType = isTextMimeType(fallbackMimeType) ? fallbackMimeType : 'text/plain';
+    category = getFileCategory(file.name, mimeType);
+  }
+
+  const claimedCategory = claimed?.category || 'other';
+  // Unknown extensions can't contradict anything; anything else has to agree
+  const isMismatch = claimedCategory !== 'other' && category !== claimedCategory;
+
+  return { mimeType, category, extension, isMismatch };
+};
@@ -0,0 +1,179 @@
+import { FOLDER_PLACEHOLDER, VERSIONS_ROOT, THUMBNAILS_ROOT, listFolderAll } from './storage';
+import { StorageAdapter } from './storageAdapter';
+import { FolderItem } from './types';
+import { joinPath, getParentPath, getBaseName, VALID_NAME_PATTERN } from './paths';
+import { moveMetadata } from './metadata';
+import { moveShareLinks } from './shareLinks';
+import { moveFolderPermissions } from './permissions';
+import { moveQuotas } from './quotas';
+import { moveEncryptedFolders } from './encryption';
+import { moveToTrash } from './trash';
+
+const MAX_FOLDER_NAME_LENGTH = 100;
+
+// Returns a user-facing error for an invalid folder name, or null when it is fine.
+// `siblings` are the folders already in the parent; `currentName` is skipped so a
+// folder can be renamed to a different casing of itself.
+export const validateFolderName = (
+  name: string,
+  siblings: FolderItem[],
+  currentName?: string
+): string | null => {
+  const trimmed = name.trim();
+
+  if (!trimmed) return 'Please enter a folder name';
+  if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    return `Folder names can be at most ${MAX_FOLDER_NAME_LENGTH} characters`;
+  }
+  if (trimmed.startsWith('.')) return 'Folder names cannot start with a dot';
+  if (!VALID_NAME_PATTERN.test(trimmed)) {
+    return "Folder names can only contain letters, numbers, spaces and - _ . ! ' ( ) & $ @ = ; + ,";
+  }
+
+  const lowerName = trimmed.toLowerCase();
+  const isDuplicate = siblings.some(folder =>
+    folder.name.toLowerCase() === lowerName && folder.name !== currentName
+  );
+  if (isDuplicate) return `A folder named "${trimmed}" already exists here`;
+
+  return null;
+};
+
+export const createFolder = async (storage: StorageAdapter, parentPath: string, name: string): Promise<FolderItem> => {
+  const path = joinPath(parentPath, name.trim());
+  await storage.upload(joinPath(path, FOLDER_PLACEHOLDER), new Blob([]), {
+    cacheControl: '3600',
+    upsert: false
+  });
+
+  return { name: name.trim(), path };
+};
+
+export interface StoredObject {
+  path: string;
+  size: number;
+}
+
+// Collects every object below a folder, including placeholders
+export const listObjectsRecursive = async (storage: StorageAdapter, folderPath: string): Promise<StoredObject[]> => {
+  const { folders, objects } = await listFolderAll(storage, folderPath, { includePlaceholders: true });
+  const collected = objects.map(object => ({
+    path: joinPath(folderPath, object.name),
+    size: object.size
+  }));
+
+  for (const folder of folders) {
+    collected.push(...await listObjectsRecursive(storage, folder.path));
+  }
+
+  return collected;
+};
+
+export const listObjectPathsRecursive = async (storage: StorageAdapter, folderPath: string): Promise<string[]> => {
+  return (await listObjectsRecursive(storage, folderPath)).map(object => object.path);
+};
+
+export interface FolderOperationResult {
+  succeeded: string[];
+  failed: { path: string; message: string }[];
+}
+
+// Storage can only move single objects, so renaming a folder moves everything
+// inside it, along with the version history and thumbnails of the files it holds
+export const renameFolder = async (
+  storage: StorageAdapter,
+  folder: FolderItem,
+  newName: string
+): Promise<FolderOperationResult> => {
+  const targetPath = joinPath(getParentPath(folder.path), newName.trim());
+  const result: FolderOperationResult = { succeeded: [], failed: [] };
+  const versionsPath = joinPath(VERSIONS_ROOT, folder.path);
+  const versionsTarget = joinPath(VERSIONS_ROOT, targetPath);
+  const thumbnailsPath = joinPath(THUMBNAILS_ROOT, folder.path);
+  const thumbnailsTarget = joinPath(THUMBNAILS_ROOT, targetPath);
+
+  const moves = [
+    ...(await listObjectPathsRecursive(storage, folder.path)).map(objectPath => ({
+      from: objectPath,
+      to: targetPath + objectPath.slice(folder.path.length)
+    })),
+    ...(await listObjectPathsRecursive(storage, versionsPath)).map(objectPath => ({
+      from: objectPath,
+      to: versionsTarget + objectPath.slice(versionsPath.length)
+    })),
+    ...(await listObjectPathsRecursive(storage, thumbnailsPath)).map(objectPath => ({
+      from: objectPath,
+      to: thumbnailsTarget + objectPath.slice(thumbnailsPath.length)
+    }))
+  ];
+
+  for (const { from: objectPath, to: destination } of moves) {
+    try {
+      await storage.move(objectPath, destination);
+      result.succeeded.push(destination);
+    } catch (error) {
+      result.failed.push({ path: objectPath, message: error instanceof Error ? error.message : 'Could not move' });
+    }
+  }
+
+  // Everything kept by path follows the objects. Each is tried even if one
+  // fails, and failures are reported, as the folder is then only half renamed.
+  if (result.failed.length === 0) {
+    const recordMoves: [string, (fromPath: string, toPath: string) => Promise<void>][] = [
+      ['tags, comments and links', moveMetadata],
+      ['share links', moveShareLinks],
+      ['permissions', moveFolderPermissions],
+      ['quotas', moveQuotas],
+      ['encryption settings', moveEncryptedFolders]
+    ];
+    for (const [records, move] of recordMoves) {
+      try {
+        await move(folder.path, targetPath);
+      } catch (error) {
+        result.failed.push({
+          path: folder.path,
+          message: `Its ${records} stayed at the old path: ${error instanceof Error ? error.message : 'could not move them'}`
+        });
+      }
+    }
+  }
+
+  return result;
+};
+
+// Deleting a folder sends each file inside it to the trash, so they can be
+// restored one by one, and drops the placeholders that kept the folders alive
+export const deleteFolder = async (
+  storage: StorageAdapter,
+  folder: FolderItem,
+  deletedBy: { id: string; email?: string | null } | null
+): Promise<FolderOperationResult> => {
+  const result: FolderOperationResult = { succeeded: [], failed: [] };
+  const objects = await listObjectsRecursive(storage, folder.path);
+  const placeholders = objects.filter(object => getBaseName(object.path) === FOLDER_PLACEHOLDER);
+  const files = objects.filter(object => getBaseName(object.path) !== FOLDER_PLACEHOLDER);
+
+  for (const file of files) {
+    try {
+      await moveToTrash(storage, file, deletedBy);
+      result.succeeded.push(file.path);
+    } catch (error) {
+      result.failed.push({
+        path: file.path,
+        message: error instanceof Error ? error.message : 'Could not move to trash'
+      });
+    }
+  }
+
+  // Keep the folder around if anything in it couldn't be trashed
+  if (result.failed.length === 0 && placeholders.length > 0) {
+    try {
+      await storage.remove(placeholders.map(placeholder => placeholder.path));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not remove';
+      placeholders.forEach(placeholder => result.failed.push({ path: placeholder.path, message }));
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryStorageAdapter } from './memoryStorageAdapter';
+import { StorageAdapter } from './storageAdapter';
+import { UploadCancelledError } from './uploadWithProgress';
+
+const text = (value: string, type = 'text/plain') => new Blob([value], { type });
+
+const readUrl = async (url: string) => (await fetch(url)).text();
+
+const listAll = (storage: StorageAdapter, prefix: string) => storage.list(prefix, { limit: 100, offset: 0 });
+
+// What FileManager relies on from any StorageAdapter, checked against the
+// in-memory one
+describe('createMemoryStorageAdapter', () => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    storage = createMemoryStorageAdapter({
+      'docs/b.txt': text('bee'),
+      'docs/a.txt': text('a'),
+      'docs/reports/q1.pdf': text('q1', 'application/pdf'),
+      'docs/reports/q2.pdf': text('q2', 'application/pdf'),
+      'readme.md': text('# hi', 'text/markdown')
+    });
+  });
+
+  describe('list', () => {
+    it('returns the direct children of a folder, sorted by name, with folders once', async () => {
+      const entries = await listAll(storage, 'docs');
+
+      expect(entries.map(entry => [entry.name, entry.isFolder])).toEqual([
+        ['a.txt', false],
+        ['b.txt', false],
+        ['reports', true]
+      ]);
+    });
+
+    it('lists the root with an empty prefix', async () => {
+      const entries = await listAll(storage, '');
+
+      expect(entries.map(entry => entry.name)).toEqual(['docs', 'readme.md']);
+    });
+
+    it('reports size, type and timestamps for files', async () => {
+      const [file] = await storage.list('docs/reports', { limit: 1, offset: 0 });
+
+      expect(file).toMatchObject({ name: 'q1.pdf', isFolder: false, id: 'docs/reports/q1.pdf', size: 2, mimeType: 'application/pdf' });
+      expect(Date.parse(file.createdAt!)).not.toBeNaN();
+      expect(Date.parse(file.updatedAt!)).not.toBeNaN();
+    });
+
+    it('pages with limit and offset', async () => {
+      const first = await storage.list('docs', { limit: 2, offset: 0 });
+      const second = await storage.list('docs', { limit: 2, offset: 2 });
+
+      expect(first.map(entry => entry.name)).toEqual(['a.txt', 'b.txt']);
+      expect(second.map(entry => entry.name)).toEqual(['reports']);
+    });
+
+    it('filters by name without regard to case', async () => {
+      const entries = await storage.list('docs', { limit: 100, offset: 0, search: 'REP' });
+
+      expect(entries.map(entry => entry.name)).toEqual(['reports']);
+    });
+
+    it('returns nothing for a folder that does not exist', async () => {
+      expect(await listAll(storage, 'missing')).toEqual([]);
+    });
+
+    it('does not treat a name that merely starts with the prefix as inside it', async () => {
+      await storage.upload('docs-old/c.txt', text('c'));
+
+      expect((await listAll(storage, 'docs')).map(entry => entry.name)).not.toContain('c.txt');
+    });
+  });
+
+  describe('upload', () => {
+    it('stores the body and reports progress', async () => {
+      const progress: [number, number][] = [];
+
+      await storage.upload('new/file.txt', text('hello'), { onProgress: (loaded, total) => progress.push([loaded, total]) });
+
+      expect(await readUrl(await storage.getUrl('new/file.txt'))).toBe('hello');
+      expect(progress).toEqual([[5, 5]]);
+    });
+
+    it('refuses to overwrite unless upsert is set', async () => {
+      await expect(storage.upload('docs/a.txt', text('again'))).rejects.toThrow('already exists');
+
+      await storage.upload('docs/a.txt', text('again'), { upsert: true });
+      expect(await readUrl(await storage.getUrl('docs/a.txt'))).toBe('again');
+    });
+
+    it('keeps the creation time when a file is overwritten', async () => {
+      const [before] = await storage.list('docs', { limit: 1, offset: 0 });
+
+      await storage.upload('docs/a.txt', text('again'), { upsert: true });
+
+      const [after] = await storage.list('docs', { limit: 1, offset: 0 });
+      expect(after.createdAt).toBe(before.createdAt);
+    });
+
+    it('applies the content type it is given', async () => {
+      await storage.upload('data.bin', text('{}'), { contentType: 'application/json' });
+
+      const entries = await listAll(storage, '');
+      expect(entries.find(entry => entry.name === 'data.bin')?.mimeType).toBe('application/json');
+    });
+
+    it('throws UploadCancelledError when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(storage.upload('new.txt', text('x'), { signal: controller.signal })).rejects.toBeInstanceOf(UploadCancelledError);
+      expect((await listAll(storage, '')).map(entry => entry.name)).not.toContain('new.txt');
+    });
+  });
+
+  describe('remove', () => {
+    it('deletes the given objects and ignores ones that are missing', async () => {
+      await storage.remove(['docs/a.txt', 'docs/missing.txt']);
+
+      expect((await listAll(storage, 'docs')).map(entry => entry.name)).toEqual(['b.txt', 'reports']);
+      await expect(storage.getUrl('docs/a.txt')).rejects.toThrow();
+    });
+
+    it('makes a folder disappear once its last object is gone', async () => {
+      await storage.remove(['docs/reports/q1.pdf', 'docs/reports/q2.pdf']);
+
+      expect((await listAll(storage, 'docs')).map(entry => entry.name)).toEqual(['a.txt', 'b.txt']);
+    });
+  });
+
+  describe('move', () => {
+    it('moves the object to its new path', async () => {
+      await storage.move('docs/a.txt', 'archive/a.txt');
+
+      expect((await listAll(storage, 'docs')).map(entry => entry.name)).not.toContain('a.txt');
+      expect(await readUrl(await storage.getUrl('archive/a.txt'))).toBe('a');
+    });
+
+    it('refuses to overwrite an existing object', async () => {
+      await expect(storage.move('docs/a.txt', 'docs/b.txt')).rejects.toThrow('already exists');
+      expect(await readUrl(await storage.getUrl('docs/a.txt'))).toBe('a');
+    });
+
+    it('throws when the source does not exist', async () => {
+      await expect(storage.move('docs/missing.txt', 'docs/c.txt')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('copy', () => {
+    it('copies the object and leaves the source in place', async () => {
+      await storage.copy('docs/b.txt', 'docs/c.txt');
+
+      expect(await readUrl(await storage.getUrl('docs/b.txt'))).toBe('bee');
+      expect(await readUrl(await storage.getUrl('docs/c.txt'))).toBe('bee');
+    });
+
+    it('refuses to overwrite an existing object', async () => {
+      await expect(storage.copy('docs/a.txt', 'docs/b.txt')).rejects.toThrow('already exists');
+    });
+
+    it('throws when the source does not exist', async () => {
+      await expect(storage.copy('docs/missing.txt', 'docs/c.txt')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('getUrl', () => {
+    it('returns the same URL until the object changes', async () => {
+      const first = await storage.getUrl('docs/a.txt');
+      expect(await storage.getUrl('docs/a.txt')).toBe(first);
+
+      await storage.upload('docs/a.txt', text('changed'), { upsert: true });
+
+      const changed = await storage.getUrl('docs/a.txt');
+      expect(changed).not.toBe(first);
+      expect(await readUrl(changed)).toBe('changed');
+    });
+
+    it('throws for a missing object', async () => {
+      await expect(storage.getUrl('docs/missing.txt')).rejects.toThrow('not found');
+    });
+
+    it('signs many at once, with null for missing objects', async () => {
+      const urls = await storage.getUrls!(['docs/a.txt', 'docs/missing.txt', 'readme.md']);
+
+      expect(urls[1]).toBeNull();
+      expect(await readUrl(urls[0]!)).toBe('a');
+      expect(await readUrl(urls[2]!)).toBe('# hi');
+    });
+  });
+});
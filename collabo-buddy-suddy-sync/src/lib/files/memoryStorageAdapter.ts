@@ -0,0 +1,112 @@
+import { StorageAdapter, StorageEntry } from './storageAdapter';
+import { UploadCancelledError } from './uploadWithProgress';
+
+interface MemoryObject {
+  body: Blob;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Keeps every object in a Map for the life of the page, for tests and demos
+// that shouldn't need a backend. `initialFiles` maps paths to their contents.
+// URLs are object URLs, so a download name is not applied.
+export const createMemoryStorageAdapter = (initialFiles: Record<string, Blob> = {}): StorageAdapter => {
+  const objects = new Map<string, MemoryObject>();
+  // One object URL per path, revoked when the object changes or goes away
+  const urls = new Map<string, string>();
+
+  const now = () => new Date().toISOString();
+
+  const forgetUrl = (path: string) => {
+    const url = urls.get(path);
+    if (url) URL.revokeObjectURL(url);
+    urls.delete(path);
+  };
+
+  const put = (path: string, body: Blob) => {
+    const existing = objects.get(path);
+    forgetUrl(path);
+    objects.set(path, { body, createdAt: existing?.createdAt || now(), updatedAt: now() });
+  };
+
+  const get = (path: string): MemoryObject => {
+    const object = objects.get(path);
+    if (!object) throw new Error('Object not found');
+    return object;
+  };
+
+  Object.entries(initialFiles).forEach(([path, body]) => put(path, body));
+
+  const getUrl = async (path: string) => {
+    const object = get(path);
+    let url = urls.get(path);
+    if (!url) {
+      url = URL.createObjectURL(object.body);
+      urls.set(path, url);
+    }
+    return url;
+  };
+
+  return {
+    list: async (prefix, { limit, offset, search }) => {
+      const start = prefix ? `${prefix}/` : '';
+      const entries = new Map<string, StorageEntry>();
+
+      objects.forEach((object, path) => {
+        if (!path.startsWith(start)) return;
+        const [name, ...rest] = path.slice(start.length).split('/');
+        if (entries.has(name)) return;
+        entries.set(name, rest.length > 0
+          ? { name, isFolder: true, size: 0 }
+          : {
+              name,
+              isFolder: false,
+              id: path,
+              size: object.body.size,
+              mimeType: object.body.type || null,
+              createdAt: object.createdAt,
+              updatedAt: object.updatedAt
+            });
+      });
+
+      const needle = search?.toLowerCase();
+      return [...entries.values()]
+        .filter(entry => !needle || entry.name.toLowerCase().includes(needle))
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .slice(offset, offset + limit);
+    },
+
+    upload: async (path, body, { upsert = false, contentType, signal, onProgress } = {}) => {
+      if (signal?.aborted) throw new UploadCancelledError();
+      if (!upsert && objects.has(path)) throw new Error('The resource already exists');
+
+      put(path, contentType && contentType !== body.type ? new Blob([body], { type: contentType }) : body);
+      onProgress?.(body.size, body.size);
+    },
+
+    remove: async (paths) => {
+      paths.forEach(path => {
+        forgetUrl(path);
+        objects.delete(path);
+      });
+    },
+
+    move: async (fromPath, toPath) => {
+      const object = get(fromPath);
+      if (objects.has(toPath)) throw new Error('The resource already exists');
+      forgetUrl(fromPath);
+      objects.delete(fromPath);
+      objects.set(toPath, { ...object, updatedAt: now() });
+    },
+
+    copy: async (fromPath, toPath) => {
+      const { body } = get(fromPath);
+      if (objects.has(toPath)) throw new Error('The resource already exists');
+      put(toPath, body);
+    },
+
+    getUrl,
+
+    getUrls: async (paths) => Promise.all(paths.map(path => getUrl(path).catch(() => null)))
+  };
+};
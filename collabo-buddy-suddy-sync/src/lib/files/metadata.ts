@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FileEncryption } from './types';
+
+// Thrown once a file has moved but details kept by its path (tags, comments,
+// links, share links) didn't follow it. `path` is where the file is now, so
+// callers can show it there while still reporting the failure.
+export class PartialMoveError extends Error {
+  constructor(public readonly path: string, cause: unknown) {
+    const reason = cause && typeof cause === 'object' && 'message' in cause ? String(cause.message) : 'Unknown error';
+    super(`The file was moved, but its tags, comments and links stayed at the old path: ${reason}`);
+    this.name = 'PartialMoveError';
+  }
+}
+
+export interface FileMetadata {
+  path: string;
+  uploadedBy: string | null;
+  uploadedByEmail: string | null;
+  tags: string[];
+  description: string;
+  customFields: Record<string, string>;
+  encryption: FileEncryption | null;
+  // SHA-256 of the contents, for duplicate detection; see contentHash
+  contentHash: string | null;
+  contentSize: number | null;
+  // Set when the file is a link to another file holding its contents
+  linkTarget: string | null;
+}
+
+export type FileMetadataChanges = Partial<Pick<FileMetadata, 'tags' | 'description' | 'customFields'>>;
+
+interface FileMetadataRow {
+  path: string;
+  uploaded_by: string | null;
+  uploaded_by_email: string | null;
+  tags: string[] | null;
+  description: string | null;
+  custom_fields: Record<string, string> | null;
+  encryption_folder_id: string | null;
+  encryption_key_version: number | null;
+  content_hash: string | null;
+  content_size: number | null;
+  link_target: string | null;
+}
+
+// Keeps `.in()` filters well under URL length limits
+const PATH_BATCH_SIZE = 100;
+
+const fromRow = (row: FileMetadataRow): FileMetadata => ({
+  path: row.path,
+  uploadedBy: row.uploaded_by,
+  uploadedByEmail: row.uploaded_by_email,
+  tags: row.tags || [],
+  description: row.description || '',
+  customFields: row.custom_fields || {},
+  encryption: row.encryption_folder_id
+    ? { folderId: row.encryption_folder_id, keyVersion: row.encryption_key_version || 1 }
+    : null,
+  contentHash: row.content_hash,
+  contentSize: row.content_size,
+  linkTarget: row.link_target
+});
+
+export const fetchMetadata = async (paths: string[]): Promise<Map<string, FileMetadata>> => {
+  const metadata = new Map<string, FileMetadata>();
+
+  for (let i = 0; i < paths.length; i += PATH_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('file_metadata')
+      .select('path, uploaded_by, uploaded_by_email, tags, description, custom_fields, encryption_folder_id, encryption_key_version, content_hash, content_size, link_target')
+      .in('path', paths.slice(i, i + PATH_BATCH_SIZE));
+
+    if (error) throw error;
+    (data as FileMetadataRow[] || []).forEach(row => metadata.set(row.path, fromRow(row)));
+  }
+
+  return metadata;
+};
+
+// Records who uploaded a file. Tags and description survive a replace because
+// only the uploader columns are written.
+export const recordUpload = async (path: string, uploader: { id: string; email?: string | null }) => {
+  const { error } = await supabase
+    .from('file_metadata')
+    .upsert({
+      path,
+      uploaded_by: uploader.id,
+      uploaded_by_email: uploader.email || null
+    }, { onConflict: 'path' });
+
+  if (error) throw error;
+};
+
+// Records which key a file was encrypted with, or that it is a plain file.
+// Encrypted files drop any content hash, which would give their contents away.
+export const recordEncryption = async (path: string, encryption: FileEncryption | null) => {
+  const { error } = await supabase
+    .from('file_metadata')
+    .upsert({
+      path,
+      encryption_folder_id: encryption?.folderId || null,
+      encryption_key_version: encryption?.keyVersion || null,
+      ...(encryption ? { content_hash: null, content_size: null, link_target: null } : {})
+    }, { onConflict: 'path' });
+
+  if (error) throw error;
+};
+
+// Paths of every encrypted file, for jobs that read file contents and have
+// to leave those alone
+export const listEncryptedPaths = async (): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .select('path')
+    .not('encryption_folder_id', 'is', null);
+
+  if (error) throw error;
+  return new Set((data as { path: string }[] || []).map(row => row.path));
+};
+
+// Updates the row if there is one. Files uploaded before metadata existed get a
+// new row with no uploader, rather than crediting whoever edited them first.
+export const updateMetadata = async (path: string, changes: FileMetadataChanges): Promise<void> => {
+  const row: Partial<FileMetadataRow> = {};
+  if (changes.tags !== undefined) row.tags = changes.tags;
+  if (changes.description !== undefined) row.description = changes.description;
+  if (changes.customFields !== undefined) row.custom_fields = changes.customFields;
+
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .update(row)
+    .eq('path', path)
+    .select('path');
+
+  if (error) throw error;
+  if (data && data.length > 0) return;
+
+  const { error: insertError } = await supabase
+    .from('file_metadata')
+    .insert({ ...row, path, uploaded_by: null });
+
+  if (insertError) throw insertError;
+};
+
+// Gives a duplicated file the same tags, description, custom fields,
+// encryption and content hash. The copy is credited to whoever made it.
+export const copyMetadata = async (
+  fromPath: string,
+  toPath: string,
+  copiedBy: { id: string; email?: string | null } | null
+) => {
+  const source = (await fetchMetadata([fromPath])).get(fromPath);
+
+  const { error } = await supabase
+    .from('file_metadata')
+    .upsert({
+      path: toPath,
+      uploaded_by: copiedBy?.id || null,
+      uploaded_by_email: copiedBy?.email || null,
+      tags: source?.tags || [],
+      description: source?.description || null,
+      custom_fields: source?.customFields || {},
+      encryption_folder_id: source?.encryption?.folderId || null,
+      encryption_key_version: source?.encryption?.keyVersion || null,
+      content_hash: source?.contentHash || null,
+      content_size: source?.contentSize ?? null,
+      link_target: source?.linkTarget || null
+    }, { onConflict: 'path' });
+
+  if (error) throw error;
+};
+
+// Both helpers accept a file path or a folder path (which covers everything below it)
+export const moveMetadata = async (fromPath: string, toPath: string) => {
+  const { error } = await supabase.rpc('move_file_metadata', { from_path: fromPath, to_path: toPath });
+  if (error) throw error;
+};
+
+export const deleteMetadata = async (path: string) => {
+  const { error } = await supabase.rpc('delete_file_metadata', { target_path: path });
+  if (error) throw error;
+};
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ').toLowerCase();
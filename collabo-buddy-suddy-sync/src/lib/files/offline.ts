@@ -0,0 +1,159 @@
+import { FileItem, FolderItem } from './types';
+import { FolderRole } from './permissions';
+import { StorageAdapter } from './storageAdapter';
+import { findFileObject, findAvailableName } from './storage';
+import { getParentPath, getBaseName, joinPath } from './paths';
+
+// What FileManager keeps in IndexedDB so it stays usable without a connection:
+// the last listing of each folder opened, the user's role on it, and uploads
+// and deletes made while offline, waiting to be replayed. Everything is keyed
+// by user, so people sharing a browser don't see each other's copies.
+
+const DB_NAME = 'file-manager-offline';
+const DB_VERSION = 1;
+const LISTINGS_STORE = 'listings';
+const ROLES_STORE = 'roles';
+const OPERATIONS_STORE = 'operations';
+
+export interface CachedListing {
+  folders: FolderItem[];
+  // Only the first page of a large folder is kept
+  files: FileItem[];
+  cachedAt: Date;
+}
+
+export type OfflineChange =
+  | { kind: 'upload'; path: string; file: File }
+  // `uploadedAt` is the updatedAt storage reported for the file when it was deleted
+  | { kind: 'delete'; path: string; size: number; uploadedAt: Date };
+
+export type OfflineOperation = OfflineChange & {
+  id: string;
+  userId: string;
+  queuedAt: Date;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(LISTINGS_STORE);
+        request.result.createObjectStore(ROLES_STORE);
+        request.result.createObjectStore(OPERATIONS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user frees up space
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getCacheKey = (userId: string, path: string) => `${userId}:${path}`;
+
+export const cacheListing = async (userId: string, path: string, listing: Omit<CachedListing, 'cachedAt'>) => {
+  const entry: CachedListing = { ...listing, cachedAt: new Date() };
+  await runRequest(LISTINGS_STORE, 'readwrite', store => store.put(entry, getCacheKey(userId, path)));
+};
+
+export const readCachedListing = async (userId: string, path: string): Promise<CachedListing | null> => {
+  const entry = await runRequest<CachedListing | undefined>(
+    LISTINGS_STORE,
+    'readonly',
+    store => store.get(getCacheKey(userId, path))
+  );
+  return entry || null;
+};
+
+// Keeps the saved listing in step with a delete made offline, so the file
+// doesn't reappear when the folder is opened again
+export const removeFromCachedListing = async (userId: string, filePath: string) => {
+  const folderPath = getParentPath(filePath);
+  const listing = await readCachedListing(userId, folderPath);
+  if (!listing) return;
+
+  await runRequest(LISTINGS_STORE, 'readwrite', store => store.put(
+    { ...listing, files: listing.files.filter(file => (file.path || file.name) !== filePath) },
+    getCacheKey(userId, folderPath)
+  ));
+};
+
+export const cacheFolderRole = async (userId: string, path: string, role: FolderRole | null) => {
+  await runRequest(ROLES_STORE, 'readwrite', store => store.put(role, getCacheKey(userId, path)));
+};
+
+export const readCachedFolderRole = async (userId: string, path: string): Promise<FolderRole | null> => {
+  const role = await runRequest<FolderRole | null | undefined>(
+    ROLES_STORE,
+    'readonly',
+    store => store.get(getCacheKey(userId, path))
+  );
+  return role || null;
+};
+
+export const queueOfflineOperation = async (operation: OfflineOperation) => {
+  await runRequest(OPERATIONS_STORE, 'readwrite', store => store.put(operation));
+};
+
+// Oldest first, the order they are replayed in
+export const listOfflineOperations = async (userId: string): Promise<OfflineOperation[]> => {
+  const operations = await runRequest<OfflineOperation[]>(OPERATIONS_STORE, 'readonly', store => store.getAll());
+  return operations
+    .filter(operation => operation.userId === userId)
+    .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime());
+};
+
+export const removeOfflineOperation = async (id: string) => {
+  await runRequest(OPERATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export type ReplayPlan =
+  | { action: 'upload'; path: string; conflict: string | null }
+  | { action: 'delete' }
+  | { action: 'skip'; conflict: string };
+
+// Decides what a queued operation should do now that storage can be reached,
+// given what others may have changed in the meantime. An upload whose name
+// was taken keeps both files; a delete of a file that changed is dropped.
+export const planReplay = async (storage: StorageAdapter, operation: OfflineOperation): Promise<ReplayPlan> => {
+  const folderPath = getParentPath(operation.path);
+  const name = getBaseName(operation.path);
+  const current = await findFileObject(storage, folderPath, name);
+
+  if (operation.kind === 'upload') {
+    if (!current) return { action: 'upload', path: operation.path, conflict: null };
+    const availableName = await findAvailableName(storage, folderPath, name, new Set([name]));
+    return {
+      action: 'upload',
+      path: joinPath(folderPath, availableName),
+      conflict: `A file named "${name}" already exists, so yours was uploaded as "${availableName}"`
+    };
+  }
+
+  if (!current) {
+    return { action: 'skip', conflict: `"${name}" had already been moved or deleted` };
+  }
+  if (current.updatedAt && new Date(current.updatedAt).getTime() !== operation.uploadedAt.getTime()) {
+    return { action: 'skip', conflict: `"${name}" was changed while you were offline, so it was kept` };
+  }
+  return { action: 'delete' };
+};
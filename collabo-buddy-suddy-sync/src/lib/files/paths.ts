@@ -0,0 +1,47 @@
+// Helpers for working with slash-separated storage paths. The bucket root is ''.
+
+// Characters we allow in names the user types for files and folders; a safe
+// subset of what Supabase Storage accepts in object keys
+export const VALID_NAME_PATTERN = /^[\w\-.!'()&$@=;+, ]+$/;
+
+export const joinPath = (...parts: string[]): string => {
+  return parts
+    .flatMap(part => part.split('/'))
+    .filter(Boolean)
+    .join('/');
+};
+
+export const getPathSegments = (path: string): string[] => {
+  return path.split('/').filter(Boolean);
+};
+
+export const getParentPath = (path: string): string => {
+  return getPathSegments(path).slice(0, -1).join('/');
+};
+
+export const getBaseName = (path: string): string => {
+  const segments = getPathSegments(path);
+  return segments[segments.length - 1] || '';
+};
+
+// Returns true when `path` is `ancestor` itself or lives somewhere below it
+export const isSameOrDescendant = (path: string, ancestor: string): boolean => {
+  if (!ancestor) return true;
+  return path === ancestor || path.startsWith(`${ancestor}/`);
+};
+
+// Picks "name (1).ext", "name (2).ext", ... until it doesn't clash with `taken`
+export const getAvailableName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) return name;
+
+  const dotIndex = name.lastIndexOf('.');
+  const hasExtension = dotIndex > 0;
+  const base = hasExtension ? name.slice(0, dotIndex) : name;
+  const extension = hasExtension ? name.slice(dotIndex) : '';
+
+  let counter = 1;
+  while (taken.has(`${base} (${counter})${extension}`)) {
+    counter += 1;
+  }
+  return `${base} (${counter})${extension}`;
+};
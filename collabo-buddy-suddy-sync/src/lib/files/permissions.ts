@@ -0,0 +1,145 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getPathSegments } from './paths';
+
+// Roles come from folder_permissions and are enforced by RLS on storage and the
+// file tables; see the folder_permissions migration. The client only uses them
+// to decide which actions to offer.
+
+export type FolderRole = 'viewer' | 'editor' | 'owner';
+
+export const FOLDER_ROLES: FolderRole[] = ['viewer', 'editor', 'owner'];
+
+const ROLE_RANK: Record<FolderRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export const hasRole = (role: FolderRole | null, required: FolderRole): boolean => {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+};
+
+export interface FolderPermission {
+  id: string;
+  folderPath: string;
+  userId: string | null;
+  teamId: string | null;
+  principalLabel: string;
+  role: FolderRole;
+  createdAt: Date;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+}
+
+export type PermissionPrincipal =
+  | { type: 'user'; email: string }
+  | { type: 'team'; team: Team };
+
+interface FolderPermissionRow {
+  id: string;
+  folder_path: string;
+  user_id: string | null;
+  team_id: string | null;
+  principal_label: string;
+  role: FolderRole;
+  created_at: string;
+}
+
+const fromRow = (row: FolderPermissionRow): FolderPermission => ({
+  id: row.id,
+  folderPath: row.folder_path,
+  userId: row.user_id,
+  teamId: row.team_id,
+  principalLabel: row.principal_label,
+  role: row.role,
+  createdAt: new Date(row.created_at)
+});
+
+// The current user's role on a folder, or null when they can't access it
+export const fetchFolderRole = async (folderPath: string): Promise<FolderRole | null> => {
+  const { data, error } = await supabase.rpc('file_folder_role', { target_path: folderPath });
+  if (error) throw error;
+  return (data as FolderRole | null) || null;
+};
+
+// Grants on the folder itself and on every folder above it, since those apply too
+export const listFolderPermissions = async (folderPath: string): Promise<FolderPermission[]> => {
+  const segments = getPathSegments(folderPath);
+  const ancestorPaths = ['', ...segments.map((_, index) => segments.slice(0, index + 1).join('/'))];
+
+  const { data, error } = await supabase
+    .from('folder_permissions')
+    .select('id, folder_path, user_id, team_id, principal_label, role, created_at')
+    .in('folder_path', ancestorPaths)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as FolderPermissionRow[] || []).map(fromRow);
+};
+
+export const listTeams = async (): Promise<Team[]> => {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('id, name')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data as Team[]) || [];
+};
+
+export const findUserIdByEmail = async (email: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('find_user_id_by_email', { user_email: email });
+  if (error) throw error;
+  if (!data) throw new Error(`No user with the email ${email}`);
+  return data as string;
+};
+
+// Adds a grant. The first grant on an open folder restricts it to whoever has
+// grants, so the person adding it is made an owner first to keep them in.
+export const grantFolderPermission = async (
+  folderPath: string,
+  principal: PermissionPrincipal,
+  role: FolderRole,
+  grantedBy: { id: string; email?: string | null }
+): Promise<void> => {
+  const existing = await listFolderPermissions(folderPath);
+  const userId = principal.type === 'user' ? await findUserIdByEmail(principal.email.trim()) : null;
+
+  if (existing.length === 0 && userId !== grantedBy.id) {
+    const { error } = await supabase.from('folder_permissions').insert({
+      folder_path: folderPath,
+      user_id: grantedBy.id,
+      principal_label: grantedBy.email || grantedBy.id,
+      role: 'owner'
+    });
+    if (error) throw error;
+  }
+
+  const { error } = await supabase.from('folder_permissions').insert({
+    folder_path: folderPath,
+    user_id: userId,
+    team_id: principal.type === 'team' ? principal.team.id : null,
+    principal_label: principal.type === 'user' ? principal.email.trim() : principal.team.name,
+    role
+  });
+
+  if (error) {
+    if (error.code === '23505') throw new Error('They already have a role on this folder');
+    throw error;
+  }
+};
+
+export const updateFolderPermission = async (id: string, role: FolderRole) => {
+  const { error } = await supabase.from('folder_permissions').update({ role }).eq('id', id);
+  if (error) throw error;
+};
+
+export const revokeFolderPermission = async (id: string) => {
+  const { error } = await supabase.from('folder_permissions').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Keeps grants attached to a folder that is being renamed
+export const moveFolderPermissions = async (fromPath: string, toPath: string) => {
+  const { error } = await supabase.rpc('move_folder_permissions', { from_path: fromPath, to_path: toPath });
+  if (error) throw error;
+};
@@ -0,0 +1,265 @@
+import { getFileExtension } from './fileTypes';
+
+// Content previews read at most a leading chunk of the file through its signed
+// URL (storage honours Range requests), so a 2 GB log opens as fast as a note.
+
+export type ContentPreviewKind = 'code' | 'text' | 'markdown' | 'table' | 'spreadsheet' | 'zip';
+
+export const TEXT_PREVIEW_BYTES = 256 * 1024;
+// Workbooks are zip files that have to be read whole, so big ones are skipped
+export const SPREADSHEET_PREVIEW_MAX_BYTES = 10 * 1024 * 1024;
+export const MAX_TABLE_ROWS = 500;
+// The central directory of a zip sits at its end; this covers most archives
+const ZIP_TAIL_BYTES = 64 * 1024;
+const ZIP_MAX_DIRECTORY_BYTES = 4 * 1024 * 1024;
+
+// highlight.js language for each extension that gets a code preview
+const CODE_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  html: 'xml',
+  xml: 'xml',
+  css: 'css',
+  scss: 'scss',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  py: 'python',
+  sql: 'sql',
+  sh: 'bash',
+  php: 'php',
+  rb: 'ruby',
+  go: 'go',
+  java: 'java',
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  cs: 'csharp',
+  rs: 'rust',
+  ini: 'ini',
+  toml: 'ini'
+};
+
+const TEXT_EXTENSIONS = ['txt', 'log', 'env', 'gitignore'];
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+const TABLE_EXTENSIONS = ['csv', 'tsv'];
+const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'ods'];
+
+export const getCodeLanguage = (fileName: string): string | null => {
+  return CODE_LANGUAGES[getFileExtension(fileName)] || null;
+};
+
+export const getContentPreviewKind = (fileName: string): ContentPreviewKind | null => {
+  const extension = getFileExtension(fileName);
+  if (MARKDOWN_EXTENSIONS.includes(extension)) return 'markdown';
+  if (TABLE_EXTENSIONS.includes(extension)) return 'table';
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) return 'spreadsheet';
+  if (extension === 'zip') return 'zip';
+  if (CODE_LANGUAGES[extension]) return 'code';
+  if (TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+};
+
+export interface FileChunk {
+  bytes: Uint8Array;
+  // The file goes on past the chunk
+  isTruncated: boolean;
+}
+
+// Reads up to `maxBytes` from the start of a file. Servers that ignore Range
+// send the whole body, so the stream is cut off by hand in that case.
+export const fetchFileChunk = async (url: string, maxBytes: number): Promise<FileChunk> => {
+  const response = await fetch(url, { headers: { Range: `bytes=0-${maxBytes - 1}` } });
+  if (!response.ok) throw new Error(`Could not read the file (${response.status})`);
+
+  const totalSize = getTotalSize(response);
+  if (response.status === 206 || !response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer()).slice(0, maxBytes);
+    return { bytes, isTruncated: totalSize !== null ? totalSize > bytes.length : bytes.length >= maxBytes };
+  }
+
+  const reader = response.body.getReader();
+  const bytes = new Uint8Array(maxBytes);
+  let received = 0;
+  let isTruncated = false;
+  while (!isTruncated) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const room = maxBytes - received;
+    bytes.set(value.subarray(0, room), received);
+    received += Math.min(value.length, room);
+    isTruncated = value.length > room;
+  }
+  if (isTruncated) reader.cancel();
+
+  return { bytes: bytes.slice(0, received), isTruncated };
+};
+
+// "bytes 0-99/1234" -> 1234
+const getTotalSize = (response: Response): number | null => {
+  const range = response.headers.get('Content-Range');
+  const total = range?.split('/')[1];
+  return total && total !== '*' ? Number(total) : null;
+};
+
+export interface TextPreview {
+  text: string;
+  isTruncated: boolean;
+}
+
+// The first chunk as text. A cut-off chunk ends at the last full line, so
+// neither a character nor a CSV row is shown half-read.
+export const fetchTextPreview = async (url: string, maxBytes = TEXT_PREVIEW_BYTES): Promise<TextPreview> => {
+  const { bytes, isTruncated } = await fetchFileChunk(url, maxBytes);
+  let text = new TextDecoder('utf-8').decode(bytes, { stream: isTruncated });
+
+  if (isTruncated) {
+    const lastNewline = text.lastIndexOf('\n');
+    if (lastNewline > 0) text = text.slice(0, lastNewline);
+  }
+  return { text, isTruncated };
+};
+
+// Splits delimited text into rows, following RFC 4180 quoting
+export const parseDelimited = (text: string, delimiter: string, maxRows = MAX_TABLE_ROWS + 1): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export interface SheetPreview {
+  name: string;
+  rows: string[][];
+}
+
+// Reads every sheet of a workbook, keeping the first MAX_TABLE_ROWS rows of each
+export const fetchSpreadsheetPreview = async (url: string): Promise<SheetPreview[]> => {
+  const [XLSX, response] = await Promise.all([import('xlsx'), fetch(url)]);
+  if (!response.ok) throw new Error(`Could not read the file (${response.status})`);
+
+  const workbook = XLSX.read(await response.arrayBuffer(), { type: 'array', sheetRows: MAX_TABLE_ROWS + 1 });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '' })
+  }));
+};
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  compressedSize: number;
+  modifiedAt: Date | null;
+  isDirectory: boolean;
+}
+
+const fetchRange = async (url: string, start: number, end: number): Promise<DataView> => {
+  const response = await fetch(url, { headers: { Range: `bytes=${start}-${end - 1}` } });
+  if (response.status !== 206) throw new Error('The server does not support partial downloads');
+  return new DataView(await response.arrayBuffer());
+};
+
+// MS-DOS date and time fields, as stored in zip headers
+const fromDosDateTime = (date: number, time: number): Date | null => {
+  if (date === 0) return null;
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+};
+
+// Lists a zip's contents from its central directory alone, which is read with
+// range requests from the end of the file; the entries are never downloaded.
+export const fetchZipListing = async (url: string, fileSize: number): Promise<ZipEntry[]> => {
+  if (fileSize < 22) throw new Error('This does not look like a zip archive');
+  const tailStart = Math.max(0, fileSize - ZIP_TAIL_BYTES);
+  const tail = await fetchRange(url, tailStart, fileSize);
+
+  // End of central directory record: signature 0x06054b50, at least 22 bytes
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('This does not look like a zip archive');
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('Listing ZIP64 archives is not supported');
+  }
+  if (directorySize > ZIP_MAX_DIRECTORY_BYTES) throw new Error('This archive has too many entries to list');
+
+  const directory = directoryOffset >= tailStart
+    ? new DataView(tail.buffer, tail.byteOffset + directoryOffset - tailStart, directorySize)
+    : await fetchRange(url, directoryOffset, directoryOffset + directorySize);
+
+  const entries: ZipEntry[] = [];
+  const utf8 = new TextDecoder('utf-8');
+  // Browsers can't decode the DOS code page old tools used; this matches it for ASCII
+  const legacy = new TextDecoder('windows-1252');
+  let offset = 0;
+  while (offset + 46 <= directory.byteLength && directory.getUint32(offset, true) === 0x02014b50) {
+    const flags = directory.getUint16(offset + 8, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength);
+    // Bit 11 marks UTF-8 names
+    const name = (flags & 0x800 ? utf8 : legacy).decode(nameBytes);
+
+    entries.push({
+      name,
+      compressedSize: directory.getUint32(offset + 20, true),
+      size: directory.getUint32(offset + 24, true),
+      modifiedAt: fromDosDateTime(directory.getUint16(offset + 14, true), directory.getUint16(offset + 12, true)),
+      isDirectory: name.endsWith('/')
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import { findUserIdByEmail } from './permissions';
+
+// Quotas live in storage_quotas; see the storage_usage_and_quotas migration.
+// They are checked here, before an upload is queued, and not by storage itself.
+
+export type QuotaScope =
+  | { type: 'folder'; folderPath: string }
+  | { type: 'user'; email: string };
+
+export interface StorageQuota {
+  id: string;
+  // Set for folder quotas; '' is the whole bucket
+  folderPath: string | null;
+  // Set for per-user quotas
+  userId: string | null;
+  label: string;
+  maxBytes: number;
+  warnPercent: number;
+}
+
+export interface QuotaUsage extends StorageQuota {
+  usedBytes: number;
+}
+
+export type QuotaLevel = 'ok' | 'warning' | 'exceeded';
+
+interface QuotaUsageRow {
+  id: string;
+  folder_path: string | null;
+  user_id: string | null;
+  label: string;
+  max_bytes: number;
+  warn_percent: number;
+  used_bytes: number;
+}
+
+const fromRow = (row: QuotaUsageRow): QuotaUsage => ({
+  id: row.id,
+  folderPath: row.folder_path,
+  userId: row.user_id,
+  label: row.label,
+  maxBytes: Number(row.max_bytes),
+  warnPercent: row.warn_percent,
+  usedBytes: Number(row.used_bytes) || 0
+});
+
+// Every quota with its usage, or with `folderPath` and `userId` just the ones
+// an upload there by that user counts against. Usage is summed from
+// storage.objects, so it only counts files in Supabase Storage.
+export const fetchQuotaUsage = async (folderPath?: string, userId?: string): Promise<QuotaUsage[]> => {
+  const { data, error } = await supabase.rpc('get_quota_usage', {
+    target_folder: folderPath ?? null,
+    uploader: userId ?? null
+  });
+  if (error) throw error;
+  return (data as QuotaUsageRow[] || []).map(fromRow);
+};
+
+export const getQuotaLevel = (quota: QuotaUsage, addedBytes = 0): QuotaLevel => {
+  const used = quota.usedBytes + addedBytes;
+  if (used > quota.maxBytes) return 'exceeded';
+  if (used >= quota.maxBytes * (quota.warnPercent / 100)) return 'warning';
+  return 'ok';
+};
+
+export const describeQuota = (quota: StorageQuota): string => {
+  if (quota.userId) return `Uploads by ${quota.label}`;
+  return quota.folderPath ? `Folder ${quota.label}` : 'All files';
+};
+
+export interface QuotaCheck {
+  // Quotas the upload would go over
+  exceeded: QuotaUsage[];
+  // Quotas the upload would bring close to their limit
+  warnings: QuotaUsage[];
+}
+
+// How adding `addedBytes` would sit against the applicable quotas. Replaced
+// files are counted in full, which errs on the side of warning.
+export const checkQuotas = (quotas: QuotaUsage[], addedBytes: number): QuotaCheck => {
+  return {
+    exceeded: quotas.filter(quota => getQuotaLevel(quota, addedBytes) === 'exceeded'),
+    warnings: quotas.filter(quota => getQuotaLevel(quota, addedBytes) === 'warning')
+  };
+};
+
+export const setQuota = async (scope: QuotaScope, maxBytes: number, warnPercent: number): Promise<void> => {
+  const userId = scope.type === 'user' ? await findUserIdByEmail(scope.email.trim()) : null;
+
+  const { error } = await supabase.from('storage_quotas').insert({
+    folder_path: scope.type === 'folder' ? scope.folderPath : null,
+    user_id: userId,
+    label: scope.type === 'folder' ? scope.folderPath || 'Root' : scope.email.trim(),
+    max_bytes: maxBytes,
+    warn_percent: warnPercent
+  });
+
+  if (error) {
+    if (error.code === '23505') throw new Error('There is already a quota for that');
+    throw error;
+  }
+};
+
+export const updateQuota = async (id: string, maxBytes: number, warnPercent: number) => {
+  const { error } = await supabase
+    .from('storage_quotas')
+    .update({ max_bytes: maxBytes, warn_percent: warnPercent })
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const removeQuota = async (id: string) => {
+  const { error } = await supabase.from('storage_quotas').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Keeps quotas attached to a folder that is being renamed
+export const moveQuotas = async (fromPath: string, toPath: string) => {
+  const { error } = await supabase.rpc('move_storage_quotas', { from_path: fromPath, to_path: toPath });
+  if (error) throw error;
+};
@@ -0,0 +1,178 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getParentPath } from './paths';
+
+// Changes are announced by the client that made them. Events only carry paths:
+// whoever receives one looks the file up again, so their own access still
+// decides what they get to see.
+//
+// There is one channel per folder, so events and presence only reach people
+// looking at the folder they concern. The Supabase channels are private and
+// realtime.messages policies only let people with access to a folder join
+// its channel; see the private_file_sync_channels migration.
+export type FileChangeEvent =
+  | { type: 'insert'; path: string }
+  | { type: 'delete'; path: string }
+  | { type: 'rename'; fromPath: string; toPath: string }
+  // Folders were created, renamed or deleted somewhere under `path`
+  | { type: 'folders'; path: string };
+
+export interface FolderViewer {
+  userId: string;
+  email: string;
+  folderPath: string;
+}
+
+// What FileManager needs from a realtime transport, opened for one folder. The
+// Supabase channel is the default; the local one lets tabs in the same browser
+// drive each other.
+export interface FileSyncChannel {
+  // Sent to the channels of the folders the event concerns, which need not
+  // include the one this channel was opened for
+  publish: (event: FileChangeEvent) => void;
+  subscribe: (listener: (event: FileChangeEvent) => void) => () => void;
+  // Announces where this client is; passing null leaves presence
+  setPresence: (viewer: FolderViewer | null) => void;
+  subscribePresence: (listener: (viewers: FolderViewer[]) => void) => () => void;
+  close: () => void;
+}
+
+const SYNC_TOPIC_PREFIX = 'project-files:';
+const CHANGE_EVENT = 'file-change';
+
+const getFolderTopic = (folderPath: string) => `${SYNC_TOPIC_PREFIX}${folderPath}`;
+
+// The folders whose viewers need to hear about an event
+const getEventFolders = (event: FileChangeEvent): string[] => {
+  if (event.type === 'folders') return [event.path];
+  if (event.type === 'rename') return Array.from(new Set([getParentPath(event.fromPath), getParentPath(event.toPath)]));
+  return [getParentPath(event.path)];
+};
+
+// Small pub/sub used by both transports to fan events out to listeners
+const createListeners = <T>() => {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    add: (listener: (value: T) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (value: T) => listeners.forEach(listener => listener(value))
+  };
+};
+
+export const createSupabaseSyncChannel = (folderPath: string): FileSyncChannel => {
+  const changeListeners = createListeners<FileChangeEvent>();
+  const presenceListeners = createListeners<FolderViewer[]>();
+  let isSubscribed = false;
+  let pendingViewer: FolderViewer | null = null;
+
+  const channel = supabase.channel(getFolderTopic(folderPath), {
+    config: { private: true, broadcast: { self: false } }
+  });
+
+  channel
+    .on('broadcast', { event: CHANGE_EVENT }, ({ payload }: { payload: FileChangeEvent }) => {
+      changeListeners.emit(payload);
+    })
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState() as Record<string, FolderViewer[]>;
+      presenceListeners.emit(Object.values(state).flat());
+    })
+    .subscribe((status: string) => {
+      isSubscribed = status === 'SUBSCRIBED';
+      // Presence can only be tracked once the channel has joined
+      if (isSubscribed && pendingViewer) channel.track(pendingViewer);
+    });
+
+  return {
+    publish: (event) => {
+      getEventFolders(event).forEach(eventFolder => {
+        if (eventFolder === folderPath) {
+          channel.send({ type: 'broadcast', event: CHANGE_EVENT, payload: event });
+          return;
+        }
+        // A channel that hasn't joined sends over REST, so nothing stays open
+        const other = supabase.channel(getFolderTopic(eventFolder), { config: { private: true } });
+        other
+          .send({ type: 'broadcast', event: CHANGE_EVENT, payload: event })
+          .finally(() => supabase.removeChannel(other));
+      });
+    },
+    subscribe: changeListeners.add,
+    setPresence: (viewer) => {
+      pendingViewer = viewer;
+      if (!isSubscribed) return;
+      if (viewer) channel.track(viewer);
+      else channel.untrack();
+    },
+    subscribePresence: presenceListeners.add,
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+type LocalSyncMessage =
+  | { kind: 'change'; event: FileChangeEvent }
+  | { kind: 'presence'; clientId: string; viewer: FolderViewer | null }
+  | { kind: 'presence-request' };
+
+// Stand-in for Supabase Realtime that only reaches other tabs of this browser.
+// Useful for local development and for storage backends without realtime.
+export const createLocalSyncChannel = (folderPath: string): FileSyncChannel => {
+  const changeListeners = createListeners<FileChangeEvent>();
+  const presenceListeners = createListeners<FolderViewer[]>();
+  const clientId = crypto.randomUUID();
+  const viewers = new Map<string, FolderViewer>();
+  let ownViewer: FolderViewer | null = null;
+
+  const channel = new BroadcastChannel(getFolderTopic(folderPath));
+  const post = (message: LocalSyncMessage) => channel.postMessage(message);
+  const emitPresence = () => presenceListeners.emit(Array.from(viewers.values()));
+
+  channel.onmessage = ({ data }: MessageEvent<LocalSyncMessage>) => {
+    if (data.kind === 'change') {
+      changeListeners.emit(data.event);
+    } else if (data.kind === 'presence') {
+      if (data.viewer) viewers.set(data.clientId, data.viewer);
+      else viewers.delete(data.clientId);
+      emitPresence();
+    } else if (data.kind === 'presence-request' && ownViewer) {
+      post({ kind: 'presence', clientId, viewer: ownViewer });
+    }
+  };
+
+  // Tabs that were already open announce themselves to this one
+  post({ kind: 'presence-request' });
+
+  // A tab that is closed without cleaning up still says goodbye
+  const handleUnload = () => post({ kind: 'presence', clientId, viewer: null });
+  window.addEventListener('beforeunload', handleUnload);
+
+  return {
+    publish: (event) => {
+      getEventFolders(event).forEach(eventFolder => {
+        if (eventFolder === folderPath) {
+          post({ kind: 'change', event });
+          return;
+        }
+        const other = new BroadcastChannel(getFolderTopic(eventFolder));
+        other.postMessage({ kind: 'change', event } as LocalSyncMessage);
+        other.close();
+      });
+    },
+    subscribe: changeListeners.add,
+    setPresence: (viewer) => {
+      ownViewer = viewer;
+      post({ kind: 'presence', clientId, viewer });
+    },
+    subscribePresence: presenceListeners.add,
+    close: () => {
+      handleUnload();
+      window.removeEventListener('beforeunload', handleUnload);
+      channel.close();
+    }
+  };
+};
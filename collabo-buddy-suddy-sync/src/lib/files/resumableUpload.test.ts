@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { uploadResumable, listPendingResumableUploads, ResumableUploadConfig } from './resumableUpload';
+import { UploadCancelledError } from './uploadWithProgress';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const ENDPOINT = 'https://tus.test/upload';
+
+interface MockUpload {
+  length: number;
+  metadata: string;
+  bytes: Uint8Array;
+}
+
+// A TUS 1.0 server that lives in memory, reached through a stand-in for
+// XMLHttpRequest. `failPatches` makes the next PATCH requests drop their
+// connection after writing `bytesBeforeFailure` bytes of the chunk, and
+// `failHeads` makes the next HEAD requests drop theirs.
+const createMockTusServer = () => {
+  const uploads = new Map<string, MockUpload>();
+  const requests: { method: string; url: string; headers: Record<string, string> }[] = [];
+  let nextId = 0;
+  let failures = 0;
+  let bytesBeforeFailure = 0;
+  let headFailures = 0;
+
+  const handle = async (
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body: Blob | null
+  ): Promise<{ status: number; headers: Record<string, string> } | null> => {
+    requests.push({ method, url, headers });
+    if (method === 'POST') {
+      const id = `upload-${++nextId}`;
+      const length = Number(headers['Upload-Length']);
+      uploads.set(id, { length, metadata: headers['Upload-Metadata'], bytes: new Uint8Array(0) });
+      return { status: 201, headers: { Location: `/upload/${id}` } };
+    }
+
+    const upload = uploads.get(url.slice(url.lastIndexOf('/') + 1));
+    if (!upload) return { status: 404, headers: {} };
+    if (method === 'HEAD' && headFailures > 0) {
+      headFailures -= 1;
+      return null;
+    }
+    if (method === 'HEAD') return { status: 200, headers: { 'Upload-Offset': String(upload.bytes.length) } };
+    if (method === 'DELETE') {
+      uploads.delete(url.slice(url.lastIndexOf('/') + 1));
+      return { status: 204, headers: {} };
+    }
+
+    if (Number(headers['Upload-Offset']) !== upload.bytes.length) return { status: 409, headers: {} };
+    let chunk = new Uint8Array(await body!.arrayBuffer());
+    const fail = failures > 0;
+    if (fail) {
+      failures -= 1;
+      chunk = chunk.slice(0, bytesBeforeFailure);
+    }
+    const bytes = new Uint8Array(upload.bytes.length + chunk.length);
+    bytes.set(upload.bytes);
+    bytes.set(chunk, upload.bytes.length);
+    upload.bytes = bytes;
+    if (fail) return null;
+    return { status: 204, headers: { 'Upload-Offset': String(upload.bytes.length) } };
+  };
+
+  class MockXMLHttpRequest {
+    status = 0;
+    upload: { onprogress: ((event: { loaded: number }) => void) | null } = { onprogress: null };
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onabort: (() => void) | null = null;
+    private method = '';
+    private url = '';
+    private headers: Record<string, string> = {};
+    private responseHeaders: Record<string, string> = {};
+    private aborted = false;
+
+    open(method: string, url: string) {
+      this.method = method;
+      this.url = url;
+    }
+
+    setRequestHeader(name: string, value: string) {
+      this.headers[name] = value;
+    }
+
+    getResponseHeader(name: string) {
+      return this.responseHeaders[name] ?? null;
+    }
+
+    abort() {
+      this.aborted = true;
+      this.onabort?.();
+    }
+
+    send(body: Blob | null) {
+      handle(this.method, this.url, this.headers, body).then(response => {
+        if (this.aborted) return;
+        if (!response) {
+          this.onerror?.();
+          return;
+        }
+        if (body) this.upload.onprogress?.({ loaded: body.size });
+        this.status = response.status;
+        this.responseHeaders = response.headers;
+        this.onload?.();
+      });
+    }
+  }
+
+  return {
+    uploads,
+    requests,
+    XMLHttpRequest: MockXMLHttpRequest,
+    failPatches: (count: number, bytesWritten = 0) => {
+      failures = count;
+      bytesBeforeFailure = bytesWritten;
+    },
+    failHeads: (count: number) => {
+      headFailures = count;
+    }
+  };
+};
+
+const createStateStore = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    }
+  };
+};
+
+const createFile = (size: number) => {
+  const bytes = new Uint8Array(size).map((_, i) => i % 251);
+  return new File([bytes], 'report.bin', { type: 'application/octet-stream', lastModified: 1 });
+};
+
+const storedText = (upload: MockUpload) => Array.from(upload.bytes).join(',');
+
+describe('uploadResumable', () => {
+  let server: ReturnType<typeof createMockTusServer>;
+  let config: ResumableUploadConfig;
+
+  beforeEach(() => {
+    server = createMockTusServer();
+    vi.stubGlobal('XMLHttpRequest', server.XMLHttpRequest);
+    config = {
+      endpoint: ENDPOINT,
+      bucket: 'project-files',
+      chunkSize: 10,
+      getHeaders: async () => ({ authorization: 'Bearer test' }),
+      stateStore: createStateStore()
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('sends the file in chunks of the configured size', async () => {
+    const file = createFile(25);
+    const progress: number[] = [];
+
+    await uploadResumable(config, 'docs/report.bin', file, { onProgress: loaded => progress.push(loaded) });
+
+    const patches = server.requests.filter(request => request.method === 'PATCH');
+    expect(patches.map(request => request.headers['Upload-Offset'])).toEqual(['0', '10', '20']);
+    const [upload] = server.uploads.values();
+    expect(upload.length).toBe(25);
+    expect(storedText(upload)).toBe(Array.from(new Uint8Array(await file.arrayBuffer())).join(','));
+    expect(atob(upload.metadata.split(',')[1].split(' ')[1])).toBe('docs/report.bin');
+    expect(progress[progress.length - 1]).toBe(25);
+    expect(listPendingResumableUploads(config)).toEqual([]);
+  });
+
+  it('resumes an interrupted upload from the offset the server reports', async () => {
+    const file = createFile(30);
+    const controller = new AbortController();
+
+    await expect(uploadResumable(config, 'docs/report.bin', file, {
+      signal: controller.signal,
+      onProgress: loaded => {
+        if (loaded >= 10) controller.abort();
+      }
+    })).rejects.toBeInstanceOf(UploadCancelledError);
+
+    const [pending] = listPendingResumableUploads(config);
+    expect(pending).toMatchObject({ path: 'docs/report.bin', size: 30 });
+
+    await uploadResumable(config, 'docs/report.bin', file);
+
+    expect(server.requests.filter(request => request.method === 'POST')).toHaveLength(1);
+    expect(server.requests.some(request => request.method === 'HEAD')).toBe(true);
+    const patches = server.requests.filter(request => request.method === 'PATCH');
+    expect(patches.map(request => request.headers['Upload-Offset'])).toEqual(['0', '10', '20']);
+    expect(server.uploads.get('upload-1')!.bytes.length).toBe(30);
+    expect(listPendingResumableUploads(config)).toEqual([]);
+  });
+
+  it('starts again when the server has dropped the upload it was resuming', async () => {
+    const file = createFile(15);
+    const controller = new AbortController();
+    await expect(uploadResumable(config, 'docs/report.bin', file, {
+      signal: controller.signal,
+      onProgress: loaded => {
+        if (loaded >= 10) controller.abort();
+      }
+    })).rejects.toBeInstanceOf(UploadCancelledError);
+    server.uploads.clear();
+
+    await uploadResumable(config, 'docs/report.bin', file);
+
+    expect(server.requests.filter(request => request.method === 'POST')).toHaveLength(2);
+    expect(server.uploads.get('upload-2')!.bytes.length).toBe(15);
+  });
+
+  it('retries a failed chunk from where the server got to', async () => {
+    vi.useFakeTimers();
+    const file = createFile(20);
+    server.failPatches(2, 4);
+
+    const upload = uploadResumable(config, 'docs/report.bin', file);
+    await vi.runAllTimersAsync();
+    await upload;
+
+    const patches = server.requests.filter(request => request.method === 'PATCH');
+    expect(patches.map(request => request.headers['Upload-Offset'])).toEqual(['0', '4', '8', '18']);
+    expect(server.requests.filter(request => request.method === 'HEAD')).toHaveLength(2);
+    expect(storedText(server.uploads.get('upload-1')!)).toBe(Array.from(new Uint8Array(await file.arrayBuffer())).join(','));
+  });
+
+  it('keeps retrying when checking the offset fails too, until the server is back', async () => {
+    vi.useFakeTimers();
+    const file = createFile(20);
+    server.failPatches(1, 4);
+    server.failHeads(2);
+
+    const upload = uploadResumable(config, 'docs/report.bin', file);
+    await vi.runAllTimersAsync();
+    await upload;
+
+    const patches = server.requests.filter(request => request.method === 'PATCH');
+    expect(patches.map(request => request.headers['Upload-Offset'])).toEqual(['0', '4', '14']);
+    expect(server.requests.filter(request => request.method === 'HEAD')).toHaveLength(3);
+    expect(storedText(server.uploads.get('upload-1')!)).toBe(Array.from(new Uint8Array(await file.arrayBuffer())).join(','));
+  });
+
+  it('gives up once every retry has failed, keeping the upload to resume later', async () => {
+    vi.useFakeTimers();
+    server.failPatches(10);
+
+    const upload = uploadResumable(config, 'docs/report.bin', createFile(20));
+    const result = expect(upload).rejects.toThrow('Network error during upload');
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(server.requests.filter(request => request.method === 'PATCH')).toHaveLength(4);
+    expect(listPendingResumableUploads(config)).toHaveLength(1);
+  });
+});
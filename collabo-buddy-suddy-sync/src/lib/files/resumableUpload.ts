@@ -0,0 +1,283 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PROJECT_FILES_BUCKET } from './storage';
+import { UploadCancelledError } from './uploadWithProgress';
+import type { StorageUploadOptions } from './storageAdapter';
+
+// Minimal TUS 1.0 client for large files. Supabase Storage speaks TUS at
+// /storage/v1/upload/resumable; pointing `endpoint` at a local mock TUS server
+// exercises the same code without a live project.
+
+const TUS_VERSION = '1.0.0';
+// Supabase only accepts 6MB chunks (except the last one)
+const DEFAULT_CHUNK_SIZE = 6 * 1024 * 1024;
+const RETRY_DELAYS = [0, 1000, 3000, 5000];
+const STATE_KEY = 'file-manager:resumable-uploads';
+
+export interface ResumableUploadConfig {
+  endpoint: string;
+  getHeaders: () => Promise<Record<string, string>>;
+  bucket?: string;
+  chunkSize?: number;
+  // Where interrupted uploads are remembered; localStorage by default
+  stateStore?: Pick<Storage, 'getItem' | 'setItem'>;
+}
+
+export interface PendingResumableUpload {
+  fingerprint: string;
+  uploadUrl: string;
+  path: string;
+  fileName: string;
+  size: number;
+  offset: number;
+  updatedAt: string;
+}
+
+interface TusResponse {
+  status: number;
+  getHeader: (name: string) => string | null;
+}
+
+export const createSupabaseResumableConfig = (bucket = PROJECT_FILES_BUCKET): ResumableUploadConfig => ({
+  endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+  bucket,
+  getHeaders: async () => {
+    const { data } = await supabase.auth.getSession();
+    const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+    return {
+      authorization: `Bearer ${data.session?.access_token || anonKey}`,
+      apikey: anonKey
+    };
+  }
+});
+
+const getFingerprint = (path: string, file: File) => {
+  return [path, file.name, file.size, file.lastModified].join(':');
+};
+
+const readState = (config: ResumableUploadConfig): Record<string, PendingResumableUpload> => {
+  try {
+    const store = config.stateStore || window.localStorage;
+    return JSON.parse(store.getItem(STATE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeState = (config: ResumableUploadConfig, state: Record<string, PendingResumableUpload>) => {
+  const store = config.stateStore || window.localStorage;
+  store.setItem(STATE_KEY, JSON.stringify(state));
+};
+
+const saveUpload = (config: ResumableUploadConfig, upload: PendingResumableUpload) => {
+  writeState(config, { ...readState(config), [upload.fingerprint]: upload });
+};
+
+const forgetUpload = (config: ResumableUploadConfig, fingerprint: string) => {
+  const state = readState(config);
+  delete state[fingerprint];
+  writeState(config, state);
+};
+
+export const listPendingResumableUploads = (config: ResumableUploadConfig): PendingResumableUpload[] => {
+  return Object.values(readState(config));
+};
+
+const encodeMetadataValue = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const sendTusRequest = (
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  { body, signal, onProgress }: {
+    body?: Blob;
+    signal?: AbortSignal;
+    onProgress?: (loaded: number) => void;
+  } = {}
+): Promise<TusResponse> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadCancelledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+    const cleanUp = () => signal?.removeEventListener('abort', handleAbort);
+
+    xhr.open(method, url);
+    xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+    xhr.onload = () => {
+      cleanUp();
+      resolve({ status: xhr.status, getHeader: name => xhr.getResponseHeader(name) });
+    };
+    xhr.onerror = () => {
+      cleanUp();
+      reject(new Error('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      cleanUp();
+      reject(new UploadCancelledError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    xhr.send(body || null);
+  });
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createUpload = async (
+  config: ResumableUploadConfig,
+  path: string,
+  file: File,
+  { upsert = false, cacheControl = '3600', signal }: StorageUploadOptions
+): Promise<string> => {
+  const metadata = {
+    bucketName: config.bucket || PROJECT_FILES_BUCKET,
+    objectName: path,
+    contentType: file.type || 'application/octet-stream',
+    cacheControl
+  };
+  const response = await sendTusRequest('POST', config.endpoint, {
+    ...await config.getHeaders(),
+    'Upload-Length': String(file.size),
+    'Upload-Metadata': Object.entries(metadata)
+      .map(([key, value]) => `${key} ${encodeMetadataValue(value)}`)
+      .join(','),
+    'x-upsert': String(upsert)
+  }, { signal });
+
+  const location = response.getHeader('Location');
+  if (response.status !== 201 || !location) {
+    throw new Error(`Could not start resumable upload (status ${response.status})`);
+  }
+  return new URL(location, config.endpoint).toString();
+};
+
+// Returns the server's offset for an upload, or null if it no longer exists
+const getRemoteOffset = async (
+  config: ResumableUploadConfig,
+  uploadUrl: string,
+  signal?: AbortSignal
+): Promise<number | null> => {
+  const response = await sendTusRequest('HEAD', uploadUrl, await config.getHeaders(), { signal });
+  if (response.status === 404 || response.status === 410) return null;
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Could not check upload progress (status ${response.status})`);
+  }
+  return Number(response.getHeader('Upload-Offset')) || 0;
+};
+
+export const uploadResumable = async (
+  config: ResumableUploadConfig,
+  path: string,
+  file: File,
+  options: StorageUploadOptions = {}
+): Promise<{ path: string }> => {
+  const { signal, onProgress } = options;
+  const chunkSize = config.chunkSize || DEFAULT_CHUNK_SIZE;
+  const fingerprint = getFingerprint(path, file);
+
+  // Pick up an upload a previous tab or attempt left behind
+  let uploadUrl = readState(config)[fingerprint]?.uploadUrl || null;
+  let offset: number | null = null;
+  if (uploadUrl) {
+    offset = await getRemoteOffset(config, uploadUrl, signal);
+    if (offset === null) uploadUrl = null;
+  }
+  if (!uploadUrl) {
+    uploadUrl = await createUpload(config, path, file, options);
+    offset = 0;
+  }
+
+  const remember = (currentOffset: number) => saveUpload(config, {
+    fingerprint,
+    uploadUrl: uploadUrl as string,
+    path,
+    fileName: file.name,
+    size: file.size,
+    offset: currentOffset,
+    updatedAt: new Date().toISOString()
+  });
+
+  let currentOffset = offset || 0;
+  remember(currentOffset);
+  onProgress?.(currentOffset, file.size);
+
+  let attempt = 0;
+  while (currentOffset < file.size) {
+    const chunk = file.slice(currentOffset, currentOffset + chunkSize);
+    const chunkStart = currentOffset;
+
+    try {
+      const response = await sendTusRequest('PATCH', uploadUrl, {
+        ...await config.getHeaders(),
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(chunkStart)
+      }, {
+        body: chunk,
+        signal,
+        onProgress: loaded => onProgress?.(chunkStart + loaded, file.size)
+      });
+
+      if (response.status !== 204) {
+        throw new Error(`Chunk upload failed (status ${response.status})`);
+      }
+
+      currentOffset = Number(response.getHeader('Upload-Offset')) || chunkStart + chunk.size;
+      attempt = 0;
+      remember(currentOffset);
+    } catch (error) {
+      // Back off, then ask the server where it actually got to. While the
+      // connection is down that check fails too, which uses up an attempt.
+      let lastError = error;
+      let remoteOffset: number | null | undefined;
+      while (remoteOffset === undefined) {
+        if (lastError instanceof UploadCancelledError || attempt >= RETRY_DELAYS.length - 1) {
+          throw lastError;
+        }
+        attempt += 1;
+        await wait(RETRY_DELAYS[attempt]);
+        try {
+          remoteOffset = await getRemoteOffset(config, uploadUrl, signal);
+        } catch (offsetError) {
+          lastError = offsetError;
+        }
+      }
+      if (remoteOffset === null) {
+        forgetUpload(config, fingerprint);
+        throw new Error('The server discarded this upload; please start it again');
+      }
+      currentOffset = remoteOffset;
+    }
+  }
+
+  forgetUpload(config, fingerprint);
+  onProgress?.(file.size, file.size);
+  return { path };
+};
+
+// Gives up on an interrupted upload and tells the server to drop its partial data
+export const discardResumableUpload = async (config: ResumableUploadConfig, fingerprint: string) => {
+  const upload = readState(config)[fingerprint];
+  forgetUpload(config, fingerprint);
+  if (!upload) return;
+
+  try {
+    await sendTusRequest('DELETE', upload.uploadUrl, await config.getHeaders());
+  } catch (error) {
+    console.error('Error discarding resumable upload:', error);
+  }
+};
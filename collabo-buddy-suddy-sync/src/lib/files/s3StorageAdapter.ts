@@ -0,0 +1,156 @@
+import {
+  S3Client,
+  S3ClientConfig,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectsCommand,
+  CopyObjectCommand,
+  GetObjectCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { SIGNED_URL_TTL_SECONDS } from './storage';
+import { StorageAdapter, StorageEntry } from './storageAdapter';
+import { sendWithProgress } from './uploadWithProgress';
+
+// DeleteObjects takes at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+export interface S3StorageAdapterOptions {
+  // e.g. http://localhost:9000 for a local MinIO
+  endpoint: string;
+  bucket: string;
+  region?: string;
+  // These reach the browser, so use a key limited to this bucket
+  credentials: S3ClientConfig['credentials'];
+  // MinIO serves buckets as paths rather than subdomains
+  forcePathStyle?: boolean;
+}
+
+// Any S3-compatible store. Requests come from the browser, so the bucket needs
+// a CORS rule allowing this origin to GET, PUT and HEAD. Listing pages by
+// offset isn't something S3 can do, so each page lists the whole folder.
+export const createS3StorageAdapter = ({
+  endpoint,
+  bucket,
+  region = 'us-east-1',
+  credentials,
+  forcePathStyle = true
+}: S3StorageAdapterOptions): StorageAdapter => {
+  const client = new S3Client({ endpoint, region, credentials, forcePathStyle });
+
+  const toCopySource = (path: string) => `${bucket}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+  const exists = async (path: string) => {
+    try {
+      await client.send(new HeadObjectCommand({ Bucket: bucket, Key: path }));
+      return true;
+    } catch (error) {
+      if ((error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  };
+
+  const copy = async (fromPath: string, toPath: string) => {
+    if (await exists(toPath)) throw new Error('The resource already exists');
+    await client.send(new CopyObjectCommand({ Bucket: bucket, Key: toPath, CopySource: toCopySource(fromPath) }));
+  };
+
+  const remove = async (paths: string[]) => {
+    for (let start = 0; start < paths.length; start += DELETE_BATCH_SIZE) {
+      const { Errors } = await client.send(new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: {
+          Objects: paths.slice(start, start + DELETE_BATCH_SIZE).map(Key => ({ Key })),
+          Quiet: true
+        }
+      }));
+      if (Errors && Errors.length > 0) {
+        throw new Error(Errors[0].Message || `Could not delete ${Errors[0].Key}`);
+      }
+    }
+  };
+
+  const getUrl = (path: string, { download, expiresIn = SIGNED_URL_TTL_SECONDS }: { download?: string; expiresIn?: number } = {}) => {
+    return getSignedUrl(client, new GetObjectCommand({
+      Bucket: bucket,
+      Key: path,
+      ResponseContentDisposition: download
+        ? `attachment; filename*=UTF-8''${encodeURIComponent(download)}`
+        : undefined
+    }), { expiresIn });
+  };
+
+  return {
+    list: async (prefix, { limit, offset, search }) => {
+      const start = prefix ? `${prefix}/` : '';
+      const entries: StorageEntry[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const page: ListObjectsV2CommandOutput = await client.send(new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: start,
+          Delimiter: '/',
+          ContinuationToken: continuationToken
+        }));
+
+        (page.CommonPrefixes || []).forEach(({ Prefix }) => {
+          if (Prefix) entries.push({ name: Prefix.slice(start.length, -1), isFolder: true, size: 0 });
+        });
+        (page.Contents || []).forEach(({ Key, Size, LastModified }) => {
+          if (!Key || Key === start) return;
+          entries.push({
+            name: Key.slice(start.length),
+            isFolder: false,
+            size: Size || 0,
+            updatedAt: LastModified?.toISOString() || null
+          });
+        });
+
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      const needle = search?.toLowerCase();
+      return entries
+        .filter(entry => !needle || entry.name.toLowerCase().includes(needle))
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .slice(offset, offset + limit);
+    },
+
+    // Sent to a presigned URL so the browser can report progress. S3 has no
+    // create-only PUT everywhere, so without upsert the key is checked first.
+    upload: async (path, body, { upsert = false, contentType, cacheControl = '3600', signal, onProgress } = {}) => {
+      if (!upsert && await exists(path)) throw new Error('The resource already exists');
+
+      const type = contentType || body.type || 'application/octet-stream';
+      const url = await getSignedUrl(client, new PutObjectCommand({
+        Bucket: bucket,
+        Key: path,
+        ContentType: type,
+        CacheControl: `max-age=${cacheControl}`
+      }), { expiresIn: SIGNED_URL_TTL_SECONDS });
+
+      await sendWithProgress(url, body, {
+        headers: { 'Content-Type': type, 'Cache-Control': `max-age=${cacheControl}` },
+        total: body.size,
+        signal,
+        onProgress
+      });
+    },
+
+    remove,
+
+    move: async (fromPath, toPath) => {
+      await copy(fromPath, toPath);
+      await remove([fromPath]);
+    },
+
+    copy,
+
+    getUrl,
+
+    getUrls: (paths, options) => Promise.all(paths.map(path => getUrl(path, options)))
+  };
+};
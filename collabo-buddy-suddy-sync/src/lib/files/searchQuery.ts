@@ -0,0 +1,151 @@
+import { FileItem } from './types';
+import { getFileExtension } from './fileTypes';
+import { normalizeTag } from './metadata';
+
+// The file manager's search box takes free text plus filters:
+//   type:image          category or extension; type:pdf,docx matches either
+//   size:>5mb           also >=, <, <= and =; b, kb, mb and gb
+//   uploaded:<2026-01-01  also >, >=, <= and a bare date for that day
+//   by:alice            part of the uploader's email
+//   tag:final           a tag, exactly; quote values with spaces: tag:"q3 final"
+// Filters all have to match. Free text matches names, tags and file contents.
+
+type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+export interface SearchQuery {
+  // Free text, with the filters taken out
+  text: string;
+  // Lower-cased words of `text`, for highlighting
+  terms: string[];
+  types: string[][];
+  sizes: { comparison: Comparison; bytes: number }[];
+  uploaded: { comparison: Comparison; date: Date }[];
+  uploaders: string[];
+  tags: string[];
+  // Filters that couldn't be read, e.g. "size:big"
+  errors: string[];
+}
+
+const FILTER_PATTERN = /(-?)\b(type|size|uploaded|by|tag):(?:"([^"]*)"|(\S*))/gi;
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024
+};
+
+const splitComparison = (value: string): [Comparison, string] => {
+  const [, comparison, rest] = value.match(COMPARISON_PATTERN)!;
+  return [(comparison as Comparison) || '=', rest];
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { text: '', terms: [], types: [], sizes: [], uploaded: [], uploaders: [], tags: [], errors: [] };
+
+  const text = input.replace(FILTER_PATTERN, (filter, negated: string, key: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim();
+    // Half-typed filters like "size:" do nothing until they have a value
+    if (!value) return '';
+    if (negated) {
+      query.errors.push(`${filter} (filters can't be negated)`);
+      return '';
+    }
+
+    switch (key.toLowerCase()) {
+      case 'type':
+        query.types.push(value.toLowerCase().split(',').filter(Boolean));
+        break;
+      case 'size': {
+        const [comparison, amount] = splitComparison(value);
+        const match = amount.match(SIZE_PATTERN);
+        if (match) {
+          query.sizes.push({ comparison, bytes: Number(match[1]) * SIZE_UNITS[(match[2] || 'b').toLowerCase()] });
+        } else {
+          query.errors.push(filter);
+        }
+        break;
+      }
+      case 'uploaded': {
+        const [comparison, dateText] = splitComparison(value);
+        // Local midnight, so "uploaded:2026-01-01" means that day where the user is
+        const date = new Date(`${dateText}T00:00:00`);
+        if (DATE_PATTERN.test(dateText) && !isNaN(date.getTime())) {
+          query.uploaded.push({ comparison, date });
+        } else {
+          query.errors.push(filter);
+        }
+        break;
+      }
+      case 'by':
+        query.uploaders.push(value.toLowerCase());
+        break;
+      case 'tag':
+        query.tags.push(normalizeTag(value));
+        break;
+    }
+    return '';
+  });
+
+  query.text = text.replace(/\s+/g, ' ').trim();
+  query.terms = query.text.toLowerCase().split(' ').map(term => term.replace(/^"|"$/g, '')).filter(Boolean);
+  return query;
+};
+
+export const hasSearchFilters = (query: SearchQuery): boolean => {
+  return query.types.length + query.sizes.length + query.uploaded.length + query.uploaders.length + query.tags.length > 0;
+};
+
+const compare = (value: number, comparison: Comparison, target: number): boolean => {
+  switch (comparison) {
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+    default: return value === target;
+  }
+};
+
+const matchesType = (file: FileItem, types: string[]): boolean => {
+  const extension = getFileExtension(file.name);
+  return types.some(type => {
+    const name = type.replace(/^\./, '');
+    return name === file.type || name === extension;
+  });
+};
+
+// A bare date covers the whole day; "<" and ">=" compare against its start,
+// ">" and "<=" against its end
+const matchesUploaded = (uploadedAt: Date, comparison: Comparison, day: Date): boolean => {
+  const start = day.getTime();
+  const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+  const time = uploadedAt.getTime();
+  switch (comparison) {
+    case '<': return time < start;
+    case '>=': return time >= start;
+    case '>': return time >= end;
+    case '<=': return time < end;
+    default: return time >= start && time < end;
+  }
+};
+
+// Whether a file passes every filter in the query. Free text is matched separately.
+export const matchesSearchFilters = (file: FileItem, query: SearchQuery): boolean => {
+  const tags = file.tags.map(normalizeTag);
+  const uploadedBy = file.uploadedBy.toLowerCase();
+
+  return query.types.every(types => matchesType(file, types))
+    && query.sizes.every(({ comparison, bytes }) => compare(file.size, comparison, bytes))
+    && query.uploaded.every(({ comparison, date }) => matchesUploaded(file.uploadedAt, comparison, date))
+    && query.uploaders.every(uploader => uploadedBy.includes(uploader))
+    && query.tags.every(tag => tags.includes(tag));
+};
+
+// Whether every word of the free text appears in the file's name or tags
+export const matchesSearchText = (file: FileItem, query: SearchQuery): boolean => {
+  const haystack = [file.name, ...file.tags].join('\n').toLowerCase();
+  return query.terms.every(term => haystack.includes(term));
+};
@@ -0,0 +1,159 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Share links are opened by people without an account, so they point at the
+// share-link edge function, which checks the link and redirects to a signed URL.
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  path: string;
+  expiresAt: Date;
+  hasPassword: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  createdByEmail: string | null;
+  createdAt: Date;
+}
+
+export interface ShareLinkOptions {
+  expiresInHours: number;
+  password?: string;
+  maxDownloads?: number | null;
+}
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 }
+];
+
+interface FileShareLinkRow {
+  id: string;
+  token: string;
+  path: string;
+  expires_at: string;
+  has_password: boolean;
+  max_downloads: number | null;
+  download_count: number;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+// Must match the share-link edge function
+const PASSWORD_HASH_ITERATIONS = 100000;
+
+// Signed-in users can't read password_hash or password_salt, so selects must
+// name their columns
+const SHARE_LINK_COLUMNS = 'id, token, path, expires_at, has_password, max_downloads, download_count, created_by_email, created_at';
+
+const fromRow = (row: FileShareLinkRow): ShareLink => ({
+  id: row.id,
+  token: row.token,
+  path: row.path,
+  expiresAt: new Date(row.expires_at),
+  hasPassword: row.has_password,
+  maxDownloads: row.max_downloads,
+  downloadCount: row.download_count,
+  createdByEmail: row.created_by_email,
+  createdAt: new Date(row.created_at)
+});
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const randomHex = (byteLength: number): string => {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+export const hashSharePassword = async (password: string, saltHex: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const salt = new Uint8Array(saltHex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PASSWORD_HASH_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+export const getShareLinkUrl = (link: ShareLink): string => {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/share-link?token=${encodeURIComponent(link.token)}`;
+};
+
+export const isShareLinkActive = (link: ShareLink): boolean => {
+  if (link.expiresAt.getTime() <= Date.now()) return false;
+  return link.maxDownloads === null || link.downloadCount < link.maxDownloads;
+};
+
+export const createShareLink = async (
+  path: string,
+  options: ShareLinkOptions,
+  createdBy: { id: string; email?: string | null } | null
+): Promise<ShareLink> => {
+  const password = options.password?.trim();
+  const passwordSalt = password ? randomHex(16) : null;
+
+  const { data, error } = await supabase
+    .from('file_share_links')
+    .insert({
+      token: randomHex(24),
+      path,
+      expires_at: new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000).toISOString(),
+      password_hash: password && passwordSalt ? await hashSharePassword(password, passwordSalt) : null,
+      password_salt: passwordSalt,
+      max_downloads: options.maxDownloads || null,
+      created_by: createdBy?.id || null,
+      created_by_email: createdBy?.email || null
+    })
+    .select(SHARE_LINK_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return fromRow(data as FileShareLinkRow);
+};
+
+// Links that still work: not revoked, not expired and not used up
+export const listActiveShareLinks = async (path?: string): Promise<ShareLink[]> => {
+  let query = supabase
+    .from('file_share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (path !== undefined) query = query.eq('path', path);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as FileShareLinkRow[] || []).map(fromRow).filter(isShareLinkActive);
+};
+
+export const revokeShareLink = async (id: string) => {
+  const { error } = await supabase
+    .from('file_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Stops every link to a file from working. Links name a path, not a file, so
+// once the file is trashed they would otherwise serve whatever is uploaded
+// there next.
+export const revokeShareLinksForPath = async (path: string) => {
+  const { error } = await supabase
+    .from('file_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('path', path)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+};
+
+// Accepts a file path or a folder path (which covers everything below it)
+export const moveShareLinks = async (fromPath: string, toPath: string) => {
+  const { error } = await supabase.rpc('move_file_share_links', { from_path: fromPath, to_path: toPath });
+  if (error) throw error;
+};
@@ -0,0 +1,54 @@
+import { FileItem, FolderItem } from './types';
+import { getFileExtension } from './fileTypes';
+
+export type FileSortField = 'name' | 'size' | 'type' | 'date' | 'uploader';
+
+export interface FileSort {
+  field: FileSortField;
+  direction: 'asc' | 'desc';
+}
+
+export const FILE_SORT_FIELDS: { field: FileSortField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'size', label: 'Size' },
+  { field: 'type', label: 'Type' },
+  { field: 'date', label: 'Date' },
+  { field: 'uploader', label: 'Uploader' }
+];
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const COMPARATORS: Record<FileSortField, (a: FileItem, b: FileItem) => number> = {
+  name: (a, b) => compareText(a.name, b.name),
+  size: (a, b) => a.size - b.size,
+  // By category, then extension, so .doc and .docx sit together
+  type: (a, b) => compareText(a.type, b.type) || compareText(getFileExtension(a.name), getFileExtension(b.name)),
+  date: (a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime(),
+  uploader: (a, b) => compareText(a.uploadedBy, b.uploadedBy)
+};
+
+// A sorted copy; ties fall back to the name. Without a sort the order is
+// whatever the listing returned.
+export const sortFiles = (files: FileItem[], sort: FileSort | null): FileItem[] => {
+  if (!sort) return files;
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const compare = COMPARATORS[sort.field];
+  return [...files].sort((a, b) => direction * (compare(a, b) || COMPARATORS.name(a, b)));
+};
+
+// Folders only have a name, so they follow a sort by name and otherwise keep
+// their order
+export const sortFolders = (folders: FolderItem[], sort: FileSort | null): FolderItem[] => {
+  if (sort?.field !== 'name') return folders;
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...folders].sort((a, b) => direction * compareText(a.name, b.name));
+};
+
+// Clicking the sorted column flips it; another column starts ascending, except
+// size and date, where the biggest and newest are usually what's wanted
+export const toggleSort = (current: FileSort | null, field: FileSortField): FileSort => {
+  if (current?.field === field) {
+    return { field, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+  }
+  return { field, direction: field === 'size' || field === 'date' ? 'desc' : 'asc' };
+};
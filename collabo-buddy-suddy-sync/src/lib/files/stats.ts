@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface FileStats {
+  totalFiles: number;
+  totalFolders: number;
+  imageFiles: number;
+  documentFiles: number;
+  totalBytes: number;
+}
+
+export const EMPTY_FILE_STATS: FileStats = {
+  totalFiles: 0,
+  totalFolders: 0,
+  imageFiles: 0,
+  documentFiles: 0,
+  totalBytes: 0
+};
+
+// Counts come from the get_file_stats database function so they cover the
+// whole bucket (or folder), not just the pages loaded in the browser. It reads
+// storage.objects, so only files in Supabase Storage are counted.
+export const fetchFileStats = async (folderPath = ''): Promise<FileStats> => {
+  const { data, error } = await supabase.rpc('get_file_stats', { folder_prefix: folderPath });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) return EMPTY_FILE_STATS;
+
+  return {
+    totalFiles: Number(row.total_files) || 0,
+    totalFolders: Number(row.total_folders) || 0,
+    imageFiles: Number(row.image_files) || 0,
+    documentFiles: Number(row.document_files) || 0,
+    totalBytes: Number(row.total_bytes) || 0
+  };
+};
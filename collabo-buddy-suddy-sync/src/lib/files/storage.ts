@@ -0,0 +1,141 @@
+import { FolderItem } from './types';
+import { StorageAdapter, StorageEntry } from './storageAdapter';
+import { joinPath, getAvailableName, getParentPath, getBaseName } from './paths';
+
+export const PROJECT_FILES_BUCKET = 'project-files';
+
+// Storage has no real folders, so an empty object keeps a folder alive.
+// This is the same marker the Supabase dashboard uses.
+export const FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder';
+
+export const LIST_PAGE_SIZE = 100;
+
+// Bookkeeping folders at the bucket root that the browser never shows
+export const VERSIONS_ROOT = '.versions';
+export const TRASH_ROOT = '.trash';
+export const THUMBNAILS_ROOT = '.thumbnails';
+const HIDDEN_ROOT_FOLDERS = [VERSIONS_ROOT, TRASH_ROOT, THUMBNAILS_ROOT];
+
+export interface ListFolderOptions {
+  includePlaceholders?: boolean;
+  includeHidden?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FolderListing {
+  folders: FolderItem[];
+  objects: StorageEntry[];
+  // Offset to pass for the next page, or null once the folder is exhausted
+  nextOffset: number | null;
+}
+
+// Lists one page of the direct children of a folder, with sub-folders split
+// out from the real objects
+export const listFolder = async (
+  storage: StorageAdapter,
+  path: string,
+  {
+    includePlaceholders = false,
+    includeHidden = false,
+    limit = LIST_PAGE_SIZE,
+    offset = 0
+  }: ListFolderOptions = {}
+): Promise<FolderListing> => {
+  const entries = await storage.list(path, { limit, offset });
+
+  const folders: FolderItem[] = [];
+  const objects: StorageEntry[] = [];
+
+  for (const entry of entries) {
+    if (entry.name === FOLDER_PLACEHOLDER && !includePlaceholders) continue;
+    if (entry.isFolder) {
+      if (!path && !includeHidden && HIDDEN_ROOT_FOLDERS.includes(entry.name)) continue;
+      folders.push({ name: entry.name, path: joinPath(path, entry.name) });
+    } else {
+      objects.push(entry);
+    }
+  }
+
+  return {
+    folders,
+    objects,
+    nextOffset: entries.length < limit ? null : offset + entries.length
+  };
+};
+
+// Walks every page of a folder. Only use this where the whole folder is needed
+// at once (tree navigation, recursive folder operations).
+export const listFolderAll = async (
+  storage: StorageAdapter,
+  path: string,
+  options: Omit<ListFolderOptions, 'limit' | 'offset'> = {}
+): Promise<Omit<FolderListing, 'nextOffset'>> => {
+  const folders: FolderItem[] = [];
+  const objects: StorageEntry[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page = await listFolder(storage, path, { ...options, offset });
+    folders.push(...page.folders);
+    objects.push(...page.objects);
+    offset = page.nextOffset;
+  }
+
+  return { folders, objects };
+};
+
+// Looks up a single object by name. Uses search rather than the loaded page
+// so it also finds files not scrolled to yet.
+export const findFileObject = async (
+  storage: StorageAdapter,
+  folderPath: string,
+  name: string
+): Promise<StorageEntry | null> => {
+  const entries = await storage.list(folderPath, { limit: LIST_PAGE_SIZE, offset: 0, search: name });
+  return entries.find(entry => !entry.isFolder && entry.name === name) || null;
+};
+
+// When the object last changed according to the backend, for files this
+// browser just wrote, so they compare equal to what a listing reports later.
+// Falls back to now when the backend doesn't say.
+export const readUpdatedAt = async (storage: StorageAdapter, path: string): Promise<Date> => {
+  const entry = await findFileObject(storage, getParentPath(path), getBaseName(path));
+  return entry?.updatedAt ? new Date(entry.updatedAt) : new Date();
+};
+
+// Checks which of `names` already exist directly inside a folder
+export const findExistingNames = async (
+  storage: StorageAdapter,
+  folderPath: string,
+  names: string[]
+): Promise<Set<string>> => {
+  const existing = new Set<string>();
+
+  await Promise.all(names.map(async (name) => {
+    if (await findFileObject(storage, folderPath, name)) existing.add(name);
+  }));
+
+  return existing;
+};
+
+// Like getAvailableName, but also checks storage for each candidate
+export const findAvailableName = async (
+  storage: StorageAdapter,
+  folderPath: string,
+  name: string,
+  taken: Set<string>
+): Promise<string> => {
+  const reserved = new Set(taken);
+  let candidate = getAvailableName(name, reserved);
+
+  while ((await findExistingNames(storage, folderPath, [candidate])).has(candidate)) {
+    reserved.add(candidate);
+    candidate = getAvailableName(name, reserved);
+  }
+  return candidate;
+};
+
+// Long enough to watch a preview or finish a download, short enough that a
+// copied URL stops working soon after
+export const SIGNED_URL_TTL_SECONDS = 10 * 60;
@@ -0,0 +1,53 @@
+import type { ResumableUploadConfig } from './resumableUpload';
+
+// Everything FileManager needs from the place file bytes live. Paths are
+// bucket-relative and use "/" between folders; folders only exist as prefixes
+// of the objects below them. Adapters throw on failure.
+
+export interface StorageEntry {
+  name: string;
+  isFolder: boolean;
+  // Backends that have a stable object id report it; the path is used otherwise
+  id?: string;
+  size: number;
+  mimeType?: string | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+}
+
+export interface StorageListOptions {
+  limit: number;
+  offset: number;
+  // Only entries whose name contains this text
+  search?: string;
+}
+
+export interface StorageUploadOptions {
+  upsert?: boolean;
+  contentType?: string;
+  cacheControl?: string;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface StorageUrlOptions {
+  // Makes the URL download the file under this name instead of showing it
+  download?: string;
+  expiresIn?: number;
+}
+
+export interface StorageAdapter {
+  // One page of the direct children of a folder, sorted by name
+  list: (prefix: string, options: StorageListOptions) => Promise<StorageEntry[]>;
+  upload: (path: string, body: Blob, options?: StorageUploadOptions) => Promise<void>;
+  remove: (paths: string[]) => Promise<void>;
+  move: (fromPath: string, toPath: string) => Promise<void>;
+  copy: (fromPath: string, toPath: string) => Promise<void>;
+  // A URL the browser can read the object from
+  getUrl: (path: string, options?: StorageUrlOptions) => Promise<string>;
+  // Batched getUrl, for backends that can sign many at once. Missing objects
+  // come back as null.
+  getUrls?: (paths: string[], options?: StorageUrlOptions) => Promise<(string | null)[]>;
+  // Large files go through TUS when the backend speaks it
+  resumable?: ResumableUploadConfig;
+}
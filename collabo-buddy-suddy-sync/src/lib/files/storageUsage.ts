@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FileCategory, getCategoryFromMimeType } from './fileTypes';
+
+export interface UsageBucket {
+  // Folder name, file category, uploader email or YYYY-MM month
+  key: string;
+  files: number;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  totalFiles: number;
+  totalBytes: number;
+  // Immediate subfolders; '' holds the files directly in the folder
+  byFolder: UsageBucket[];
+  byType: UsageBucket[];
+  // '' for files uploaded before uploaders were recorded
+  byUploader: UsageBucket[];
+  // Bytes added per month by files that still exist, oldest first
+  byMonth: UsageBucket[];
+  // .versions, .trash and .thumbnails, for the whole bucket only
+  bySystemFolder: UsageBucket[];
+}
+
+interface UsageRow {
+  total_files: number;
+  total_bytes: number;
+  by_folder: UsageBucket[];
+  by_mimetype: UsageBucket[];
+  by_uploader: UsageBucket[];
+  by_month: UsageBucket[];
+  by_system_folder: UsageBucket[];
+}
+
+const toBuckets = (rows: UsageBucket[] | null): UsageBucket[] => {
+  return (rows || []).map(row => ({ key: row.key, files: Number(row.files) || 0, bytes: Number(row.bytes) || 0 }));
+};
+
+// MIME types are grouped into the categories the file manager shows
+const groupByCategory = (byMimeType: UsageBucket[]): UsageBucket[] => {
+  const totals = new Map<FileCategory, UsageBucket>();
+  byMimeType.forEach(({ key, files, bytes }) => {
+    const category = getCategoryFromMimeType(key);
+    const total = totals.get(category) || { key: category, files: 0, bytes: 0 };
+    totals.set(category, { key: category, files: total.files + files, bytes: total.bytes + bytes });
+  });
+  return Array.from(totals.values()).sort((a, b) => b.bytes - a.bytes);
+};
+
+// Usage of everything under `folderPath`, worked out by the get_storage_usage
+// database function. It reads storage.objects, so files behind another
+// StorageAdapter aren't included.
+export const fetchStorageUsage = async (folderPath = ''): Promise<StorageUsage> => {
+  const { data, error } = await supabase.rpc('get_storage_usage', { folder_prefix: folderPath });
+  if (error) throw error;
+
+  const row = data as UsageRow;
+  return {
+    totalFiles: Number(row.total_files) || 0,
+    totalBytes: Number(row.total_bytes) || 0,
+    byFolder: toBuckets(row.by_folder),
+    byType: groupByCategory(toBuckets(row.by_mimetype)),
+    byUploader: toBuckets(row.by_uploader),
+    byMonth: toBuckets(row.by_month),
+    bySystemFolder: toBuckets(row.by_system_folder)
+  };
+};
+
+// Running totals of `byMonth`, i.e. how big the folder was at the end of each month
+export const getCumulativeGrowth = (byMonth: UsageBucket[]): UsageBucket[] => {
+  let files = 0;
+  let bytes = 0;
+  return byMonth.map(month => {
+    files += month.files;
+    bytes += month.bytes;
+    return { key: month.key, files, bytes };
+  });
+};
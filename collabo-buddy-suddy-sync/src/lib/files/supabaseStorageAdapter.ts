@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PROJECT_FILES_BUCKET, SIGNED_URL_TTL_SECONDS } from './storage';
+import { StorageAdapter, StorageEntry } from './storageAdapter';
+import { sendWithProgress } from './uploadWithProgress';
+import { createSupabaseResumableConfig } from './resumableUpload';
+
+// Supabase Storage, where files have always lived. Access is judged by the
+// bucket's RLS policies for the signed-in user.
+export const createSupabaseStorageAdapter = (bucket = PROJECT_FILES_BUCKET): StorageAdapter => {
+  const storage = () => supabase.storage.from(bucket);
+
+  return {
+    list: async (prefix, { limit, offset, search }) => {
+      const { data, error } = await storage().list(prefix, {
+        limit,
+        offset,
+        search,
+        sortBy: { column: 'name', order: 'asc' },
+      });
+      if (error) throw error;
+
+      // Sub-folders come back as entries without an id
+      return (data || []).map((entry): StorageEntry => ({
+        name: entry.name,
+        isFolder: entry.id === null,
+        id: entry.id || undefined,
+        size: entry.metadata?.size || 0,
+        mimeType: entry.metadata?.mimetype || null,
+        createdAt: entry.created_at || null,
+        updatedAt: entry.updated_at || null
+      }));
+    },
+
+    // supabase-js uploads with fetch, which can't report progress. Instead we
+    // ask for a signed upload URL and send the file ourselves.
+    upload: async (path, body, { upsert = false, contentType, cacheControl = '3600', signal, onProgress } = {}) => {
+      const { data, error } = await storage().createSignedUploadUrl(path, { upsert });
+      if (error) throw error;
+
+      const formData = new FormData();
+      formData.append('cacheControl', cacheControl);
+      formData.append('', contentType && contentType !== body.type ? new Blob([body], { type: contentType }) : body);
+
+      await sendWithProgress(data.signedUrl, formData, {
+        headers: { 'x-upsert': String(upsert) },
+        total: body.size,
+        signal,
+        onProgress
+      });
+    },
+
+    remove: async (paths) => {
+      if (paths.length === 0) return;
+      const { error } = await storage().remove(paths);
+      if (error) throw error;
+    },
+
+    move: async (fromPath, toPath) => {
+      const { error } = await storage().move(fromPath, toPath);
+      if (error) throw error;
+    },
+
+    copy: async (fromPath, toPath) => {
+      const { error } = await storage().copy(fromPath, toPath);
+      if (error) throw error;
+    },
+
+    getUrl: async (path, { download, expiresIn = SIGNED_URL_TTL_SECONDS } = {}) => {
+      const { data, error } = await storage().createSignedUrl(path, expiresIn, download ? { download } : undefined);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+
+    getUrls: async (paths, { expiresIn = SIGNED_URL_TTL_SECONDS } = {}) => {
+      if (paths.length === 0) return [];
+      const { data, error } = await storage().createSignedUrls(paths, expiresIn);
+      if (error) throw error;
+
+      const urls: (string | null)[] = paths.map(() => null);
+      (data || []).forEach((entry: { error: string | null; signedUrl: string | null }, index: number) => {
+        if (!entry.error && entry.signedUrl) urls[index] = entry.signedUrl;
+      });
+      return urls;
+    },
+
+    resumable: createSupabaseResumableConfig(bucket)
+  };
+};
@@ -0,0 +1,37 @@
+import { THUMBNAILS_ROOT } from './storage';
+import { StorageAdapter } from './storageAdapter';
+import { listObjectsRecursive, listObjectPathsRecursive } from './folders';
+import { getThumbnailPath, getThumbnailKind, renderThumbnail, uploadThumbnail } from './thumbnails';
+import { BackfillProgress, runBackfill } from './backfill';
+import { listEncryptedPaths } from './metadata';
+import { getBaseName } from './paths';
+
+// Creates thumbnails for files uploaded before thumbnails existed (or whose
+// thumbnail failed). Rendering needs a canvas, so this runs in the browser,
+// one file at a time, reading each file through its storage URL.
+export const backfillThumbnails = async (
+  storage: StorageAdapter,
+  onProgress: (progress: BackfillProgress) => void,
+  signal?: AbortSignal
+): Promise<BackfillProgress> => {
+  const [objects, thumbnailPaths, encrypted] = await Promise.all([
+    listObjectsRecursive(storage, ''),
+    listObjectPathsRecursive(storage, THUMBNAILS_ROOT),
+    listEncryptedPaths()
+  ]);
+  const existing = new Set(thumbnailPaths);
+
+  const missing = objects.filter(object => {
+    // Links are empty objects and show their target's thumbnail instead
+    return object.size > 0
+      && getThumbnailKind(getBaseName(object.path)) !== null
+      && !existing.has(getThumbnailPath(object.path))
+      && !encrypted.has(object.path);
+  });
+
+  return runBackfill(missing.map(object => object.path), async path => {
+    const url = await storage.getUrl(path);
+    await uploadThumbnail(storage, path, await renderThumbnail(getThumbnailKind(getBaseName(path))!, url));
+    return true;
+  }, onProgress, signal);
+};
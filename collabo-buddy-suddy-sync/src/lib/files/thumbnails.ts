@@ -0,0 +1,186 @@
+import { THUMBNAILS_ROOT } from './storage';
+import { StorageAdapter } from './storageAdapter';
+import { joinPath } from './paths';
+import { getFileCategory, getFileExtension } from './fileTypes';
+
+// Each file's thumbnail is a single object at .thumbnails/<file path>, made in
+// the browser when the file is uploaded. Like version history it follows the
+// file when it is renamed, moved or trashed.
+
+// Longest edge in pixels; cards show them at up to ~300px wide
+const THUMBNAIL_SIZE = 320;
+// WebP keeps logo transparency; browsers that can't encode it fall back to PNG
+const THUMBNAIL_TYPE = 'image/webp';
+const THUMBNAIL_QUALITY = 0.8;
+// Thumbnails are requested a page at a time, so their links outlive a preview's
+const THUMBNAIL_URL_TTL_SECONDS = 60 * 60;
+// Where in a video the frame is taken from, unless the video is shorter
+const VIDEO_FRAME_SECONDS = 1;
+const RENDER_TIMEOUT_MS = 20000;
+
+type ThumbnailKind = 'image' | 'video' | 'pdf';
+
+export const getThumbnailPath = (filePath: string): string => joinPath(THUMBNAILS_ROOT, filePath);
+
+export const getThumbnailKind = (fileName: string, mimeType?: string | null): ThumbnailKind | null => {
+  if (mimeType === 'application/pdf' || getFileExtension(fileName) === 'pdf') return 'pdf';
+  const category = getFileCategory(fileName, mimeType);
+  if (category === 'image' || category === 'video') return category;
+  return null;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) => {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode thumbnail'))),
+      THUMBNAIL_TYPE,
+      THUMBNAIL_QUALITY
+    );
+  });
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas);
+};
+
+const withTimeout = <T>(promise: Promise<T>, message: string) => {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), RENDER_TIMEOUT_MS);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+};
+
+const renderImage = (url: string) => {
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      // SVGs without a viewBox size report 0x0
+      const width = image.naturalWidth || THUMBNAIL_SIZE;
+      const height = image.naturalHeight || THUMBNAIL_SIZE;
+      drawScaled(image, width, height).then(resolve, reject);
+    };
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = url;
+  });
+};
+
+const renderVideoFrame = (url: string) => {
+  return new Promise<Blob>((resolve, reject) => {
+    const video = document.createElement('video');
+    const cleanUp = () => {
+      video.removeAttribute('src');
+      video.load();
+    };
+
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(VIDEO_FRAME_SECONDS, (video.duration || 0) / 2);
+    };
+    video.onseeked = () => {
+      drawScaled(video, video.videoWidth, video.videoHeight)
+        .then(resolve, reject)
+        .finally(cleanUp);
+    };
+    video.onerror = () => {
+      cleanUp();
+      reject(new Error('Could not load video'));
+    };
+    video.src = url;
+  });
+};
+
+// pdf.js is large, so it is only loaded once a PDF actually needs rendering
+export const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+const renderPdfFirstPage = async (url: string) => {
+  const pdfjs = await loadPdfJs();
+  // Range requests: only the bytes needed for page one are fetched
+  const pdf = await pdfjs.getDocument({ url, disableAutoFetch: true, disableStream: true }).promise;
+  try {
+    const page = await pdf.getPage(1);
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: THUMBNAIL_SIZE / Math.max(unscaled.width, unscaled.height) });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    return await canvasToBlob(canvas);
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// Renders a thumbnail from a URL the browser can read (an object URL or a
+// signed storage URL)
+export const renderThumbnail = (kind: ThumbnailKind, url: string): Promise<Blob> => {
+  const render = kind === 'image' ? renderImage(url) : kind === 'video' ? renderVideoFrame(url) : renderPdfFirstPage(url);
+  return withTimeout(render, `Timed out rendering ${kind} thumbnail`);
+};
+
+export const uploadThumbnail = async (storage: StorageAdapter, filePath: string, thumbnail: Blob) => {
+  await storage.upload(getThumbnailPath(filePath), thumbnail, {
+    contentType: thumbnail.type,
+    cacheControl: '3600',
+    upsert: true
+  });
+};
+
+// Makes and stores the thumbnail for a file that was just uploaded. Returns
+// false for files that don't get one.
+export const createThumbnail = async (storage: StorageAdapter, filePath: string, file: File): Promise<boolean> => {
+  const kind = getThumbnailKind(file.name, file.type);
+  if (!kind) return false;
+
+  const url = URL.createObjectURL(file);
+  try {
+    await uploadThumbnail(storage, filePath, await renderThumbnail(kind, url));
+    return true;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Signed URLs for the thumbnails of `filePaths`, keyed by file path. Files
+// without a thumbnail are left out.
+export const getThumbnailUrls = async (storage: StorageAdapter, filePaths: string[]): Promise<Map<string, string>> => {
+  const urls = new Map<string, string>();
+  if (filePaths.length === 0) return urls;
+
+  const thumbnailPaths = filePaths.map(getThumbnailPath);
+  const options = { expiresIn: THUMBNAIL_URL_TTL_SECONDS };
+  const signed = storage.getUrls
+    ? await storage.getUrls(thumbnailPaths, options)
+    : await Promise.all(thumbnailPaths.map(path => storage.getUrl(path, options).catch(() => null)));
+
+  signed.forEach((url, index) => {
+    if (url) urls.set(filePaths[index], url);
+  });
+  return urls;
+};
+
+// Moving and copying thumbnails is best effort: most files have none, and a
+// missing one is recreated by the backfill
+export const moveThumbnail = async (storage: StorageAdapter, fromPath: string, toPath: string) => {
+  await storage.move(getThumbnailPath(fromPath), getThumbnailPath(toPath)).catch(() => undefined);
+};
+
+export const copyThumbnail = async (storage: StorageAdapter, fromPath: string, toPath: string) => {
+  await storage.copy(getThumbnailPath(fromPath), getThumbnailPath(toPath)).catch(() => undefined);
+};
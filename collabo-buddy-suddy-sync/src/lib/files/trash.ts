@@ -0,0 +1,201 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TRASH_ROOT, VERSIONS_ROOT, findAvailableName, listFolderAll } from './storage';
+import { StorageAdapter } from './storageAdapter';
+import { joinPath, getParentPath, getBaseName } from './paths';
+import { moveMetadata, deleteMetadata, PartialMoveError } from './metadata';
+import { revokeShareLinksForPath } from './shareLinks';
+import { detachLinks, countLinksTo } from './fileLinks';
+import { getVersionFolder, moveVersionFolder } from './versions';
+import { getThumbnailPath, moveThumbnail } from './thumbnails';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashItem {
+  id: string;
+  originalPath: string;
+  trashPath: string;
+  name: string;
+  size: number;
+  deletedBy: string | null;
+  deletedByEmail: string | null;
+  deletedAt: Date;
+}
+
+interface FileTrashRow {
+  id: string;
+  original_path: string;
+  trash_path: string;
+  name: string;
+  size: number;
+  deleted_by: string | null;
+  deleted_by_email: string | null;
+  deleted_at: string;
+}
+
+// A trashed file's versions go into the trash with it, to .trash/<id>/.versions/,
+// so a new file uploaded at the same path starts with a history of its own
+const getTrashedVersionFolder = (trashPath: string): string => {
+  return joinPath(getParentPath(trashPath), VERSIONS_ROOT);
+};
+
+const fromRow = (row: FileTrashRow): TrashItem => ({
+  id: row.id,
+  originalPath: row.original_path,
+  trashPath: row.trash_path,
+  name: row.name,
+  size: Number(row.size) || 0,
+  deletedBy: row.deleted_by,
+  deletedByEmail: row.deleted_by_email,
+  deletedAt: new Date(row.deleted_at)
+});
+
+export const getTrashExpiry = (item: TrashItem, retentionDays: number): Date => {
+  return new Date(item.deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+};
+
+// Moves a file into .trash/<id>/ and records where it came from. Its metadata
+// and version history follow it so both survive a restore; its share links
+// are revoked first, and links to it are given a copy of their own. Throws
+// PartialMoveError if the file is in the trash but its metadata isn't.
+export const moveToTrash = async (
+  storage: StorageAdapter,
+  file: { path: string; size: number },
+  deletedBy: { id: string; email?: string | null } | null
+): Promise<TrashItem> => {
+  const id = crypto.randomUUID();
+  const name = getBaseName(file.path);
+  const trashPath = joinPath(TRASH_ROOT, id, name);
+
+  await revokeShareLinksForPath(file.path);
+  await detachLinks(storage, file.path);
+
+  // The record comes first: storage only lets the file into .trash/<id>/
+  // once there is one
+  const { data, error } = await supabase
+    .from('file_trash')
+    .insert({
+      id,
+      original_path: file.path,
+      trash_path: trashPath,
+      name,
+      size: file.size,
+      deleted_by: deletedBy?.id || null,
+      deleted_by_email: deletedBy?.email || null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  try {
+    await storage.move(file.path, trashPath);
+  } catch (moveError) {
+    await supabase.from('file_trash').delete().eq('id', id);
+    throw moveError;
+  }
+
+  await moveThumbnail(storage, file.path, trashPath);
+  await moveVersionFolder(storage, getVersionFolder(file.path), getTrashedVersionFolder(trashPath));
+  try {
+    await moveMetadata(file.path, trashPath);
+  } catch (metadataError) {
+    throw new PartialMoveError(trashPath, metadataError);
+  }
+
+  return fromRow(data as FileTrashRow);
+};
+
+export const listTrash = async (): Promise<TrashItem[]> => {
+  const { data, error } = await supabase
+    .from('file_trash')
+    .select('*')
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as FileTrashRow[] || []).map(fromRow);
+};
+
+// Puts a file back where it was deleted from. If something has taken its name
+// in the meantime, the restored copy gets a "(1)" style suffix. Throws
+// PartialMoveError if the file is back but its metadata isn't.
+export const restoreFromTrash = async (storage: StorageAdapter, item: TrashItem): Promise<string> => {
+  const folderPath = getParentPath(item.originalPath);
+  const name = await findAvailableName(storage, folderPath, getBaseName(item.originalPath), new Set());
+  const restoredPath = joinPath(folderPath, name);
+
+  await storage.move(item.trashPath, restoredPath);
+  // Before the trash record goes, while access to it is still judged by it
+  await moveThumbnail(storage, item.trashPath, restoredPath);
+  await moveVersionFolder(storage, getTrashedVersionFolder(item.trashPath), getVersionFolder(restoredPath));
+  let metadataError: unknown = null;
+  try {
+    await moveMetadata(item.trashPath, restoredPath);
+  } catch (error) {
+    metadataError = error;
+  }
+
+  const { error } = await supabase.from('file_trash').delete().eq('id', item.id);
+  if (error) console.error('Error removing trash record:', error);
+
+  if (metadataError) throw new PartialMoveError(restoredPath, metadataError);
+  return restoredPath;
+};
+
+// Removes trashed files for good, along with their metadata, thumbnails and
+// version history. Refuses while a link still points at one of them, as it
+// holds the only copy of what the link shows.
+export const deleteForever = async (storage: StorageAdapter, items: TrashItem[]): Promise<void> => {
+  if (items.length === 0) return;
+
+  const links = await countLinksTo(items.map(item => item.trashPath));
+  if (links.size > 0) {
+    const [[trashPath, linkCount]] = links;
+    const name = items.find(item => item.trashPath === trashPath)?.name;
+    throw new Error(`"${name}" can't be deleted forever while ${linkCount} link(s) point at it. Restore it first.`);
+  }
+
+  const versionPaths: string[] = [];
+  for (const item of items) {
+    const versionFolder = getTrashedVersionFolder(item.trashPath);
+    const { objects } = await listFolderAll(storage, versionFolder);
+    versionPaths.push(...objects.map(object => joinPath(versionFolder, object.name)));
+  }
+
+  await storage.remove([
+    ...items.map(item => item.trashPath),
+    ...items.map(item => getThumbnailPath(item.trashPath)),
+    ...versionPaths
+  ]);
+
+  const { error } = await supabase
+    .from('file_trash')
+    .delete()
+    .in('id', items.map(item => item.id));
+  if (error) throw error;
+
+  for (const item of items) {
+    try {
+      await deleteMetadata(item.trashPath);
+    } catch (metadataError) {
+      console.error('Error deleting file metadata:', metadataError);
+    }
+  }
+};
+
+// Client-side safety net for the scheduled purge-trash function
+export const purgeExpiredTrash = async (storage: StorageAdapter, retentionDays: number): Promise<number> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('file_trash')
+    .select('*')
+    .lt('deleted_at', cutoff.toISOString());
+
+  if (error) throw error;
+
+  // Files that links still point at wait until they are restored
+  const expired = (data as FileTrashRow[] || []).map(fromRow);
+  const links = await countLinksTo(expired.map(item => item.trashPath));
+  const purgeable = expired.filter(item => !links.has(item.trashPath));
+  await deleteForever(storage, purgeable);
+  return purgeable.length;
+};
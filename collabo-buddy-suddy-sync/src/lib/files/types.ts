@@ -0,0 +1,33 @@
+// The folder key a file was encrypted with; see lib/files/encryption
+export interface FileEncryption {
+  folderId: string;
+  keyVersion: number;
+}
+
+export interface FileItem {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: Date;
+  uploadedBy: string;
+  folder?: string;
+  tags: string[];
+  description?: string;
+  customFields?: Record<string, string>;
+  url?: string;
+  // Signed URL of the generated thumbnail, for images, videos and PDFs
+  thumbnailUrl?: string;
+  // Left out when the file has no comments
+  commentCount?: { total: number; open: number; mentions: number };
+  // Left out for files that aren't encrypted
+  encryption?: FileEncryption;
+  // Path of the file holding the contents, when this file is a link to it
+  linkTarget?: string;
+  path?: string;
+}
+
+export interface FolderItem {
+  name: string;
+  path: string;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { screenUploads, DEFAULT_UPLOAD_POLICY } from './uploadPolicy';
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d];
+
+const png = (name: string, type = '') => new File([new Uint8Array(PNG_HEADER)], name, { type, lastModified: 1234 });
+
+describe('screenUploads', () => {
+  it('returns real files typed with the detected MIME type', async () => {
+    const { accepted, rejected } = await screenUploads([png('photo.png', 'application/octet-stream')], DEFAULT_UPLOAD_POLICY);
+
+    expect(rejected).toEqual([]);
+    expect(accepted).toHaveLength(1);
+    expect(accepted[0]).toBeInstanceOf(File);
+    expect(accepted[0]).toMatchObject({ name: 'photo.png', type: 'image/png', size: PNG_HEADER.length, lastModified: 1234 });
+    expect(new Uint8Array(await accepted[0].arrayBuffer())).toEqual(new Uint8Array(PNG_HEADER));
+  });
+
+  it('types text files by their content when the browser gave no type', async () => {
+    const { accepted } = await screenUploads([new File(['hello'], 'notes.txt')], DEFAULT_UPLOAD_POLICY);
+
+    expect(accepted[0]).toBeInstanceOf(File);
+    expect(accepted[0].type).toBe('text/plain');
+  });
+
+  it('leaves out refused files and says why', async () => {
+    const { accepted, rejected } = await screenUploads(
+      [png('photo.png'), new File(['MZ'], 'setup.exe'), png('report.pdf')],
+      DEFAULT_UPLOAD_POLICY
+    );
+
+    expect(accepted.map(file => file.name)).toEqual(['photo.png']);
+    expect(rejected.map(({ file, reason }) => [file.name, reason])).toEqual([
+      ['setup.exe', '.exe files are not allowed'],
+      ['report.pdf', 'The content is an image, not a .pdf file']
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  DetectedFileType,
+  FileCategory,
+  FILE_CATEGORY_LABELS,
+  detectFileType,
+  getKnownExtensions,
+  getKnownFileType
+} from './fileTypes';
+
+export interface UploadPolicy {
+  // Categories ('image') or MIME patterns ('image/*', 'application/pdf').
+  // Leave out to allow anything that isn't blocked.
+  allowedTypes?: string[];
+  // Per-category size limits in bytes; `default` applies to the rest
+  maxSize?: Partial<Record<FileCategory | 'default', number>>;
+  // Extensions (without the dot) refused whatever the content
+  blockedExtensions?: string[];
+  // Refuse files whose content contradicts their extension
+  rejectMismatchedContent?: boolean;
+}
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  allowedTypes: [
+    'document',
+    'spreadsheet',
+    'presentation',
+    'text',
+    'code',
+    'image',
+    'video',
+    'audio',
+    'archive',
+    'font'
+  ],
+  maxSize: {
+    image: 50 * MB,
+    document: 200 * MB,
+    spreadsheet: 200 * MB,
+    presentation: 500 * MB,
+    text: 50 * MB,
+    code: 50 * MB,
+    font: 50 * MB
+  },
+  blockedExtensions: ['exe', 'dll', 'msi', 'scr', 'com', 'bat', 'cmd', 'ps1', 'vbs', 'jar', 'apk'],
+  rejectMismatchedContent: true
+};
+
+export interface UploadValidation {
+  file: File;
+  detected: DetectedFileType;
+  // Why the file can't be uploaded, or null when it can
+  reason: string | null;
+}
+
+const formatLimit = (bytes: number) => {
+  return bytes >= MB ? `${Math.round(bytes / MB)} MB` : `${Math.round(bytes / 1024)} KB`;
+};
+
+const withArticle = (label: string) => `${/^[aeiou]/.test(label) ? 'an' : 'a'} ${label}`;
+
+const matchesAllowedType = (allowed: string, type: { mimeType: string; category: FileCategory }) => {
+  if (!allowed.includes('/')) return allowed === type.category;
+  if (allowed.endsWith('/*')) return type.mimeType.startsWith(allowed.slice(0, -1));
+  return allowed === type.mimeType;
+};
+
+const getRejectionReason = (file: File, detected: DetectedFileType, policy: UploadPolicy): string | null => {
+  const label = FILE_CATEGORY_LABELS[detected.category];
+
+  if (detected.extension && policy.blockedExtensions?.includes(detected.extension)) {
+    return `.${detected.extension} files are not allowed`;
+  }
+  if (policy.rejectMismatchedContent && detected.isMismatch) {
+    return detected.category === 'other'
+      ? `The content doesn't match the .${detected.extension} extension`
+      : `The content is ${withArticle(label)}, not a .${detected.extension} file`;
+  }
+  if (policy.allowedTypes && !policy.allowedTypes.some(allowed => matchesAllowedType(allowed, detected))) {
+    const what = detected.category === 'other' ? 'This file type is' : `${label.charAt(0).toUpperCase()}${label.slice(1)}s are`;
+    return `${what} not allowed (detected ${detected.mimeType})`;
+  }
+
+  const limit = policy.maxSize?.[detected.category] ?? policy.maxSize?.default;
+  if (limit !== undefined && file.size > limit) {
+    return `Too large: ${label}s can be at most ${formatLimit(limit)}`;
+  }
+  return null;
+};
+
+// Checks each file against the policy before anything is sent. Files are
+// sniffed one at a time since only their first bytes are read.
+export const validateUploads = async (files: File[], policy: UploadPolicy): Promise<UploadValidation[]> => {
+  const validations: UploadValidation[] = [];
+  for (const file of files) {
+    const detected = await detectFileType(file);
+    validations.push({ file, detected, reason: getRejectionReason(file, detected, policy) });
+  }
+  return validations;
+};
+
+// Splits files into the ones the policy lets through and the ones it refuses.
+// Accepted files come back typed with their sniffed MIME type, which is what
+// storage records for them.
+export const screenUploads = async (
+  files: File[],
+  policy: UploadPolicy
+): Promise<{ accepted: File[]; rejected: UploadValidation[] }> => {
+  const validations = await validateUploads(files, policy);
+  return {
+    accepted: validations
+      .filter(validation => !validation.reason)
+      .map(({ file, detected }) => new File([file], file.name, {
+        type: detected.mimeType,
+        lastModified: file.lastModified
+      })),
+    rejected: validations.filter(validation => validation.reason)
+  };
+};
+
+// The file input's `accept` list: every known extension the policy would let through
+export const getAcceptedExtensions = (policy: UploadPolicy): string => {
+  return getKnownExtensions()
+    .filter(extension => !policy.blockedExtensions?.includes(extension))
+    .filter(extension => {
+      const knownType = getKnownFileType(extension);
+      return !policy.allowedTypes || (knownType !== null &&
+        policy.allowedTypes.some(allowed => matchesAllowedType(allowed, knownType)));
+    })
+    .map(extension => `.${extension}`)
+    .join(',');
+};
+
+// e.g. "Documents, images, application/pdf" for the upload area
+export const describeAllowedTypes = (policy: UploadPolicy): string => {
+  if (!policy.allowedTypes) return 'Any file type';
+  const described = policy.allowedTypes.map(allowed => {
+    const label = FILE_CATEGORY_LABELS[allowed as FileCategory];
+    return label ? `${label}s` : allowed;
+  }).join(', ');
+  return described.charAt(0).toUpperCase() + described.slice(1);
+};
@@ -0,0 +1,66 @@
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+export interface SendWithProgressOptions {
+  headers?: Record<string, string>;
+  // Size reported while the browser can't tell how much is left
+  total: number;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// fetch can't report upload progress, so adapters that upload to a signed URL
+// send the body themselves with XMLHttpRequest.
+export const sendWithProgress = (
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  { headers = {}, total, signal, onProgress }: SendWithProgressOptions
+): Promise<void> => {
+  if (signal?.aborted) return Promise.reject(new UploadCancelledError());
+
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      onProgress?.(event.loaded, event.lengthComputable ? event.total : total);
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(total, total);
+        resolve();
+        return;
+      }
+      reject(new Error(getResponseMessage(xhr) || `Upload failed with status ${xhr.status}`));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new Error('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new UploadCancelledError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    xhr.send(body);
+  });
+};
+
+// Supabase answers with JSON, S3 and MinIO with XML
+const getResponseMessage = (xhr: XMLHttpRequest): string | null => {
+  try {
+    const body = JSON.parse(xhr.responseText);
+    return body.message || body.error || null;
+  } catch {
+    return xhr.responseText.match(/<Message>([^<]*)<\/Message>/)?.[1] || null;
+  }
+};
@@ -0,0 +1,83 @@
+import { VERSIONS_ROOT, listFolderAll } from './storage';
+import { StorageAdapter } from './storageAdapter';
+import { joinPath, getBaseName } from './paths';
+import { detachLinks } from './fileLinks';
+
+// Earlier copies of a file live under .versions/<file path>/, one object per
+// version named "<timestamp>__<original name>".
+
+export interface FileVersion {
+  path: string;
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+const VERSION_SEPARATOR = '__';
+
+export const getVersionFolder = (filePath: string): string => joinPath(VERSIONS_ROOT, filePath);
+
+const getVersionPath = (filePath: string): string => {
+  return joinPath(getVersionFolder(filePath), `${Date.now()}${VERSION_SEPARATOR}${getBaseName(filePath)}`);
+};
+
+// Copies the current object into the version folder so it can be overwritten
+export const archiveCurrentVersion = async (storage: StorageAdapter, filePath: string): Promise<string> => {
+  const versionPath = getVersionPath(filePath);
+  await storage.copy(filePath, versionPath);
+  return versionPath;
+};
+
+// Moves every version in one version folder to another, e.g. along with a
+// file that is renamed or trashed. A version that won't move is logged and
+// left behind rather than stopping the rest.
+export const moveVersionFolder = async (storage: StorageAdapter, fromFolder: string, toFolder: string): Promise<void> => {
+  try {
+    const { objects } = await listFolderAll(storage, fromFolder);
+    for (const object of objects) {
+      await storage
+        .move(joinPath(fromFolder, object.name), joinPath(toFolder, object.name))
+        .catch(versionError => console.error('Error moving file version:', versionError));
+    }
+  } catch (versionError) {
+    console.error('Error moving file versions:', versionError);
+  }
+};
+
+export const listVersions = async (storage: StorageAdapter, filePath: string): Promise<FileVersion[]> => {
+  const folder = getVersionFolder(filePath);
+  const { objects } = await listFolderAll(storage, folder);
+
+  return objects
+    .map(object => {
+      const [timestamp, ...nameParts] = object.name.split(VERSION_SEPARATOR);
+      return {
+        path: joinPath(folder, object.name),
+        name: nameParts.join(VERSION_SEPARATOR) || object.name,
+        size: object.size,
+        createdAt: new Date(Number(timestamp) || object.createdAt || Date.now())
+      };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// Makes an old version current again. The copy being replaced is archived
+// first, so restoring never loses anything, and links to the file keep
+// showing it.
+export const restoreVersion = async (
+  storage: StorageAdapter,
+  filePath: string,
+  versionPath: string
+): Promise<void> => {
+  await detachLinks(storage, filePath);
+  const archivedPath = getVersionPath(filePath);
+  await storage.move(filePath, archivedPath);
+
+  try {
+    await storage.copy(versionPath, filePath);
+  } catch (restoreError) {
+    // Put the current copy back rather than leave the file missing
+    await storage.move(archivedPath, filePath);
+    throw restoreError;
+  }
+};
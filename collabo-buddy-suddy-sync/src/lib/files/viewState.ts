@@ -0,0 +1,81 @@
+import { FILE_CATEGORY_LABELS, FileCategory } from './fileTypes';
+import { FileSort, FileSortField, FILE_SORT_FIELDS } from './sorting';
+
+export type ViewMode = 'grid' | 'list';
+
+// What the file manager is showing, kept in the URL so a link reopens it
+export interface FileViewState {
+  folder: string;
+  query: string;
+  sort: FileSort | null;
+  types: FileCategory[];
+  viewMode: ViewMode;
+}
+
+export const DEFAULT_VIEW_STATE: FileViewState = {
+  folder: '',
+  query: '',
+  sort: null,
+  types: [],
+  viewMode: 'grid'
+};
+
+// Query string keys; anything else in the URL belongs to the page and is kept
+const PARAMS = {
+  folder: 'folder',
+  query: 'q',
+  sort: 'sort',
+  types: 'type',
+  viewMode: 'view'
+};
+
+const SORT_FIELDS = FILE_SORT_FIELDS.map(option => option.field);
+const CATEGORIES = Object.keys(FILE_CATEGORY_LABELS) as FileCategory[];
+
+// "size" is ascending, "-size" descending
+const parseSort = (value: string | null): FileSort | null => {
+  if (!value) return null;
+  const field = value.replace(/^-/, '') as FileSortField;
+  if (!SORT_FIELDS.includes(field)) return null;
+  return { field, direction: value.startsWith('-') ? 'desc' : 'asc' };
+};
+
+// Unknown or malformed values fall back to the defaults, so a hand-edited or
+// outdated link still opens
+export const readViewState = (search: string): FileViewState => {
+  const params = new URLSearchParams(search);
+  const types = (params.get(PARAMS.types) || '')
+    .split(',')
+    .filter((type): type is FileCategory => CATEGORIES.includes(type as FileCategory));
+
+  return {
+    folder: (params.get(PARAMS.folder) || '').replace(/^\/+|\/+$/g, ''),
+    query: params.get(PARAMS.query) || '',
+    sort: parseSort(params.get(PARAMS.sort)),
+    types,
+    viewMode: params.get(PARAMS.viewMode) === 'list' ? 'list' : 'grid'
+  };
+};
+
+// Writes `state` into `search`, leaving out defaults to keep links short
+export const writeViewState = (search: string, state: FileViewState): string => {
+  const params = new URLSearchParams(search);
+  const values: Record<keyof FileViewState, string> = {
+    folder: state.folder,
+    query: state.query,
+    sort: state.sort ? `${state.sort.direction === 'desc' ? '-' : ''}${state.sort.field}` : '',
+    types: state.types.join(','),
+    viewMode: state.viewMode === DEFAULT_VIEW_STATE.viewMode ? '' : state.viewMode
+  };
+
+  (Object.keys(PARAMS) as (keyof FileViewState)[]).forEach(key => {
+    if (values[key]) {
+      params.set(PARAMS[key], values[key]);
+    } else {
+      params.delete(PARAMS[key]);
+    }
+  });
+
+  const result = params.toString();
+  return result ? `?${result}` : '';
+};
@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Permanently removes trashed files older than TRASH_RETENTION_DAYS (default 30).
+// Meant to be called on a schedule; see the file_trash migration. Files that
+// links still point at are kept, as they hold the only copy of what the links
+// show.
+
+const BUCKET = "project-files";
+const BATCH_SIZE = 100;
+
+// Versions are trashed with their file, to .trash/<id>/.versions/
+// deno-lint-ignore no-explicit-any
+const listVersionPaths = async (supabase: any, trashPath: string): Promise<string[]> => {
+  const folder = `${trashPath.slice(0, trashPath.lastIndexOf("/"))}/.versions`;
+  const { data } = await supabase.storage.from(BUCKET).list(folder, { limit: 1000 });
+  // deno-lint-ignore no-explicit-any
+  return (data || []).filter((entry: any) => entry.id !== null).map((entry: any) => `${folder}/${entry.name}`);
+};
+
+serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const retentionDays = Number(Deno.env.get("TRASH_RETENTION_DAYS")) || 30;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  let purged = 0;
+  // Kept entries stay at the front of the list, so each batch starts after them
+  let kept = 0;
+
+  while (true) {
+    const { data: batch, error } = await supabase
+      .from("file_trash")
+      .select("id, trash_path")
+      .lt("deleted_at", cutoff)
+      .order("deleted_at")
+      .order("id")
+      .range(kept, kept + BATCH_SIZE - 1);
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+    }
+    if (!batch || batch.length === 0) break;
+
+    const { data: links, error: linkError } = await supabase
+      .from("file_metadata")
+      .select("link_target")
+      .in("link_target", batch.map((item) => item.trash_path));
+
+    if (linkError) {
+      return new Response(JSON.stringify({ error: linkError.message, purged }), { status: 500 });
+    }
+    const linked = new Set((links || []).map((link) => link.link_target));
+    const expired = batch.filter((item) => !linked.has(item.trash_path));
+    kept += batch.length - expired.length;
+    if (expired.length === 0) continue;
+
+    const versionPaths: string[] = [];
+    for (const item of expired) {
+      versionPaths.push(...await listVersionPaths(supabase, item.trash_path));
+    }
+
+    const { error: removeError } = await supabase.storage
+      .from(BUCKET)
+      .remove([
+        ...expired.map((item) => item.trash_path),
+        ...expired.map((item) => `.thumbnails/${item.trash_path}`),
+        ...versionPaths,
+      ]);
+
+    if (removeError) {
+      return new Response(JSON.stringify({ error: removeError.message, purged }), { status: 500 });
+    }
+
+    const trashPaths = expired.map((item) => item.trash_path);
+    await supabase.from("file_metadata").delete().in("path", trashPaths);
+    await supabase.from("file_contents").delete().in("path", trashPaths);
+    await supabase.from("file_comments").delete().in("path", trashPaths);
+    await supabase.from("file_trash").delete().in("id", expired.map((item) => item.id));
+    purged += expired.length;
+  }
+
+  return new Response(JSON.stringify({ purged }), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Resolves a file share link for someone without an account: checks expiry,
+// revocation, the optional password and the download limit, then redirects
+// to a signed URL that is only valid for a minute.
+//
+// Recipients have no Supabase session, so deploy with JWT verification off:
+//   supabase functions deploy share-link --no-verify-jwt
+
+const BUCKET = "project-files";
+const SIGNED_URL_TTL_SECONDS = 60;
+// Must match src/lib/files/shareLinks.ts
+const PASSWORD_HASH_ITERATIONS = 100000;
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const hashPassword = async (password: string, saltHex: string): Promise<string> => {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const salt = new Uint8Array(saltHex.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)));
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PASSWORD_HASH_ITERATIONS },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+const page = (title: string, body: string, status = 200) => {
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #f9fafb; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; }
+      main { background: white; border: 1px solid #e5e7eb; border-radius: 8px; padding: 24px; max-width: 360px; width: 100%; }
+      h1 { font-size: 18px; margin: 0 0 12px; }
+      p { color: #4b5563; font-size: 14px; }
+      input, button { width: 100%; box-sizing: border-box; padding: 8px; margin-top: 8px; font-size: 14px; }
+      button { background: #2563eb; color: white; border: none; border-radius: 6px; cursor: pointer; }
+      .error { color: #dc2626; }
+    </style>
+  </head>
+  <body><main><h1>${title}</h1>${body}</main></body>
+</html>`;
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+};
+
+// Downloads through a link show up in the file's activity. Best effort: a
+// failed entry doesn't stop the download.
+// deno-lint-ignore no-explicit-any
+const logDownload = async (supabase: any, path: string, outcome: "success" | "failure", detail?: string) => {
+  const { error } = await supabase.from("file_activity").insert({
+    actor_email: "Share link",
+    action: "download",
+    path,
+    outcome,
+    detail: detail ?? null,
+  });
+  if (error) console.error("Error logging share link download:", error);
+};
+
+const unavailable = () => page("Link unavailable", "<p>This link has expired, been revoked or reached its download limit.</p>", 410);
+
+const passwordForm = (token: string, error?: string) => page(
+  "Password required",
+  `${error ? `<p class="error">${error}</p>` : "<p>Enter the password you were given to download this file.</p>"}
+  <form method="post" action="?token=${encodeURIComponent(token)}">
+    <input type="password" name="password" autofocus required>
+    <button type="submit">Download</button>
+  </form>`,
+  error ? 401 : 200,
+);
+
+serve(async (req) => {
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) return page("Link not found", "<p>This share link is incomplete.</p>", 404);
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data: link, error } = await supabase
+    .from("file_share_links")
+    .select("path, expires_at, revoked_at, password_hash, password_salt, max_downloads, download_count")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error) return page("Something went wrong", "<p>Please try again later.</p>", 500);
+  if (!link) return page("Link not found", "<p>This share link does not exist.</p>", 404);
+
+  const isUsedUp = link.max_downloads !== null && link.download_count >= link.max_downloads;
+  if (link.revoked_at || new Date(link.expires_at) <= new Date() || isUsedUp) {
+    await logDownload(supabase, link.path, "failure", "Link expired, revoked or used up");
+    return unavailable();
+  }
+
+  if (link.password_hash) {
+    if (req.method !== "POST") return passwordForm(token);
+
+    const form = await req.formData();
+    const password = String(form.get("password") || "");
+    if (await hashPassword(password, link.password_salt) !== link.password_hash) {
+      await logDownload(supabase, link.path, "failure", "Wrong password");
+      return passwordForm(token, "That password is not correct.");
+    }
+  }
+
+  // Claiming is atomic, so the download limit holds even under concurrent requests
+  const { data: claimedPath, error: claimError } = await supabase.rpc("claim_file_share_download", {
+    share_token: token,
+  });
+  if (claimError) return page("Something went wrong", "<p>Please try again later.</p>", 500);
+  if (!claimedPath) {
+    await logDownload(supabase, link.path, "failure", "Download limit reached");
+    return unavailable();
+  }
+
+  // A link file is an empty object; its contents are at link_target
+  const { data: metadata } = await supabase
+    .from("file_metadata")
+    .select("link_target")
+    .eq("path", claimedPath)
+    .maybeSingle();
+
+  const fileName = String(claimedPath).split("/").pop();
+  const { data: signed, error: signError } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(metadata?.link_target || claimedPath, SIGNED_URL_TTL_SECONDS, { download: fileName });
+
+  if (signError || !signed) {
+    await logDownload(supabase, claimedPath, "failure", "File not found");
+    return page("File not found", "<p>This file is no longer available.</p>", 404);
+  }
+
+  await logDownload(supabase, claimedPath, "success");
+  return Response.redirect(signed.signedUrl, 303);
+});
@@ -0,0 +1,56 @@
+-- Bucket-wide counts for the FileManager stats header.
+-- storage.list() is paginated, so the browser can't count a large bucket itself.
+create or replace function public.get_file_stats(folder_prefix text default '')
+returns table (
+  total_files bigint,
+  total_folders bigint,
+  image_files bigint,
+  document_files bigint,
+  total_bytes bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with scoped as (
+    select o.name, o.metadata
+    from storage.objects o
+    where o.bucket_id = 'project-files'
+      and (
+        folder_prefix = ''
+        or left(o.name, length(folder_prefix) + 1) = folder_prefix || '/'
+      )
+  ),
+  files as (
+    select *
+    from scoped s
+    where storage.filename(s.name) <> '.emptyFolderPlaceholder'
+  ),
+  folder_paths as (
+    select distinct array_to_string((storage.foldername(s.name))[1:depth], '/') as path
+    from scoped s
+    cross join lateral generate_series(1, coalesce(array_length(storage.foldername(s.name), 1), 0)) as depth
+  )
+  select
+    (select count(*) from files),
+    (
+      select count(*)
+      from folder_paths fp
+      where folder_prefix = ''
+        or left(fp.path, length(folder_prefix) + 1) = folder_prefix || '/'
+    ),
+    (select count(*) from files f where f.metadata->>'mimetype' like 'image/%'),
+    (
+      select count(*)
+      from files f
+      where f.metadata->>'mimetype' in (
+        'application/pdf',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      )
+    ),
+    (select coalesce(sum((f.metadata->>'size')::bigint), 0) from files f);
+$$;
+
+grant execute on function public.get_file_stats(text) to authenticated;
@@ -0,0 +1,79 @@
+-- Per-file metadata for FileManager, keyed by the object's path in the project-files bucket.
+create table if not exists public.file_metadata (
+  path text primary key,
+  uploaded_by uuid references auth.users (id) on delete set null,
+  uploaded_by_email text,
+  tags text[] not null default '{}',
+  description text,
+  custom_fields jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists file_metadata_tags_idx on public.file_metadata using gin (tags);
+
+create or replace function public.set_file_metadata_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists file_metadata_set_updated_at on public.file_metadata;
+create trigger file_metadata_set_updated_at
+  before update on public.file_metadata
+  for each row execute function public.set_file_metadata_updated_at();
+
+alter table public.file_metadata enable row level security;
+
+create policy "Authenticated users can read file metadata"
+  on public.file_metadata for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add file metadata"
+  on public.file_metadata for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update file metadata"
+  on public.file_metadata for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete file metadata"
+  on public.file_metadata for delete
+  to authenticated
+  using (true);
+
+-- Re-keys metadata when a file or a whole folder moves. `from_path` matches the
+-- file itself and anything below it when it is a folder.
+create or replace function public.move_file_metadata(from_path text, to_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.file_metadata
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+$$;
+
+create or replace function public.delete_file_metadata(target_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  delete from public.file_metadata
+  where path = target_path
+    or left(path, length(target_path) + 1) = target_path || '/';
+$$;
+
+grant execute on function public.move_file_metadata(text, text) to authenticated;
+grant execute on function public.delete_file_metadata(text) to authenticated;
@@ -0,0 +1,42 @@
+-- Files deleted in FileManager are moved to .trash/<id>/<name> in the
+-- project-files bucket and recorded here until restored or purged.
+create table if not exists public.file_trash (
+  id uuid primary key default gen_random_uuid(),
+  original_path text not null,
+  trash_path text not null unique,
+  name text not null,
+  size bigint not null default 0,
+  deleted_by uuid references auth.users (id) on delete set null default auth.uid(),
+  deleted_by_email text,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists file_trash_deleted_at_idx on public.file_trash (deleted_at);
+
+alter table public.file_trash enable row level security;
+
+create policy "Authenticated users can read the trash"
+  on public.file_trash for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can trash files"
+  on public.file_trash for insert
+  to authenticated
+  with check (deleted_by = auth.uid());
+
+create policy "Authenticated users can restore or purge trashed files"
+  on public.file_trash for delete
+  to authenticated
+  using (true);
+
+-- Expired items are purged by the purge-trash edge function, because storage
+-- objects must be removed through the Storage API rather than SQL. To run it
+-- nightly with pg_cron + pg_net:
+--
+--   select cron.schedule('purge-file-trash', '0 3 * * *', $$
+--     select net.http_post(
+--       url := '<project-url>/functions/v1/purge-trash',
+--       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--     );
+--   $$);
@@ -0,0 +1,31 @@
+-- project-files holds client contracts, so it stops being a public bucket.
+-- The app reads objects through short-lived signed URLs instead, and anyone
+-- outside the workspace goes through the share-link edge function.
+update storage.buckets
+set public = false
+where id = 'project-files';
+
+drop policy if exists "Authenticated users can read project files" on storage.objects;
+create policy "Authenticated users can read project files"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'project-files');
+
+drop policy if exists "Authenticated users can upload project files" on storage.objects;
+create policy "Authenticated users can upload project files"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'project-files');
+
+drop policy if exists "Authenticated users can update project files" on storage.objects;
+create policy "Authenticated users can update project files"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'project-files')
+  with check (bucket_id = 'project-files');
+
+drop policy if exists "Authenticated users can delete project files" on storage.objects;
+create policy "Authenticated users can delete project files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'project-files');
@@ -0,0 +1,74 @@
+-- Links that let someone outside the workspace download one file. They are
+-- resolved by the share-link edge function, never read by anonymous clients.
+create table if not exists public.file_share_links (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  path text not null,
+  expires_at timestamptz not null,
+  -- PBKDF2-SHA256 of the password with password_salt, both hex encoded
+  password_hash text,
+  password_salt text,
+  max_downloads integer check (max_downloads is null or max_downloads > 0),
+  download_count integer not null default 0,
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_by_email text,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists file_share_links_path_idx on public.file_share_links (path);
+create index if not exists file_share_links_expires_at_idx on public.file_share_links (expires_at);
+
+alter table public.file_share_links enable row level security;
+
+create policy "Authenticated users can read share links"
+  on public.file_share_links for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can create share links"
+  on public.file_share_links for insert
+  to authenticated
+  with check (created_by = auth.uid());
+
+create policy "Authenticated users can revoke share links"
+  on public.file_share_links for update
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Counts one download against a link and returns the file path, or null when
+-- the link is revoked, expired or used up. Doing the check and the increment
+-- in one statement keeps two simultaneous downloads from both getting through.
+create or replace function public.claim_file_share_download(share_token text)
+returns text
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.file_share_links
+  set download_count = download_count + 1
+  where token = share_token
+    and revoked_at is null
+    and expires_at > now()
+    and (max_downloads is null or download_count < max_downloads)
+  returning path;
+$$;
+
+revoke execute on function public.claim_file_share_download(text) from public, anon, authenticated;
+grant execute on function public.claim_file_share_download(text) to service_role;
+
+-- Keeps links pointing at a file after it, or the folder it is in, moves
+create or replace function public.move_file_share_links(from_path text, to_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.file_share_links
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+$$;
+
+grant execute on function public.move_file_share_links(text, text) to authenticated;
@@ -0,0 +1,286 @@
+-- Per-folder access for FileManager. A grant gives a user or a team one of
+-- three roles on a folder and everything below it:
+--   viewer - list, preview and download
+--   editor - also upload, rename, move, delete and edit details
+--   owner  - also manage the folder's grants
+-- When several grants apply (direct, via a team, or on an ancestor folder) the
+-- highest role wins. Folders with no grants anywhere on their path stay open to
+-- every signed-in user, as they were before grants existed.
+
+create table if not exists public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.team_members (
+  team_id uuid not null references public.teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  primary key (team_id, user_id)
+);
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+-- Teams are managed from the dashboard; the app only needs to read them
+create policy "Authenticated users can read teams"
+  on public.teams for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read team members"
+  on public.team_members for select
+  to authenticated
+  using (true);
+
+create table if not exists public.folder_permissions (
+  id uuid primary key default gen_random_uuid(),
+  -- '' is the bucket root
+  folder_path text not null,
+  user_id uuid references auth.users (id) on delete cascade,
+  team_id uuid references public.teams (id) on delete cascade,
+  -- Email or team name, for display
+  principal_label text not null,
+  role text not null check (role in ('viewer', 'editor', 'owner')),
+  granted_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  check ((user_id is null) <> (team_id is null))
+);
+
+create unique index if not exists folder_permissions_user_idx
+  on public.folder_permissions (folder_path, user_id) where user_id is not null;
+create unique index if not exists folder_permissions_team_idx
+  on public.folder_permissions (folder_path, team_id) where team_id is not null;
+
+-- 'a/b/c.txt' -> 'a/b', 'c.txt' -> ''
+create or replace function public.file_parent_path(object_path text)
+returns text
+language sql
+immutable
+set search_path = ''
+as $$
+  select regexp_replace(object_path, '/?[^/]*$', '');
+$$;
+
+-- The caller's role on a folder, or null when they have no access to it.
+-- Security definer so it can see grants the caller can't read directly.
+create or replace function public.file_folder_role(target_path text)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  with applicable as (
+    select p.role, p.user_id, p.team_id
+    from public.folder_permissions p
+    where p.folder_path = ''
+      or p.folder_path = target_path
+      or left(target_path, length(p.folder_path) + 1) = p.folder_path || '/'
+  )
+  select case
+    when not exists (select 1 from applicable) then 'owner'
+    else (
+      select a.role
+      from applicable a
+      where a.user_id = auth.uid()
+        or a.team_id in (select m.team_id from public.team_members m where m.user_id = auth.uid())
+      order by case a.role when 'owner' then 3 when 'editor' then 2 else 1 end desc
+      limit 1
+    )
+  end;
+$$;
+
+-- The caller's role on a storage object (or a row keyed by its path).
+-- Bookkeeping objects are judged by the folder of the file they belong to.
+create or replace function public.file_object_role(object_path text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  original_path text;
+begin
+  -- .versions/<file path>/<version>
+  if left(object_path, 10) = '.versions/' then
+    return public.file_folder_role(
+      public.file_parent_path(public.file_parent_path(substr(object_path, 11)))
+    );
+  end if;
+
+  -- .trash/<id>/<name>, recorded in file_trash
+  if left(object_path, 7) = '.trash/' then
+    select t.original_path into original_path
+    from public.file_trash t
+    where t.trash_path = object_path;
+
+    -- The trash record is written just after the object moves in, and that
+    -- move was already checked against the file's original location
+    if original_path is null then
+      return 'editor';
+    end if;
+    return public.file_folder_role(public.file_parent_path(original_path));
+  end if;
+
+  return public.file_folder_role(public.file_parent_path(object_path));
+end;
+$$;
+
+grant execute on function public.file_folder_role(text) to authenticated;
+grant execute on function public.file_object_role(text) to authenticated;
+
+alter table public.folder_permissions enable row level security;
+
+create policy "Users can read grants on folders they can access"
+  on public.folder_permissions for select
+  to authenticated
+  using (public.file_folder_role(folder_path) is not null);
+
+create policy "Owners can add grants"
+  on public.folder_permissions for insert
+  to authenticated
+  with check (public.file_folder_role(folder_path) = 'owner');
+
+create policy "Owners can change grants"
+  on public.folder_permissions for update
+  to authenticated
+  using (public.file_folder_role(folder_path) = 'owner')
+  with check (public.file_folder_role(folder_path) = 'owner');
+
+create policy "Owners can remove grants"
+  on public.folder_permissions for delete
+  to authenticated
+  using (public.file_folder_role(folder_path) = 'owner');
+
+-- Grants follow a folder when an editor renames it
+create or replace function public.move_folder_permissions(from_path text, to_path text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.file_folder_role(from_path), '') not in ('editor', 'owner')
+    or coalesce(public.file_folder_role(to_path), '') not in ('editor', 'owner') then
+    raise exception 'Not allowed to move folder %', from_path using errcode = '42501';
+  end if;
+
+  update public.folder_permissions
+  set folder_path = to_path || substr(folder_path, length(from_path) + 1)
+  where folder_path = from_path
+    or left(folder_path, length(from_path) + 1) = from_path || '/';
+end;
+$$;
+
+grant execute on function public.move_folder_permissions(text, text) to authenticated;
+
+-- Looks up a workspace member by email so they can be given a grant
+create or replace function public.find_user_id_by_email(user_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select u.id from auth.users u where lower(u.email) = lower(user_email) limit 1;
+$$;
+
+revoke execute on function public.find_user_id_by_email(text) from public, anon;
+grant execute on function public.find_user_id_by_email(text) to authenticated;
+
+-- Storage: the same roles decide what a request may do with an object
+drop policy if exists "Authenticated users can read project files" on storage.objects;
+create policy "Authenticated users can read project files"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'project-files' and public.file_object_role(name) is not null);
+
+drop policy if exists "Authenticated users can upload project files" on storage.objects;
+create policy "Authenticated users can upload project files"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'project-files' and public.file_object_role(name) in ('editor', 'owner'));
+
+drop policy if exists "Authenticated users can update project files" on storage.objects;
+create policy "Authenticated users can update project files"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'project-files' and public.file_object_role(name) in ('editor', 'owner'))
+  with check (bucket_id = 'project-files' and public.file_object_role(name) in ('editor', 'owner'));
+
+drop policy if exists "Authenticated users can delete project files" on storage.objects;
+create policy "Authenticated users can delete project files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'project-files' and public.file_object_role(name) in ('editor', 'owner'));
+
+-- Rows keyed by a file path follow the file's folder
+drop policy if exists "Authenticated users can read file metadata" on public.file_metadata;
+drop policy if exists "Authenticated users can add file metadata" on public.file_metadata;
+drop policy if exists "Authenticated users can update file metadata" on public.file_metadata;
+drop policy if exists "Authenticated users can delete file metadata" on public.file_metadata;
+
+create policy "Users can read metadata of files they can access"
+  on public.file_metadata for select
+  to authenticated
+  using (public.file_object_role(path) is not null);
+
+create policy "Editors can add file metadata"
+  on public.file_metadata for insert
+  to authenticated
+  with check (public.file_object_role(path) in ('editor', 'owner'));
+
+create policy "Editors can update file metadata"
+  on public.file_metadata for update
+  to authenticated
+  using (public.file_object_role(path) in ('editor', 'owner'))
+  with check (public.file_object_role(path) in ('editor', 'owner'));
+
+create policy "Editors can delete file metadata"
+  on public.file_metadata for delete
+  to authenticated
+  using (public.file_object_role(path) in ('editor', 'owner'));
+
+drop policy if exists "Authenticated users can read the trash" on public.file_trash;
+drop policy if exists "Authenticated users can trash files" on public.file_trash;
+drop policy if exists "Authenticated users can restore or purge trashed files" on public.file_trash;
+
+create policy "Users can see trashed files from folders they can access"
+  on public.file_trash for select
+  to authenticated
+  using (public.file_folder_role(public.file_parent_path(original_path)) is not null);
+
+create policy "Editors can trash files"
+  on public.file_trash for insert
+  to authenticated
+  with check (
+    deleted_by = auth.uid()
+    and public.file_folder_role(public.file_parent_path(original_path)) in ('editor', 'owner')
+  );
+
+create policy "Editors can restore or purge trashed files"
+  on public.file_trash for delete
+  to authenticated
+  using (public.file_folder_role(public.file_parent_path(original_path)) in ('editor', 'owner'));
+
+drop policy if exists "Authenticated users can read share links" on public.file_share_links;
+drop policy if exists "Authenticated users can create share links" on public.file_share_links;
+drop policy if exists "Authenticated users can revoke share links" on public.file_share_links;
+
+create policy "Users can see share links for files they can access"
+  on public.file_share_links for select
+  to authenticated
+  using (public.file_object_role(path) is not null);
+
+create policy "Editors can create share links"
+  on public.file_share_links for insert
+  to authenticated
+  with check (created_by = auth.uid() and public.file_object_role(path) in ('editor', 'owner'));
+
+create policy "Editors can revoke share links"
+  on public.file_share_links for update
+  to authenticated
+  using (public.file_object_role(path) in ('editor', 'owner'))
+  with check (public.file_object_role(path) in ('editor', 'owner'));
@@ -0,0 +1,42 @@
+-- FileManager stores a generated thumbnail for each image, video and PDF at
+-- .thumbnails/<file path>, including files in the trash
+-- (.thumbnails/.trash/<id>/<name>). A thumbnail is as visible as its file.
+create or replace function public.file_object_role(object_path text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  original_path text;
+begin
+  -- .thumbnails/<object path>
+  if left(object_path, 12) = '.thumbnails/' then
+    return public.file_object_role(substr(object_path, 13));
+  end if;
+
+  -- .versions/<file path>/<version>
+  if left(object_path, 10) = '.versions/' then
+    return public.file_folder_role(
+      public.file_parent_path(public.file_parent_path(substr(object_path, 11)))
+    );
+  end if;
+
+  -- .trash/<id>/<name>, recorded in file_trash
+  if left(object_path, 7) = '.trash/' then
+    select t.original_path into original_path
+    from public.file_trash t
+    where t.trash_path = object_path;
+
+    -- The trash record is written just after the object moves in, and that
+    -- move was already checked against the file's original location
+    if original_path is null then
+      return 'editor';
+    end if;
+    return public.file_folder_role(public.file_parent_path(original_path));
+  end if;
+
+  return public.file_folder_role(public.file_parent_path(object_path));
+end;
+$$;
@@ -0,0 +1,99 @@
+-- Searchable text of each file, extracted in the browser when it is uploaded
+-- (documents, code and plain text). Keyed by path like file_metadata, and
+-- visible to whoever can see the file.
+create table if not exists public.file_contents (
+  path text primary key,
+  content text not null,
+  search_vector tsvector generated always as (to_tsvector('simple', content)) stored,
+  indexed_at timestamptz not null default now()
+);
+
+create index if not exists file_contents_search_idx on public.file_contents using gin (search_vector);
+
+alter table public.file_contents enable row level security;
+
+create policy "Users can read the contents of files they can access"
+  on public.file_contents for select
+  to authenticated
+  using (public.file_object_role(path) is not null);
+
+create policy "Editors can index files"
+  on public.file_contents for insert
+  to authenticated
+  with check (public.file_object_role(path) in ('editor', 'owner'));
+
+create policy "Editors can re-index files"
+  on public.file_contents for update
+  to authenticated
+  using (public.file_object_role(path) in ('editor', 'owner'))
+  with check (public.file_object_role(path) in ('editor', 'owner'));
+
+create policy "Editors can remove file contents"
+  on public.file_contents for delete
+  to authenticated
+  using (public.file_object_role(path) in ('editor', 'owner'));
+
+-- Indexed text moves and goes with the rest of a file's details, so renames,
+-- moves, trashing and restoring keep it without any extra calls
+create or replace function public.move_file_metadata(from_path text, to_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.file_metadata
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+
+  update public.file_contents
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+$$;
+
+create or replace function public.delete_file_metadata(target_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  delete from public.file_metadata
+  where path = target_path
+    or left(path, length(target_path) + 1) = target_path || '/';
+
+  delete from public.file_contents
+  where path = target_path
+    or left(path, length(target_path) + 1) = target_path || '/';
+$$;
+
+-- Files directly inside `folder_path` whose text matches `search_text`, best
+-- match first, with a short excerpt around the matches. Matched words are
+-- wrapped in \x01 ... \x02 so the client can highlight them without parsing HTML.
+create or replace function public.search_file_contents(search_text text, folder_path text)
+returns table (path text, snippet text, rank real)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_text) as q
+  )
+  select
+    c.path,
+    ts_headline(
+      'simple',
+      c.content,
+      query.q,
+      'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) as snippet,
+    ts_rank(c.search_vector, query.q) as rank
+  from public.file_contents c, query
+  where c.search_vector @@ query.q
+    and public.file_parent_path(c.path) = folder_path
+  order by rank desc
+  limit 200;
+$$;
+
+grant execute on function public.search_file_contents(text, text) to authenticated;
@@ -0,0 +1,227 @@
+-- Storage usage for the FileManager usage panel, computed over the whole
+-- bucket (or one folder of it) rather than the pages loaded in the browser.
+-- Security invoker, so people only see usage of files they can access.
+create or replace function public.get_storage_usage(folder_prefix text default '')
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with objects as (
+    select
+      o.name,
+      coalesce((o.metadata->>'size')::bigint, 0) as size,
+      coalesce(o.metadata->>'mimetype', '') as mimetype,
+      o.created_at
+    from storage.objects o
+    where o.bucket_id = 'project-files'
+      and storage.filename(o.name) <> '.emptyFolderPlaceholder'
+  ),
+  files as (
+    select
+      f.*,
+      -- Path below folder_prefix
+      case when folder_prefix = '' then f.name else substr(f.name, length(folder_prefix) + 2) end as relative_name
+    from objects f
+    where left(f.name, 1) <> '.'
+      and (folder_prefix = '' or left(f.name, length(folder_prefix) + 1) = folder_prefix || '/')
+  ),
+  by_folder as (
+    -- '' collects the files directly inside folder_prefix
+    select
+      case when position('/' in relative_name) > 0 then split_part(relative_name, '/', 1) else '' end as folder,
+      count(*) as files,
+      sum(size) as bytes
+    from files
+    group by 1
+  ),
+  by_mimetype as (
+    select mimetype, count(*) as files, sum(size) as bytes
+    from files
+    group by mimetype
+  ),
+  by_uploader as (
+    select coalesce(m.uploaded_by_email, '') as uploader, count(*) as files, sum(f.size) as bytes
+    from files f
+    left join public.file_metadata m on m.path = f.name
+    group by 1
+  ),
+  by_month as (
+    select to_char(date_trunc('month', created_at), 'YYYY-MM') as month, count(*) as files, sum(size) as bytes
+    from files
+    group by 1
+  ),
+  -- Version history, trash and thumbnails, which take space but aren't files
+  -- anyone browses. Only reported for the whole bucket.
+  by_system_folder as (
+    select split_part(o.name, '/', 1) as folder, count(*) as files, sum(o.size) as bytes
+    from objects o
+    where left(o.name, 1) = '.' and folder_prefix = ''
+    group by 1
+  )
+  select jsonb_build_object(
+    'total_files', (select count(*) from files),
+    'total_bytes', (select coalesce(sum(size), 0) from files),
+    'by_folder', coalesce((
+      select jsonb_agg(jsonb_build_object('key', folder, 'files', files, 'bytes', bytes) order by bytes desc)
+      from by_folder
+    ), '[]'::jsonb),
+    'by_mimetype', coalesce((
+      select jsonb_agg(jsonb_build_object('key', mimetype, 'files', files, 'bytes', bytes) order by bytes desc)
+      from by_mimetype
+    ), '[]'::jsonb),
+    'by_uploader', coalesce((
+      select jsonb_agg(jsonb_build_object('key', uploader, 'files', files, 'bytes', bytes) order by bytes desc)
+      from by_uploader
+    ), '[]'::jsonb),
+    'by_month', coalesce((
+      select jsonb_agg(jsonb_build_object('key', month, 'files', files, 'bytes', bytes) order by month)
+      from by_month
+    ), '[]'::jsonb),
+    'by_system_folder', coalesce((
+      select jsonb_agg(jsonb_build_object('key', folder, 'files', files, 'bytes', bytes) order by bytes desc)
+      from by_system_folder
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.get_storage_usage(text) to authenticated;
+
+-- Storage limits, on a folder (and everything below it; '' is the whole
+-- bucket) or on everything one user has uploaded. FileManager warns once usage
+-- passes warn_percent of the limit and refuses uploads that would exceed it.
+create table if not exists public.storage_quotas (
+  id uuid primary key default gen_random_uuid(),
+  folder_path text,
+  user_id uuid references auth.users (id) on delete cascade,
+  -- Folder path or email, for display
+  label text not null,
+  max_bytes bigint not null check (max_bytes > 0),
+  warn_percent integer not null default 80 check (warn_percent between 1 and 100),
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  check ((folder_path is null) <> (user_id is null))
+);
+
+create unique index if not exists storage_quotas_folder_idx
+  on public.storage_quotas (folder_path) where folder_path is not null;
+create unique index if not exists storage_quotas_user_idx
+  on public.storage_quotas (user_id) where user_id is not null;
+
+alter table public.storage_quotas enable row level security;
+
+create policy "Authenticated users can read storage quotas"
+  on public.storage_quotas for select
+  to authenticated
+  using (true);
+
+-- Folder owners manage their folder's quota; per-user quotas belong to
+-- whoever owns the bucket root
+create policy "Owners can add storage quotas"
+  on public.storage_quotas for insert
+  to authenticated
+  with check (public.file_folder_role(coalesce(folder_path, '')) = 'owner');
+
+create policy "Owners can change storage quotas"
+  on public.storage_quotas for update
+  to authenticated
+  using (public.file_folder_role(coalesce(folder_path, '')) = 'owner')
+  with check (public.file_folder_role(coalesce(folder_path, '')) = 'owner');
+
+create policy "Owners can remove storage quotas"
+  on public.storage_quotas for delete
+  to authenticated
+  using (public.file_folder_role(coalesce(folder_path, '')) = 'owner');
+
+-- Quotas with their current usage. With a folder and uploader, only the
+-- quotas an upload there by that user counts against: the folder's, its
+-- ancestors' and the user's own. Usage counts every file, including ones the
+-- caller can't see, hence security definer; only the totals are returned.
+create or replace function public.get_quota_usage(target_folder text default null, uploader uuid default null)
+returns table (
+  id uuid,
+  folder_path text,
+  user_id uuid,
+  label text,
+  max_bytes bigint,
+  warn_percent integer,
+  used_bytes bigint
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  with files as (
+    select o.name, coalesce((o.metadata->>'size')::bigint, 0) as size
+    from storage.objects o
+    where o.bucket_id = 'project-files'
+      and left(o.name, 1) <> '.'
+      and storage.filename(o.name) <> '.emptyFolderPlaceholder'
+  ),
+  applicable as (
+    select q.*
+    from public.storage_quotas q
+    where (target_folder is null and uploader is null)
+      or (
+        q.folder_path is not null
+        and target_folder is not null
+        and (
+          q.folder_path = ''
+          or q.folder_path = target_folder
+          or left(target_folder, length(q.folder_path) + 1) = q.folder_path || '/'
+        )
+      )
+      or (q.user_id is not null and q.user_id = uploader)
+  )
+  select
+    q.id,
+    q.folder_path,
+    q.user_id,
+    q.label,
+    q.max_bytes,
+    q.warn_percent,
+    case
+      when q.folder_path is not null then (
+        select coalesce(sum(f.size), 0)::bigint
+        from files f
+        where q.folder_path = '' or left(f.name, length(q.folder_path) + 1) = q.folder_path || '/'
+      )
+      else (
+        select coalesce(sum(f.size), 0)::bigint
+        from files f
+        join public.file_metadata m on m.path = f.name
+        where m.uploaded_by = q.user_id
+      )
+    end as used_bytes
+  from applicable q
+  order by q.label;
+$$;
+
+revoke execute on function public.get_quota_usage(text, uuid) from public, anon;
+grant execute on function public.get_quota_usage(text, uuid) to authenticated;
+
+-- Keeps folder quotas on a folder that is being renamed. Editors can rename
+-- folders they can't set quotas on, hence security definer.
+create or replace function public.move_storage_quotas(from_path text, to_path text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.file_folder_role(from_path), '') not in ('editor', 'owner')
+    or coalesce(public.file_folder_role(to_path), '') not in ('editor', 'owner') then
+    raise exception 'Not allowed to move folder %', from_path using errcode = '42501';
+  end if;
+
+  update public.storage_quotas
+  set folder_path = to_path || substr(folder_path, length(from_path) + 1),
+    label = to_path || substr(folder_path, length(from_path) + 1)
+  where folder_path = from_path
+    or left(folder_path, length(from_path) + 1) = from_path || '/';
+end;
+$$;
+
+grant execute on function public.move_storage_quotas(text, text) to authenticated;
@@ -0,0 +1,83 @@
+-- Append-only record of what happened to each file: who did what, to which
+-- path, when, and whether it worked. Written by the browser after each action
+-- (and by the share-link function for downloads through a link). Rows are
+-- never changed or removed, and they stay put when the file is renamed or
+-- deleted; a rename or move is recorded with both paths instead.
+create table if not exists public.file_activity (
+  id bigint generated always as identity primary key,
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  action text not null check (action in (
+    'upload', 'download', 'view', 'delete', 'restore', 'rename', 'move',
+    'duplicate', 'share', 'version_restore', 'folder_create', 'folder_rename', 'folder_delete'
+  )),
+  path text not null,
+  -- New path of a rename or move, or the copy made by a duplicate
+  target_path text,
+  outcome text not null check (outcome in ('success', 'failure')),
+  detail text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists file_activity_created_idx on public.file_activity (created_at desc);
+create index if not exists file_activity_path_idx on public.file_activity (path, created_at desc);
+create index if not exists file_activity_target_path_idx on public.file_activity (target_path, created_at desc)
+  where target_path is not null;
+
+-- The actor and time always come from the session, so entries can't be
+-- written in someone else's name. Share-link downloads run as the service
+-- role, which has no user, and keep the label they were given.
+create or replace function public.stamp_file_activity()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  new.actor_id := auth.uid();
+  new.actor_email := coalesce(auth.jwt() ->> 'email', new.actor_email);
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+create or replace function public.reject_file_activity_change()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  raise exception 'file_activity is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists stamp_file_activity on public.file_activity;
+create trigger stamp_file_activity
+  before insert on public.file_activity
+  for each row execute function public.stamp_file_activity();
+
+-- Also holds for the service role, which bypasses row-level security
+drop trigger if exists reject_file_activity_change on public.file_activity;
+create trigger reject_file_activity_change
+  before update or delete on public.file_activity
+  for each row execute function public.reject_file_activity_change();
+
+drop trigger if exists reject_file_activity_truncate on public.file_activity;
+create trigger reject_file_activity_truncate
+  before truncate on public.file_activity
+  for each statement execute function public.reject_file_activity_change();
+
+alter table public.file_activity enable row level security;
+
+-- Entries are visible to whoever can access the folder the file was in
+create policy "Users can read activity of files they can access"
+  on public.file_activity for select
+  to authenticated
+  using (public.file_object_role(path) is not null);
+
+create policy "Users can record their own activity"
+  on public.file_activity for insert
+  to authenticated
+  with check (public.file_object_role(path) is not null);
+
+revoke update, delete, truncate on public.file_activity from anon, authenticated;
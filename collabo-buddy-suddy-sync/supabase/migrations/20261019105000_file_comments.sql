@@ -0,0 +1,212 @@
+-- Discussion on a file. A comment without a parent starts a thread, and
+-- replies hang off it one level deep. Threads can be resolved, and on images
+-- can be pinned to a spot, stored as fractions of the image's width and height.
+-- Keyed by path like file_metadata, so comments follow the file through
+-- renames, moves and the trash.
+create table if not exists public.file_comments (
+  id uuid primary key default gen_random_uuid(),
+  path text not null,
+  parent_id uuid references public.file_comments (id) on delete cascade,
+  author_id uuid references auth.users (id) on delete set null,
+  author_email text,
+  body text not null check (length(btrim(body)) > 0),
+  mentioned_user_ids uuid[] not null default '{}',
+  pin_x real check (pin_x between 0 and 1),
+  pin_y real check (pin_y between 0 and 1),
+  resolved_at timestamptz,
+  resolved_by_email text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((pin_x is null) = (pin_y is null)),
+  -- Pins and resolving belong to the thread, not its replies
+  check (parent_id is null or (pin_x is null and resolved_at is null))
+);
+
+create index if not exists file_comments_path_idx on public.file_comments (path, created_at);
+create index if not exists file_comments_parent_idx on public.file_comments (parent_id);
+
+-- The author always comes from the session, and a reply always sits on its
+-- thread's file
+create or replace function public.stamp_file_comment()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  parent public.file_comments;
+begin
+  new.author_id := auth.uid();
+  new.author_email := auth.jwt() ->> 'email';
+  new.created_at := now();
+  new.updated_at := now();
+  new.resolved_at := null;
+  new.resolved_by_email := null;
+
+  if new.parent_id is not null then
+    select * into parent from public.file_comments c where c.id = new.parent_id;
+    if parent.id is null or parent.parent_id is not null then
+      raise exception 'Replies must answer the first comment of a thread' using errcode = '23514';
+    end if;
+    new.path := parent.path;
+  end if;
+  return new;
+end;
+$$;
+
+-- Anyone who can see the file may resolve or reopen a thread, but only the
+-- author can change what a comment says, and only editors move comments along
+-- with the file
+create or replace function public.guard_file_comment_update()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  new.id := old.id;
+  new.parent_id := old.parent_id;
+  new.author_id := old.author_id;
+  new.author_email := old.author_email;
+  new.created_at := old.created_at;
+
+  if (new.body, new.mentioned_user_ids, new.pin_x, new.pin_y) is distinct from
+    (old.body, old.mentioned_user_ids, old.pin_x, old.pin_y) then
+    if old.author_id is distinct from auth.uid() then
+      raise exception 'Only the author can edit a comment' using errcode = '42501';
+    end if;
+    new.updated_at := now();
+  end if;
+
+  if new.path <> old.path and coalesce(public.file_object_role(old.path), '') not in ('editor', 'owner') then
+    raise exception 'Not allowed to move comments on %', old.path using errcode = '42501';
+  end if;
+
+  if new.resolved_at is distinct from old.resolved_at then
+    new.resolved_at := case when new.resolved_at is null then null else now() end;
+    new.resolved_by_email := case when new.resolved_at is null then null else auth.jwt() ->> 'email' end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_file_comment on public.file_comments;
+create trigger stamp_file_comment
+  before insert on public.file_comments
+  for each row execute function public.stamp_file_comment();
+
+drop trigger if exists guard_file_comment_update on public.file_comments;
+create trigger guard_file_comment_update
+  before update on public.file_comments
+  for each row execute function public.guard_file_comment_update();
+
+alter table public.file_comments enable row level security;
+
+-- Viewers take part in the discussion too; reviewing is what they're there for
+create policy "Users can read comments on files they can access"
+  on public.file_comments for select
+  to authenticated
+  using (public.file_object_role(path) is not null);
+
+create policy "Users can comment on files they can access"
+  on public.file_comments for insert
+  to authenticated
+  with check (public.file_object_role(path) is not null);
+
+create policy "Users can update comments on files they can access"
+  on public.file_comments for update
+  to authenticated
+  using (public.file_object_role(path) is not null)
+  with check (public.file_object_role(path) is not null);
+
+-- Editors also delete comments when a file is deleted for good
+create policy "Authors and editors can delete comments"
+  on public.file_comments for delete
+  to authenticated
+  using (author_id = auth.uid() or public.file_object_role(path) in ('editor', 'owner'));
+
+-- Comments move and go with the rest of a file's details
+create or replace function public.move_file_metadata(from_path text, to_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.file_metadata
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+
+  update public.file_contents
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+
+  update public.file_comments
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+$$;
+
+create or replace function public.delete_file_metadata(target_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  delete from public.file_metadata
+  where path = target_path
+    or left(path, length(target_path) + 1) = target_path || '/';
+
+  delete from public.file_contents
+  where path = target_path
+    or left(path, length(target_path) + 1) = target_path || '/';
+
+  delete from public.file_comments
+  where path = target_path
+    or left(path, length(target_path) + 1) = target_path || '/';
+$$;
+
+-- Per file: all comments, threads still open, and comments in open threads
+-- that mention the caller
+create or replace function public.get_file_comment_counts(file_paths text[])
+returns table (path text, total bigint, open bigint, mentions bigint)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select
+    c.path,
+    count(*) as total,
+    count(*) filter (where c.parent_id is null and c.resolved_at is null) as open,
+    count(*) filter (
+      where auth.uid() = any (c.mentioned_user_ids)
+        and coalesce(t.resolved_at, c.resolved_at) is null
+    ) as mentions
+  from public.file_comments c
+  left join public.file_comments t on t.id = c.parent_id
+  where c.path = any (file_paths)
+  group by c.path;
+$$;
+
+grant execute on function public.get_file_comment_counts(text[]) to authenticated;
+
+-- Workspace members whose email starts with `search`, for @mention suggestions
+create or replace function public.search_workspace_users(search text)
+returns table (id uuid, email text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select u.id, u.email::text
+  from auth.users u
+  where u.email is not null
+    and lower(u.email) like lower(replace(replace(replace(search, '\', '\\'), '%', '\%'), '_', '\_')) || '%'
+  order by u.email
+  limit 8;
+$$;
+
+revoke execute on function public.search_workspace_users(text) from public, anon;
+grant execute on function public.search_workspace_users(text) to authenticated;
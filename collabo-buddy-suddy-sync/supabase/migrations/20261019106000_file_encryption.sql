@@ -0,0 +1,187 @@
+-- Client-side encryption for confidential folders. Files uploaded to an
+-- encrypted folder are encrypted in the browser with the folder's AES key, so
+-- storage only ever holds ciphertext. The folder key is never stored as is:
+-- each member gets a copy wrapped with their own RSA public key, and each
+-- user's private key is wrapped with a key derived from a passphrase that
+-- only they know. Losing the passphrase means losing access to the keys.
+
+create table if not exists public.user_encryption_keys (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  -- RSA-OAEP public key, as a JWK
+  public_key jsonb not null,
+  -- PKCS#8 private key, AES-GCM encrypted with a PBKDF2 key from the passphrase
+  wrapped_private_key text not null,
+  salt text not null,
+  iv text not null,
+  iterations integer not null check (iterations > 0),
+  created_at timestamptz not null default now()
+);
+
+alter table public.user_encryption_keys enable row level security;
+
+create policy "Users can read their own key"
+  on public.user_encryption_keys for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can create their own key"
+  on public.user_encryption_keys for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- Public keys aren't secret, and are needed to give someone a folder key
+create or replace function public.get_encryption_public_keys(user_ids uuid[])
+returns table (user_id uuid, public_key jsonb)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select k.user_id, k.public_key
+  from public.user_encryption_keys k
+  where k.user_id = any(user_ids);
+$$;
+
+revoke execute on function public.get_encryption_public_keys(uuid[]) from public, anon;
+grant execute on function public.get_encryption_public_keys(uuid[]) to authenticated;
+
+-- A folder marked as encrypted covers everything below it. Rotating the key
+-- bumps key_version; files keep the version they were encrypted with until
+-- they are re-encrypted.
+create table if not exists public.encrypted_folders (
+  id uuid primary key default gen_random_uuid(),
+  -- '' is the bucket root
+  path text not null unique,
+  key_version integer not null default 1 check (key_version > 0),
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz
+);
+
+create table if not exists public.folder_key_grants (
+  folder_id uuid not null references public.encrypted_folders (id) on delete cascade,
+  key_version integer not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- For display
+  user_email text not null,
+  -- The folder key, wrapped with the user's public key
+  wrapped_key text not null,
+  granted_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  primary key (folder_id, key_version, user_id)
+);
+
+create index if not exists folder_key_grants_user_idx on public.folder_key_grants (user_id);
+
+-- The caller's role on an encrypted folder, from folder_permissions
+create or replace function public.encrypted_folder_role(target_folder_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select public.file_folder_role(f.path) from public.encrypted_folders f where f.id = target_folder_id;
+$$;
+
+-- Whether the caller has been given any version of a folder's key. Security
+-- definer so the grants policy can ask without recursing into itself.
+create or replace function public.holds_folder_key(target_folder_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.folder_key_grants g
+    where g.folder_id = target_folder_id and g.user_id = auth.uid()
+  );
+$$;
+
+grant execute on function public.encrypted_folder_role(uuid) to authenticated;
+grant execute on function public.holds_folder_key(uuid) to authenticated;
+
+alter table public.encrypted_folders enable row level security;
+alter table public.folder_key_grants enable row level security;
+
+create policy "Users can see which folders they can access are encrypted"
+  on public.encrypted_folders for select
+  to authenticated
+  using (public.file_folder_role(path) is not null);
+
+create policy "Owners can encrypt folders"
+  on public.encrypted_folders for insert
+  to authenticated
+  with check (created_by = auth.uid() and public.file_folder_role(path) = 'owner');
+
+create policy "Owners can rotate folder keys"
+  on public.encrypted_folders for update
+  to authenticated
+  using (public.file_folder_role(path) = 'owner')
+  with check (public.file_folder_role(path) = 'owner');
+
+-- Only possible while no file refers to the folder, see file_metadata below
+create policy "Owners can remove folder encryption"
+  on public.encrypted_folders for delete
+  to authenticated
+  using (public.file_folder_role(path) = 'owner');
+
+create policy "Key holders and owners can see who holds a folder key"
+  on public.folder_key_grants for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or public.holds_folder_key(folder_id)
+    or public.encrypted_folder_role(folder_id) = 'owner'
+  );
+
+-- Sharing needs the key itself, so only someone holding it can pass it on
+create policy "Owners and editors holding the key can share it"
+  on public.folder_key_grants for insert
+  to authenticated
+  with check (
+    granted_by = auth.uid()
+    and (
+      public.encrypted_folder_role(folder_id) = 'owner'
+      or (public.holds_folder_key(folder_id) and public.encrypted_folder_role(folder_id) = 'editor')
+    )
+  );
+
+create policy "Owners can take a folder key away"
+  on public.folder_key_grants for delete
+  to authenticated
+  using (public.encrypted_folder_role(folder_id) = 'owner');
+
+-- Encryption follows a folder when an editor renames it
+create or replace function public.move_encrypted_folders(from_path text, to_path text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.file_folder_role(from_path), '') not in ('editor', 'owner')
+    or coalesce(public.file_folder_role(to_path), '') not in ('editor', 'owner') then
+    raise exception 'Not allowed to move folder %', from_path using errcode = '42501';
+  end if;
+
+  update public.encrypted_folders
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+end;
+$$;
+
+grant execute on function public.move_encrypted_folders(text, text) to authenticated;
+
+-- Which key a file was encrypted with. Null for plain files. The folder is
+-- recorded rather than worked out from the path, so a file moved out of an
+-- encrypted folder can still be decrypted.
+alter table public.file_metadata
+  add column if not exists encryption_folder_id uuid references public.encrypted_folders (id),
+  add column if not exists encryption_key_version integer;
+
+alter table public.file_metadata
+  add constraint file_metadata_encryption_check
+  check ((encryption_folder_id is null) = (encryption_key_version is null));
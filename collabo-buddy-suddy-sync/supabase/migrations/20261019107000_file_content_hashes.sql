@@ -0,0 +1,96 @@
+-- Duplicate detection for FileManager. Files are hashed (SHA-256) in the
+-- browser as they are uploaded, and identical files are found by their hash.
+-- Instead of storing a second copy, a file can be a link: an empty object at
+-- its own path whose metadata points at the file holding the contents.
+-- Encrypted files are never hashed, as equal hashes would give away that two
+-- of them are the same.
+alter table public.file_metadata
+  add column if not exists content_hash text,
+  add column if not exists content_size bigint,
+  add column if not exists link_target text;
+
+create index if not exists file_metadata_content_hash_idx
+  on public.file_metadata (content_hash) where content_hash is not null;
+create index if not exists file_metadata_link_target_idx
+  on public.file_metadata (link_target) where link_target is not null;
+
+-- Links follow the file they point at when it is renamed, moved or trashed.
+-- Security definer so links in folders the mover can't edit are kept
+-- pointing at the right place too; only link_target is touched.
+create or replace function public.move_file_links(from_path text, to_path text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.file_object_role(from_path), '') not in ('editor', 'owner')
+    or coalesce(public.file_object_role(to_path), '') not in ('editor', 'owner') then
+    return;
+  end if;
+
+  update public.file_metadata
+  set link_target = to_path || substr(link_target, length(from_path) + 1)
+  where link_target = from_path
+    or left(link_target, length(from_path) + 1) = from_path || '/';
+end;
+$$;
+
+grant execute on function public.move_file_links(text, text) to authenticated;
+
+create or replace function public.move_file_metadata(from_path text, to_path text)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.file_metadata
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+
+  update public.file_contents
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+
+  update public.file_comments
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+
+  select public.move_file_links(from_path, to_path);
+$$;
+
+-- Every visible file that has at least one identical twin, biggest first.
+-- Security invoker, so a group only counts the copies the caller can see.
+-- Links, and anything in the trash or version history, aren't copies.
+create or replace function public.find_duplicate_files()
+returns table (
+  path text,
+  content_hash text,
+  content_size bigint,
+  uploaded_by_email text,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with copies as (
+    select m.path, m.content_hash, m.content_size, m.uploaded_by_email, m.created_at
+    from public.file_metadata m
+    where m.content_hash is not null
+      and m.link_target is null
+      and left(m.path, 1) <> '.'
+  )
+  select c.path, c.content_hash, c.content_size, c.uploaded_by_email, c.created_at
+  from copies c
+  where c.content_hash in (
+    select d.content_hash from copies d group by d.content_hash having count(*) > 1
+  )
+  order by c.content_size desc, c.content_hash, c.created_at, c.path;
+$$;
+
+grant execute on function public.find_duplicate_files() to authenticated;
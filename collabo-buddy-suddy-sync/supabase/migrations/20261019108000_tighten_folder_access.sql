@@ -0,0 +1,129 @@
+-- Closes three gaps in folder permissions.
+--
+-- Folders with no grants anywhere on their path used to give every signed-in
+-- user the owner role, so anyone could add the first grant on a fresh bucket
+-- and lock everyone else out. They now give the editor role, and only file
+-- admins hold owner there. Admins are managed from the dashboard; add the
+-- first one with
+--
+--   insert into public.file_admins (user_id)
+--   select id from auth.users where email = '<admin email>';
+create table if not exists public.file_admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.file_admins enable row level security;
+
+create policy "Authenticated users can read file admins"
+  on public.file_admins for select
+  to authenticated
+  using (true);
+
+create or replace function public.is_file_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (select 1 from public.file_admins a where a.user_id = auth.uid());
+$$;
+
+grant execute on function public.is_file_admin() to authenticated;
+
+create or replace function public.file_folder_role(target_path text)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  with applicable as (
+    select p.role, p.user_id, p.team_id
+    from public.folder_permissions p
+    where p.folder_path = ''
+      or p.folder_path = target_path
+      or left(target_path, length(p.folder_path) + 1) = p.folder_path || '/'
+  )
+  select case
+    when public.is_file_admin() then 'owner'
+    when not exists (select 1 from applicable) then 'editor'
+    else (
+      select a.role
+      from applicable a
+      where a.user_id = auth.uid()
+        or a.team_id in (select m.team_id from public.team_members m where m.user_id = auth.uid())
+      order by case a.role when 'owner' then 3 when 'editor' then 2 else 1 end desc
+      limit 1
+    )
+  end;
+$$;
+
+-- Objects under .trash/ used to fall back to editor when no trash record
+-- matched, which opened made-up trash paths to everyone. The record is now
+-- written before the file moves in, so an object without one gets no access.
+-- Everything under .trash/<id>/ (the file and its versions) is judged by
+-- that entry's record.
+create or replace function public.file_object_role(object_path text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  original_path text;
+begin
+  -- .thumbnails/<object path>
+  if left(object_path, 12) = '.thumbnails/' then
+    return public.file_object_role(substr(object_path, 13));
+  end if;
+
+  -- .versions/<file path>/<version>
+  if left(object_path, 10) = '.versions/' then
+    return public.file_folder_role(
+      public.file_parent_path(public.file_parent_path(substr(object_path, 11)))
+    );
+  end if;
+
+  -- .trash/<id>/<name> and .trash/<id>/.versions/<version>, recorded in file_trash
+  if left(object_path, 7) = '.trash/' then
+    select t.original_path into original_path
+    from public.file_trash t
+    where public.file_parent_path(t.trash_path) = substring(object_path from '^\.trash/[^/]+');
+
+    if original_path is null then
+      return null;
+    end if;
+    return public.file_folder_role(public.file_parent_path(original_path));
+  end if;
+
+  return public.file_folder_role(public.file_parent_path(object_path));
+end;
+$$;
+
+-- Editors may only revoke a share link or change when it expires. Moving
+-- links with their file goes through move_file_share_links, which now runs
+-- as definer and checks the caller may move the file.
+revoke update on public.file_share_links from authenticated;
+grant update (expires_at, revoked_at) on public.file_share_links to authenticated;
+
+create or replace function public.move_file_share_links(from_path text, to_path text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.file_object_role(from_path), '') not in ('editor', 'owner')
+    or coalesce(public.file_object_role(to_path), '') not in ('editor', 'owner') then
+    raise exception 'Not allowed to move share links for %', from_path using errcode = '42501';
+  end if;
+
+  update public.file_share_links
+  set path = to_path || substr(path, length(from_path) + 1)
+  where path = from_path
+    or left(path, length(from_path) + 1) = from_path || '/';
+end;
+$$;
@@ -0,0 +1,23 @@
+-- FileManager syncs over one private Realtime channel per folder, with the
+-- topic 'project-files:<folder path>' ('project-files:' for the root). These
+-- policies let only people with access to a folder receive its changes and
+-- presence, or send to it, so paths and emails from folders someone can't
+-- open never reach them. Realtime Authorization must be on for the project
+-- (Realtime settings, "Allow public access" turned off).
+create policy "Users can receive file changes for folders they can access"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension in ('broadcast', 'presence')
+    and left(realtime.topic(), 14) = 'project-files:'
+    and public.file_folder_role(substr(realtime.topic(), 15)) is not null
+  );
+
+create policy "Users can announce file changes in folders they can access"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.messages.extension in ('broadcast', 'presence')
+    and left(realtime.topic(), 14) = 'project-files:'
+    and public.file_folder_role(substr(realtime.topic(), 15)) is not null
+  );
@@ -0,0 +1,21 @@
+-- Deleting a user clears actor_id on their activity through its foreign key,
+-- which the append-only trigger used to reject, so users with activity could
+-- never be deleted. That one update is now let through; actor_email still
+-- records who it was.
+create or replace function public.reject_file_activity_change()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if old.actor_id is not null
+      and new.actor_id is null
+      and to_jsonb(new) - 'actor_id' = to_jsonb(old) - 'actor_id' then
+      return new;
+    end if;
+  end if;
+
+  raise exception 'file_activity is append-only' using errcode = '42501';
+end;
+$$;
@@ -0,0 +1,45 @@
+-- Before a file is trashed or replaced, the app gives its links a copy of
+-- their own (see src/lib/files/fileLinks.ts). That needs two things from the
+-- database.
+--
+-- move_file_links used to return quietly when the caller had no role on
+-- either path, leaving links pointing at a file that was about to go. It now
+-- raises, so the caller finds out.
+create or replace function public.move_file_links(from_path text, to_path text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.file_object_role(from_path), '') not in ('editor', 'owner')
+    or coalesce(public.file_object_role(to_path), '') not in ('editor', 'owner') then
+    raise exception 'Not allowed to move links to %', from_path using errcode = '42501';
+  end if;
+
+  update public.file_metadata
+  set link_target = to_path || substr(link_target, length(from_path) + 1)
+  where link_target = from_path
+    or left(link_target, length(from_path) + 1) = from_path || '/';
+end;
+$$;
+
+-- How many links point at each of the given files, counting links in
+-- folders the caller can't see, which RLS hides from a plain select. Only
+-- the counts for files the caller can access are returned, never the paths
+-- of the links.
+create or replace function public.count_file_links(target_paths text[])
+returns table (link_target text, links bigint)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select m.link_target, count(*)
+  from public.file_metadata m
+  where m.link_target = any(target_paths)
+    and public.file_object_role(m.link_target) is not null
+  group by m.link_target;
+$$;
+
+grant execute on function public.count_file_links(text[]) to authenticated;
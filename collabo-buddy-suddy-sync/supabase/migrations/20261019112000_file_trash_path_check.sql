@@ -0,0 +1,17 @@
+-- Access to everything under .trash/<id>/ is judged by the file_trash record
+-- whose trash_path is in that folder (see file_object_role). The insert
+-- policy only checked original_path, so an editor of any folder could record
+-- a trash_path under another entry's folder, or anywhere else under .trash/,
+-- and gain that folder's access. A record's trash_path must now be
+-- .trash/<its id>/<the trashed file's name>.
+drop policy if exists "Editors can trash files" on public.file_trash;
+
+create policy "Editors can trash files"
+  on public.file_trash for insert
+  to authenticated
+  with check (
+    deleted_by = auth.uid()
+    and public.file_folder_role(public.file_parent_path(original_path)) in ('editor', 'owner')
+    and name = regexp_replace(original_path, '^.*/', '')
+    and trash_path = '.trash/' || id::text || '/' || name
+  );
@@ -0,0 +1,21 @@
+-- Anyone who could see a share link could read its password hash and salt
+-- and try passwords offline. Only the share-link edge function needs them,
+-- and it uses the service role, so signed-in users now get every column but
+-- those two. has_password tells the app whether a link asks for one.
+alter table public.file_share_links
+  add column if not exists has_password boolean generated always as (password_hash is not null) stored;
+
+revoke select on public.file_share_links from anon, authenticated;
+grant select (
+  id,
+  token,
+  path,
+  expires_at,
+  has_password,
+  max_downloads,
+  download_count,
+  created_by,
+  created_by_email,
+  created_at,
+  revoked_at
+) on public.file_share_links to authenticated;